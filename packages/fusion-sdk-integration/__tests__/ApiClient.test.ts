@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { ApiClient, type ApiRetry } from '../src/utils/ApiClient';
+import { ApiError, OrderNotFoundError, RateLimitedError, ValidationError } from '../src/utils/apiErrors';
+
+const BASE_URL = 'https://relayer.test';
+
+type FetchMock = ReturnType<typeof vi.fn<(url: string, init: RequestInit) => Promise<Response>>>;
+
+function json(status: number, body?: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(body === undefined ? null : JSON.stringify(body), { status, headers });
+}
+
+describe('ApiClient', () => {
+  let fetchMock: FetchMock;
+  let retries: ApiRetry[];
+  let client: ApiClient;
+
+  beforeEach(() => {
+    fetchMock = vi.fn<(url: string, init: RequestInit) => Promise<Response>>();
+    vi.stubGlobal('fetch', fetchMock);
+    retries = [];
+    client = new ApiClient('key', {
+      baseUrl: `${BASE_URL}/`,
+      maxRetries: 3,
+      retryDelayMs: 1,
+      onRetry: retry => retries.push(retry)
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test('sends authenticated requests and parses the response', async () => {
+    fetchMock.mockResolvedValueOnce(json(200, { ok: true }));
+
+    await expect(client.get('/orders/active', { page: 2, limit: undefined })).resolves.toEqual({ ok: true });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe(`${BASE_URL}/orders/active?page=2`);
+    expect(init.headers).toMatchObject({ Authorization: 'Bearer key' });
+  });
+
+  test('retries GETs on server errors with exponential backoff', async () => {
+    fetchMock
+      .mockResolvedValueOnce(json(502))
+      .mockResolvedValueOnce(json(503))
+      .mockResolvedValueOnce(json(200, { ok: true }));
+
+    await expect(client.get('/quote')).resolves.toEqual({ ok: true });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(retries.map(({ attempt, delayMs }) => ({ attempt, delayMs }))).toEqual([
+      { attempt: 0, delayMs: 1 },
+      { attempt: 1, delayMs: 2 }
+    ]);
+    expect(retries[0]).toMatchObject({ method: 'GET', url: `${BASE_URL}/quote` });
+    expect(retries[0].error).toBeInstanceOf(ApiError);
+  });
+
+  test('gives up after maxRetries and throws the last error', async () => {
+    fetchMock.mockImplementation(async () => json(500, { description: 'boom' }));
+
+    await expect(client.get('/quote')).rejects.toThrow('failed with 500: boom');
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+    expect(retries).toHaveLength(3);
+  });
+
+  test('waits for Retry-After on rate limits, even for non-idempotent POSTs', async () => {
+    fetchMock
+      .mockResolvedValueOnce(json(429, undefined, { 'Retry-After': '0' }))
+      .mockResolvedValueOnce(json(200, { id: 1 }));
+
+    await expect(client.post('/orders/cancel', { id: 1 })).resolves.toEqual({ id: 1 });
+    expect(retries).toHaveLength(1);
+    expect(retries[0].error).toBeInstanceOf(RateLimitedError);
+    expect(retries[0].delayMs).toBe(0);
+  });
+
+  test('does not retry server errors on non-idempotent POSTs', async () => {
+    fetchMock.mockResolvedValueOnce(json(500));
+
+    await expect(client.post('/orders/cancel', { id: 1 })).rejects.toBeInstanceOf(ApiError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(retries).toEqual([]);
+  });
+
+  test('retries idempotent submissions with the same Idempotency-Key', async () => {
+    fetchMock
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(json(200, { submitted: true }));
+
+    await expect(client.post('/relayer/v1.0/submit', { order: {} })).resolves.toEqual({ submitted: true });
+
+    const keys = fetchMock.mock.calls.map(([, init]) => (init.headers as Record<string, string>)['Idempotency-Key']);
+    expect(keys[0]).toBeTruthy();
+    expect(keys[1]).toBe(keys[0]);
+  });
+
+  test('surfaces client errors as typed errors without retrying', async () => {
+    fetchMock
+      .mockResolvedValueOnce(json(404, { error: 'not found' }))
+      .mockResolvedValueOnce(json(422, { message: 'bad order' }));
+
+    await expect(client.get('/orders/0xabc')).rejects.toBeInstanceOf(OrderNotFoundError);
+    await expect(client.get('/quote')).rejects.toBeInstanceOf(ValidationError);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(retries).toEqual([]);
+  });
+});
@@ -0,0 +1,165 @@
+import { AccountAddress, Hex, MoveVector, U64, type U8 } from '@aptos-labs/ts-sdk';
+import { keccak256 } from 'ethers';
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+import { AptosChainAdapter } from '../src/adapters/AptosChainAdapter';
+import { APTOS_COIN_TYPE, APT_METADATA_ADDRESS } from '../src/adapters/aptosModules';
+import { SignatureScheme } from '../src/interfaces/IChainAdapter';
+import type { ISigner } from '../src/interfaces/ISigner';
+import type { UniversalAsset, UniversalTxParams } from '../src/utils/fusionUtils';
+import { DEFAULT_TIMELOCKS } from '../src/utils/timelocks';
+import { TEST_NOW as NOW } from './fixtures';
+
+const SENDER = `0x${'1'.repeat(64)}`;
+const RECIPIENT = `0x${'2'.repeat(64)}`;
+const HTLC = `0x${'c'.repeat(64)}::htlc`;
+const USDC_METADATA = `0x${'b'.repeat(64)}`;
+const SECRET = `0x${'11'.repeat(32)}`;
+const HASH_LOCK = keccak256(SECRET);
+
+/**
+ * Aptos client committing every transaction in block 10
+ */
+const client = vi.hoisted(() => {
+  const state = { timestamp: 0, success: true };
+  return {
+    state,
+    getLedgerInfo: vi.fn(async () => ({ chain_id: 4, block_height: '10', ledger_version: '100', ledger_timestamp: String(state.timestamp * 1_000_000) })),
+    view: vi.fn(async (): Promise<unknown[]> => []),
+    waitForTransaction: vi.fn(async ({ transactionHash }: { transactionHash: string }) => ({
+      type: 'user_transaction',
+      hash: transactionHash,
+      version: '100',
+      success: state.success,
+      gas_used: '12',
+      vm_status: state.success ? 'Executed successfully' : 'Move abort',
+      events: []
+    })),
+    getBlockByVersion: vi.fn(async () => ({ block_height: '10', block_hash: '0xblock' }))
+  };
+});
+
+vi.mock('@aptos-labs/ts-sdk', async importOriginal => ({
+  ...(await importOriginal<typeof import('@aptos-labs/ts-sdk')>()),
+  Aptos: vi.fn(() => client)
+}));
+
+const APT: UniversalAsset = { chainId: 'aptos', address: APTOS_COIN_TYPE, symbol: 'APT', decimals: 8, standard: 'APTOS_COIN' };
+const USDC: UniversalAsset = { chainId: 'aptos', address: USDC_METADATA, symbol: 'USDC', decimals: 6, standard: 'APTOS_FA' };
+const COIN: UniversalAsset = { chainId: 'aptos', address: `${SENDER}::coin::USDT`, symbol: 'USDT', decimals: 6, standard: 'APTOS_COIN' };
+
+/**
+ * Connected adapter whose entry-function calls are recorded instead of built
+ */
+async function createAdapter() {
+  const signer: ISigner = {
+    signatureScheme: SignatureScheme.ED25519,
+    getAddress: async () => SENDER,
+    signTransaction: async () => '0xsigned',
+    signMessage: async () => '0xsignature'
+  };
+  const adapter = new AptosChainAdapter('aptos', 'Aptos', APT);
+  await adapter.connect({ rpcUrl: 'http://aptos.test', signer, contractAddresses: { htlc: HTLC } });
+
+  const sent: UniversalTxParams[] = [];
+  vi.spyOn(adapter, 'signTransaction').mockImplementation(txParams => {
+    sent.push(txParams);
+    return Promise.resolve('0xsigned');
+  });
+  vi.spyOn(adapter, 'broadcastTransaction').mockResolvedValue({ txHash: '0xtx', status: 'pending' });
+  return { adapter, sent };
+}
+
+/**
+ * Entry function and decoded BCS arguments of a recorded call
+ */
+function decode(txParams: UniversalTxParams) {
+  const args = (txParams.chainSpecific?.functionArguments ?? []) as unknown[];
+  return {
+    function: txParams.to,
+    args: args.map(arg => {
+      if (arg instanceof AccountAddress) {
+        return arg.toString();
+      }
+      if (arg instanceof U64) {
+        return arg.value;
+      }
+      if (arg instanceof MoveVector) {
+        return Hex.fromHexInput(Uint8Array.from((arg.values as U8[]).map(byte => byte.value))).toString();
+      }
+      return arg;
+    })
+  };
+}
+
+describe('AptosChainAdapter', () => {
+  beforeEach(() => {
+    client.state.timestamp = NOW;
+    client.state.success = true;
+    client.view.mockReset();
+  });
+
+  test('locks APT under its fungible-asset metadata with the source delays', async () => {
+    const { adapter, sent } = await createAdapter();
+
+    const result = await adapter.lockFunds({ hashLock: HASH_LOCK, recipient: RECIPIENT, asset: APT, amount: '500', side: 'src', timelocks: DEFAULT_TIMELOCKS });
+
+    expect(decode(sent[0])).toEqual({
+      function: `${HTLC}::create_escrow`,
+      args: [
+        HASH_LOCK,
+        RECIPIENT,
+        AccountAddress.from(APT_METADATA_ADDRESS).toString(),
+        500n,
+        BigInt(DEFAULT_TIMELOCKS.srcWithdrawal),
+        BigInt(DEFAULT_TIMELOCKS.srcCancellation)
+      ]
+    });
+    expect(result).toMatchObject({ txHash: '0xtx', status: 'confirmed', blockNumber: 10, gasUsed: '12' });
+  });
+
+  test('locks fungible assets as is and coins under their paired metadata', async () => {
+    const { adapter, sent } = await createAdapter();
+    const params = { hashLock: HASH_LOCK, recipient: RECIPIENT, amount: '7', side: 'dst' as const, timelocks: DEFAULT_TIMELOCKS };
+
+    await adapter.lockFunds({ ...params, asset: USDC });
+    client.view.mockResolvedValueOnce([{ vec: [{ inner: USDC_METADATA }] }]);
+    await adapter.lockFunds({ ...params, asset: COIN });
+    client.view.mockResolvedValueOnce([{ vec: [] }]);
+    await expect(adapter.lockFunds({ ...params, asset: COIN })).rejects.toThrow('has no paired fungible asset');
+
+    expect(sent.map(txParams => decode(txParams).args[2])).toEqual([USDC_METADATA, USDC_METADATA]);
+    expect(decode(sent[0]).args.slice(4)).toEqual([BigInt(DEFAULT_TIMELOCKS.dstWithdrawal), BigInt(DEFAULT_TIMELOCKS.dstCancellation)]);
+    expect(client.view).toHaveBeenCalledWith({ payload: { function: '0x1::coin::paired_metadata', typeArguments: [COIN.address] } });
+  });
+
+  test('reveals only matching secrets inside the withdrawal window and refunds after it', async () => {
+    const { adapter, sent } = await createAdapter();
+    const escrow = { side: 'dst' as const, timelocks: DEFAULT_TIMELOCKS, deployedAt: NOW - DEFAULT_TIMELOCKS.dstWithdrawal };
+
+    await expect(adapter.revealSecret(HASH_LOCK, `0x${'22'.repeat(32)}`, escrow)).rejects.toThrow('does not match');
+    await expect(adapter.refundHashLock(HASH_LOCK, escrow)).rejects.toThrow('Cannot cancel');
+    await adapter.revealSecret(HASH_LOCK, SECRET, escrow);
+
+    client.state.timestamp = escrow.deployedAt + DEFAULT_TIMELOCKS.dstCancellation;
+    await adapter.refundHashLock(HASH_LOCK, escrow);
+
+    expect(sent.map(decode)).toEqual([
+      { function: `${HTLC}::withdraw`, args: [HASH_LOCK, SECRET] },
+      { function: `${HTLC}::refund`, args: [HASH_LOCK] }
+    ]);
+  });
+
+  test('reports aborted transactions as failed', async () => {
+    const { adapter } = await createAdapter();
+    client.state.success = false;
+
+    const result = await adapter.lockFunds({ hashLock: HASH_LOCK, recipient: RECIPIENT, asset: USDC, amount: '1', side: 'src', timelocks: DEFAULT_TIMELOCKS });
+    expect(result).toMatchObject({ status: 'failed', chainSpecific: { vmStatus: 'Move abort' } });
+  });
+
+  test('has no allowances to approve', async () => {
+    const { adapter } = await createAdapter();
+    await expect(adapter.approveAsset(USDC)).rejects.toThrow('does not require approval');
+    expect(await adapter.getAssetAllowance()).toBe(((1n << 64n) - 1n).toString());
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, expect, test } from 'vitest';
+import {
+  ChainAdapterFactory,
+  SUPPORTED_CHAINS,
+  getChainArchitecture,
+  getChainName,
+  getDefaultConfirmations,
+  getSupportedTokenStandards,
+  isEVMCompatible
+} from '../src/adapters/ChainAdapterFactory';
+import { type ChainDefinition, ChainRegistry, chainRegistry } from '../src/adapters/ChainRegistry';
+import { DEFAULT_CHAINS } from '../src/adapters/chains';
+import { EVMChainAdapter } from '../src/adapters/EVMChainAdapter';
+import { TezosChainAdapter } from '../src/adapters/TezosChainAdapter';
+import { TEZOS_NATIVE_ADDRESS } from '../src/adapters/tezosContracts';
+
+const TEZOS_GHOSTNET: ChainDefinition = {
+  id: 'NetXnHfVqm9iesp',
+  key: 'TEZOS_GHOSTNET',
+  name: 'Tezos Ghostnet',
+  architecture: 'Michelson',
+  adapter: 'tezos',
+  nativeAsset: { address: TEZOS_NATIVE_ADDRESS, symbol: 'XTZ', decimals: 6 },
+  tokenStandards: ['NATIVE', 'FA1.2', 'FA2'],
+  rpcUrls: ['https://rpc.ghostnet.teztnets.com'],
+  explorers: [{ name: 'TzKT', url: 'https://ghostnet.tzkt.io' }],
+  confirmations: 2,
+  contracts: { htlc: 'KT1PWx2mnDueood7fEmfbBDKx1D9BAnnXitn' },
+  testnet: true
+};
+
+describe('ChainAdapterFactory', () => {
+  test('derives every chain helper from the registry', () => {
+    for (const chain of DEFAULT_CHAINS) {
+      expect(SUPPORTED_CHAINS[chain.key]).toBe(chain.id);
+      expect(getChainName(chain.id)).toBe(chainRegistry.get(chain.id).name);
+      expect(getDefaultConfirmations(chain.id)).toBe(chain.confirmations);
+      expect(getChainArchitecture(chain.id)).toBe(chain.architecture);
+      expect(isEVMCompatible(chain.id)).toBe(chain.architecture === 'EVM');
+      expect(getSupportedTokenStandards(chain.id)).toEqual([...chain.tokenStandards]);
+    }
+    expect(getChainName(999)).toBe('Chain 999');
+    expect(getChainArchitecture(999)).toBe('Unknown');
+  });
+
+  test('registers an adapter for every registry chain with its native asset', () => {
+    const factory = new ChainAdapterFactory(new ChainRegistry(DEFAULT_CHAINS));
+
+    expect(factory.getSupportedChains()).toEqual(DEFAULT_CHAINS.map(chain => chain.id.toString()));
+    const etherlink = factory.createAdapter(SUPPORTED_CHAINS.ETHERLINK);
+    expect(etherlink).toBeInstanceOf(EVMChainAdapter);
+    expect(etherlink).toMatchObject({ chainId: 128123, chainName: 'Etherlink' });
+    expect(etherlink.nativeAsset).toEqual(chainRegistry.getNativeAsset(SUPPORTED_CHAINS.ETHERLINK));
+    expect(factory.createAdapter('128123')).toBe(etherlink);
+  });
+
+  test('picks up chains registered at runtime without touching the default registry', () => {
+    const registry = new ChainRegistry(DEFAULT_CHAINS);
+    const factory = new ChainAdapterFactory(registry);
+
+    factory.registerChain(TEZOS_GHOSTNET);
+
+    expect(registry.get(TEZOS_GHOSTNET.id)).toBe(TEZOS_GHOSTNET);
+    expect(factory.createAdapter(TEZOS_GHOSTNET.id)).toBeInstanceOf(TezosChainAdapter);
+    expect(factory.getChainName(TEZOS_GHOSTNET.id)).toBe('Tezos Ghostnet');
+    expect(factory.getChainArchitecture(TEZOS_GHOSTNET.id)).toBe('Michelson');
+    expect(factory.getChainConfig(TEZOS_GHOSTNET.id)).toEqual(registry.getChainConfig(TEZOS_GHOSTNET.id));
+    expect(factory.getChainConfig(TEZOS_GHOSTNET.id, { rpcUrl: 'http://localhost:8732' })).toMatchObject({
+      rpcUrl: 'http://localhost:8732',
+      confirmations: 2,
+      contractAddresses: { htlc: TEZOS_GHOSTNET.contracts.htlc }
+    });
+    expect(chainRegistry.has(TEZOS_GHOSTNET.id)).toBe(false);
+    expect(getChainName(TEZOS_GHOSTNET.id)).toBe(`Chain ${TEZOS_GHOSTNET.id}`);
+  });
+});
+
+describe('ChainRegistry', () => {
+  test('points the Etherlink testnet at its ghostnet RPC', () => {
+    const etherlink = chainRegistry.get(SUPPORTED_CHAINS.ETHERLINK);
+    expect(etherlink.testnet).toBe(true);
+    expect(chainRegistry.getChainConfig(SUPPORTED_CHAINS.ETHERLINK).rpcUrl).toBe('https://node.ghostnet.etherlink.com');
+  });
+
+  test('loads validated chains from JSON', () => {
+    const registry = ChainRegistry.fromJSON(JSON.stringify([TEZOS_GHOSTNET]));
+    expect(registry.list({ testnet: true })).toEqual([TEZOS_GHOSTNET]);
+    expect(() => ChainRegistry.fromJSON(JSON.stringify([{ ...TEZOS_GHOSTNET, architecture: 'EVM' }])))
+      .toThrow('tezos adapters serve Michelson chains, not EVM');
+  });
+});
@@ -0,0 +1,163 @@
+import { ContractFactory, JsonRpcProvider, Transaction, Wallet, isHexString, keccak256, verifyMessage } from 'ethers';
+import { afterAll, beforeAll, describe, expect, test } from 'vitest';
+import { EVMChainAdapter } from '../src/adapters/EVMChainAdapter';
+import { NATIVE_ASSET_ADDRESS } from '../src/adapters/evmAbis';
+import type { UniversalAsset } from '../src/utils/fusionUtils';
+
+/**
+ * Local Anvil or Hardhat node; the suite is skipped when none answers
+ */
+const RPC_URL = process.env.EVM_TEST_RPC_URL ?? 'http://127.0.0.1:8545';
+const CHAIN_ID = 31337;
+
+// First two dev accounts of Anvil and Hardhat
+const MAKER_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const MAKER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const OTHER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+/**
+ * Creation code of a minimal ERC20, compiled with solc 0.8.26 (optimizer on, paris):
+ *
+ * contract TestToken {
+ *   string public constant symbol = "TST";
+ *   uint8 public constant decimals = 6;
+ *   mapping(address => uint256) public balanceOf;
+ *   mapping(address => mapping(address => uint256)) public allowance;
+ *   constructor(uint256 supply) { balanceOf[msg.sender] = supply; }
+ *   function transfer(address to, uint256 amount) external returns (bool) { ... }
+ *   function approve(address spender, uint256 amount) external returns (bool) { ... }
+ * }
+ */
+const TOKEN_BYTECODE = '0x' +
+  '6080604052348015600f57600080fd5b50604051610390380380610390833981016040819052602c916040565b3360009081' +
+  '52602081905260409020556058565b600060208284031215605157600080fd5b5051919050565b6103298061006760003960' +
+  '00f3fe608060405234801561001057600080fd5b50600436106100625760003560e01c8063095ea7b314610067578063313c' +
+  'e5671461008f57806370a08231146100a957806395d89b41146100d7578063a9059cbb14610106578063dd62ed3e14610119' +
+  '575b600080fd5b61007a6100753660046101ea565b610144565b60405190151581526020015b60405180910390f35b610097' +
+  '600681565b60405160ff9091168152602001610086565b6100c96100b7366004610214565b60006020819052908152604090' +
+  '205481565b604051908152602001610086565b6100f9604051806040016040528060038152602001621514d560ea1b815250' +
+  '81565b6040516100869190610236565b61007a6101143660046101ea565b610172565b6100c9610127366004610284565b60' +
+  '0160209081526000928352604080842090915290825290205481565b33600090815260016020818152604080842060016001' +
+  '60a01b03871685529091529091208290555b92915050565b3360009081526020819052604081208054839190839061019390' +
+  '84906102cd565b90915550506001600160a01b038316600090815260208190526040812080548492906101c09084906102e0' +
+  '565b909155506001949350505050565b80356001600160a01b03811681146101e557600080fd5b919050565b600080604083' +
+  '850312156101fd57600080fd5b610206836101ce565b946020939093013593505050565b6000602082840312156102265760' +
+  '0080fd5b61022f826101ce565b9392505050565b602081526000825180602084015260005b81811015610264576020818601' +
+  '8101516040868401015201610247565b506000604082850101526040601f19601f83011684010191505092915050565b6000' +
+  '806040838503121561029757600080fd5b6102a0836101ce565b91506102ae602084016101ce565b90509250929050565b63' +
+  '4e487b7160e01b600052601160045260246000fd5b8181038181111561016c5761016c6102b7565b8082018082111561016c' +
+  '5761016c6102b756fea26469706673582212204842464d81a2f789470edf686ac5da60e0b9bc4f658fae0b1930fefd40c37c' +
+  '5664736f6c634300081a0033';
+const TOKEN_ABI = ['constructor(uint256 supply)', 'function transfer(address to, uint256 amount) returns (bool)'];
+const TOKEN_SUPPLY = 1_000_000n;
+
+const NATIVE: UniversalAsset = { chainId: CHAIN_ID, address: NATIVE_ASSET_ADDRESS, symbol: 'ETH', decimals: 18, standard: 'NATIVE' };
+
+async function isNodeAvailable(): Promise<boolean> {
+  try {
+    const response = await fetch(RPC_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'eth_chainId', params: [] }),
+      signal: AbortSignal.timeout(1000)
+    });
+    const { result } = await response.json();
+    return Number(result) === CHAIN_ID;
+  } catch {
+    return false;
+  }
+}
+
+describe.skipIf(!(await isNodeAvailable()))('EVMChainAdapter on a local node', () => {
+  const adapter = new EVMChainAdapter(CHAIN_ID, 'Local', NATIVE);
+  let token: UniversalAsset;
+
+  beforeAll(async () => {
+    await adapter.connect({ rpcUrl: RPC_URL, privateKey: MAKER_KEY });
+
+    // Deployed with a wallet of its own, so the adapter's nonce lookups see it as pending state
+    const provider = new JsonRpcProvider(RPC_URL, CHAIN_ID, { staticNetwork: true });
+    const factory = new ContractFactory(TOKEN_ABI, TOKEN_BYTECODE, new Wallet(MAKER_KEY, provider));
+    const contract = await factory.deploy(TOKEN_SUPPLY);
+    await contract.waitForDeployment();
+    token = await adapter.getAssetMetadata(await contract.getAddress());
+    provider.destroy();
+  });
+
+  afterAll(async () => {
+    await adapter.disconnect();
+  });
+
+  test('reads token metadata and balances', async () => {
+    expect(token).toMatchObject({ chainId: CHAIN_ID, symbol: 'TST', decimals: 6, standard: 'ERC20' });
+    expect(await adapter.getBalance(token)).toBe(TOKEN_SUPPLY.toString());
+    expect(await adapter.getBalance(token, OTHER)).toBe('0');
+    expect(BigInt(await adapter.getBalance(NATIVE))).toBeGreaterThan(0n);
+  });
+
+  test('approves a spender and reads the allowance back', async () => {
+    const result = await adapter.approveAsset(token, OTHER, '1234');
+    expect(result).toMatchObject({ status: 'confirmed' });
+    expect(result.blockNumber).toBeGreaterThan(0);
+    expect(await adapter.getAssetAllowance(token, MAKER, OTHER)).toBe('1234');
+    expect(await adapter.getAssetAllowance(NATIVE, MAKER, OTHER)).toBe(((1n << 256n) - 1n).toString());
+    await expect(adapter.approveAsset(NATIVE, OTHER, '1')).rejects.toThrow('does not require approval');
+  });
+
+  test('signs messages and complete transactions with the configured key', async () => {
+    expect(await adapter.getAddress()).toBe(MAKER);
+    expect(verifyMessage('hello', await adapter.signMessage('hello'))).toBe(MAKER);
+
+    const nonce = await adapter.getNonce();
+    const signed = Transaction.from(await adapter.signTransaction({ to: OTHER, value: '1' }));
+    expect(signed.from).toBe(MAKER);
+    expect(signed.chainId).toBe(BigInt(CHAIN_ID));
+    expect(signed.nonce).toBe(nonce);
+    expect(signed.gasLimit).toBeGreaterThanOrEqual(21000n);
+  });
+
+  test('broadcasts a transfer, advances the nonce and reports the receipt', async () => {
+    const nonce = await adapter.getNonce();
+    const before = BigInt(await adapter.getBalance(NATIVE, OTHER));
+
+    const { txHash, status } = await adapter.broadcastTransaction(await adapter.signTransaction({ to: OTHER, value: '1000' }));
+    expect(status).toBe('pending');
+
+    const receipt = await waitForReceipt(adapter, txHash);
+    expect(receipt).toMatchObject({ txHash, status: 'confirmed', gasUsed: '21000' });
+    expect(isHexString(receipt.chainSpecific?.blockHash, 32)).toBe(true);
+    expect(await adapter.getNonce()).toBe(nonce + 1);
+    expect(BigInt(await adapter.getBalance(NATIVE, OTHER))).toBe(before + 1000n);
+  });
+
+  test('reports reverted transactions as failed', async () => {
+    const data = new ContractFactory(TOKEN_ABI, TOKEN_BYTECODE).interface.encodeFunctionData('transfer', [OTHER, TOKEN_SUPPLY + 1n]);
+    // An explicit gas limit skips estimation, which would refuse the reverting call
+    const signed = await adapter.signTransaction({ to: token.address, data, gasLimit: '100000' });
+    const txHash = keccak256(signed);
+    await adapter.broadcastTransaction(signed).catch(() => undefined); // Hardhat rejects reverts it mines
+
+    expect(await waitForReceipt(adapter, txHash)).toMatchObject({ txHash, status: 'failed' });
+  });
+
+  test('estimates gas and reports unknown transactions as pending', async () => {
+    // Hardhat pads plain transfers to 21001
+    expect(Number(await adapter.estimateGas({ to: OTHER, value: '1' }))).toBeGreaterThanOrEqual(21000);
+    const data = new ContractFactory(TOKEN_ABI, TOKEN_BYTECODE).interface.encodeFunctionData('transfer', [OTHER, 1n]);
+    expect(BigInt(await adapter.estimateGas({ to: token.address, data }))).toBeGreaterThan(21000n);
+
+    const unknown = `0x${'ab'.repeat(32)}`;
+    expect(await adapter.getTransactionStatus(unknown)).toEqual({ txHash: unknown, status: 'pending' });
+  });
+});
+
+async function waitForReceipt(adapter: EVMChainAdapter, txHash: string) {
+  for (let attempt = 0; attempt < 50; attempt++) {
+    const result = await adapter.getTransactionStatus(txHash);
+    if (result.status !== 'pending') {
+      return result;
+    }
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+  throw new Error(`Transaction ${txHash} was not mined`);
+}
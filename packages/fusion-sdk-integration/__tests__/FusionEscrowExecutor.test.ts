@@ -0,0 +1,213 @@
+import { EvmAddress, NetworkEnum } from '@1inch/cross-chain-sdk';
+import { Interface, Signature, getAddress, keccak256 } from 'ethers';
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+import { ESCROW_FACTORY_ABI, NATIVE_ASSET_ADDRESS, RESOLVER_ABI } from '../src/adapters/evmAbis';
+import type { ChainTxResult, IChainAdapter } from '../src/interfaces/IChainAdapter';
+import { type EscrowDeployment, type FillPlan, TransactionTimeoutError } from '../src/interfaces/IEscrowExecutor';
+import { FusionEscrowExecutor, type ResolverChainConfig } from '../src/resolver/FusionEscrowExecutor';
+import type { FusionOrderData } from '../src/resolver/FusionOrderSource';
+import type { UniversalTxParams } from '../src/utils/fusionUtils';
+import { PartialFillError } from '../src/utils/partialFills';
+import { TEST_NOW as NOW, createFusionOrder, createResolverOrder } from './fixtures';
+
+const RESOLVER = `0x${'cc'.repeat(20)}`;
+const SRC_FACTORY = `0x${'fa'.repeat(20)}`;
+const DST_FACTORY = `0x${'fb'.repeat(20)}`;
+const DST_ESCROW = `0x${'de'.repeat(20)}`;
+const SECRET = `0x${'11'.repeat(32)}`;
+
+const resolverInterface = new Interface(RESOLVER_ABI);
+const factoryInterface = new Interface(ESCROW_FACTORY_ABI);
+const fusionOrder = createFusionOrder();
+const signature = Signature.from({ r: `0x${'12'.repeat(32)}`, s: `0x${'34'.repeat(32)}`, v: 27 }).serialized;
+
+/**
+ * Adapter recording transactions and reporting each with the current status and logs
+ */
+function createAdapter(chainId: number) {
+  const sent: UniversalTxParams[] = [];
+  const state = { status: 'confirmed' as ChainTxResult['status'], logs: [] as unknown[] };
+  const adapter = {
+    chainId,
+    chainName: `chain ${chainId}`,
+    signTransaction: vi.fn((txParams: UniversalTxParams) => {
+      sent.push(txParams);
+      return Promise.resolve('0xsigned');
+    }),
+    broadcastTransaction: vi.fn(async () => ({ txHash: `0xtx${sent.length}`, status: 'pending' })),
+    getTransactionStatus: vi.fn(async (txHash: string): Promise<ChainTxResult> => ({
+      txHash,
+      status: state.status,
+      blockNumber: 7,
+      chainSpecific: { logs: state.logs }
+    })),
+    getBlockTimestamp: vi.fn(async () => NOW + 20)
+  };
+  return { adapter, sent, state };
+}
+
+/**
+ * `SrcEscrowCreated` log of the fixture order filled by the resolver at `TEST_NOW`
+ */
+function srcEscrowCreated() {
+  const immutables = fusionOrder
+    .toSrcImmutables(NetworkEnum.ETHEREUM, EvmAddress.fromString(RESOLVER), 1000n, fusionOrder.hashLock)
+    .withDeployedAt(BigInt(NOW))
+    .build();
+  const { data, topics } = factoryInterface.encodeEventLog('SrcEscrowCreated', [
+    {
+      ...immutables,
+      maker: BigInt(immutables.maker),
+      taker: BigInt(immutables.taker),
+      token: BigInt(immutables.token)
+    },
+    {
+      maker: BigInt(fusionOrder.maker.toString()),
+      amount: 990n,
+      token: BigInt(fusionOrder.takerAsset.toString()),
+      safetyDeposit: 5n,
+      chainId: BigInt(NetworkEnum.COINBASE)
+    }
+  ]);
+  return { address: SRC_FACTORY, data, topics };
+}
+
+function dstEscrowCreated() {
+  const { data, topics } = factoryInterface.encodeEventLog('DstEscrowCreated', [DST_ESCROW, fusionOrder.hashLock.toString(), BigInt(RESOLVER)]);
+  return { address: DST_FACTORY, data, topics };
+}
+
+describe('FusionEscrowExecutor', () => {
+  const order = createResolverOrder({
+    srcChain: NetworkEnum.ETHEREUM,
+    dstChain: NetworkEnum.COINBASE,
+    raw: { srcChainId: NetworkEnum.ETHEREUM, order: fusionOrder, signature } satisfies FusionOrderData
+  });
+  const plan: FillPlan = { makingAmount: 1000n, takingAmount: 995n, secretIndex: 0 };
+  let src: ReturnType<typeof createAdapter>;
+  let dst: ReturnType<typeof createAdapter>;
+  let executor: FusionEscrowExecutor;
+
+  beforeEach(() => {
+    src = createAdapter(NetworkEnum.ETHEREUM);
+    dst = createAdapter(NetworkEnum.COINBASE);
+    const chain = (adapter: unknown, escrowFactory: string): ResolverChainConfig => ({
+      adapter: adapter as IChainAdapter,
+      resolverContract: RESOLVER,
+      escrowFactory,
+      srcEscrowImplementation: `0x${'ee'.repeat(20)}`
+    });
+    executor = new FusionEscrowExecutor(new Map([
+      [NetworkEnum.ETHEREUM, chain(src.adapter, SRC_FACTORY)],
+      [NetworkEnum.COINBASE, chain(dst.adapter, DST_FACTORY)]
+    ]), { confirmationTimeoutMs: 0 });
+  });
+
+  test('fills the order through the resolver and reads the source escrow from the factory event', async () => {
+    src.state.logs = [srcEscrowCreated()];
+
+    const escrow = await executor.deploySrcEscrow(order, plan);
+
+    const [tx] = src.sent;
+    expect(tx).toMatchObject({ to: RESOLVER, value: '10' });
+    const args = resolverInterface.decodeFunctionData('deploySrc', tx.data as string);
+    expect(args.immutables.hashlock).toBe(fusionOrder.hashLock.toString());
+    expect(args.order.makingAmount).toBe(1000n);
+    expect(args.amount).toBe(1000n);
+    expect(args.r).toBe(`0x${'12'.repeat(32)}`);
+
+    expect(escrow).toMatchObject({
+      side: 'src',
+      chainId: NetworkEnum.ETHEREUM,
+      txHash: '0xtx1',
+      amount: 1000n,
+      deployedAt: NOW,
+      withdrawableAt: NOW + 10,
+      publicWithdrawableAt: NOW + 120,
+      cancellableAt: NOW + 600,
+      publicCancellableAt: NOW + 900,
+      details: {
+        dstMaker: fusionOrder.maker.toString(),
+        dstAmount: '990',
+        dstToken: fusionOrder.takerAsset.toString(),
+        dstSafetyDeposit: '5'
+      }
+    });
+    await expect(executor.getSrcEscrow(order, '0xtx1')).resolves.toEqual(escrow);
+  });
+
+  test('checks the fill proof before paying for a partial fill', async () => {
+    const secretHashes = [keccak256(SECRET), keccak256(`0x${'22'.repeat(32)}`)];
+    const partial = { ...order, multipleFillsAllowed: true, secretHashes };
+
+    await expect(executor.deploySrcEscrow(partial, { ...plan, secretIndex: 1, secretHash: secretHashes[1] }))
+      .rejects.toThrow(PartialFillError);
+    expect(src.sent).toEqual([]);
+  });
+
+  test('reports reverted and unconfirmed transactions', async () => {
+    src.state.status = 'failed';
+    await expect(executor.deploySrcEscrow(order, plan)).rejects.toThrow(`Transaction 0xtx1 on chain ${NetworkEnum.ETHEREUM} reverted`);
+    await expect(executor.getSrcEscrow(order, '0xtx1')).rejects.toThrow('is failed');
+
+    src.state.status = 'pending';
+    const error = await executor.deploySrcEscrow(order, plan).catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(TransactionTimeoutError);
+    expect(error).toMatchObject({ chainId: NetworkEnum.ETHEREUM, txHash: '0xtx2' });
+  });
+
+  test('mirrors the source escrow on the destination chain', async () => {
+    src.state.logs = [srcEscrowCreated()];
+    dst.state.logs = [dstEscrowCreated()];
+    const srcEscrow = await executor.deploySrcEscrow(order, plan);
+
+    const escrow = await executor.deployDstEscrow(order, srcEscrow);
+
+    const [tx] = dst.sent;
+    expect(tx).toMatchObject({ to: RESOLVER, value: '5' });
+    const args = resolverInterface.decodeFunctionData('deployDst', tx.data as string);
+    expect(args.srcCancellationTimestamp).toBe(BigInt(NOW + 600));
+    expect(args.dstImmutables.amount).toBe(990n);
+    expect(args.dstImmutables.taker).toBe(BigInt(RESOLVER));
+
+    expect(escrow).toMatchObject({
+      side: 'dst',
+      chainId: NetworkEnum.COINBASE,
+      address: getAddress(DST_ESCROW),
+      amount: 990n,
+      deployedAt: NOW + 20,
+      withdrawableAt: NOW + 30,
+      publicWithdrawableAt: NOW + 120,
+      cancellableAt: NOW + 520
+    });
+    expect(escrow.publicCancellableAt).toBeUndefined();
+  });
+
+  test('sends native destination amounts with the safety deposit', async () => {
+    src.state.logs = [srcEscrowCreated()];
+    dst.state.logs = [dstEscrowCreated()];
+    const srcEscrow = await executor.deploySrcEscrow(order, plan);
+    const details = { ...srcEscrow.details, dstToken: NATIVE_ASSET_ADDRESS } as Record<string, string>;
+
+    await executor.deployDstEscrow(order, { ...srcEscrow, details });
+    expect(dst.sent[0].value).toBe('995');
+
+    await expect(executor.deployDstEscrow(order, { ...srcEscrow, details: undefined })).rejects.toThrow('has no destination complement');
+  });
+
+  test('withdraws and cancels through the resolver on the escrow chain', async () => {
+    const immutables = fusionOrder
+      .toSrcImmutables(NetworkEnum.ETHEREUM, EvmAddress.fromString(RESOLVER), 1000n, fusionOrder.hashLock)
+      .build();
+    const escrow = { chainId: NetworkEnum.COINBASE, address: DST_ESCROW, immutables } as unknown as EscrowDeployment;
+
+    await expect(executor.withdraw(escrow, SECRET)).resolves.toBe('0xtx1');
+    await expect(executor.cancel(escrow)).resolves.toBe('0xtx2');
+
+    expect(dst.sent.map(tx => tx.data)).toEqual([
+      resolverInterface.encodeFunctionData('withdraw', [DST_ESCROW, SECRET, immutables]),
+      resolverInterface.encodeFunctionData('cancel', [DST_ESCROW, immutables])
+    ]);
+    expect(src.sent).toEqual([]);
+  });
+});
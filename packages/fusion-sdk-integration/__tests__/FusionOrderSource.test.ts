@@ -0,0 +1,104 @@
+import { type ActiveOrder, type ActiveOrdersResponse, type SDK as CrossChainSDK, NetworkEnum } from '@1inch/cross-chain-sdk';
+import { describe, expect, test, vi } from 'vitest';
+import { type FusionOrderData, FusionOrderSource } from '../src/resolver/FusionOrderSource';
+import { TEST_NOW as NOW, createFusionOrder } from './fixtures';
+
+const fusionOrder = createFusionOrder();
+
+/**
+ * EVM-sourced relayer order wrapping the fixture order
+ */
+function createActiveOrder(orderHash: string): Extract<ActiveOrder, { extension: string }> {
+  return {
+    quoteId: 'quote',
+    orderHash,
+    deadline: new Date(Number(fusionOrder.deadline) * 1000).toISOString(),
+    auctionStartDate: new Date(NOW * 1000).toISOString(),
+    auctionEndDate: new Date((NOW + 180) * 1000).toISOString(),
+    srcChainId: NetworkEnum.ETHEREUM,
+    dstChainId: NetworkEnum.COINBASE,
+    remainingMakerAmount: '600',
+    secretHashes: undefined,
+    fills: [],
+    order: fusionOrder.build(),
+    isMakerContract: false,
+    signature: '0xsignature',
+    makerBalance: '1000',
+    makerAllowance: '1000',
+    extension: fusionOrder.extension.encode()
+  };
+}
+
+/**
+ * SDK serving `pages` of active orders
+ */
+function createSdk(pages: ActiveOrder[][]) {
+  return {
+    getActiveOrders: vi.fn(async ({ page = 1 }: { page?: number } = {}): Promise<ActiveOrdersResponse> => ({
+      items: pages[page - 1] ?? [],
+      meta: { totalItems: pages.flat().length, itemsPerPage: 1, totalPages: pages.length, currentPage: page }
+    })),
+    getPublishedSecrets: vi.fn(async () => ({
+      orderType: 'MultipleFills',
+      secrets: [{ idx: 0, secret: '0xsecret0' }, { idx: 2, secret: '0xsecret2' }]
+    }))
+  };
+}
+
+describe('FusionOrderSource', () => {
+  test('maps EVM-sourced orders with their auction price', async () => {
+    const sdk = createSdk([[createActiveOrder('0xfirst')]]);
+    const [order] = await new FusionOrderSource(sdk as unknown as CrossChainSDK).fetchActiveOrders();
+
+    expect(order).toMatchObject({
+      orderHash: '0xfirst',
+      srcChain: NetworkEnum.ETHEREUM,
+      dstChain: NetworkEnum.COINBASE,
+      maker: fusionOrder.maker.toString(),
+      srcToken: '0x0000000000000000000000000000000000000001',
+      dstToken: '0x0000000000000000000000000000000000000002',
+      makingAmount: 1000n,
+      takingAmount: 990n,
+      remainingMakingAmount: 600n,
+      auctionStartTime: NOW,
+      auctionEndTime: NOW + 180,
+      srcSafetyDeposit: 10n,
+      dstSafetyDeposit: 5n,
+      multipleFillsAllowed: false
+    });
+    // The rate bump starts at 1% and decays to nothing by the end of the auction
+    expect(order.getTakingAmount(1000n, NOW)).toBe(1000n);
+    expect(order.getTakingAmount(1000n, NOW + 180)).toBe(990n);
+    expect(order.raw as FusionOrderData).toMatchObject({ srcChainId: NetworkEnum.ETHEREUM, signature: '0xsignature' });
+    expect((order.raw as FusionOrderData).order.getOrderHash(NetworkEnum.ETHEREUM)).toBe(fusionOrder.getOrderHash(NetworkEnum.ETHEREUM));
+  });
+
+  test('pages through the relayer up to the page limit and leaves out Solana orders', async () => {
+    // Solana-sourced orders carry no EVM extension
+    const { extension: _extension, ...solana } = { ...createActiveOrder('0xsolana'), srcChainId: NetworkEnum.SOLANA };
+    const sdk = createSdk([
+      [createActiveOrder('0x1'), solana as unknown as ActiveOrder],
+      [createActiveOrder('0x2')],
+      [createActiveOrder('0x3')]
+    ]);
+    const source = new FusionOrderSource(sdk as unknown as CrossChainSDK, { srcChainId: NetworkEnum.ETHEREUM, pageSize: 2, maxPages: 2 });
+
+    const orders = await source.fetchActiveOrders();
+
+    expect(orders.map(order => order.orderHash)).toEqual(['0x1', '0x2']);
+    expect(sdk.getActiveOrders).toHaveBeenCalledTimes(2);
+    expect(sdk.getActiveOrders).toHaveBeenCalledWith({ page: 2, limit: 2, srcChainId: NetworkEnum.ETHEREUM, dstChainId: undefined });
+  });
+
+  test('stops paging on the last page', async () => {
+    const sdk = createSdk([[createActiveOrder('0x1')]]);
+    await new FusionOrderSource(sdk as unknown as CrossChainSDK).fetchActiveOrders();
+    expect(sdk.getActiveOrders).toHaveBeenCalledTimes(1);
+  });
+
+  test('returns the secret published for a fill index', async () => {
+    const source = new FusionOrderSource(createSdk([]) as unknown as CrossChainSDK);
+    await expect(source.getPublishedSecret('0xorder', 2)).resolves.toBe('0xsecret2');
+    await expect(source.getPublishedSecret('0xorder', 1)).resolves.toBeUndefined();
+  });
+});
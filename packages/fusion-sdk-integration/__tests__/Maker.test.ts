@@ -0,0 +1,64 @@
+import { describe, expect, test, vi } from 'vitest';
+import { Maker } from '../src/core/Maker';
+import type { IConnector } from '../src/interfaces/IConnector';
+import type { Order } from '../src/interfaces/Order';
+import type { GeneralizedFusionOrderManager } from '../src/orders/fusionOrders';
+import type { ApiClient } from '../src/utils/ApiClient';
+import { OrderStatus } from '../src/utils/fusionUtils';
+import { TEST_NOW as NOW, createOrder } from './fixtures';
+
+const ORDER: Order = {
+  id: 'draft',
+  fromToken: '0x0000000000000000000000000000000000000001',
+  toToken: '0x0000000000000000000000000000000000000002',
+  fromAmount: '1000',
+  toAmount: '990',
+  makerAddress: '0xmaker',
+  deadline: NOW + 3600,
+  dstChain: 8453
+};
+
+/**
+ * Maker over a connector on chain 1 and a stubbed manager
+ */
+function createMaker(withManager = true) {
+  const connector = { getChainId: vi.fn(async () => 1) } as unknown as IConnector;
+  const apiClient = { get: vi.fn(), post: vi.fn() };
+  const manager = {
+    createOrder: vi.fn(async () => '0xorder'),
+    getOrder: vi.fn(() => createOrder({ status: OrderStatus.EXECUTED })),
+    cancelOrder: vi.fn()
+  };
+  const maker = new Maker(connector, apiClient as unknown as ApiClient, undefined, {
+    manager: withManager ? manager as unknown as GeneralizedFusionOrderManager : undefined
+  });
+  return { maker, manager, apiClient };
+}
+
+describe('Maker', () => {
+  test('places orders through the manager, on the connector chain by default', async () => {
+    const { maker, manager, apiClient } = createMaker();
+
+    await expect(maker.placeOrder(ORDER)).resolves.toBe('0xorder');
+    expect(manager.createOrder).toHaveBeenCalledWith(expect.objectContaining({
+      srcChainId: 1,
+      dstChainId: 8453,
+      amount: '1000',
+      minReturn: '990',
+      walletAddress: '0xmaker'
+    }));
+    expect(apiClient.post).not.toHaveBeenCalled();
+  });
+
+  test('needs a manager to place orders', async () => {
+    await expect(createMaker(false).maker.placeOrder(ORDER)).rejects.toThrow('requires an order manager');
+  });
+
+  test('does not cancel tracked orders that already settled', async () => {
+    const { maker, manager, apiClient } = createMaker();
+
+    await expect(maker.cancelOrder('0xorder')).resolves.toBe(false);
+    expect(manager.cancelOrder).not.toHaveBeenCalled();
+    expect(apiClient.get).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,173 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { type PollOutcome, PollingScheduler } from '../src/core/PollingScheduler';
+
+const START = 1_700_000_000_000;
+
+/**
+ * Promise whose settlement the test controls
+ */
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(done => {
+    resolve = done;
+  });
+  return { promise, resolve };
+}
+
+/**
+ * Task recording when it ran, relative to the test start
+ */
+function recordingTask(outcomes: (PollOutcome | Error)[] = []) {
+  const runs: number[] = [];
+  const run = vi.fn(() => {
+    runs.push(Date.now() - START);
+    const outcome = outcomes.shift() ?? 'unchanged';
+    return outcome instanceof Error ? Promise.reject(outcome) : Promise.resolve(outcome);
+  });
+  return { runs, run };
+}
+
+describe('PollingScheduler', () => {
+  let scheduler: PollingScheduler;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: START });
+    scheduler = new PollingScheduler({
+      jitterRatio: 0,
+      defaultGroup: { minIntervalMs: 100, maxIntervalMs: 1000 }
+    });
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  test('runs the due tasks of a group in one tick and keeps groups apart', async () => {
+    scheduler.configureGroup('slow', { minIntervalMs: 500 });
+    const first = recordingTask(['changed']);
+    const second = recordingTask(['changed']);
+    const slow = recordingTask(['changed']);
+    scheduler.schedule('fast', 'a', first.run);
+    scheduler.schedule('fast', 'b', second.run);
+    scheduler.schedule('slow', 'c', slow.run);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(first.runs).toEqual([100]);
+    expect(second.runs).toEqual([100]);
+    expect(slow.runs).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(400);
+    expect(slow.runs).toEqual([500]);
+
+    const { groups, totalTasks } = scheduler.getMetrics();
+    expect(totalTasks).toBe(3);
+    expect(groups.fast).toMatchObject({ tasks: 2, ticks: 3 });
+    expect(groups.slow).toMatchObject({ tasks: 1, ticks: 1 });
+  });
+
+  test('never starts a tick while the previous one is still running', async () => {
+    const pending = deferred<PollOutcome>();
+    const run = vi.fn(() => pending.promise);
+    scheduler.schedule('chain', 'tx', run);
+
+    await vi.advanceTimersByTimeAsync(100);
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(scheduler.getMetrics().groups.chain).toMatchObject({ inFlight: 1, ticks: 0 });
+
+    pending.resolve('changed');
+    await vi.advanceTimersByTimeAsync(100);
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  test('slows down while nothing changes and speeds up again on a change', async () => {
+    const task = recordingTask(['unchanged', 'unchanged', 'changed', 'unchanged']);
+    scheduler.schedule('chain', 'tx', task.run);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(task.runs.slice(0, 5)).toEqual([100, 250, 475, 575, 725]);
+  });
+
+  test('backs off failing tasks exponentially up to the maximum interval', async () => {
+    const onError = vi.fn();
+    scheduler = new PollingScheduler({ jitterRatio: 0, defaultGroup: { minIntervalMs: 100, maxIntervalMs: 1000 }, onError });
+    const failure = new Error('rpc down');
+    const task = recordingTask([failure, failure, failure, failure, 'changed']);
+    scheduler.schedule('chain', 'tx', task.run);
+
+    await vi.advanceTimersByTimeAsync(2600);
+    expect(task.runs).toEqual([100, 300, 700, 1500, 2500, 2600]);
+    expect(onError).toHaveBeenCalledTimes(4);
+    expect(onError).toHaveBeenCalledWith('chain', 'tx', failure);
+    expect(scheduler.getMetrics().groups.chain.errors).toBe(4);
+  });
+
+  test('spreads intervals by the jitter ratio', async () => {
+    scheduler = new PollingScheduler({ jitterRatio: 0.2, defaultGroup: { minIntervalMs: 100 } });
+    const random = vi.spyOn(Math, 'random').mockReturnValue(0);
+    const task = recordingTask(['changed', 'changed']);
+    scheduler.schedule('chain', 'tx', task.run);
+
+    await vi.advanceTimersByTimeAsync(100);
+    random.mockReturnValue(1);
+    await vi.advanceTimersByTimeAsync(200);
+    expect(task.runs).toEqual([100, 180, 300]);
+  });
+
+  test('bounds the tasks run per tick and how many run at once', async () => {
+    scheduler.configureGroup('chain', { maxConcurrency: 2, maxTasksPerTick: 3 });
+    const pending = [deferred<PollOutcome>(), deferred<PollOutcome>(), deferred<PollOutcome>(), deferred<PollOutcome>()];
+    const runs = pending.map((task, i) => {
+      const run = vi.fn(() => task.promise);
+      scheduler.schedule('chain', `tx${i}`, run);
+      return run;
+    });
+    const started = () => runs.filter(run => run.mock.calls.length > 0).length;
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(started()).toBe(2);
+
+    pending[0].resolve('done');
+    pending[1].resolve('done');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started()).toBe(3);
+
+    pending[2].resolve('done');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started()).toBe(4);
+  });
+
+  test('drops tasks that report done', async () => {
+    const task = recordingTask(['changed', 'done']);
+    scheduler.schedule('chain', 'tx', task.run);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(task.runs).toEqual([100, 200]);
+    expect(scheduler.has('chain', 'tx')).toBe(false);
+  });
+
+  test('refuses new tasks beyond maxTasks but still replaces existing ones', () => {
+    scheduler = new PollingScheduler({ maxTasks: 2 });
+    scheduler.schedule('a', 'one', async () => 'unchanged');
+    scheduler.schedule('b', 'two', async () => 'unchanged');
+
+    expect(() => scheduler.schedule('a', 'three', async () => 'unchanged')).toThrow('at capacity (2 tasks)');
+    expect(() => scheduler.schedule('a', 'one', async () => 'changed')).not.toThrow();
+
+    scheduler.unschedule('b', 'two');
+    expect(() => scheduler.schedule('a', 'three', async () => 'unchanged')).not.toThrow();
+  });
+
+  test('runs a woken task without waiting for its interval', async () => {
+    scheduler.configureGroup('chain', { minIntervalMs: 100, maxIntervalMs: 60_000 });
+    const task = recordingTask();
+    scheduler.schedule('chain', 'tx', task.run);
+
+    await vi.advanceTimersByTimeAsync(50);
+    scheduler.wake('chain', 'tx');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(task.runs).toEqual([50]);
+  });
+});
@@ -0,0 +1,261 @@
+import { type MockInstance, afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { PollingScheduler } from '../src/core/PollingScheduler';
+import type { IChainAdapter } from '../src/interfaces/IChainAdapter';
+import {
+  type EscrowDeployment,
+  type IEscrowExecutor,
+  type IResolverOrderSource,
+  TransactionTimeoutError
+} from '../src/interfaces/IEscrowExecutor';
+import type { FillDecision, IResolverStrategy, ResolverOrder } from '../src/interfaces/IResolverStrategy';
+import { ResolverEngine, type ResolverEngineConfig } from '../src/resolver/ResolverEngine';
+import { InventoryStrategy } from '../src/resolver/strategies';
+import type { TokenRegistry } from '../src/tokens/TokenRegistry';
+import { TEST_NOW as NOW, createAsset, createResolverOrder } from './fixtures';
+
+const SECRET = `0x${'11'.repeat(32)}`;
+const FILLS_GROUP = 'resolver:test:fills';
+
+function now(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+/**
+ * Escrow deployed now; source windows open 10/120/600/900 seconds later,
+ * destination windows 10/100/500
+ */
+function createEscrow(side: 'src' | 'dst'): EscrowDeployment {
+  const deployedAt = now();
+  return {
+    side,
+    chainId: side === 'src' ? 1 : 8453,
+    address: `0x${side}`,
+    txHash: `0xdeploy-${side}`,
+    immutables: {},
+    amount: 1000n,
+    deployedAt,
+    withdrawableAt: deployedAt + 10,
+    publicWithdrawableAt: deployedAt + (side === 'src' ? 120 : 100),
+    cancellableAt: deployedAt + (side === 'src' ? 600 : 500),
+    publicCancellableAt: side === 'src' ? deployedAt + 900 : undefined
+  };
+}
+
+/**
+ * Adapter holding `native` of the native asset and `token` of every other asset
+ */
+function createAdapter(chainId: number, balances = { native: 10000n, token: 10000n }) {
+  const nativeAsset = createAsset({ chainId, address: '0x0000000000000000000000000000000000000000', standard: 'NATIVE' });
+  return {
+    nativeAsset,
+    getBalance: vi.fn(async (asset: { standard: string }) => String(asset.standard === 'NATIVE' ? balances.native : balances.token)),
+    getTransactionStatus: vi.fn(async (txHash: string) => ({ txHash, status: 'confirmed' }))
+  };
+}
+
+/**
+ * Strategy filling whatever it is asked about
+ */
+function createFillStrategy(): IResolverStrategy & { evaluate: ReturnType<typeof vi.fn> } {
+  return {
+    name: 'fill',
+    evaluate: vi.fn(async (order: ResolverOrder, _context, makingAmount?: bigint): Promise<FillDecision> => ({
+      action: 'fill',
+      makingAmount: makingAmount ?? order.remainingMakingAmount
+    }))
+  };
+}
+
+describe('ResolverEngine', () => {
+  let scheduler: PollingScheduler;
+  let onError: ReturnType<typeof vi.fn>;
+  let source: { fetchActiveOrders: ReturnType<typeof vi.fn>; getPublishedSecret: ReturnType<typeof vi.fn> };
+  let executor: { [K in keyof IEscrowExecutor]: ReturnType<typeof vi.fn> };
+  let engine: ResolverEngine;
+
+  function createEngine(overrides: Partial<ResolverEngineConfig> = {}) {
+    engine = new ResolverEngine({
+      source: source as unknown as IResolverOrderSource,
+      executor: executor as unknown as IEscrowExecutor,
+      strategies: [createFillStrategy()],
+      adapters: new Map([[1, createAdapter(1)], [8453, createAdapter(8453)]]) as unknown as Map<number, IChainAdapter>,
+      tokenRegistry: { resolve: async (adapter: { nativeAsset: { chainId: number } }, token: string) => createAsset({ chainId: adapter.nativeAsset.chainId, address: token }) } as unknown as TokenRegistry,
+      scheduler,
+      name: 'test',
+      discoveryIntervalMs: 1000,
+      fillIntervalMs: 1000,
+      ...overrides
+    });
+    const emit = vi.spyOn(engine, 'emit') as unknown as MockInstance<(name: string) => boolean>;
+    return { engine, events: () => emit.mock.calls.map(([name]) => name) };
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: NOW * 1000 });
+    onError = vi.fn();
+    scheduler = new PollingScheduler({ jitterRatio: 0, onError });
+    source = {
+      fetchActiveOrders: vi.fn(async () => []),
+      getPublishedSecret: vi.fn(async () => SECRET)
+    };
+    executor = {
+      deploySrcEscrow: vi.fn(async () => createEscrow('src')),
+      getSrcEscrow: vi.fn(async () => createEscrow('src')),
+      deployDstEscrow: vi.fn(async () => createEscrow('dst')),
+      withdraw: vi.fn(async (escrow: EscrowDeployment) => `0xwithdraw-${escrow.side}`),
+      cancel: vi.fn(async (escrow: EscrowDeployment) => `0xcancel-${escrow.side}`)
+    };
+  });
+
+  afterEach(() => {
+    engine.stop({ abandonFills: true });
+    scheduler.stop();
+    vi.useRealTimers();
+  });
+
+  test('fills an accepted order through both escrows once the secret is published', async () => {
+    const { events } = createEngine();
+    source.fetchActiveOrders.mockResolvedValueOnce([createResolverOrder()]);
+
+    engine.start();
+    await vi.advanceTimersByTimeAsync(30000);
+
+    expect(events().filter(name => name !== 'started')).toEqual([
+      'fillStarted',
+      'srcEscrowDeployed',
+      'dstEscrowDeployed',
+      'withdrawn',
+      'withdrawn',
+      'fillCompleted'
+    ]);
+    expect(executor.deploySrcEscrow).toHaveBeenCalledWith(expect.anything(), {
+      makingAmount: 1000n,
+      takingAmount: 1100n,
+      secretIndex: 0,
+      secretHash: undefined
+    });
+    expect(executor.withdraw.mock.calls.map(([escrow, secret]) => [escrow.side, secret])).toEqual([['dst', SECRET], ['src', SECRET]]);
+    expect(source.getPublishedSecret).toHaveBeenCalledWith('0xorder', 0);
+    expect(engine.getFills()).toMatchObject([{ id: '0xorder:0', stage: 'completed' }]);
+    expect(engine.getActiveFills()).toEqual([]);
+    expect(scheduler.has(FILLS_GROUP, '0xorder:0')).toBe(false);
+  });
+
+  test('cancels both escrows once their windows open when no secret arrives', async () => {
+    const { events } = createEngine();
+    source.fetchActiveOrders.mockResolvedValueOnce([createResolverOrder()]);
+    source.getPublishedSecret.mockResolvedValue(undefined);
+
+    engine.start();
+    await vi.advanceTimersByTimeAsync(400000);
+    expect(engine.getFills()[0].stage).toBe('dst_deployed');
+    expect(executor.cancel).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(300000);
+
+    expect(executor.withdraw).not.toHaveBeenCalled();
+    expect(executor.cancel.mock.calls.map(([escrow]) => escrow.side)).toEqual(['dst', 'src']);
+    expect(events().filter(name => name === 'cancelled')).toHaveLength(2);
+    expect(engine.getFills()[0].stage).toBe('cancelled');
+  });
+
+  test('defers orders the strategies want to wait for and leaves skipped orders alone', async () => {
+    const strategy = createFillStrategy();
+    strategy.evaluate
+      .mockResolvedValueOnce({ action: 'wait', reason: 'auction too high', retryAt: NOW + 5 })
+      .mockResolvedValueOnce({ action: 'skip', reason: 'no inventory' });
+    const { events } = createEngine({ strategies: [strategy], skipTtlMs: 20000 });
+    source.fetchActiveOrders.mockResolvedValue([createResolverOrder()]);
+
+    engine.start();
+    await vi.advanceTimersByTimeAsync(4000);
+    expect(strategy.evaluate).toHaveBeenCalledTimes(1);
+    expect(events()).toContain('orderDeferred');
+
+    // Evaluated again on the first discovery round after the retry time, then skipped for 20 seconds
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(strategy.evaluate).toHaveBeenCalledTimes(2);
+    expect(events()).toContain('orderSkipped');
+
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(strategy.evaluate).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(strategy.evaluate).toHaveBeenCalledTimes(3);
+    expect(events()).toContain('fillStarted');
+  });
+
+  test('counts fills started earlier in a round against the inventory', async () => {
+    const adapters = new Map([
+      [1, createAdapter(1)],
+      [8453, createAdapter(8453, { native: 10000n, token: 1100n })]
+    ]);
+    const { events } = createEngine({ strategies: [new InventoryStrategy()], adapters: adapters as unknown as Map<number, IChainAdapter> });
+    const skipped = vi.fn();
+    engine.on('orderSkipped', skipped);
+    source.fetchActiveOrders.mockResolvedValueOnce([
+      createResolverOrder({ orderHash: '0xfirst' }),
+      createResolverOrder({ orderHash: '0xsecond' })
+    ]);
+
+    engine.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(events().filter(name => name === 'fillStarted')).toHaveLength(1);
+    expect(skipped).toHaveBeenCalledWith({
+      orderHash: '0xsecond',
+      reason: 'need 1100 of 0x0000000000000000000000000000000000000002, have 0'
+    });
+  });
+
+  test('drops fills whose source escrow cannot be deployed', async () => {
+    const { events } = createEngine();
+    const errors = vi.fn();
+    engine.on('error', errors);
+    executor.deploySrcEscrow.mockRejectedValueOnce(new Error('order already filled'));
+    source.fetchActiveOrders.mockResolvedValueOnce([createResolverOrder()]);
+
+    engine.start();
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(events()).toContain('fillFailed');
+    expect(errors).toHaveBeenCalledWith({ orderHash: '0xorder', error: new Error('order already filled') });
+    expect(engine.getFills()).toMatchObject([{ stage: 'failed', error: 'order already filled' }]);
+    expect(scheduler.has(FILLS_GROUP, '0xorder:0')).toBe(false);
+  });
+
+  test('follows a source deployment that timed out until it is mined', async () => {
+    createEngine();
+    const errors = vi.fn();
+    engine.on('error', errors);
+    executor.deploySrcEscrow.mockRejectedValueOnce(new TransactionTimeoutError(1, '0xslow'));
+    source.fetchActiveOrders.mockResolvedValueOnce([createResolverOrder()]);
+
+    engine.start();
+    await vi.advanceTimersByTimeAsync(30000);
+
+    expect(executor.deploySrcEscrow).toHaveBeenCalledTimes(1);
+    expect(errors).toHaveBeenCalledWith({ orderHash: '0xorder', error: expect.any(TransactionTimeoutError) });
+    expect(executor.getSrcEscrow).toHaveBeenCalledWith(expect.objectContaining({ orderHash: '0xorder' }), '0xslow');
+    expect(engine.getFills()[0].stage).toBe('completed');
+  });
+
+  test('throws errors nobody listens for and still warns about public cancellation', async () => {
+    createEngine();
+    const warnings = vi.fn();
+    engine.on('warning', warnings);
+    source.fetchActiveOrders.mockResolvedValueOnce([createResolverOrder()]);
+    source.getPublishedSecret.mockResolvedValue(undefined);
+    executor.cancel.mockImplementation((escrow: EscrowDeployment) =>
+      escrow.side === 'src' ? Promise.reject(new Error('cancel reverted')) : Promise.resolve('0xcancel-dst')
+    );
+
+    engine.start();
+    await vi.advanceTimersByTimeAsync(1000000);
+
+    expect(onError).toHaveBeenCalledWith(FILLS_GROUP, '0xorder:0', expect.objectContaining({ code: 'ERR_UNHANDLED_ERROR' }));
+    expect(warnings).toHaveBeenCalledWith(expect.objectContaining({
+      message: 'Fill 0xorder:0 is in the public cancellation window, its safety deposit is at risk'
+    }));
+    expect(engine.getFills()[0]).toMatchObject({ stage: 'cancelling', error: 'cancel reverted' });
+  });
+});
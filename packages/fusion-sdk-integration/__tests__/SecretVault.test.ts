@@ -0,0 +1,157 @@
+import { randomBytes } from 'node:crypto';
+import { beforeEach, describe, expect, test } from 'vitest';
+import { SecretVault } from '../src/secrets/SecretVault';
+import { aesGcmDecrypt, aesGcmEncrypt } from '../src/secrets/aesGcm';
+import { EnvKeyProvider, LocalKmsKeyProvider } from '../src/secrets/keyProviders';
+import { InMemoryOrderStore } from '../src/stores/InMemoryOrderStore';
+
+const ORDER = '0xorder';
+const SECRETS = ['0xsecret0', '0xsecret1'];
+const HASHES = ['0xhash0', '0xhash1'];
+const HEX_KEY = '11'.repeat(32);
+
+/**
+ * Flip the first hex digit of an encoded value
+ */
+function tamper(hex: string): string {
+  return `${hex[0] === '0' ? '1' : '0'}${hex.slice(1)}`;
+}
+
+describe('aesGcm', () => {
+  const key = randomBytes(32);
+
+  test('round-trips plaintext bound to its AAD', () => {
+    const encrypted = aesGcmEncrypt(key, Buffer.from('secret'), 'aad');
+    expect(aesGcmDecrypt(key, encrypted, 'aad').toString()).toBe('secret');
+  });
+
+  test('rejects a tampered ciphertext, tag or AAD', () => {
+    const encrypted = aesGcmEncrypt(key, Buffer.from('secret'), 'aad');
+
+    expect(() => aesGcmDecrypt(key, { ...encrypted, ciphertext: tamper(encrypted.ciphertext) }, 'aad')).toThrow();
+    expect(() => aesGcmDecrypt(key, { ...encrypted, authTag: tamper(encrypted.authTag) }, 'aad')).toThrow();
+    expect(() => aesGcmDecrypt(key, encrypted, 'other')).toThrow();
+    expect(() => aesGcmDecrypt(randomBytes(32), encrypted, 'aad')).toThrow();
+  });
+});
+
+describe('EnvKeyProvider', () => {
+  test('accepts hex and base64 keys and rejects other lengths', () => {
+    expect(() => new EnvKeyProvider(HEX_KEY)).not.toThrow();
+    expect(() => new EnvKeyProvider(`0x${HEX_KEY}`)).not.toThrow();
+    expect(() => new EnvKeyProvider(randomBytes(32).toString('base64'))).not.toThrow();
+    expect(() => new EnvKeyProvider('11'.repeat(16))).toThrow('32 bytes');
+  });
+
+  test('unwraps its own data keys only', async () => {
+    const provider = new EnvKeyProvider(HEX_KEY);
+    const dataKey = await provider.generateDataKey();
+
+    expect(await provider.unwrapDataKey(dataKey.keyId, dataKey.wrapped)).toEqual(dataKey.plaintext);
+    await expect(provider.unwrapDataKey('other', dataKey.wrapped)).rejects.toThrow('Unknown key id: other');
+    await expect(new EnvKeyProvider('22'.repeat(32)).unwrapDataKey('env', dataKey.wrapped)).rejects.toThrow();
+  });
+});
+
+describe('LocalKmsKeyProvider', () => {
+  test('keeps unwrapping data keys of earlier versions after a rotation', async () => {
+    const provider = new LocalKmsKeyProvider();
+    const before = await provider.generateDataKey();
+
+    const rotated = provider.rotate();
+    const after = await provider.generateDataKey();
+
+    expect(after.keyId).toBe(rotated);
+    expect(rotated).not.toBe(before.keyId);
+    expect(await provider.unwrapDataKey(before.keyId, before.wrapped)).toEqual(before.plaintext);
+    expect(await provider.unwrapDataKey(after.keyId, after.wrapped)).toEqual(after.plaintext);
+  });
+
+  test('binds wrapped keys to their key id', async () => {
+    const provider = new LocalKmsKeyProvider({ a: HEX_KEY, b: HEX_KEY });
+    const dataKey = await provider.generateDataKey();
+
+    expect(dataKey.keyId).toBe('b');
+    await expect(provider.unwrapDataKey('a', dataKey.wrapped)).rejects.toThrow();
+  });
+
+  test('never reuses a caller-supplied key id when rotating', async () => {
+    const provider = new LocalKmsKeyProvider({ 'local-kms/v2': HEX_KEY });
+    const supplied = await provider.generateDataKey();
+
+    expect(provider.rotate()).toBe('local-kms/v3');
+    expect(provider.rotate()).toBe('local-kms/v4');
+    expect(await provider.unwrapDataKey('local-kms/v2', supplied.wrapped)).toEqual(supplied.plaintext);
+  });
+});
+
+describe('SecretVault', () => {
+  let store: InMemoryOrderStore;
+  let keyProvider: LocalKmsKeyProvider;
+  let vault: SecretVault;
+
+  beforeEach(async () => {
+    store = new InMemoryOrderStore();
+    keyProvider = new LocalKmsKeyProvider();
+    vault = new SecretVault(store, keyProvider);
+    await vault.seal(ORDER, SECRETS, HASHES);
+  });
+
+  test('stores only ciphertext and reveals each secret with an audit record', async () => {
+    const sealed = await store.getSecrets(ORDER);
+    expect(JSON.stringify(sealed)).not.toContain('0xsecret');
+    expect(sealed?.secrets.map(secret => secret.secretHash)).toEqual(HASHES);
+
+    expect(await vault.reveal(ORDER, 1, 'fill 1')).toBe('0xsecret1');
+    expect(await vault.reveal(ORDER, 0, 'fill 0')).toBe('0xsecret0');
+    expect((await vault.getRevealLog(ORDER)).map(({ idx, purpose }) => ({ idx, purpose }))).toEqual([
+      { idx: 1, purpose: 'fill 1' },
+      { idx: 0, purpose: 'fill 0' }
+    ]);
+  });
+
+  test('rejects ciphertexts moved to another index or order', async () => {
+    const sealed = await store.getSecrets(ORDER);
+    if (!sealed) {
+      throw new Error('Order was not sealed');
+    }
+    const [first, second] = sealed.secrets;
+    await store.saveSecrets(ORDER, { ...sealed, secrets: [{ ...first, encrypted: second.encrypted }, second] });
+    await expect(vault.reveal(ORDER, 0, 'swapped')).rejects.toThrow();
+
+    await store.saveSecrets('0xother', sealed);
+    await expect(vault.reveal('0xother', 0, 'copied')).rejects.toThrow();
+    expect(await vault.getRevealLog('0xother')).toEqual([]);
+  });
+
+  test('reveals secrets sealed before a key rotation', async () => {
+    keyProvider.rotate();
+    await vault.seal('0xnext', ['0xnext'], ['0xnexthash']);
+
+    expect((await store.getSecrets('0xnext'))?.keyId).not.toBe((await store.getSecrets(ORDER))?.keyId);
+    expect(await vault.reveal(ORDER, 0, 'after rotation')).toBe('0xsecret0');
+    expect(await vault.reveal('0xnext', 0, 'after rotation')).toBe('0xnext');
+  });
+
+  test('wipes zeroized secrets but keeps hashes and the audit trail', async () => {
+    await vault.reveal(ORDER, 0, 'fill 0');
+    await vault.zeroize(ORDER, 0);
+
+    expect(await vault.isZeroized(ORDER, 0)).toBe(true);
+    expect(await vault.isZeroized(ORDER, 1)).toBe(false);
+    expect(await vault.hasSecrets(ORDER)).toBe(true);
+    await expect(vault.reveal(ORDER, 0, 'again')).rejects.toThrow('Secret 0 for order 0xorder was zeroized');
+
+    await vault.zeroizeAll(ORDER);
+    const sealed = await store.getSecrets(ORDER);
+    expect(await vault.hasSecrets(ORDER)).toBe(false);
+    expect(sealed?.secrets.every(secret => !secret.encrypted && secret.zeroizedAt !== undefined)).toBe(true);
+    expect(sealed?.secrets.map(secret => secret.secretHash)).toEqual(HASHES);
+    expect(await vault.getRevealLog(ORDER)).toHaveLength(1);
+  });
+
+  test('fails on unknown orders and indexes', async () => {
+    await expect(vault.reveal('0xmissing', 0, 'fill')).rejects.toThrow('No secrets stored for order 0xmissing');
+    await expect(vault.reveal(ORDER, 5, 'fill')).rejects.toThrow('No secret 5 for order 0xorder');
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, expect, test } from 'vitest';
+import { SimulatedEtherlinkBridge } from '../src/connector/SimulatedEtherlinkBridge';
+import {
+  type BridgeStatus,
+  EtherlinkConnector,
+  type FaBridgeAsset,
+  WEI_PER_MUTEZ,
+  forgeTezosAddress,
+  hasReached
+} from '../src/connector/etherlink-connector';
+
+const L1_RECEIVER = 'tz1KqTpEZ7Yob7QbPE4Hy4Wo8fHG8LhKxZSx';
+const L2_RECEIVER = '0x2222222222222222222222222222222222222222';
+const FORGED_KT1_PATTERN = /^0x01[0-9a-f]{40}00$/;
+
+const FA_ASSET: FaBridgeAsset = {
+  kind: 'FA',
+  ticketer: 'KT1PWx2mnDueood7fEmfbBDKx1D9BAnnXitn',
+  ticketContent: '0x0707000005090a00000035',
+  l1TokenBridge: 'KT1PWx2mnDueood7fEmfbBDKx1D9BAnnXitn',
+  l2TicketOwner: '0x3333333333333333333333333333333333333333'
+};
+
+/**
+ * Connector over a simulated bridge driven by a manual clock
+ */
+function createBridge() {
+  const clock = { now: 1_000_000 };
+  const bridge = new SimulatedEtherlinkBridge({
+    l1ConfirmationMs: 100,
+    depositCreditMs: 50,
+    l2ConfirmationMs: 10,
+    outboxMs: 100,
+    challengeWindowMs: 1000,
+    executionMs: 100,
+    now: () => clock.now
+  });
+  return { clock, bridge, connector: new EtherlinkConnector(bridge) };
+}
+
+describe('SimulatedEtherlinkBridge', () => {
+  test('walks a deposit through its statuses as time passes', async () => {
+    const { clock, connector } = createBridge();
+    const id = await connector.bridgeToEtherlink({ asset: { kind: 'XTZ' }, amount: '1000000', l2Receiver: L2_RECEIVER });
+
+    const started = await connector.getBridgeStatus(id);
+    expect(started).toMatchObject({ direction: 'deposit', status: 'pending', l1OperationHash: id });
+
+    const statuses: BridgeStatus[] = [];
+    for (const elapsed of [99, 100, 149, 150]) {
+      clock.now = started.createdAt + elapsed;
+      statuses.push((await connector.getBridgeStatus(id)).status);
+    }
+    expect(statuses).toEqual(['pending', 'l1_confirmed', 'l1_confirmed', 'completed']);
+  });
+
+  test('walks a withdrawal through the outbox and cementation', async () => {
+    const { clock, connector } = createBridge();
+    const id = await connector.bridgeToTezos({ asset: { kind: 'XTZ' }, amount: (5n * WEI_PER_MUTEZ).toString(), l1Receiver: L1_RECEIVER });
+    const started = await connector.getBridgeStatus(id);
+    expect(started).toMatchObject({ direction: 'withdrawal', l2TransactionHash: id, outboxMessageIndex: 0 });
+
+    const statuses: BridgeStatus[] = [];
+    for (const elapsed of [10, 110, 1110, 1210]) {
+      clock.now = started.createdAt + elapsed;
+      statuses.push((await connector.getBridgeStatus(id)).status);
+    }
+    expect(statuses).toEqual(['l2_confirmed', 'outbox_queued', 'cemented', 'completed']);
+  });
+
+  test('gives each withdrawal its own outbox level', async () => {
+    const { connector } = createBridge();
+    const params = { asset: FA_ASSET, amount: '7', l1Receiver: L1_RECEIVER };
+    const first = await connector.getBridgeStatus(await connector.bridgeToTezos(params));
+    const second = await connector.getBridgeStatus(await connector.bridgeToTezos(params));
+    expect(second.outboxLevel).toBe((first.outboxLevel ?? 0) + 1);
+  });
+
+  test('keeps a failed transfer failed', async () => {
+    const { clock, bridge, connector } = createBridge();
+    const id = await connector.bridgeToEtherlink({ asset: FA_ASSET, amount: '42', l2Receiver: L2_RECEIVER });
+
+    bridge.fail(id, 'ticket rejected');
+    expect(await connector.getBridgeStatus(id)).toMatchObject({ status: 'failed', error: 'ticket rejected' });
+
+    clock.now += 10_000;
+    expect((await connector.getBridgeStatus(id)).status).toBe('failed');
+  });
+});
+
+describe('EtherlinkConnector', () => {
+  test('monitors a transfer until the requested status', async () => {
+    const bridge = new SimulatedEtherlinkBridge({ l1ConfirmationMs: 5, depositCreditMs: 5 });
+    const connector = new EtherlinkConnector(bridge, { pollIntervalMs: 1 });
+    const id = await connector.bridgeToEtherlink({ asset: { kind: 'XTZ' }, amount: '1', l2Receiver: L2_RECEIVER });
+
+    const confirmed = await connector.monitorBridgeStatus(id, { until: 'l1_confirmed', timeoutMs: 5000 });
+    expect(hasReached(confirmed, 'l1_confirmed')).toBe(true);
+    expect((await connector.monitorBridgeStatus(id, { timeoutMs: 5000 })).status).toBe('completed');
+  });
+
+  test('times out while a transfer is stuck', async () => {
+    const { connector } = createBridge();
+    const id = await connector.bridgeToEtherlink({ asset: { kind: 'XTZ' }, amount: '1', l2Receiver: L2_RECEIVER });
+    await expect(connector.monitorBridgeStatus(id, { pollIntervalMs: 1, timeoutMs: 5 })).rejects.toThrow('still pending');
+  });
+
+  test('validates transfers before submitting them', async () => {
+    const { connector } = createBridge();
+    const xtz = { kind: 'XTZ' as const };
+
+    await expect(connector.bridgeToEtherlink({ asset: xtz, amount: '0', l2Receiver: L2_RECEIVER })).rejects.toThrow('positive integer');
+    await expect(connector.bridgeToEtherlink({ asset: xtz, amount: '1.5', l2Receiver: L2_RECEIVER })).rejects.toThrow('positive integer');
+    await expect(connector.bridgeToEtherlink({ asset: xtz, amount: '1', l2Receiver: '0x1234' })).rejects.toThrow();
+    await expect(connector.bridgeToTezos({ asset: xtz, amount: '1', l1Receiver: L1_RECEIVER })).rejects.toThrow('whole number of mutez');
+    await expect(connector.bridgeToTezos({ asset: xtz, amount: WEI_PER_MUTEZ.toString(), l1Receiver: 'tz1invalid' })).rejects.toThrow('Invalid Tezos address');
+    await expect(connector.bridgeToTezos({ asset: { ...FA_ASSET, ticketContent: 'xyz' }, amount: '1', l1Receiver: L1_RECEIVER })).rejects.toThrow('hex bytes');
+    await expect(connector.getBridgeStatus('unknown')).rejects.toThrow('Unknown bridge transfer');
+  });
+
+  test('forges Tezos addresses and rejects bad checksums', () => {
+    expect(forgeTezosAddress(L1_RECEIVER)).toBe('0x000002298c03ed7d454a101eb7022bc95f7e5f41ac78');
+    expect(forgeTezosAddress(FA_ASSET.ticketer)).toMatch(FORGED_KT1_PATTERN);
+    expect(() => forgeTezosAddress('tz1KqTpEZ7Yob7QbPE4Hy4Wo8fHG8LhKxZSy')).toThrow('checksum');
+  });
+});
@@ -0,0 +1,221 @@
+import { bcs } from '@mysten/sui/bcs';
+import type { Transaction } from '@mysten/sui/transactions';
+import { SUI_CLOCK_OBJECT_ID, normalizeStructTag, normalizeSuiAddress } from '@mysten/sui/utils';
+import { getBytes, keccak256 } from 'ethers';
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+import { SuiChainAdapter } from '../src/adapters/SuiChainAdapter';
+import { SUI_COIN_TYPE } from '../src/adapters/suiModules';
+import { SignatureScheme } from '../src/interfaces/IChainAdapter';
+import type { ISigner } from '../src/interfaces/ISigner';
+import type { UniversalAsset, UniversalTxParams } from '../src/utils/fusionUtils';
+import { DEFAULT_TIMELOCKS } from '../src/utils/timelocks';
+import { TEST_NOW as NOW } from './fixtures';
+
+const SENDER = normalizeSuiAddress('0x1111');
+const RECIPIENT = normalizeSuiAddress('0x2222');
+const HTLC = `${normalizeSuiAddress('0xc')}::htlc`;
+const ESCROW_ID = normalizeSuiAddress('0xe5c');
+const USDC_TYPE = `${normalizeSuiAddress('0xdb')}::usdc::USDC`;
+const SECRET = `0x${'11'.repeat(32)}`;
+const HASH_LOCK = keccak256(SECRET);
+
+/**
+ * Sui client whose transactions create one escrow and land in checkpoint 42
+ */
+const client = vi.hoisted(() => {
+  const state = {
+    timestamp: 0,
+    coins: [] as Array<{ coinObjectId: string; balance: string }>,
+    events: [] as unknown[],
+    escrowType: ''
+  };
+  return {
+    state,
+    getChainIdentifier: vi.fn(async () => 'localnet'),
+    waitForTransaction: vi.fn(async ({ digest }: { digest: string }) => ({
+      digest,
+      checkpoint: '42',
+      effects: { status: { status: 'success' }, gasUsed: { computationCost: '10', storageCost: '5', storageRebate: '3' } },
+      objectChanges: [{ type: 'created', objectId: `0x${'e5c'.padStart(64, '0')}`, objectType: state.escrowType }],
+      events: []
+    })),
+    getCheckpoint: vi.fn(async ({ id }: { id: string }) => ({ sequenceNumber: id, digest: 'checkpoint', timestampMs: String(state.timestamp * 1000) })),
+    getLatestCheckpointSequenceNumber: vi.fn(async () => '42'),
+    getCoins: vi.fn(async () => ({ data: state.coins, hasNextPage: false, nextCursor: null })),
+    queryEvents: vi.fn(async () => ({ data: state.events, hasNextPage: false, nextCursor: null })),
+    getObject: vi.fn(async ({ id }: { id: string }) => ({
+      data: {
+        content: {
+          dataType: 'moveObject',
+          type: state.escrowType,
+          fields: {
+            sender: id,
+            recipient: `0x${'2222'.padStart(64, '0')}`,
+            hash_lock: [],
+            balance: '500',
+            created_at: '0',
+            withdrawal_delay: '60',
+            cancellation_delay: '3000',
+            state: 0
+          }
+        }
+      }
+    }))
+  };
+});
+
+vi.mock('@mysten/sui/client', async importOriginal => ({
+  ...(await importOriginal<typeof import('@mysten/sui/client')>()),
+  SuiClient: vi.fn(() => client)
+}));
+
+const SUI: UniversalAsset = { chainId: 'sui', address: SUI_COIN_TYPE, symbol: 'SUI', decimals: 9, standard: 'SUI_COIN' };
+const USDC: UniversalAsset = { chainId: 'sui', address: USDC_TYPE, symbol: 'USDC', decimals: 6, standard: 'SUI_COIN' };
+
+/**
+ * Connected adapter whose programmable transaction blocks are recorded instead of built
+ */
+async function createAdapter() {
+  const signer: ISigner = {
+    signatureScheme: SignatureScheme.ED25519,
+    getAddress: async () => SENDER,
+    signTransaction: async () => '{}',
+    signMessage: async () => '0xsignature'
+  };
+  const adapter = new SuiChainAdapter('sui', 'Sui', SUI);
+  await adapter.connect({ rpcUrl: 'http://sui.test', signer, contractAddresses: { htlc: HTLC } });
+
+  const sent: UniversalTxParams[] = [];
+  vi.spyOn(adapter, 'signTransaction').mockImplementation(txParams => {
+    sent.push(txParams);
+    return Promise.resolve('{}');
+  });
+  vi.spyOn(adapter, 'broadcastTransaction').mockResolvedValue({ txHash: 'digest', status: 'pending' });
+  return { adapter, sent };
+}
+
+/**
+ * Commands of a recorded block, with inputs resolved to pure bytes (base64) or object ids
+ */
+function decode(txParams: UniversalTxParams) {
+  const { inputs, commands } = (txParams.chainSpecific?.transaction as Transaction).getData();
+  const resolve = (arg: { $kind: string; Input?: number; NestedResult?: [number, number] }) => {
+    if (arg.$kind === 'GasCoin') {
+      return 'gas';
+    }
+    if (arg.$kind === 'NestedResult') {
+      return { result: arg.NestedResult };
+    }
+    const input = inputs[arg.Input ?? -1];
+    return input.Pure ? input.Pure.bytes : { object: input.UnresolvedObject?.objectId };
+  };
+
+  return commands.map(command => {
+    if (command.MoveCall) {
+      const { module, function: name, typeArguments, arguments: args } = command.MoveCall;
+      return { call: `${module}::${name}`, typeArguments: typeArguments.map(type => normalizeStructTag(type)), args: args.map(resolve) };
+    }
+    if (command.SplitCoins) {
+      return { split: resolve(command.SplitCoins.coin), amounts: command.SplitCoins.amounts.map(resolve) };
+    }
+    if (command.MergeCoins) {
+      return { merge: resolve(command.MergeCoins.destination), sources: command.MergeCoins.sources.map(resolve) };
+    }
+    return command.$kind;
+  });
+}
+
+const u64 = (value: number | bigint) => bcs.u64().serialize(value).toBase64();
+const bytes = (hex: string) => bcs.vector(bcs.u8()).serialize(getBytes(hex)).toBase64();
+const clock = { object: SUI_CLOCK_OBJECT_ID };
+
+describe('SuiChainAdapter', () => {
+  beforeEach(() => {
+    client.state.timestamp = NOW;
+    client.state.coins = [];
+    client.state.events = [];
+    client.state.escrowType = `${HTLC}::Escrow<${normalizeStructTag(SUI_COIN_TYPE)}>`;
+    client.queryEvents.mockClear();
+  });
+
+  test('funds a SUI escrow from the gas coin and remembers the created object', async () => {
+    const { adapter, sent } = await createAdapter();
+
+    const result = await adapter.lockFunds({ hashLock: HASH_LOCK, recipient: RECIPIENT, asset: SUI, amount: '500', side: 'src', timelocks: DEFAULT_TIMELOCKS });
+
+    expect(sent[0].value).toBe('500');
+    expect(decode(sent[0])).toEqual([
+      { split: 'gas', amounts: [u64(500)] },
+      {
+        call: 'htlc::create_escrow',
+        typeArguments: [normalizeStructTag(SUI_COIN_TYPE)],
+        args: [
+          { result: [0, 0] },
+          bytes(HASH_LOCK),
+          bcs.Address.serialize(RECIPIENT).toBase64(),
+          u64(DEFAULT_TIMELOCKS.srcWithdrawal),
+          u64(DEFAULT_TIMELOCKS.srcCancellation),
+          clock
+        ]
+      }
+    ]);
+    expect(result).toMatchObject({ status: 'confirmed', blockNumber: 42, gasUsed: '12' });
+
+    // The escrow id came from the lock, so revealing needs no event scan
+    await adapter.revealSecret(HASH_LOCK, SECRET, { side: 'src', timelocks: DEFAULT_TIMELOCKS, deployedAt: NOW - DEFAULT_TIMELOCKS.srcWithdrawal });
+    expect(client.queryEvents).not.toHaveBeenCalled();
+  });
+
+  test('merges the largest coins until they cover a token lock', async () => {
+    const { adapter, sent } = await createAdapter();
+    client.state.coins = [
+      { coinObjectId: normalizeSuiAddress('0xa1'), balance: '100' },
+      { coinObjectId: normalizeSuiAddress('0xa2'), balance: '300' },
+      { coinObjectId: normalizeSuiAddress('0xa3'), balance: '50' }
+    ];
+    const params = { hashLock: HASH_LOCK, recipient: RECIPIENT, asset: USDC, side: 'dst' as const, timelocks: DEFAULT_TIMELOCKS };
+
+    await adapter.lockFunds({ ...params, amount: '350' });
+    await expect(adapter.lockFunds({ ...params, amount: '451' })).rejects.toThrow('Insufficient');
+
+    const [merge, split, call] = decode(sent[0]);
+    expect(sent[0].value).toBe('0');
+    expect(merge).toEqual({ merge: { object: normalizeSuiAddress('0xa2') }, sources: [{ object: normalizeSuiAddress('0xa1') }] });
+    expect(split).toEqual({ split: { object: normalizeSuiAddress('0xa2') }, amounts: [u64(350)] });
+    expect(call).toEqual({
+      call: 'htlc::create_escrow',
+      typeArguments: [normalizeStructTag(USDC_TYPE)],
+      args: [{ result: [1, 0] }, bytes(HASH_LOCK), expect.anything(), expect.anything(), expect.anything(), clock]
+    });
+  });
+
+  test('finds escrows by their creation event to reveal and refund them', async () => {
+    const { adapter, sent } = await createAdapter();
+    client.state.escrowType = `${HTLC}::Escrow<${normalizeStructTag(USDC_TYPE)}>`;
+    client.state.events = [{
+      id: { txDigest: 'lock', eventSeq: '0' },
+      type: `${HTLC}::EscrowCreated`,
+      parsedJson: { escrow_id: ESCROW_ID, hash_lock: Array.from(getBytes(HASH_LOCK)) }
+    }];
+    const escrow = { side: 'dst' as const, timelocks: DEFAULT_TIMELOCKS, deployedAt: NOW - DEFAULT_TIMELOCKS.dstWithdrawal };
+
+    await expect(adapter.revealSecret(HASH_LOCK, `0x${'22'.repeat(32)}`, escrow)).rejects.toThrow('does not match');
+    await expect(adapter.refundHashLock(HASH_LOCK, escrow)).rejects.toThrow('Cannot cancel');
+    await adapter.revealSecret(HASH_LOCK, SECRET, escrow);
+
+    client.state.timestamp = escrow.deployedAt + DEFAULT_TIMELOCKS.dstCancellation;
+    await adapter.refundHashLock(HASH_LOCK, escrow);
+
+    expect(sent.map(decode)).toEqual([
+      [{ call: 'htlc::withdraw', typeArguments: [normalizeStructTag(USDC_TYPE)], args: [{ object: ESCROW_ID }, bytes(SECRET), clock] }],
+      [{ call: 'htlc::refund', typeArguments: [normalizeStructTag(USDC_TYPE)], args: [{ object: ESCROW_ID }, clock] }]
+    ]);
+    expect(client.queryEvents).toHaveBeenCalledTimes(1);
+  });
+
+  test('fails to reveal hash locks without an escrow', async () => {
+    const { adapter } = await createAdapter();
+    const escrow = { side: 'dst' as const, timelocks: DEFAULT_TIMELOCKS, deployedAt: NOW - DEFAULT_TIMELOCKS.dstWithdrawal };
+    await expect(adapter.revealSecret(HASH_LOCK, SECRET, escrow)).rejects.toThrow(`No escrow under hash lock ${HASH_LOCK}`);
+  });
+});
@@ -0,0 +1,202 @@
+import { OpKind, type ParamsWithKind } from '@taquito/taquito';
+import { keccak256 } from 'ethers';
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+import { TezosChainAdapter } from '../src/adapters/TezosChainAdapter';
+import { TEZOS_NATIVE_ADDRESS } from '../src/adapters/tezosContracts';
+import { type ChainTxResult, SignatureScheme } from '../src/interfaces/IChainAdapter';
+import type { ISigner } from '../src/interfaces/ISigner';
+import type { UniversalAsset, UniversalTxParams } from '../src/utils/fusionUtils';
+import { DEFAULT_TIMELOCKS } from '../src/utils/timelocks';
+import { TEST_NOW as NOW } from './fixtures';
+
+const MAKER = 'tz1KqTpEZ7Yob7QbPE4Hy4Wo8fHG8LhKxZSx';
+const HTLC = 'KT1PWx2mnDueood7fEmfbBDKx1D9BAnnXitn';
+const SECRET = `0x${'11'.repeat(32)}`;
+const HASH_LOCK = keccak256(SECRET);
+
+/**
+ * Taquito toolkit holding one FA1.2 allowance and one FA2 operator set
+ */
+const toolkit = vi.hoisted(() => {
+  const state = { allowance: 0n, operators: new Set<string>(), timestamp: 0 };
+  return {
+    state,
+    rpc: {
+      getChainId: vi.fn(async () => 'NetXdQprcVkpaWU'),
+      getBlockHeader: vi.fn(async () => ({ level: 100, timestamp: new Date(state.timestamp * 1000).toISOString() }))
+    },
+    contract: {
+      at: vi.fn(async () => ({
+        views: { getAllowance: () => ({ read: async () => ({ toFixed: () => state.allowance.toString() }) }) },
+        storage: async () => ({
+          operators: { get: async (key: { operator: string }) => (state.operators.has(key.operator) ? {} : undefined) }
+        })
+      }))
+    },
+    setSignerProvider: vi.fn()
+  };
+});
+
+vi.mock('@taquito/taquito', async importOriginal => ({
+  ...(await importOriginal<typeof import('@taquito/taquito')>()),
+  TezosToolkit: vi.fn(() => toolkit)
+}));
+
+const TEZ: UniversalAsset = { chainId: 'NetXdQprcVkpaWU', address: TEZOS_NATIVE_ADDRESS, symbol: 'XTZ', decimals: 6, standard: 'NATIVE' };
+const FA12: UniversalAsset = { chainId: 'NetXdQprcVkpaWU', address: 'KT1fa12', symbol: 'USDtz', decimals: 6, standard: 'FA1.2' };
+const FA2: UniversalAsset = { chainId: 'NetXdQprcVkpaWU', address: 'KT1fa2', symbol: 'USDT', decimals: 6, standard: 'FA2', tokenId: '3' };
+
+/**
+ * Connected adapter whose broadcasts are recorded and confirmed at once
+ */
+async function createAdapter(result: Partial<ChainTxResult> = {}) {
+  const signer: ISigner = {
+    signatureScheme: SignatureScheme.ED25519,
+    getAddress: async () => MAKER,
+    signTransaction: async () => '0xsigned',
+    signMessage: async () => '0xsignature'
+  };
+  const adapter = new TezosChainAdapter('NetXdQprcVkpaWU', 'Tezos', TEZ);
+  await adapter.connect({ rpcUrl: 'http://tezos.test', signer, contractAddresses: { htlc: HTLC } });
+
+  const batches: ParamsWithKind[][] = [];
+  vi.spyOn(adapter, 'signTransaction').mockImplementation((txParams: UniversalTxParams) => {
+    batches.push(txParams.chainSpecific?.operations as ParamsWithKind[]);
+    return Promise.resolve('0xsigned');
+  });
+  vi.spyOn(adapter, 'broadcastTransaction').mockResolvedValue({ txHash: 'opHash', status: 'pending' });
+  vi.spyOn(adapter, 'getTransactionStatus').mockResolvedValue({ txHash: 'opHash', status: 'confirmed', ...result });
+  return { adapter, batches };
+}
+
+/**
+ * Entrypoint and Michelson value of each call in a batch
+ */
+function calls(batch: ParamsWithKind[]) {
+  return batch.map(operation => {
+    const { to, parameter } = operation as { to: string; parameter?: { entrypoint: string; value: unknown } };
+    return { to, entrypoint: parameter?.entrypoint, value: parameter?.value };
+  });
+}
+
+function approveCall(amount: bigint) {
+  return {
+    to: FA12.address,
+    entrypoint: 'approve',
+    value: { prim: 'Pair', args: [{ string: HTLC }, { int: amount.toString() }] }
+  };
+}
+
+function operatorCall(add: boolean) {
+  const update = { prim: 'Pair', args: [{ string: MAKER }, { string: HTLC }, { int: '3' }] };
+  return { to: FA2.address, entrypoint: 'update_operators', value: [{ prim: add ? 'Left' : 'Right', args: [update] }] };
+}
+
+describe('TezosChainAdapter', () => {
+  beforeEach(() => {
+    toolkit.state.allowance = 0n;
+    toolkit.state.operators.clear();
+    toolkit.state.timestamp = NOW;
+  });
+
+  test('resets a different FA1.2 allowance to zero before approving', async () => {
+    const { adapter, batches } = await createAdapter();
+
+    await adapter.approveAsset(FA12, HTLC, '500');
+    toolkit.state.allowance = 200n;
+    await adapter.approveAsset(FA12, HTLC, '500');
+    toolkit.state.allowance = 500n;
+    await adapter.approveAsset(FA12, HTLC, '500');
+    await adapter.approveAsset(FA12, HTLC, '0');
+
+    expect(batches.map(calls)).toEqual([
+      [approveCall(500n)],
+      [approveCall(0n), approveCall(500n)],
+      [approveCall(500n)],
+      [approveCall(0n)]
+    ]);
+  });
+
+  test('encodes FA2 approvals as add_operator and remove_operator updates', async () => {
+    const { adapter, batches } = await createAdapter();
+
+    await adapter.approveAsset(FA2, HTLC, '1');
+    await adapter.approveAsset(FA2, HTLC, '0');
+
+    expect(batches.map(calls)).toEqual([[operatorCall(true)], [operatorCall(false)]]);
+    toolkit.state.operators.add(HTLC);
+    expect(await adapter.getAssetAllowance(FA2, MAKER, HTLC)).not.toBe('0');
+  });
+
+  test('batches token lock calls with their approvals', async () => {
+    const { adapter, batches } = await createAdapter();
+    const params = { hashLock: HASH_LOCK, recipient: MAKER, amount: '500', side: 'dst' as const, timelocks: DEFAULT_TIMELOCKS };
+
+    toolkit.state.allowance = 7n;
+    await adapter.lockFunds({ ...params, asset: FA12 });
+    await adapter.lockFunds({ ...params, asset: FA2 });
+    toolkit.state.operators.add(HTLC);
+    await adapter.lockFunds({ ...params, asset: FA2 });
+
+    const [fa12, fa2, operatorSet] = batches.map(calls);
+    expect(fa12.map(call => call.entrypoint)).toEqual(['approve', 'approve', 'lock']);
+    expect(fa12.slice(0, 2)).toEqual([approveCall(0n), approveCall(500n)]);
+    expect(fa2).toEqual([operatorCall(true), expect.objectContaining({ to: HTLC, entrypoint: 'lock' }), operatorCall(false)]);
+    expect(operatorSet.map(call => call.entrypoint)).toEqual(['lock']);
+  });
+
+  test('sends tez with the lock and encodes the escrow terms', async () => {
+    const { adapter, batches } = await createAdapter();
+
+    await adapter.lockFunds({ hashLock: HASH_LOCK, recipient: MAKER, asset: TEZ, amount: '500', side: 'src', timelocks: DEFAULT_TIMELOCKS });
+
+    expect(batches[0]).toEqual([expect.objectContaining({
+      kind: OpKind.TRANSACTION,
+      to: HTLC,
+      amount: 500,
+      mutez: true,
+      parameter: {
+        entrypoint: 'lock',
+        value: {
+          prim: 'Pair',
+          args: [
+            { bytes: HASH_LOCK.slice(2) },
+            { string: MAKER },
+            { prim: 'Left', args: [{ prim: 'Unit' }] },
+            { int: '500' },
+            { int: String(DEFAULT_TIMELOCKS.srcWithdrawal) },
+            { int: String(DEFAULT_TIMELOCKS.srcCancellation) }
+          ]
+        }
+      }
+    })]);
+  });
+
+  test('reveals only matching secrets inside the withdrawal window and refunds after it', async () => {
+    const { adapter, batches } = await createAdapter();
+    const escrow = { side: 'dst' as const, timelocks: DEFAULT_TIMELOCKS, deployedAt: NOW - DEFAULT_TIMELOCKS.dstWithdrawal };
+
+    await expect(adapter.revealSecret(HASH_LOCK, `0x${'22'.repeat(32)}`, escrow)).rejects.toThrow('does not match');
+    await expect(adapter.refundHashLock(HASH_LOCK, escrow)).rejects.toThrow('Cannot cancel');
+    await adapter.revealSecret(HASH_LOCK, SECRET, escrow);
+
+    toolkit.state.timestamp = escrow.deployedAt + DEFAULT_TIMELOCKS.dstCancellation;
+    await adapter.refundHashLock(HASH_LOCK, escrow);
+
+    expect(batches.map(calls)).toEqual([
+      [{ to: HTLC, entrypoint: 'withdraw', value: { prim: 'Pair', args: [{ bytes: HASH_LOCK.slice(2) }, { bytes: SECRET.slice(2) }] } }],
+      [{ to: HTLC, entrypoint: 'refund', value: { bytes: HASH_LOCK.slice(2) } }]
+    ]);
+  });
+
+  test('returns the originated escrow contract address', async () => {
+    const { adapter, batches } = await createAdapter({
+      chainSpecific: {
+        contents: [{ kind: 'origination', metadata: { operation_result: { status: 'applied', originated_contracts: ['KT1new'] } } }]
+      }
+    });
+
+    await expect(adapter.deployHtlc()).resolves.toBe('KT1new');
+    expect(batches[0]).toEqual([expect.objectContaining({ kind: OpKind.ORIGINATION, balance: '0' })]);
+  });
+});
@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import type { IChainAdapter } from '../src/interfaces/IChainAdapter';
+import { TokenRegistry } from '../src/tokens/TokenRegistry';
+import type { UniversalAsset } from '../src/utils/fusionUtils';
+import { TEST_NOW as NOW, createAsset } from './fixtures';
+
+const TOKEN = '0x00000000000000000000000000000000000000AA';
+const USDC = createAsset({ address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', symbol: 'USDC', decimals: 6 });
+
+/**
+ * Adapter on chain 1 answering metadata lookups once `release` is called
+ */
+function createAdapter() {
+  const releases: Array<() => void> = [];
+  const getAssetMetadata = vi.fn((address: string) => new Promise<UniversalAsset>(resolve => {
+    releases.push(() => resolve(createAsset({ address, symbol: 'AA' })));
+  }));
+  const adapter = { chainId: 1, getAssetMetadata } as unknown as IChainAdapter;
+  const release = () => {
+    for (const resolve of releases.splice(0)) {
+      resolve();
+    }
+  };
+  return { adapter, getAssetMetadata, release };
+}
+
+describe('TokenRegistry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: NOW * 1000 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test('serves curated tokens without reading the chain, ignoring hex case', async () => {
+    const registry = new TokenRegistry({ tokenLists: { 1: [USDC] } });
+    const { adapter, getAssetMetadata } = createAdapter();
+
+    await expect(registry.resolve(adapter, USDC.address.toLowerCase())).resolves.toBe(USDC);
+    expect(registry.findBySymbol(1, 'usdc')).toBe(USDC);
+    expect(getAssetMetadata).not.toHaveBeenCalled();
+  });
+
+  test('shares one lookup between concurrent resolves and caches the result', async () => {
+    const registry = new TokenRegistry({ tokenLists: {} });
+    const { adapter, getAssetMetadata, release } = createAdapter();
+
+    const first = registry.resolve(adapter, TOKEN);
+    const second = registry.resolve(adapter, TOKEN.toLowerCase());
+    release();
+
+    const [asset, same] = await Promise.all([first, second]);
+    expect(same).toBe(asset);
+    await expect(registry.resolve(adapter, TOKEN)).resolves.toBe(asset);
+    expect(registry.get(1, TOKEN)).toBe(asset);
+    expect(getAssetMetadata).toHaveBeenCalledTimes(1);
+  });
+
+  test('reads expired or invalidated entries from the chain again', async () => {
+    const registry = new TokenRegistry({ ttlMs: 1000, tokenLists: { 1: [USDC] } });
+    const { adapter, getAssetMetadata, release } = createAdapter();
+
+    const lookup = registry.resolve(adapter, TOKEN);
+    release();
+    await lookup;
+    expect(registry.list(1)).toHaveLength(2);
+
+    vi.advanceTimersByTime(1000);
+    expect(registry.get(1, TOKEN)).toBeUndefined();
+    expect(registry.list(1)).toEqual([USDC]);
+
+    const refreshed = registry.resolve(adapter, TOKEN);
+    release();
+    await refreshed;
+    registry.invalidate(1);
+    expect(registry.get(1, TOKEN)).toBeUndefined();
+    expect(registry.get(1, USDC.address)).toBe(USDC);
+    expect(getAssetMetadata).toHaveBeenCalledTimes(2);
+  });
+
+  test('does not cache failed lookups', async () => {
+    const registry = new TokenRegistry({ tokenLists: {} });
+    const getAssetMetadata = vi.fn()
+      .mockRejectedValueOnce(new Error('not a token'))
+      .mockResolvedValueOnce(createAsset({ address: TOKEN }));
+    const adapter = { chainId: 1, getAssetMetadata } as unknown as IChainAdapter;
+
+    await expect(registry.resolve(adapter, TOKEN)).rejects.toThrow('not a token');
+    await expect(registry.resolve(adapter, TOKEN)).resolves.toMatchObject({ address: TOKEN });
+    expect(getAssetMetadata).toHaveBeenCalledTimes(2);
+  });
+});
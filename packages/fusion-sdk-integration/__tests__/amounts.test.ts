@@ -0,0 +1,133 @@
+import { describe, expect, test } from 'vitest';
+import {
+  PrecisionLossError,
+  type RoundingMode,
+  convertAmount,
+  fromBaseUnits,
+  rescaleAmount,
+  toBaseUnits
+} from '../src/utils/amounts';
+import { formatAmount, parseAmount } from '../src/utils/fusionUtils';
+
+const RUNS = 500;
+
+// Seeded PRNG so failures are reproducible
+function createRandom(seed: number) {
+  let state = seed;
+  const next = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t ^= (t + Math.imul(t ^ (t >>> 7), 61 | t));
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const int = (max: number) => Math.floor(next() * (max + 1));
+  const digits = (length: number) => Array.from({ length }, () => int(9)).join('');
+  const bigint = () => BigInt(digits(int(60)) || '0') * (next() < 0.2 ? -1n : 1n);
+  return { int, digits, bigint };
+}
+
+const pow10 = (exponent: number) => 10n ** BigInt(exponent);
+
+describe('toBaseUnits / fromBaseUnits', () => {
+  test('round-trips any base-unit amount exactly', () => {
+    const random = createRandom(1);
+    for (let i = 0; i < RUNS; i++) {
+      const amount = random.bigint();
+      const decimals = random.int(36);
+      expect(toBaseUnits(fromBaseUnits(amount, decimals), decimals)).toBe(amount);
+    }
+  });
+
+  test('each rounding mode satisfies its bound against the exact rational value', () => {
+    const random = createRandom(2);
+    for (let i = 0; i < RUNS; i++) {
+      const whole = random.digits(random.int(30)) || '0';
+      const fraction = random.digits(random.int(40));
+      const decimals = random.int(24);
+
+      // Exact value is numerator / denominator base units
+      const numerator = BigInt(whole + fraction) * pow10(decimals);
+      const denominator = pow10(fraction.length);
+      const human = fraction ? `${whole}.${fraction}` : whole;
+
+      const down = toBaseUnits(human, decimals, 'down');
+      expect(down * denominator <= numerator && numerator < (down + 1n) * denominator).toBe(true);
+
+      const up = toBaseUnits(human, decimals, 'up');
+      expect((up - 1n) * denominator < numerator && numerator <= up * denominator).toBe(true);
+
+      for (const mode of ['half-up', 'half-even'] as RoundingMode[]) {
+        const nearest = toBaseUnits(human, decimals, mode);
+        const distance = nearest * denominator - numerator;
+        expect((distance < 0n ? -distance : distance) * 2n <= denominator).toBe(true);
+      }
+
+      if (numerator % denominator === 0n) {
+        expect(toBaseUnits(human, decimals, 'exact')).toBe(down);
+      } else {
+        expect(() => toBaseUnits(human, decimals, 'exact')).toThrow(PrecisionLossError);
+      }
+    }
+  });
+
+  test('breaks ties as documented', () => {
+    expect(toBaseUnits('0.25', 1, 'half-up')).toBe(3n);
+    expect(toBaseUnits('0.25', 1, 'half-even')).toBe(2n);
+    expect(toBaseUnits('0.35', 1, 'half-even')).toBe(4n);
+    expect(toBaseUnits('-0.25', 1, 'half-up')).toBe(-3n);
+    expect(toBaseUnits('-1.99', 0, 'down')).toBe(-1n);
+  });
+
+  test('parses common human formats', () => {
+    expect(toBaseUnits('1.25', 6)).toBe(1_250_000n);
+    expect(toBaseUnits('.5', 18)).toBe(5n * pow10(17));
+    expect(toBaseUnits('7.', 2)).toBe(700n);
+    expect(fromBaseUnits(1_250_000n, 6)).toBe('1.25');
+    expect(fromBaseUnits('-5', 3)).toBe('-0.005');
+  });
+
+  test('rejects malformed amounts and decimals', () => {
+    for (const input of ['', '.', 'abc', '1.2.3', '1e18', '0x10']) {
+      expect(() => toBaseUnits(input, 18)).toThrow('Invalid decimal amount');
+    }
+    expect(() => toBaseUnits('1', -1)).toThrow('Decimals');
+    expect(() => fromBaseUnits(1n, 1.5)).toThrow('Decimals');
+  });
+});
+
+describe('rescaleAmount / convertAmount', () => {
+  test('scaling up then down is the identity', () => {
+    const random = createRandom(3);
+    for (let i = 0; i < RUNS; i++) {
+      const amount = random.bigint();
+      const from = random.int(30);
+      const to = from + random.int(30);
+      expect(rescaleAmount(rescaleAmount(amount, from, to), to, from, 'exact')).toBe(amount);
+    }
+  });
+
+  test('scaling down rounds toward zero by default', () => {
+    const random = createRandom(4);
+    for (let i = 0; i < RUNS; i++) {
+      const amount = random.bigint();
+      const to = random.int(30);
+      const from = to + random.int(30);
+      // BigInt division truncates toward zero
+      expect(rescaleAmount(amount, from, to)).toBe(amount / pow10(from - to));
+    }
+  });
+
+  test('converts between assets with different decimals', () => {
+    const usdc = { decimals: 6 };
+    const dai = { decimals: 18 };
+    expect(convertAmount(1_500_000n, usdc, dai)).toBe(15n * pow10(17));
+    expect(convertAmount(15n * pow10(17) + 1n, dai, usdc)).toBe(1_500_000n);
+    expect(convertAmount(15n * pow10(17) + 1n, dai, usdc, 'up')).toBe(1_500_001n);
+  });
+
+  test('legacy helpers stay exact beyond 2^53', () => {
+    const amount = (2n ** 64n + 1n).toString();
+    expect(formatAmount(amount, 6)).toBe((BigInt(amount) * pow10(12)).toString());
+    expect(parseAmount(formatAmount(amount, 6), 6)).toBe(amount);
+  });
+});
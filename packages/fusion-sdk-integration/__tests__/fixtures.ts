@@ -0,0 +1,113 @@
+import { AuctionDetails, EvmAddress, EvmCrossChainOrder, HashLock, NetworkEnum, TimeLocks } from '@1inch/cross-chain-sdk';
+import type { ResolverOrder } from '../src/interfaces/IResolverStrategy';
+import { OrderStatus, type UniversalAsset, type UniversalOrder } from '../src/utils/fusionUtils';
+
+/**
+ * Fixed clock for fixtures, in unix seconds
+ */
+export const TEST_NOW = 1_700_000_000;
+
+export function createAsset(overrides: Partial<UniversalAsset> = {}): UniversalAsset {
+  return {
+    chainId: 1,
+    address: '0x0000000000000000000000000000000000000001',
+    symbol: 'TKN',
+    decimals: 18,
+    standard: 'ERC20',
+    ...overrides
+  };
+}
+
+/**
+ * Pending order from chain 1 to chain 8453, due an hour after `TEST_NOW`
+ */
+export function createOrder(overrides: Partial<UniversalOrder> = {}): UniversalOrder {
+  return {
+    orderHash: '0xorder',
+    srcChain: 1,
+    dstChain: 8453,
+    srcAsset: createAsset(),
+    dstAsset: createAsset({ chainId: 8453 }),
+    amount: '1000',
+    minReturn: '990',
+    maker: '0xmaker',
+    deadline: TEST_NOW + 3600,
+    status: OrderStatus.PENDING,
+    statusHistory: [],
+    fills: [],
+    ...overrides
+  };
+}
+
+/**
+ * Order the resolver sees, 1000 units from chain 1 to chain 8453
+ *
+ * Its auction starts at `TEST_NOW` 10% above the taking amount and falls
+ * linearly to it over 1000 seconds.
+ */
+export function createResolverOrder(overrides: Partial<ResolverOrder> = {}): ResolverOrder {
+  const order: ResolverOrder = {
+    orderHash: '0xorder',
+    srcChain: 1,
+    dstChain: 8453,
+    maker: '0xmaker',
+    srcToken: '0x0000000000000000000000000000000000000001',
+    dstToken: '0x0000000000000000000000000000000000000002',
+    makingAmount: 1000n,
+    takingAmount: 1000n,
+    remainingMakingAmount: 1000n,
+    auctionStartTime: TEST_NOW,
+    auctionEndTime: TEST_NOW + 1000,
+    deadline: TEST_NOW + 3600,
+    srcSafetyDeposit: 10n,
+    dstSafetyDeposit: 5n,
+    partialFillAllowed: false,
+    multipleFillsAllowed: false,
+    getTakingAmount: (makingAmount, time) => {
+      const elapsed = Math.min(Math.max(time - order.auctionStartTime, 0), 1000);
+      const bumpBps = BigInt(1000 - elapsed);
+      return order.takingAmount * makingAmount * (10000n + bumpBps) / (order.makingAmount * 10000n);
+    },
+    raw: undefined,
+    ...overrides
+  };
+  return order;
+}
+
+/**
+ * Fusion+ order from Ethereum to Base, auctioned for 180 seconds from `TEST_NOW`
+ */
+export function createFusionOrder(): EvmCrossChainOrder {
+  return EvmCrossChainOrder.new(
+    EvmAddress.fromString(`0x${'fa'.repeat(20)}`),
+    {
+      makerAsset: EvmAddress.fromString('0x0000000000000000000000000000000000000001'),
+      takerAsset: EvmAddress.fromString('0x0000000000000000000000000000000000000002'),
+      makingAmount: 1000n,
+      takingAmount: 990n,
+      maker: EvmAddress.fromString(`0x${'aa'.repeat(20)}`),
+      salt: 1n
+    },
+    {
+      hashLock: HashLock.forSingleFill(`0x${'11'.repeat(32)}`),
+      srcChainId: NetworkEnum.ETHEREUM,
+      dstChainId: NetworkEnum.COINBASE,
+      srcSafetyDeposit: 10n,
+      dstSafetyDeposit: 5n,
+      timeLocks: TimeLocks.new({
+        srcWithdrawal: 10n,
+        srcPublicWithdrawal: 120n,
+        srcCancellation: 600n,
+        srcPublicCancellation: 900n,
+        dstWithdrawal: 10n,
+        dstPublicWithdrawal: 100n,
+        dstCancellation: 500n
+      })
+    },
+    {
+      auction: new AuctionDetails({ startTime: BigInt(TEST_NOW), duration: 180n, initialRateBump: 100000, points: [] }),
+      whitelist: [{ address: EvmAddress.fromString(`0x${'cc'.repeat(20)}`), allowFrom: 0n }]
+    },
+    { nonce: 1n, allowPartialFills: false, allowMultipleFills: false }
+  );
+}
@@ -0,0 +1,90 @@
+import { generateKeyPairSync, sign } from 'node:crypto';
+import { Wallet, ZeroHash, getBytes, hexlify } from 'ethers';
+import { describe, expect, test } from 'vitest';
+import {
+  type CanonicalOrder,
+  buildOrderDomain,
+  calculateOrderHash,
+  hashOrder,
+  recoverOrderSigner,
+  signOrder,
+  toCanonicalOrder,
+  verifyOrderSignature
+} from '../src/orders/orderHashing';
+import { LocalKeySigner } from '../src/signers/LocalKeySigner';
+import { TezosKeySigner } from '../src/signers/TezosKeySigner';
+import { TEST_NOW as NOW, createAsset, createOrder } from './fixtures';
+
+const MNEMONIC = 'test test test test test test test test test test test junk';
+const HASH_LOCK = `0x${'11'.repeat(32)}`;
+
+const ORDER: CanonicalOrder = {
+  srcChain: '1',
+  dstChain: '8453',
+  srcAsset: '0x0000000000000000000000000000000000000001',
+  dstAsset: '0x0000000000000000000000000000000000000002',
+  amount: '1000',
+  minReturn: '990',
+  maker: '0x00000000000000000000000000000000000000aa',
+  deadline: NOW + 3600,
+  hashLock: HASH_LOCK
+};
+
+// Encoded by hand: keccak256(0x1901 ‖ domainSeparator ‖ hashStruct(ORDER)) for the protocol on chain 1
+const ORDER_HASH = '0x19c814a0a8a76ac464f6e7c29b0b2a0e2056f983e3016b0d592c8d5ca12db618';
+
+describe('orderHashing', () => {
+  test('hashes EVM orders as EIP-712 typed data', () => {
+    expect(hashOrder(ORDER, buildOrderDomain(1))).toBe(ORDER_HASH);
+    expect(hashOrder(ORDER, buildOrderDomain(8453))).not.toBe(ORDER_HASH);
+  });
+
+  test('normalizes orders so checksummed addresses hash alike', () => {
+    const order = createOrder({
+      dstAsset: createAsset({ chainId: 8453, address: '0x0000000000000000000000000000000000000002' }),
+      maker: '0x00000000000000000000000000000000000000AA',
+      hashLock: HASH_LOCK
+    });
+
+    expect(toCanonicalOrder(order)).toEqual(ORDER);
+    expect(calculateOrderHash(order, buildOrderDomain(1))).toBe(ORDER_HASH);
+    expect(toCanonicalOrder({ ...order, hashLock: undefined }).hashLock).toBe(ZeroHash);
+    expect(() => toCanonicalOrder({ ...order, amount: '1.5' })).toThrow('Order amount must be an integer amount in base units, got 1.5');
+  });
+
+  test('signs typed data on EVM domains and recovers the maker', async () => {
+    const wallet = Wallet.fromPhrase(MNEMONIC);
+    const order = { ...ORDER, maker: wallet.address.toLowerCase() };
+    const domain = buildOrderDomain(1);
+
+    const signature = await signOrder(order, domain, new LocalKeySigner(wallet.privateKey));
+
+    expect(recoverOrderSigner(order, domain, signature)).toBe(wallet.address);
+    expect(verifyOrderSignature(order, domain, signature, wallet.address)).toBe(true);
+    expect(verifyOrderSignature({ ...order, minReturn: '991' }, domain, signature, wallet.address)).toBe(false);
+  });
+
+  test('round-trips Tezos edsig signatures over the digest', async () => {
+    const signer = TezosKeySigner.fromMnemonic(MNEMONIC);
+    const publicKey = await signer.getPublicKey();
+    const domain = buildOrderDomain('NetXdQprcVkpaWU', 'KT1PWx2mnDueood7fEmfbBDKx1D9BAnnXitn');
+    const order = { ...ORDER, srcChain: 'NetXdQprcVkpaWU', maker: await signer.getAddress() };
+
+    const signature = await signOrder(order, domain, signer);
+
+    expect(signature.startsWith('edsig')).toBe(true);
+    expect(verifyOrderSignature(order, domain, signature, publicKey)).toBe(true);
+    expect(verifyOrderSignature({ ...order, amount: '1001' }, domain, signature, publicKey)).toBe(false);
+    expect(() => recoverOrderSigner(order, domain, signature)).toThrow('only possible on EVM domains');
+  });
+
+  test('verifies raw Ed25519 signatures against a hex public key', () => {
+    const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+    const domain = buildOrderDomain('aptos-mainnet', '0x1');
+    const signature = hexlify(sign(null, getBytes(hashOrder(ORDER, domain)), privateKey));
+    const rawKey = hexlify(Buffer.from(publicKey.export({ format: 'jwk' }).x as string, 'base64url'));
+
+    expect(verifyOrderSignature(ORDER, domain, signature, rawKey)).toBe(true);
+    expect(verifyOrderSignature(ORDER, buildOrderDomain('sui-mainnet', '0x1'), signature, rawKey)).toBe(false);
+  });
+});
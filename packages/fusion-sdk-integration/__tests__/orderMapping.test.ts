@@ -0,0 +1,115 @@
+import { type OrderFillsByMakerOutput, OrderStatus as RelayerOrderStatus, ValidationStatus } from '@1inch/cross-chain-sdk';
+import { describe, expect, test } from 'vitest';
+import type { Order } from '../src/interfaces/Order';
+import { fromRelayerOrder, fromUniversalOrder, toCreateOrderParams, toUniversalOrder } from '../src/orders/orderMapping';
+import { OrderStatus } from '../src/utils/fusionUtils';
+import { TEST_NOW as NOW, createAsset, createOrder } from './fixtures';
+
+const SRC_TOKEN = '0x0000000000000000000000000000000000000001';
+const DST_TOKEN = '0x0000000000000000000000000000000000000002';
+
+function createSimpleOrder(overrides: Partial<Order> = {}): Order {
+  return {
+    id: '0xorder',
+    fromToken: SRC_TOKEN,
+    toToken: DST_TOKEN,
+    fromAmount: '1000',
+    toAmount: '990',
+    makerAddress: '0xmaker',
+    deadline: NOW + 3600,
+    ...overrides
+  };
+}
+
+describe('fromUniversalOrder', () => {
+  test('uses the hash as id and the minimum return as the amount out', () => {
+    const order = createOrder({ dstAsset: createAsset({ chainId: 8453, address: DST_TOKEN }) });
+
+    expect(fromUniversalOrder(order)).toEqual({
+      id: '0xorder',
+      fromToken: SRC_TOKEN,
+      toToken: DST_TOKEN,
+      fromAmount: '1000',
+      toAmount: '990',
+      makerAddress: '0xmaker',
+      deadline: NOW + 3600,
+      srcChain: 1,
+      dstChain: 8453,
+      status: OrderStatus.PENDING
+    });
+  });
+});
+
+describe('toUniversalOrder', () => {
+  const srcAsset = createAsset({ address: SRC_TOKEN });
+  const dstAsset = createAsset({ chainId: 8453, address: DST_TOKEN });
+
+  test('takes chains from the assets and round-trips through fromUniversalOrder', () => {
+    const simple = createSimpleOrder();
+    const order = toUniversalOrder(simple, srcAsset, dstAsset);
+
+    expect(order).toMatchObject({ srcChain: 1, dstChain: 8453, status: OrderStatus.CREATED, statusHistory: [], fills: [] });
+    expect(fromUniversalOrder(order)).toEqual({ ...simple, srcChain: 1, dstChain: 8453, status: OrderStatus.CREATED });
+  });
+
+  test('matches asset addresses regardless of case', () => {
+    const checksummed = createAsset({ address: '0x00000000000000000000000000000000000000Ab' });
+    const order = createSimpleOrder({ fromToken: '0x00000000000000000000000000000000000000aB' });
+    expect(toUniversalOrder(order, checksummed, dstAsset).srcAsset).toBe(checksummed);
+  });
+
+  test('keeps a given status and rejects assets that do not match', () => {
+    expect(toUniversalOrder(createSimpleOrder({ status: OrderStatus.PENDING }), srcAsset, dstAsset).status).toBe(OrderStatus.PENDING);
+    expect(() => toUniversalOrder(createSimpleOrder(), dstAsset, srcAsset)).toThrow('Assets do not match order 0xorder');
+  });
+});
+
+describe('fromRelayerOrder', () => {
+  test('ends a relayer order with its auction', () => {
+    const listed = {
+      orderHash: '0xlisted',
+      validation: ValidationStatus.Valid,
+      status: RelayerOrderStatus.Pending,
+      makerAsset: SRC_TOKEN,
+      takerAsset: DST_TOKEN,
+      makerAmount: '1000',
+      minTakerAmount: '990',
+      approximateTakingAmount: '995',
+      cancelTx: null,
+      fills: [],
+      points: null,
+      auctionStartDate: NOW,
+      auctionDuration: 180,
+      initialRateBump: 0,
+      isNativeCurrency: false,
+      srcChainId: 1,
+      dstChainId: 8453,
+      createdAt: new Date(NOW * 1000).toISOString(),
+      cancelable: true
+    } as OrderFillsByMakerOutput;
+
+    expect(fromRelayerOrder(listed, '0xmaker')).toEqual({
+      ...createSimpleOrder({ id: '0xlisted', deadline: NOW + 180 }),
+      srcChain: 1,
+      dstChain: 8453,
+      status: OrderStatus.PENDING
+    });
+  });
+});
+
+describe('toCreateOrderParams', () => {
+  test('places orders without chains on the default chain', () => {
+    expect(toCreateOrderParams(createSimpleOrder(), 42793)).toEqual({
+      srcChainId: 42793,
+      dstChainId: 42793,
+      srcTokenAddress: SRC_TOKEN,
+      dstTokenAddress: DST_TOKEN,
+      amount: '1000',
+      minReturn: '990',
+      deadline: NOW + 3600,
+      walletAddress: '0xmaker'
+    });
+    expect(toCreateOrderParams(createSimpleOrder({ srcChain: 1, dstChain: 8453 }), 42793))
+      .toMatchObject({ srcChainId: 1, dstChainId: 8453 });
+  });
+});
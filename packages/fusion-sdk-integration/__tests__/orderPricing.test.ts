@@ -0,0 +1,50 @@
+import { describe, expect, test } from 'vitest';
+import { type OrderPricingParams, SlippageExceededError, priceOrder } from '../src/orders/orderPricing';
+import { TEST_NOW as NOW } from './fixtures';
+
+/**
+ * Quote for 10000 whose auction starts in 12 seconds, runs 180 and ends at 9950
+ */
+function createParams(overrides: Partial<OrderPricingParams> = {}): OrderPricingParams {
+  return {
+    quotedAmount: 10000n,
+    auctionEndAmount: 9950n,
+    startAuctionIn: 12n,
+    auctionDuration: 180n,
+    now: NOW,
+    ...overrides
+  };
+}
+
+describe('priceOrder', () => {
+  test('derives the minimum return and deadline from the quote', () => {
+    expect(priceOrder(createParams())).toEqual({
+      minReturn: '9900',
+      worstCaseReturn: '9950',
+      auctionEndsAt: NOW + 192,
+      deadline: NOW + 192
+    });
+    expect(priceOrder(createParams({ slippageBps: 50 })).minReturn).toBe('9950');
+  });
+
+  test('prefers an explicit limit and deadline', () => {
+    expect(priceOrder(createParams({ minReturn: '9000', deadline: NOW + 3600 }))).toMatchObject({
+      minReturn: '9000',
+      deadline: NOW + 3600
+    });
+  });
+
+  test('refuses auctions that may end below the limit', () => {
+    expect(() => priceOrder(createParams({ slippageBps: 0 }))).toThrow(SlippageExceededError);
+    expect(() => priceOrder(createParams({ minReturn: '9951' })))
+      .toThrow('Worst-case auction return 9950 is below the limit 9951');
+  });
+
+  test('rejects invalid slippage, limits and deadlines', () => {
+    expect(() => priceOrder(createParams({ slippageBps: 10001 }))).toThrow('between 0 and 10000 bps, got 10001');
+    expect(() => priceOrder(createParams({ slippageBps: 0.5 }))).toThrow('got 0.5');
+    expect(() => priceOrder(createParams({ minReturn: '0' }))).toThrow('Minimum return must be positive');
+    expect(() => priceOrder(createParams({ deadline: NOW + 191 })))
+      .toThrow(`Deadline ${NOW + 191} is before the auction ends at ${NOW + 192}`);
+  });
+});
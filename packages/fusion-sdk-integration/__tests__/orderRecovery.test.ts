@@ -0,0 +1,182 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import type { ChainTxResult, EscrowCancellation, IChainAdapter } from '../src/interfaces/IChainAdapter';
+import { OrderRecoveryWorker, getRecoveryOutcome } from '../src/orders/orderRecovery';
+import { type OrderEscrow, OrderStatus, type UniversalOrder } from '../src/utils/fusionUtils';
+import { DEFAULT_TIMELOCKS, type EscrowTimelocks } from '../src/utils/timelocks';
+import { TEST_NOW as NOW, createOrder } from './fixtures';
+
+/**
+ * Chain whose block time can lag behind the local clock
+ */
+function createAdapter(blockTimestamp = NOW) {
+  const adapter = {
+    blockTimestamp,
+    status: 'confirmed' as ChainTxResult['status'],
+    getBlockTimestamp: vi.fn(async () => adapter.blockTimestamp),
+    cancelEscrow: vi.fn(async (cancellation: EscrowCancellation): Promise<ChainTxResult> => ({
+      txHash: `0xcancel-${cancellation.address}`,
+      status: adapter.status
+    })),
+    refundHashLock: vi.fn(async (hashLock: string, _escrow: EscrowTimelocks): Promise<ChainTxResult> => ({
+      txHash: `0xrefund-${hashLock}`,
+      status: adapter.status
+    }))
+  };
+  return adapter;
+}
+
+function createEscrow(side: OrderEscrow['side'], deployedAt: number, overrides: Partial<OrderEscrow> = {}): OrderEscrow {
+  return {
+    side,
+    chainId: side === 'src' ? 1 : 8453,
+    address: `0x${side}`,
+    txHash: `0xdeploy-${side}`,
+    deployedAt,
+    amount: '1000',
+    hashLock: '0xhashlock',
+    status: 'locked',
+    ...overrides
+  };
+}
+
+/**
+ * Order past its deadline with the default timelocks
+ */
+function createStalledOrder(escrows: OrderEscrow[], overrides: Partial<UniversalOrder> = {}): UniversalOrder {
+  return createOrder({ deadline: NOW - 7200, timelocks: DEFAULT_TIMELOCKS, escrows, ...overrides });
+}
+
+describe('OrderRecoveryWorker', () => {
+  let src: ReturnType<typeof createAdapter>;
+  let dst: ReturnType<typeof createAdapter>;
+  let adapters: Map<string | number, IChainAdapter>;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: NOW * 1000 });
+    src = createAdapter();
+    dst = createAdapter();
+    adapters = new Map([[1, src as unknown as IChainAdapter], [8453, dst as unknown as IChainAdapter]]);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test('lets a maker publicly cancel its source escrow once public cancellation opens', async () => {
+    const escrow = createEscrow('src', NOW - DEFAULT_TIMELOCKS.srcPublicCancellation);
+    const order = createStalledOrder([escrow, createEscrow('dst', NOW - DEFAULT_TIMELOCKS.srcPublicCancellation)]);
+
+    const result = await new OrderRecoveryWorker(adapters, 'maker').recover(order);
+
+    expect(src.cancelEscrow).toHaveBeenCalledWith(expect.objectContaining({
+      address: '0xsrc',
+      orderHash: '0xorder',
+      maker: '0xmaker',
+      action: 'publicCancel'
+    }));
+    expect(dst.cancelEscrow).not.toHaveBeenCalled();
+    expect(result.refunds).toEqual([{
+      side: 'src',
+      chainId: 1,
+      escrow: '0xsrc',
+      asset: order.srcAsset,
+      amount: '1000',
+      txHash: '0xcancel-0xsrc'
+    }]);
+    expect(escrow).toMatchObject({ status: 'refunded', refundTxHash: '0xcancel-0xsrc' });
+  });
+
+  test('keeps a maker waiting through private cancellation', async () => {
+    const order = createStalledOrder([createEscrow('src', NOW - DEFAULT_TIMELOCKS.srcCancellation)]);
+
+    const result = await new OrderRecoveryWorker(adapters, 'maker').recover(order);
+
+    expect(result.waiting).toHaveLength(1);
+    expect(src.getBlockTimestamp).not.toHaveBeenCalled();
+    expect(getRecoveryOutcome(order, result)).toBeUndefined();
+  });
+
+  test('lets a resolver cancel both sides from private cancellation', async () => {
+    const order = createStalledOrder([
+      createEscrow('src', NOW - DEFAULT_TIMELOCKS.srcCancellation),
+      createEscrow('dst', NOW - DEFAULT_TIMELOCKS.dstCancellation)
+    ], { dstSafetyDeposit: '5' });
+
+    const result = await new OrderRecoveryWorker(adapters, 'resolver').recover(order);
+
+    expect(result.refunds.map(refund => refund.side)).toEqual(['src', 'dst']);
+    expect(src.cancelEscrow).toHaveBeenCalledWith(expect.objectContaining({ action: 'cancel', safetyDeposit: undefined }));
+    expect(dst.cancelEscrow).toHaveBeenCalledWith(expect.objectContaining({ action: 'cancel', safetyDeposit: '5' }));
+  });
+
+  test('waits for the chain clock as well as the local one', async () => {
+    src.blockTimestamp = NOW - 60;
+    const order = createStalledOrder([createEscrow('src', NOW - DEFAULT_TIMELOCKS.srcPublicCancellation)]);
+
+    const result = await new OrderRecoveryWorker(adapters, 'maker').recover(order);
+
+    expect(src.getBlockTimestamp).toHaveBeenCalled();
+    expect(src.cancelEscrow).not.toHaveBeenCalled();
+    expect(result.waiting).toHaveLength(1);
+  });
+
+  test('refunds htlc locks by hash lock from private cancellation', async () => {
+    const order = createStalledOrder([createEscrow('src', NOW - DEFAULT_TIMELOCKS.srcCancellation)], { mode: 'htlc' });
+
+    const result = await new OrderRecoveryWorker(adapters, 'maker').recover(order);
+
+    expect(src.refundHashLock).toHaveBeenCalledWith('0xhashlock', {
+      side: 'src',
+      timelocks: DEFAULT_TIMELOCKS,
+      deployedAt: NOW - DEFAULT_TIMELOCKS.srcCancellation
+    });
+    expect(result.refunds[0].txHash).toBe('0xrefund-0xhashlock');
+  });
+
+  test('reports reverted refunds, unknown hash locks and missing adapters as failures', async () => {
+    src.status = 'failed';
+    const deployedAt = NOW - DEFAULT_TIMELOCKS.srcPublicCancellation;
+    const reverted = createEscrow('src', deployedAt);
+    const result = await new OrderRecoveryWorker(adapters, 'maker').recover(createStalledOrder([reverted]));
+    expect(result.failures[0].error.message).toContain('reverted');
+    expect(reverted.status).toBe('locked');
+
+    const unknownHashLock = createStalledOrder([createEscrow('src', deployedAt, { hashLock: undefined })], { mode: 'htlc' });
+    const htlcResult = await new OrderRecoveryWorker(adapters, 'maker').recover(unknownHashLock);
+    expect(htlcResult.failures[0].error.message).toContain('Hash lock of escrow 0xsrc is unknown');
+
+    const orphaned = createStalledOrder([createEscrow('src', deployedAt, { chainId: 10 })]);
+    const orphanedResult = await new OrderRecoveryWorker(adapters, 'maker').recover(orphaned);
+    expect(orphanedResult.failures[0].error.message).toBe('No adapter for chain 10');
+  });
+
+  test('waits on orders whose timelocks are unknown', async () => {
+    const order = createStalledOrder([createEscrow('src', NOW - 100_000)], { timelocks: undefined });
+    const result = await new OrderRecoveryWorker(adapters, 'maker').recover(order);
+    expect(result.waiting).toHaveLength(1);
+    expect(src.cancelEscrow).not.toHaveBeenCalled();
+  });
+});
+
+describe('getRecoveryOutcome', () => {
+  const settled = { refunds: [], waiting: [], failures: [] };
+
+  test('expires orders whose escrows were all refunded', () => {
+    const order = createStalledOrder([createEscrow('src', NOW, { status: 'refunded' })]);
+    expect(getRecoveryOutcome(order, settled)).toMatchObject({ status: OrderStatus.EXPIRED });
+  });
+
+  test('fails orders that settled only some fills', () => {
+    const order = createStalledOrder([
+      createEscrow('src', NOW, { status: 'withdrawn' }),
+      createEscrow('src', NOW, { address: '0xsrc2', status: 'refunded' })
+    ]);
+    expect(getRecoveryOutcome(order, settled)).toMatchObject({ status: OrderStatus.FAILED });
+  });
+
+  test('has no outcome while escrows are pending or nothing was refunded', () => {
+    const escrow = createEscrow('src', NOW);
+    expect(getRecoveryOutcome(createStalledOrder([escrow]), { ...settled, waiting: [escrow] })).toBeUndefined();
+    expect(getRecoveryOutcome(createStalledOrder([createEscrow('src', NOW, { status: 'withdrawn' })]), settled)).toBeUndefined();
+  });
+});
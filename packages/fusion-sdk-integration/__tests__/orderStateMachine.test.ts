@@ -0,0 +1,112 @@
+import { describe, expect, test } from 'vitest';
+import {
+  InvalidOrderTransitionError,
+  ORDER_TRANSITIONS,
+  canTransition,
+  deriveOrderStatus,
+  isTerminalStatus,
+  rollbackOrder,
+  transitionOrder
+} from '../src/orders/orderStateMachine';
+import { OrderStatus } from '../src/utils/fusionUtils';
+import { TEST_NOW as NOW, createOrder } from './fixtures';
+
+const ALL_STATUSES = Object.values(OrderStatus);
+
+describe('transitionOrder', () => {
+  test('follows the happy path and records each transition', () => {
+    const order = createOrder({ status: OrderStatus.CREATED });
+
+    expect(transitionOrder(order, OrderStatus.PENDING, 'submitted', NOW)).toBe(true);
+    expect(transitionOrder(order, OrderStatus.PARTIALLY_FILLED, undefined, NOW + 1)).toBe(true);
+    expect(transitionOrder(order, OrderStatus.EXECUTED, undefined, NOW + 2)).toBe(true);
+
+    expect(order.status).toBe(OrderStatus.EXECUTED);
+    expect(order.statusHistory).toEqual([
+      { from: OrderStatus.CREATED, to: OrderStatus.PENDING, timestamp: NOW, reason: 'submitted' },
+      { from: OrderStatus.PENDING, to: OrderStatus.PARTIALLY_FILLED, timestamp: NOW + 1, reason: undefined },
+      { from: OrderStatus.PARTIALLY_FILLED, to: OrderStatus.EXECUTED, timestamp: NOW + 2, reason: undefined }
+    ]);
+  });
+
+  test('is a no-op when the order already has the status', () => {
+    const order = createOrder({ status: OrderStatus.PENDING });
+    expect(transitionOrder(order, OrderStatus.PENDING)).toBe(false);
+    expect(order.statusHistory).toEqual([]);
+  });
+
+  test('accepts exactly the transitions in the table', () => {
+    for (const from of ALL_STATUSES) {
+      for (const to of ALL_STATUSES.filter(status => status !== from)) {
+        const order = createOrder({ status: from });
+        if (canTransition(from, to)) {
+          expect(transitionOrder(order, to)).toBe(true);
+          expect(order.status).toBe(to);
+        } else {
+          expect(() => transitionOrder(order, to)).toThrow(InvalidOrderTransitionError);
+          expect(order.status).toBe(from);
+          expect(order.statusHistory).toEqual([]);
+        }
+      }
+    }
+  });
+
+  test('never leaves a terminal status', () => {
+    const terminal = ALL_STATUSES.filter(isTerminalStatus);
+    expect(terminal.sort()).toEqual(
+      [OrderStatus.CANCELLED, OrderStatus.EXECUTED, OrderStatus.EXPIRED, OrderStatus.FAILED].sort()
+    );
+    for (const from of terminal) {
+      expect(ORDER_TRANSITIONS[from]).toEqual([]);
+      expect(() => transitionOrder(createOrder({ status: from }), OrderStatus.PENDING)).toThrow(InvalidOrderTransitionError);
+    }
+  });
+
+  test('names the order and both statuses in the error', () => {
+    try {
+      transitionOrder(createOrder({ status: OrderStatus.EXECUTED }), OrderStatus.CANCELLED);
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(InvalidOrderTransitionError);
+      expect(error).toMatchObject({ orderHash: '0xorder', from: OrderStatus.EXECUTED, to: OrderStatus.CANCELLED });
+    }
+  });
+});
+
+describe('rollbackOrder', () => {
+  test('moves a partially filled order back to pending and flags the rollback', () => {
+    const order = createOrder({ status: OrderStatus.PARTIALLY_FILLED });
+    expect(rollbackOrder(order, OrderStatus.PENDING, 'reorg', NOW)).toBe(true);
+    expect(order.status).toBe(OrderStatus.PENDING);
+    expect(order.statusHistory).toEqual([
+      { from: OrderStatus.PARTIALLY_FILLED, to: OrderStatus.PENDING, timestamp: NOW, reason: 'reorg', rollback: true }
+    ]);
+  });
+
+  test('rejects rollbacks out of terminal statuses', () => {
+    for (const from of ALL_STATUSES.filter(isTerminalStatus)) {
+      expect(() => rollbackOrder(createOrder({ status: from }), OrderStatus.PENDING)).toThrow(InvalidOrderTransitionError);
+    }
+    expect(() => rollbackOrder(createOrder({ status: OrderStatus.PENDING }), OrderStatus.CREATED)).toThrow(InvalidOrderTransitionError);
+  });
+});
+
+describe('deriveOrderStatus', () => {
+  const fill = { idx: 0, amount: '100', txHash: '0xfill', timestamp: NOW, resolver: '0xresolver' };
+
+  test('keeps terminal and created orders as they are', () => {
+    expect(deriveOrderStatus(createOrder({ status: OrderStatus.EXECUTED, deadline: NOW - 1 }), NOW)).toBe(OrderStatus.EXECUTED);
+    expect(deriveOrderStatus(createOrder({ status: OrderStatus.CREATED, deadline: NOW - 1 }), NOW)).toBe(OrderStatus.CREATED);
+  });
+
+  test('expires live orders past their deadline, even with fills', () => {
+    const order = createOrder({ status: OrderStatus.PARTIALLY_FILLED, deadline: NOW - 1, fills: [fill] });
+    expect(deriveOrderStatus(order, NOW)).toBe(OrderStatus.EXPIRED);
+    expect(deriveOrderStatus(createOrder({ status: OrderStatus.PENDING, deadline: NOW }), NOW)).toBe(OrderStatus.PENDING);
+  });
+
+  test('reports pending orders with fills as partially filled', () => {
+    expect(deriveOrderStatus(createOrder({ status: OrderStatus.PENDING, fills: [fill] }), NOW)).toBe(OrderStatus.PARTIALLY_FILLED);
+    expect(deriveOrderStatus(createOrder({ status: OrderStatus.PENDING }), NOW)).toBe(OrderStatus.PENDING);
+  });
+});
@@ -0,0 +1,135 @@
+import { HashLock } from '@1inch/cross-chain-sdk';
+import { hexlify, randomBytes } from 'ethers';
+import { describe, expect, test } from 'vitest';
+import {
+  PartialFillError,
+  getFillProof,
+  getFillSecretIndex,
+  getSecretLeaves,
+  recordFill,
+  validateFillSecret,
+  verifyFillProof
+} from '../src/utils/partialFills';
+import type { OrderFill, UniversalOrder } from '../src/utils/fusionUtils';
+import { TEST_NOW, createOrder } from './fixtures';
+
+const SECRETS_COUNT = 5; // four parts plus the secret of the completing fill
+
+const secretHashes = Array.from({ length: SECRETS_COUNT }, () => HashLock.hashSecret(hexlify(randomBytes(32))));
+const hashLock = HashLock.forMultipleFills(getSecretLeaves(secretHashes));
+
+function createFillOrder(overrides: Partial<UniversalOrder> = {}): UniversalOrder {
+  return createOrder({ secretHashes, hashLock, ...overrides });
+}
+
+function createFill(idx: number, amount: bigint): OrderFill {
+  return { idx, amount: amount.toString(), txHash: `0xfill${idx}`, timestamp: TEST_NOW, resolver: '0xresolver' };
+}
+
+describe('getFillSecretIndex', () => {
+  test('uses the secret of the part a fill ends in', () => {
+    expect(getFillSecretIndex(1000n, 0n, 1n, SECRETS_COUNT)).toBe(0);
+    expect(getFillSecretIndex(1000n, 0n, 250n, SECRETS_COUNT)).toBe(0);
+    expect(getFillSecretIndex(1000n, 0n, 251n, SECRETS_COUNT)).toBe(1);
+    expect(getFillSecretIndex(1000n, 250n, 500n, SECRETS_COUNT)).toBe(2);
+    expect(getFillSecretIndex(1000n, 500n, 499n, SECRETS_COUNT)).toBe(3);
+  });
+
+  test('reserves the last secret for the fill that completes the order', () => {
+    expect(getFillSecretIndex(1000n, 0n, 1000n, SECRETS_COUNT)).toBe(4);
+    expect(getFillSecretIndex(1000n, 999n, 1n, SECRETS_COUNT)).toBe(4);
+  });
+
+  test('always uses index 0 for single-secret orders', () => {
+    expect(getFillSecretIndex(1000n, 0n, 1000n, 1)).toBe(0);
+    expect(getFillSecretIndex(1000n, 400n, 100n, 1)).toBe(0);
+  });
+
+  test('never decreases as an order fills up', () => {
+    for (const step of [1n, 7n, 99n, 250n, 333n]) {
+      let filled = 0n;
+      let previous = -1;
+      while (filled < 1000n) {
+        const fillAmount = filled + step > 1000n ? 1000n - filled : step;
+        const index = getFillSecretIndex(1000n, filled, fillAmount, SECRETS_COUNT);
+        expect(index).toBeGreaterThanOrEqual(previous);
+        expect(index).toBeLessThan(SECRETS_COUNT);
+        previous = index;
+        filled += fillAmount;
+      }
+      expect(previous).toBe(SECRETS_COUNT - 1);
+    }
+  });
+
+  test('rejects empty and overfilling fills', () => {
+    expect(() => getFillSecretIndex(1000n, 0n, 0n, SECRETS_COUNT)).toThrow('Invalid fill');
+    expect(() => getFillSecretIndex(1000n, 900n, 101n, SECRETS_COUNT)).toThrow('Invalid fill');
+    expect(() => getFillSecretIndex(1000n, -1n, 1n, SECRETS_COUNT)).toThrow('Invalid fill');
+  });
+});
+
+describe('getFillProof / verifyFillProof', () => {
+  test('proves every secret hash into the hash lock', () => {
+    for (let idx = 0; idx < SECRETS_COUNT; idx++) {
+      const proof = getFillProof(secretHashes, idx);
+      expect(verifyFillProof(hashLock.toString(), idx, secretHashes[idx], proof)).toBe(true);
+    }
+  });
+
+  test('rejects a proof for another index or secret hash', () => {
+    const proof = getFillProof(secretHashes, 1);
+    expect(verifyFillProof(hashLock.toString(), 2, secretHashes[1], proof)).toBe(false);
+    expect(verifyFillProof(hashLock.toString(), 1, secretHashes[2], proof)).toBe(false);
+    expect(verifyFillProof(hashLock.toString(), SECRETS_COUNT, secretHashes[1], proof)).toBe(false);
+    expect(verifyFillProof(hashLock.toString(), -1, secretHashes[1], proof)).toBe(false);
+  });
+
+  test('rejects out-of-range indexes', () => {
+    expect(() => getFillProof(secretHashes, SECRETS_COUNT)).toThrow(PartialFillError);
+    expect(() => getFillProof(secretHashes, 0.5)).toThrow(PartialFillError);
+  });
+});
+
+describe('validateFillSecret', () => {
+  test('accepts fills that use the secrets assigned to them, in order', () => {
+    const order = createFillOrder();
+    validateFillSecret(order, 1, 300n);
+    recordFill(order, createFill(1, 300n));
+    validateFillSecret(order, 2, 400n);
+    recordFill(order, createFill(2, 400n));
+    validateFillSecret(order, 4, 300n);
+  });
+
+  test('rejects a secret other than the one the fill amount assigns', () => {
+    expect(() => validateFillSecret(createFillOrder(), 0, 300n)).toThrow('unlocks secret 1, not 0');
+  });
+
+  test('rejects secrets revealed out of order', () => {
+    const order = createFillOrder({ fills: [createFill(2, 600n)] });
+    expect(() => validateFillSecret(order, 1, 100n)).toThrow('out of order');
+  });
+
+  test('rejects fills beyond the order amount and unknown indexes', () => {
+    const order = createFillOrder({ fills: [createFill(3, 800n)] });
+    expect(() => validateFillSecret(order, 4, 201n)).toThrow(PartialFillError);
+    expect(() => validateFillSecret(order, SECRETS_COUNT, 200n)).toThrow('out of range');
+  });
+
+  test('uses secret 0 for every fill of a single-secret order', () => {
+    const order = createFillOrder({ secretHashes: [secretHashes[0]], hashLock: undefined });
+    validateFillSecret(order, 0, 1000n);
+    expect(() => validateFillSecret(order, 1, 1000n)).toThrow('out of range');
+  });
+});
+
+describe('recordFill', () => {
+  test('keeps fills sorted by index and replaces a re-recorded fill', () => {
+    const order = createFillOrder();
+    recordFill(order, createFill(3, 400n));
+    recordFill(order, createFill(1, 300n));
+    recordFill(order, { ...createFill(3, 400n), txHash: '0xreplaced' });
+
+    expect(order.fills.map(fill => fill.idx)).toEqual([1, 3]);
+    expect(order.fills[1].txHash).toBe('0xreplaced');
+  });
+});
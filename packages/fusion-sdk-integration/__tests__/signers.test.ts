@@ -0,0 +1,184 @@
+import { Transaction, Wallet, getBytes, verifyMessage, verifyTypedData } from 'ethers';
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import { EVMChainAdapter } from '../src/adapters/EVMChainAdapter';
+import { SignatureScheme } from '../src/interfaces/IChainAdapter';
+import type { ISigner } from '../src/interfaces/ISigner';
+import { Eip1193Signer } from '../src/signers/Eip1193Signer';
+import { LocalKeySigner } from '../src/signers/LocalKeySigner';
+import { MnemonicSigner } from '../src/signers/MnemonicSigner';
+import { RemoteSigner } from '../src/signers/RemoteSigner';
+import type { UniversalTxParams } from '../src/utils/fusionUtils';
+import { createAsset } from './fixtures';
+
+// Well-known development mnemonic and its first two accounts
+const MNEMONIC = 'test test test test test test test test test test test junk';
+const ACCOUNT_0 = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const ACCOUNT_1 = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+const wallet = new Wallet(`0x${'01'.repeat(32)}`);
+const other = new Wallet(`0x${'02'.repeat(32)}`);
+
+const TX: UniversalTxParams = {
+  to: '0x0000000000000000000000000000000000000002',
+  value: '1000',
+  data: '0x1234',
+  gasLimit: '21000',
+  nonce: 7,
+  chainSpecific: { chainId: 8453, type: 2, maxFeePerGas: '2000000000', maxPriorityFeePerGas: '1000000000' }
+};
+
+const DOMAIN = { name: 'Test', version: '1', chainId: 1 };
+const TYPES = { Order: [{ name: 'amount', type: 'uint256' }] };
+
+describe('LocalKeySigner', () => {
+  test('signs complete EIP-1559 transactions, messages and typed data with its key', async () => {
+    const signer = new LocalKeySigner(wallet.privateKey);
+
+    const tx = Transaction.from(await signer.signTransaction(TX));
+    expect(tx).toMatchObject({ from: wallet.address, to: TX.to, value: 1000n, nonce: 7, chainId: 8453n, type: 2, maxFeePerGas: 2000000000n });
+    expect(verifyMessage('hello', await signer.signMessage('hello'))).toBe(wallet.address);
+    expect(verifyTypedData(DOMAIN, TYPES, { amount: 5 }, await signer.signTypedData(DOMAIN, TYPES, { amount: 5 }))).toBe(wallet.address);
+  });
+
+  test('derives mnemonic keys along the default or an indexed account path', async () => {
+    await expect(new MnemonicSigner(MNEMONIC).getAddress()).resolves.toBe(ACCOUNT_0);
+    const second = new MnemonicSigner(MNEMONIC, { accountIndex: 1 });
+    expect(second.path).toBe("m/44'/60'/0'/0/1");
+    await expect(second.getAddress()).resolves.toBe(ACCOUNT_1);
+  });
+});
+
+describe('RemoteSigner', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  /**
+   * Signing service answering with `signingWallet` and recording requests
+   */
+  function stubService(signingWallet: Wallet) {
+    const requests: Array<{ url: string; init: RequestInit }> = [];
+    vi.stubGlobal('fetch', vi.fn(async (url: string, init: RequestInit) => {
+      requests.push({ url, init });
+      const body = init.body ? JSON.parse(init.body as string) : {};
+      if (url.endsWith('/address')) {
+        return Response.json({ address: wallet.address.toLowerCase() });
+      }
+      if (url.endsWith('/sign/transaction')) {
+        const transaction = { ...body.transaction, chainId: 8453n, gasLimit: 21000n, maxFeePerGas: 2n, maxPriorityFeePerGas: 1n };
+        return Response.json({ signedTransaction: await signingWallet.signTransaction(transaction) });
+      }
+      if (url.endsWith('/sign/message')) {
+        return Response.json({ signature: await signingWallet.signMessage(body.message) });
+      }
+      return new Response('not found', { status: 404, statusText: 'Not Found' });
+    }));
+    return requests;
+  }
+
+  test('forwards requests with the key id and token, and checks the signing address', async () => {
+    const requests = stubService(wallet);
+    const signer = new RemoteSigner({ url: 'https://signer.test/', authToken: 'token', keyId: 'resolver' });
+
+    await expect(signer.getAddress()).resolves.toBe(wallet.address);
+    await expect(signer.signMessage('hello')).resolves.toBeTruthy();
+    await expect(signer.signTransaction({ to: TX.to, value: '1', nonce: 0 })).resolves.toBeTruthy();
+
+    expect(requests.map(({ url }) => url)).toEqual([
+      'https://signer.test/address',
+      'https://signer.test/sign/message',
+      'https://signer.test/sign/transaction'
+    ]);
+    expect(requests[1].init.headers).toMatchObject({ Authorization: 'Bearer token' });
+    expect(JSON.parse(requests[1].init.body as string)).toEqual({ keyId: 'resolver', message: 'hello' });
+  });
+
+  test('rejects signatures from another key and failed requests', async () => {
+    stubService(other);
+    const signer = new RemoteSigner({ url: 'https://signer.test' });
+
+    await expect(signer.signMessage('hello')).rejects.toThrow(`message signed by ${other.address}`);
+    await expect(signer.signTransaction({ to: TX.to, nonce: 0 })).rejects.toThrow(`transaction signed by ${other.address}`);
+    await expect(signer.signTypedData(DOMAIN, TYPES, { amount: 5 })).rejects.toThrow('POST /sign/typed-data failed: 404 Not Found');
+  });
+});
+
+describe('Eip1193Signer', () => {
+  test('sends hex quantities to the wallet and asks for accounts once', async () => {
+    const request = vi.fn(({ method }: { method: string; params?: unknown[] }) =>
+      Promise.resolve(method === 'eth_requestAccounts' ? [wallet.address.toLowerCase()] : '0xsigned')
+    );
+    const signer = new Eip1193Signer({ request });
+
+    await expect(signer.signTransaction(TX)).resolves.toBe('0xsigned');
+    await signer.signMessage('hi');
+
+    expect(request.mock.calls.map(([{ method }]) => method)).toEqual(['eth_requestAccounts', 'eth_signTransaction', 'personal_sign']);
+    expect(request.mock.calls[1][0].params).toEqual([{
+      from: wallet.address,
+      to: TX.to,
+      value: '0x3e8',
+      data: '0x1234',
+      gas: '0x5208',
+      gasPrice: undefined,
+      maxFeePerGas: '0x77359400',
+      maxPriorityFeePerGas: '0x3b9aca00',
+      nonce: '0x7',
+      chainId: '0x2105',
+      type: '0x2'
+    }]);
+    expect(getBytes(request.mock.calls[2][0].params?.[0] as string)).toEqual(new TextEncoder().encode('hi'));
+  });
+
+  test('fails when the wallet exposes no account', async () => {
+    const signer = new Eip1193Signer({ request: async () => [] });
+    await expect(signer.getAddress()).rejects.toThrow('did not expose any accounts');
+  });
+});
+
+describe('EVMChainAdapter signing', () => {
+  const config = { rpcUrl: 'http://127.0.0.1:1', networkId: 8453 };
+
+  test('delegates signing to the configured signer with the chain id filled in', async () => {
+    const signTransaction = vi.fn(async () => '0xsigned');
+    const signer: ISigner = {
+      signatureScheme: SignatureScheme.ECDSA_SECP256K1,
+      getAddress: async () => wallet.address,
+      signTransaction,
+      signMessage: async message => `signed:${message}`
+    };
+    const adapter = new EVMChainAdapter(8453, 'Base', createAsset({ chainId: 8453 }));
+    await adapter.connect({ ...config, signer });
+
+    // Fully populated, so nothing is looked up on the node
+    await expect(adapter.signTransaction({ ...TX, chainSpecific: { type: 2, maxFeePerGas: '2', maxPriorityFeePerGas: '1' } })).resolves.toBe('0xsigned');
+    await expect(adapter.signMessage('hello')).resolves.toBe('signed:hello');
+    await expect(adapter.getAddress()).resolves.toBe(wallet.address);
+
+    expect(signTransaction).toHaveBeenCalledWith(expect.objectContaining({
+      nonce: 7,
+      gasLimit: '21000',
+      chainSpecific: { chainId: 8453, type: 2, maxFeePerGas: '2', maxPriorityFeePerGas: '1' }
+    }));
+    await adapter.disconnect();
+  });
+
+  test('builds a key signer from a private key and rejects signers of another scheme', async () => {
+    const adapter = new EVMChainAdapter(8453, 'Base', createAsset({ chainId: 8453 }));
+    await adapter.connect({ ...config, privateKey: wallet.privateKey });
+    await expect(adapter.getAddress()).resolves.toBe(wallet.address);
+    await adapter.disconnect();
+
+    const ed25519: ISigner = {
+      signatureScheme: SignatureScheme.ED25519,
+      getAddress: async () => '0x1',
+      signTransaction: async () => '0x',
+      signMessage: async () => '0x'
+    };
+    await expect(adapter.connect({ ...config, signer: ed25519 })).rejects.toThrow(`Signer scheme ${SignatureScheme.ED25519} cannot sign for Base`);
+
+    await adapter.connect(config);
+    await expect(adapter.signMessage('hello')).rejects.toThrow('No signer configured for Base');
+    await adapter.disconnect();
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, expect, test, vi } from 'vitest';
+import type { FillDecision, IResolverStrategy, ResolverContext } from '../src/interfaces/IResolverStrategy';
+import {
+  type IPriceOracle,
+  InventoryStrategy,
+  ProfitabilityStrategy,
+  combineDecisions,
+  evaluateStrategies
+} from '../src/resolver/strategies';
+import { TEST_NOW as NOW, createResolverOrder } from './fixtures';
+
+const DST_TOKEN = '0x0000000000000000000000000000000000000002';
+
+/**
+ * Context with native balances per chain and destination token inventory
+ */
+function createContext(balances: { src?: bigint; dst?: bigint; inventory?: bigint } = {}, now = NOW): ResolverContext {
+  return {
+    now,
+    getInventory: async () => balances.inventory ?? 10000n,
+    getNativeBalance: async chainId => (chainId === 1 ? balances.src : balances.dst) ?? 10000n
+  };
+}
+
+describe('InventoryStrategy', () => {
+  const strategy = new InventoryStrategy();
+
+  test('fills the whole order when the inventory covers the auction price', async () => {
+    // The auction starts 10% above the taking amount
+    await expect(strategy.evaluate(createResolverOrder(), createContext({ inventory: 1100n })))
+      .resolves.toEqual({ action: 'fill', makingAmount: 1000n });
+  });
+
+  test('skips orders whose safety deposits are not covered', async () => {
+    const order = createResolverOrder();
+    await expect(strategy.evaluate(order, createContext({ src: 9n }))).resolves.toMatchObject({ action: 'skip', reason: expect.stringContaining('source safety deposit') });
+    await expect(strategy.evaluate(order, createContext({ dst: 4n }))).resolves.toMatchObject({ action: 'skip', reason: expect.stringContaining('destination safety deposit') });
+  });
+
+  test('pays native destination amounts from what the deposit leaves', async () => {
+    const order = createResolverOrder({ dstToken: '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE' });
+    await expect(strategy.evaluate(order, createContext({ dst: 1105n, inventory: 0n }))).resolves.toMatchObject({ action: 'fill' });
+    await expect(strategy.evaluate(order, createContext({ dst: 1104n, inventory: 10000n }))).resolves.toMatchObject({ action: 'skip' });
+  });
+
+  test('scales multiple-fill orders down to the inventory, above the minimum share', async () => {
+    const order = createResolverOrder({ multipleFillsAllowed: true });
+
+    await expect(strategy.evaluate(order, createContext({ inventory: 550n }))).resolves.toEqual({
+      action: 'fill',
+      makingAmount: 500n,
+      reason: 'partial fill limited by inventory'
+    });
+    await expect(strategy.evaluate(order, createContext({ inventory: 100n }))).resolves.toMatchObject({ action: 'skip' });
+    await expect(strategy.evaluate(createResolverOrder(), createContext({ inventory: 550n })))
+      .resolves.toEqual({ action: 'skip', reason: `need 1100 of ${DST_TOKEN}, have 550` });
+  });
+});
+
+describe('ProfitabilityStrategy', () => {
+  /**
+   * Source tokens are worth `srcPrice` destination tokens; gas costs `gasPrice` per unit
+   */
+  function createOracle(srcPrice: bigint, gasPrice = 0n): IPriceOracle {
+    return {
+      getValue: async (chainId, _token, amount) => (chainId === 1 ? amount * srcPrice / 100n : amount),
+      getGasCost: async (_chainId, gasUnits) => gasUnits * gasPrice
+    };
+  }
+
+  test('fills once the auction price leaves the margin', async () => {
+    const strategy = new ProfitabilityStrategy(createOracle(105n));
+    // 1040 paid for 1050 received at this point of the auction
+    await expect(strategy.evaluate(createResolverOrder(), createContext({}, NOW + 600)))
+      .resolves.toEqual({ action: 'fill', makingAmount: 1000n });
+  });
+
+  test('waits until the first second the auction becomes profitable', async () => {
+    const strategy = new ProfitabilityStrategy(createOracle(105n));
+    const decision = await strategy.evaluate(createResolverOrder(), createContext());
+
+    // At most 1048 may be paid for 1050 with a 0.1% margin, which the auction reaches 511 seconds in
+    expect(decision).toMatchObject({ action: 'wait', retryAt: NOW + 511 });
+    await expect(strategy.evaluate(createResolverOrder(), createContext({}, NOW + 511))).resolves.toMatchObject({ action: 'fill' });
+  });
+
+  test('skips orders that never become profitable', async () => {
+    await expect(new ProfitabilityStrategy(createOracle(100n)).evaluate(createResolverOrder(), createContext()))
+      .resolves.toEqual({ action: 'skip', reason: 'not profitable before the auction ends' });
+    await expect(new ProfitabilityStrategy(createOracle(105n, 1n)).evaluate(createResolverOrder(), createContext()))
+      .resolves.toEqual({ action: 'skip', reason: 'gas cost 650000 exceeds order value 1050' });
+  });
+});
+
+describe('combineDecisions', () => {
+  const fill = (makingAmount: bigint): FillDecision => ({ action: 'fill', makingAmount });
+
+  test('lets a skip veto, defers to the latest wait and otherwise takes the smallest fill', () => {
+    const skip: FillDecision = { action: 'skip', reason: 'no inventory' };
+    expect(combineDecisions([fill(5n), skip, { action: 'wait', reason: 'later' }])).toBe(skip);
+    expect(combineDecisions([
+      fill(5n),
+      { action: 'wait', reason: 'later', retryAt: NOW + 10 },
+      { action: 'wait', reason: 'even later', retryAt: NOW + 20 }
+    ])).toEqual({ action: 'wait', reason: 'later; even later', retryAt: NOW + 20 });
+    expect(combineDecisions([fill(5n), fill(3n), fill(4n)])).toEqual(fill(3n));
+    expect(combineDecisions([])).toEqual({ action: 'skip', reason: 'no strategy configured' });
+  });
+});
+
+describe('evaluateStrategies', () => {
+  /**
+   * Strategy filling at most `limit`, recording the amounts it was asked about
+   */
+  function createStrategy(limit: bigint) {
+    const amounts: (bigint | undefined)[] = [];
+    const strategy: IResolverStrategy = {
+      name: `limit-${limit}`,
+      evaluate: vi.fn((_order, _context, makingAmount) => {
+        amounts.push(makingAmount);
+        return Promise.resolve({ action: 'fill' as const, makingAmount: makingAmount !== undefined && makingAmount < limit ? makingAmount : limit });
+      })
+    };
+    return { strategy, amounts };
+  }
+
+  test('evaluates a scaled-down fill again with every strategy', async () => {
+    const small = createStrategy(500n);
+    const large = createStrategy(800n);
+
+    const decision = await evaluateStrategies([large.strategy, small.strategy], createResolverOrder(), createContext());
+
+    expect(decision).toEqual({ action: 'fill', makingAmount: 500n });
+    expect(large.amounts).toEqual([1000n, 500n]);
+    expect(small.amounts).toEqual([1000n, 500n]);
+  });
+
+  test('never fills more than the order has left', async () => {
+    const decision = await evaluateStrategies([createStrategy(5000n).strategy], createResolverOrder({ remainingMakingAmount: 700n }), createContext());
+    expect(decision).toEqual({ action: 'fill', makingAmount: 700n });
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, expect, test } from 'vitest';
+import {
+  DEFAULT_TIMELOCKS,
+  type EscrowAction,
+  type EscrowTimelocks,
+  TimelockError,
+  assertActionPermitted,
+  fromSdkTimeLocks,
+  getEscrowStage,
+  getPermittedActions,
+  getStageWindow,
+  isActionPermitted,
+  toSdkTimeLocks,
+  validateTimelocks
+} from '../src/utils/timelocks';
+
+const DEPLOYED_AT = 1_700_000_000;
+
+const src: EscrowTimelocks = { side: 'src', timelocks: DEFAULT_TIMELOCKS, deployedAt: DEPLOYED_AT };
+const dst: EscrowTimelocks = { side: 'dst', timelocks: DEFAULT_TIMELOCKS, deployedAt: DEPLOYED_AT };
+
+describe('getEscrowStage', () => {
+  test('walks the source escrow through every stage at its boundaries', () => {
+    const { srcWithdrawal, srcPublicWithdrawal, srcCancellation, srcPublicCancellation } = DEFAULT_TIMELOCKS;
+    expect(getEscrowStage(src, DEPLOYED_AT - 1)).toBe('finality');
+    expect(getEscrowStage(src, DEPLOYED_AT + srcWithdrawal - 1)).toBe('finality');
+    expect(getEscrowStage(src, DEPLOYED_AT + srcWithdrawal)).toBe('private_withdrawal');
+    expect(getEscrowStage(src, DEPLOYED_AT + srcPublicWithdrawal)).toBe('public_withdrawal');
+    expect(getEscrowStage(src, DEPLOYED_AT + srcCancellation)).toBe('private_cancellation');
+    expect(getEscrowStage(src, DEPLOYED_AT + srcPublicCancellation)).toBe('public_cancellation');
+  });
+
+  test('ends the destination escrow in private cancellation', () => {
+    expect(getEscrowStage(dst, DEPLOYED_AT + DEFAULT_TIMELOCKS.dstCancellation)).toBe('private_cancellation');
+    expect(getEscrowStage(dst, DEPLOYED_AT + 10 * DEFAULT_TIMELOCKS.srcPublicCancellation)).toBe('private_cancellation');
+  });
+});
+
+describe('escrow actions', () => {
+  test('permit each action only in its stages', () => {
+    const at = (offset: number) => DEPLOYED_AT + offset;
+    expect(getPermittedActions(src, at(0))).toEqual([]);
+    expect(getPermittedActions(src, at(DEFAULT_TIMELOCKS.srcWithdrawal))).toEqual(['withdraw']);
+    expect(getPermittedActions(src, at(DEFAULT_TIMELOCKS.srcPublicWithdrawal))).toEqual(['withdraw', 'publicWithdraw']);
+    expect(getPermittedActions(src, at(DEFAULT_TIMELOCKS.srcCancellation))).toEqual(['cancel']);
+    expect(getPermittedActions(src, at(DEFAULT_TIMELOCKS.srcPublicCancellation))).toEqual(['cancel', 'publicCancel']);
+    expect(isActionPermitted(dst, 'publicCancel', at(10 * DEFAULT_TIMELOCKS.srcPublicCancellation))).toBe(false);
+  });
+
+  test('name the allowed window when refusing an action', () => {
+    const now = DEPLOYED_AT + 10;
+    expect(() => assertActionPermitted(src, 'cancel', now)).toThrow(TimelockError);
+    expect(() => assertActionPermitted(src, 'cancel', now)).toThrow(
+      `allowed from ${DEPLOYED_AT + DEFAULT_TIMELOCKS.srcCancellation}`
+    );
+    expect(() => assertActionPermitted(src, 'withdraw', DEPLOYED_AT + DEFAULT_TIMELOCKS.srcCancellation)).toThrow(
+      `until ${DEPLOYED_AT + DEFAULT_TIMELOCKS.srcCancellation}`
+    );
+    expect(() => assertActionPermitted(dst, 'publicCancel', now)).toThrow('never allowed on the dst escrow');
+  });
+
+  test('agree with the stage windows', () => {
+    const actions: EscrowAction[] = ['withdraw', 'publicWithdraw', 'cancel', 'publicCancel'];
+    for (const escrow of [src, dst]) {
+      for (let offset = -1; offset <= DEFAULT_TIMELOCKS.srcPublicCancellation + 1; offset += 59) {
+        const now = DEPLOYED_AT + offset;
+        const window = getStageWindow(escrow, getEscrowStage(escrow, now));
+        expect(now >= window.start || offset < 0).toBe(true);
+        expect(window.end === undefined || now < window.end).toBe(true);
+
+        for (const action of actions) {
+          const permitted = isActionPermitted(escrow, action, now);
+          expect(getPermittedActions(escrow, now).includes(action)).toBe(permitted);
+          if (permitted) {
+            expect(() => assertActionPermitted(escrow, action, now)).not.toThrow();
+          } else {
+            expect(() => assertActionPermitted(escrow, action, now)).toThrow(TimelockError);
+          }
+        }
+      }
+    }
+  });
+});
+
+describe('getStageWindow', () => {
+  test('returns absolute bounds, open-ended for the last stage', () => {
+    expect(getStageWindow(src, 'public_withdrawal')).toEqual({
+      start: DEPLOYED_AT + DEFAULT_TIMELOCKS.srcPublicWithdrawal,
+      end: DEPLOYED_AT + DEFAULT_TIMELOCKS.srcCancellation
+    });
+    expect(getStageWindow(src, 'public_cancellation')).toEqual({
+      start: DEPLOYED_AT + DEFAULT_TIMELOCKS.srcPublicCancellation,
+      end: undefined
+    });
+    expect(() => getStageWindow(dst, 'public_cancellation')).toThrow('does not exist on the dst escrow');
+  });
+});
+
+describe('validateTimelocks', () => {
+  test('accepts the defaults', () => {
+    expect(() => validateTimelocks(DEFAULT_TIMELOCKS)).not.toThrow();
+  });
+
+  test('rejects stages out of order', () => {
+    expect(() => validateTimelocks({ ...DEFAULT_TIMELOCKS, srcPublicWithdrawal: DEFAULT_TIMELOCKS.srcWithdrawal })).toThrow(
+      'public_withdrawal must start after private_withdrawal'
+    );
+    expect(() => validateTimelocks({ ...DEFAULT_TIMELOCKS, dstWithdrawal: 0 })).toThrow('Invalid dst timelocks');
+    expect(() => validateTimelocks({ ...DEFAULT_TIMELOCKS, srcWithdrawal: 1.5 })).toThrow('Invalid src timelocks');
+  });
+
+  test('requires the destination escrow to become cancellable first', () => {
+    expect(() => validateTimelocks({ ...DEFAULT_TIMELOCKS, dstCancellation: DEFAULT_TIMELOCKS.srcCancellation })).toThrow(
+      'must start before source cancellation'
+    );
+  });
+});
+
+describe('toSdkTimeLocks / fromSdkTimeLocks', () => {
+  test('round-trip through the packed representation', () => {
+    const timelocks = {
+      srcWithdrawal: 12,
+      srcPublicWithdrawal: 345,
+      srcCancellation: 6789,
+      srcPublicCancellation: 10_000,
+      dstWithdrawal: 11,
+      dstPublicWithdrawal: 222,
+      dstCancellation: 3333
+    };
+    expect(fromSdkTimeLocks(toSdkTimeLocks(timelocks))).toEqual(timelocks);
+    expect(fromSdkTimeLocks(toSdkTimeLocks(DEFAULT_TIMELOCKS))).toEqual(DEFAULT_TIMELOCKS);
+  });
+});
@@ -0,0 +1,160 @@
+/// Hash time-locked escrows of fungible assets, keyed by their keccak256 hash lock
+///
+/// Locked assets are held by a vault object owned by the module. The delays
+/// count in seconds from `created_at`. Anyone holding the secret may
+/// `withdraw` to the recipient while the escrow is withdrawable, and anyone
+/// may `refund` the sender once cancellation opens.
+module htlc::htlc {
+    use std::signer;
+    use aptos_std::aptos_hash;
+    use aptos_std::table::{Self, Table};
+    use aptos_framework::event;
+    use aptos_framework::fungible_asset::Metadata;
+    use aptos_framework::object::{Self, ExtendRef, Object};
+    use aptos_framework::primary_fungible_store;
+    use aptos_framework::timestamp;
+
+    const LOCKED: u8 = 0;
+    const WITHDRAWN: u8 = 1;
+    const REFUNDED: u8 = 2;
+
+    const E_ESCROW_EXISTS: u64 = 1;
+    const E_NO_ESCROW: u64 = 2;
+    const E_BAD_TIMELOCKS: u64 = 3;
+    const E_BAD_AMOUNT: u64 = 4;
+    const E_NOT_LOCKED: u64 = 5;
+    const E_BAD_SECRET: u64 = 6;
+    const E_TOO_EARLY: u64 = 7;
+    const E_EXPIRED: u64 = 8;
+    const E_NOT_EXPIRED: u64 = 9;
+
+    struct Escrow has store, drop {
+        sender: address,
+        recipient: address,
+        metadata: Object<Metadata>,
+        amount: u64,
+        created_at: u64,
+        withdrawal_delay: u64,
+        cancellation_delay: u64,
+        state: u8,
+    }
+
+    struct Escrows has key {
+        vault: ExtendRef,
+        escrows: Table<vector<u8>, Escrow>,
+    }
+
+    #[event]
+    struct EscrowCreated has drop, store {
+        hash_lock: vector<u8>,
+        sender: address,
+        recipient: address,
+        metadata: Object<Metadata>,
+        amount: u64,
+    }
+
+    #[event]
+    struct EscrowWithdrawn has drop, store {
+        hash_lock: vector<u8>,
+        secret: vector<u8>,
+    }
+
+    #[event]
+    struct EscrowRefunded has drop, store {
+        hash_lock: vector<u8>,
+    }
+
+    fun init_module(publisher: &signer) {
+        let vault = object::create_object(signer::address_of(publisher));
+        move_to(publisher, Escrows {
+            vault: object::generate_extend_ref(&vault),
+            escrows: table::new(),
+        });
+    }
+
+    public entry fun create_escrow(
+        sender: &signer,
+        hash_lock: vector<u8>,
+        recipient: address,
+        metadata: Object<Metadata>,
+        amount: u64,
+        withdrawal_delay: u64,
+        cancellation_delay: u64,
+    ) acquires Escrows {
+        assert!(amount > 0, E_BAD_AMOUNT);
+        assert!(withdrawal_delay < cancellation_delay, E_BAD_TIMELOCKS);
+
+        let escrows = borrow_global_mut<Escrows>(@htlc);
+        assert!(!table::contains(&escrows.escrows, hash_lock), E_ESCROW_EXISTS);
+
+        let vault = object::address_from_extend_ref(&escrows.vault);
+        primary_fungible_store::transfer(sender, metadata, vault, amount);
+
+        table::add(&mut escrows.escrows, hash_lock, Escrow {
+            sender: signer::address_of(sender),
+            recipient,
+            metadata,
+            amount,
+            created_at: timestamp::now_seconds(),
+            withdrawal_delay,
+            cancellation_delay,
+            state: LOCKED,
+        });
+        event::emit(EscrowCreated { hash_lock, sender: signer::address_of(sender), recipient, metadata, amount });
+    }
+
+    public entry fun withdraw(_caller: &signer, hash_lock: vector<u8>, secret: vector<u8>) acquires Escrows {
+        let escrows = borrow_global_mut<Escrows>(@htlc);
+        assert!(table::contains(&escrows.escrows, hash_lock), E_NO_ESCROW);
+
+        let escrow = table::borrow_mut(&mut escrows.escrows, hash_lock);
+        assert!(escrow.state == LOCKED, E_NOT_LOCKED);
+        assert!(aptos_hash::keccak256(secret) == hash_lock, E_BAD_SECRET);
+
+        let now = timestamp::now_seconds();
+        assert!(now >= escrow.created_at + escrow.withdrawal_delay, E_TOO_EARLY);
+        assert!(now < escrow.created_at + escrow.cancellation_delay, E_EXPIRED);
+
+        escrow.state = WITHDRAWN;
+        let (recipient, metadata, amount) = (escrow.recipient, escrow.metadata, escrow.amount);
+
+        let vault = object::generate_signer_for_extending(&escrows.vault);
+        primary_fungible_store::transfer(&vault, metadata, recipient, amount);
+        event::emit(EscrowWithdrawn { hash_lock, secret });
+    }
+
+    public entry fun refund(_caller: &signer, hash_lock: vector<u8>) acquires Escrows {
+        let escrows = borrow_global_mut<Escrows>(@htlc);
+        assert!(table::contains(&escrows.escrows, hash_lock), E_NO_ESCROW);
+
+        let escrow = table::borrow_mut(&mut escrows.escrows, hash_lock);
+        assert!(escrow.state == LOCKED, E_NOT_LOCKED);
+        assert!(timestamp::now_seconds() >= escrow.created_at + escrow.cancellation_delay, E_NOT_EXPIRED);
+
+        escrow.state = REFUNDED;
+        let (sender, metadata, amount) = (escrow.sender, escrow.metadata, escrow.amount);
+
+        let vault = object::generate_signer_for_extending(&escrows.vault);
+        primary_fungible_store::transfer(&vault, metadata, sender, amount);
+        event::emit(EscrowRefunded { hash_lock });
+    }
+
+    /// sender, recipient, metadata, amount, created_at, withdrawal_delay, cancellation_delay, state
+    #[view]
+    public fun get_escrow(hash_lock: vector<u8>): (address, address, address, u64, u64, u64, u64, u8) acquires Escrows {
+        let escrows = borrow_global<Escrows>(@htlc);
+        assert!(table::contains(&escrows.escrows, hash_lock), E_NO_ESCROW);
+
+        let escrow = table::borrow(&escrows.escrows, hash_lock);
+        (
+            escrow.sender,
+            escrow.recipient,
+            object::object_address(&escrow.metadata),
+            escrow.amount,
+            escrow.created_at,
+            escrow.withdrawal_delay,
+            escrow.cancellation_delay,
+            escrow.state,
+        )
+    }
+}
@@ -0,0 +1,114 @@
+/// Hash time-locked escrows, each a shared `Escrow<T>` object holding a `Balance<T>`
+///
+/// Escrows are matched by their keccak256 hash lock. The delays count in
+/// seconds from `created_at`. Anyone holding the secret may `withdraw` to
+/// the recipient while the escrow is withdrawable, and anyone may `refund`
+/// the sender once cancellation opens.
+module htlc::htlc;
+
+use sui::balance::Balance;
+use sui::clock::Clock;
+use sui::coin::{Self, Coin};
+use sui::event;
+use sui::hash;
+
+const LOCKED: u8 = 0;
+const WITHDRAWN: u8 = 1;
+const REFUNDED: u8 = 2;
+
+const EBadTimelocks: u64 = 1;
+const EBadAmount: u64 = 2;
+const ENotLocked: u64 = 3;
+const EBadSecret: u64 = 4;
+const ETooEarly: u64 = 5;
+const EExpired: u64 = 6;
+const ENotExpired: u64 = 7;
+
+public struct Escrow<phantom T> has key {
+    id: UID,
+    sender: address,
+    recipient: address,
+    hash_lock: vector<u8>,
+    balance: Balance<T>,
+    created_at: u64,
+    withdrawal_delay: u64,
+    cancellation_delay: u64,
+    state: u8,
+}
+
+public struct EscrowCreated has copy, drop {
+    escrow_id: ID,
+    hash_lock: vector<u8>,
+    sender: address,
+    recipient: address,
+    amount: u64,
+}
+
+public struct EscrowWithdrawn has copy, drop {
+    escrow_id: ID,
+    hash_lock: vector<u8>,
+    secret: vector<u8>,
+}
+
+public struct EscrowRefunded has copy, drop {
+    escrow_id: ID,
+    hash_lock: vector<u8>,
+}
+
+public fun create_escrow<T>(
+    coin: Coin<T>,
+    hash_lock: vector<u8>,
+    recipient: address,
+    withdrawal_delay: u64,
+    cancellation_delay: u64,
+    clock: &Clock,
+    ctx: &mut TxContext,
+) {
+    let amount = coin.value();
+    assert!(amount > 0, EBadAmount);
+    assert!(withdrawal_delay < cancellation_delay, EBadTimelocks);
+
+    let escrow = Escrow<T> {
+        id: object::new(ctx),
+        sender: ctx.sender(),
+        recipient,
+        hash_lock,
+        balance: coin.into_balance(),
+        created_at: clock.timestamp_ms() / 1000,
+        withdrawal_delay,
+        cancellation_delay,
+        state: LOCKED,
+    };
+    event::emit(EscrowCreated {
+        escrow_id: object::id(&escrow),
+        hash_lock: escrow.hash_lock,
+        sender: escrow.sender,
+        recipient,
+        amount,
+    });
+    transfer::share_object(escrow);
+}
+
+public fun withdraw<T>(escrow: &mut Escrow<T>, secret: vector<u8>, clock: &Clock, ctx: &mut TxContext) {
+    assert!(escrow.state == LOCKED, ENotLocked);
+    assert!(hash::keccak256(&secret) == escrow.hash_lock, EBadSecret);
+
+    let now = clock.timestamp_ms() / 1000;
+    assert!(now >= escrow.created_at + escrow.withdrawal_delay, ETooEarly);
+    assert!(now < escrow.created_at + escrow.cancellation_delay, EExpired);
+
+    escrow.state = WITHDRAWN;
+    let funds = coin::from_balance(escrow.balance.withdraw_all(), ctx);
+    transfer::public_transfer(funds, escrow.recipient);
+    event::emit(EscrowWithdrawn { escrow_id: object::id(escrow), hash_lock: escrow.hash_lock, secret });
+}
+
+public fun refund<T>(escrow: &mut Escrow<T>, clock: &Clock, ctx: &mut TxContext) {
+    assert!(escrow.state == LOCKED, ENotLocked);
+    assert!(clock.timestamp_ms() / 1000 >= escrow.created_at + escrow.cancellation_delay, ENotExpired);
+
+    escrow.state = REFUNDED;
+    let funds = coin::from_balance(escrow.balance.withdraw_all(), ctx);
+    transfer::public_transfer(funds, escrow.sender);
+    event::emit(EscrowRefunded { escrow_id: object::id(escrow), hash_lock: escrow.hash_lock });
+}
@@ -0,0 +1,633 @@
+import {
+  AccountAddress,
+  AccountAuthenticator,
+  Aptos,
+  AptosApiError,
+  AptosConfig,
+  type CommittedTransactionResponse,
+  Deserializer,
+  type EntryFunctionArgumentTypes,
+  Hex,
+  type InputViewFunctionData,
+  type MoveValue,
+  MoveVector,
+  Network,
+  SimpleTransaction,
+  type TypeArgument,
+  U64,
+  isUserTransactionResponse
+} from '@aptos-labs/ts-sdk';
+import { keccak256 } from 'ethers';
+import {
+  BaseChainAdapter,
+  type ChainConfig,
+  type ChainEvent,
+  type ChainTxResult,
+  type EscrowInspection,
+  type ExpectedEscrow,
+  type HashLockParams,
+  SignatureScheme
+} from '../interfaces/IChainAdapter';
+import type { ISigner } from '../interfaces/ISigner';
+import { AptosKeySigner } from '../signers/AptosKeySigner';
+import { type PollOutcome, type PollingScheduler, pollingScheduler } from '../core/PollingScheduler';
+import type { UniversalAsset, UniversalOrder, UniversalTxParams } from '../utils/fusionUtils';
+import { type EscrowTimelocks, type Timelocks, assertActionPermitted, validateTimelocks } from '../utils/timelocks';
+import { type OrderDomain, buildOrderDomain, calculateOrderHash, signOrder, toCanonicalOrder } from '../orders/orderHashing';
+import {
+  APTOS_COIN_TYPE,
+  APTOS_HTLC_EVENTS,
+  APTOS_HTLC_FUNCTIONS,
+  APT_METADATA_ADDRESS,
+  AptosEscrowState,
+  FUNGIBLE_ASSET_METADATA_TYPE
+} from './aptosModules';
+
+const MAX_U64 = (1n << 64n) - 1n;
+
+/**
+ * Escrow as returned by the module's `get_escrow` view
+ */
+interface AptosEscrow {
+  sender: string;
+  recipient: string;
+  metadata: string;
+  amount: bigint;
+  createdAt: number;
+  withdrawalDelay: number;
+  cancellationDelay: number;
+  state: AptosEscrowState;
+}
+
+/**
+ * Event row returned by the indexer
+ */
+interface AptosIndexedEvent {
+  type: string;
+  data: Record<string, unknown>;
+  transaction_version: string | number;
+  transaction_block_height: string | number;
+}
+
+/**
+ * Chain adapter for Aptos built on the Aptos TS SDK
+ *
+ * Assets are coin types (`0x1::aptos_coin::AptosCoin`) or fungible-asset
+ * metadata addresses. Hash lock operations are BCS-encoded entry-function
+ * calls to the escrow module at `contractAddresses.htlc`; events are read
+ * from the indexer at `customParams.indexerUrl`. Works against a local
+ * `aptos node run-local-testnet --with-indexer-api` as well as mainnet.
+ */
+export class AptosChainAdapter extends BaseChainAdapter {
+  readonly signatureScheme = SignatureScheme.ED25519;
+
+  private aptos?: Aptos;
+  private signer?: ISigner;
+  private subscriptions: string[] = [];
+
+  constructor(
+    readonly chainId: string,
+    readonly chainName: string,
+    readonly nativeAsset: UniversalAsset,
+    private readonly scheduler: PollingScheduler = pollingScheduler
+  ) {
+    super();
+  }
+
+  async connect(config: ChainConfig): Promise<void> {
+    const aptos = new Aptos(new AptosConfig({
+      network: Network.CUSTOM,
+      fullnode: config.rpcUrl,
+      indexer: config.customParams?.indexerUrl as string | undefined
+    }));
+
+    const ledger = await aptos.getLedgerInfo();
+    if (config.networkId !== undefined && ledger.chain_id !== Number(config.networkId)) {
+      throw new Error(`RPC ${config.rpcUrl} serves Aptos chain ${ledger.chain_id}, expected ${config.networkId}`);
+    }
+
+    this.aptos = aptos;
+    this.signer = config.signer
+      ?? (config.privateKey ? new AptosKeySigner(config.privateKey) : undefined)
+      ?? (config.mnemonic ? AptosKeySigner.fromMnemonic(config.mnemonic) : undefined);
+
+    if (this.signer && this.signer.signatureScheme !== this.signatureScheme) {
+      throw new Error(`Signer scheme ${this.signer.signatureScheme} cannot sign for ${this.chainName}`);
+    }
+
+    await super.connect(config);
+  }
+
+  async disconnect(): Promise<void> {
+    await this.unsubscribeFromEvents();
+    this.aptos = undefined;
+    this.signer = undefined;
+    await super.disconnect();
+  }
+
+  // Account management
+
+  async getAddress(): Promise<string> {
+    return await this.getSigner().getAddress();
+  }
+
+  async getBalance(asset: UniversalAsset, address?: string): Promise<string> {
+    const owner = address ?? (await this.getAddress());
+
+    // Coin balances include the coin's paired fungible asset
+    const [balance] = isCoinType(asset.address)
+      ? await this.view<[string]>({ function: '0x1::coin::balance', typeArguments: [asset.address], functionArguments: [owner] })
+      : await this.view<[string]>({
+        function: '0x1::primary_fungible_store::balance',
+        typeArguments: [FUNGIBLE_ASSET_METADATA_TYPE],
+        functionArguments: [owner, asset.address]
+      });
+    return BigInt(balance).toString();
+  }
+
+  async getNonce(address?: string): Promise<number> {
+    const owner = address ?? (await this.getAddress());
+    const account = await this.getAptos().getAccountInfo({ accountAddress: owner });
+    return Number(account.sequence_number);
+  }
+
+  // Transaction operations
+
+  async signTransaction(txParams: UniversalTxParams): Promise<string> {
+    return this.getSigner().signTransaction(await this.populateTransaction(txParams));
+  }
+
+  async signMessage(message: string): Promise<string> {
+    return await this.getSigner().signMessage(message);
+  }
+
+  /**
+   * Submit a transaction as produced by an Aptos signer: the BCS transaction
+   * followed by the sender's BCS authenticator
+   */
+  async broadcastTransaction(signedTx: string): Promise<ChainTxResult> {
+    const deserializer = new Deserializer(Hex.fromHexInput(signedTx).toUint8Array());
+    const transaction = SimpleTransaction.deserialize(deserializer);
+    const senderAuthenticator = AccountAuthenticator.deserialize(deserializer);
+
+    const pending = await this.getAptos().transaction.submit.simple({ transaction, senderAuthenticator });
+    return { txHash: pending.hash, status: 'pending' };
+  }
+
+  async getTransactionStatus(txHash: string): Promise<ChainTxResult> {
+    try {
+      const response = await this.getAptos().getTransactionByHash({ transactionHash: txHash });
+      if (!isUserTransactionResponse(response)) {
+        return { txHash, status: 'pending' };
+      }
+      return this.toTxResult(response);
+    } catch (error) {
+      if (error instanceof AptosApiError && error.status === 404) {
+        return { txHash, status: 'pending' };
+      }
+      throw error;
+    }
+  }
+
+  // Asset operations
+
+  async getAssetMetadata(address: string): Promise<UniversalAsset> {
+    if (address === APTOS_COIN_TYPE || address === APT_METADATA_ADDRESS) {
+      return { ...this.nativeAsset, address };
+    }
+
+    const [[symbol], [decimals]] = isCoinType(address)
+      ? await Promise.all([
+        this.view<[string]>({ function: '0x1::coin::symbol', typeArguments: [address] }),
+        this.view<[number]>({ function: '0x1::coin::decimals', typeArguments: [address] })
+      ])
+      : await Promise.all([
+        this.view<[string]>({ function: '0x1::fungible_asset::symbol', typeArguments: [FUNGIBLE_ASSET_METADATA_TYPE], functionArguments: [address] }),
+        this.view<[number]>({ function: '0x1::fungible_asset::decimals', typeArguments: [FUNGIBLE_ASSET_METADATA_TYPE], functionArguments: [address] })
+      ]);
+
+    return {
+      chainId: this.chainId,
+      address,
+      symbol,
+      decimals: Number(decimals),
+      standard: isCoinType(address) ? 'APTOS_COIN' : 'APTOS_FA'
+    };
+  }
+
+  /**
+   * Aptos has no allowances: entry functions move the signer's own assets
+   */
+  approveAsset(asset: UniversalAsset): Promise<ChainTxResult> {
+    return Promise.reject(new Error(`${asset.symbol} on ${this.chainName} does not require approval`));
+  }
+
+  getAssetAllowance(): Promise<string> {
+    return Promise.resolve(MAX_U64.toString());
+  }
+
+  // Order-specific operations
+
+  /**
+   * Orders are signed off-chain, so creation only derives the hash
+   */
+  createOrder(order: UniversalOrder): Promise<string> {
+    return new Promise(resolve => {
+      this.ensureConnected();
+      resolve(order.orderHash || calculateOrderHash(order, this.getOrderDomain()));
+    });
+  }
+
+  /**
+   * Ed25519 signature over the order digest, bound to this chain and its escrow module
+   */
+  async signOrder(order: UniversalOrder): Promise<string> {
+    return await signOrder(toCanonicalOrder(order), this.getOrderDomain(), this.getSigner());
+  }
+
+  cancelOrder(orderHash: string): Promise<ChainTxResult> {
+    return Promise.reject(new Error(`Orders on ${this.chainName} are not held on-chain; refund the hash lock of ${orderHash} instead`));
+  }
+
+  /**
+   * Claim funds locked under the secret's hash, checking the escrow covers
+   * the fill amount and has not expired
+   */
+  async fillOrder(orderHash: string, fillAmount: string, secret: string): Promise<ChainTxResult> {
+    const hashLock = keccak256(secret);
+    const escrow = await this.getEscrow(hashLock);
+
+    if (escrow.state !== AptosEscrowState.LOCKED) {
+      throw new Error(`Escrow ${hashLock} for order ${orderHash} is no longer locked`);
+    }
+    if (escrow.amount < BigInt(fillAmount)) {
+      throw new Error(`Escrow ${hashLock} for order ${orderHash} holds ${escrow.amount}, less than fill ${fillAmount}`);
+    }
+    const now = await this.getBlockTimestamp();
+    const expiresAt = escrow.createdAt + escrow.cancellationDelay;
+    if (now >= expiresAt) {
+      throw new Error(`Escrow ${hashLock} for order ${orderHash} expired at ${expiresAt} (chain time ${now})`);
+    }
+
+    return this.withdrawHashLock(hashLock, secret);
+  }
+
+  // Event monitoring
+
+  /**
+   * Poll the indexer for new escrow module events; Aptos nodes do not push events
+   */
+  async subscribeToEvents(eventTypes: string[], callback: (event: ChainEvent) => void): Promise<void> {
+    const group = `aptos-events:${this.chainId}`;
+    let lastVersion = BigInt((await this.getAptos().getLedgerInfo()).ledger_version);
+
+    for (const eventType of eventTypes.filter(type => (APTOS_HTLC_EVENTS as readonly string[]).includes(type))) {
+      const poll = async (): Promise<PollOutcome> => {
+        const events = await this.getAptos().getEvents({
+          options: {
+            where: {
+              indexed_type: { _eq: this.getEventType(eventType) },
+              transaction_version: { _gt: lastVersion.toString() }
+            },
+            orderBy: [{ transaction_version: 'asc' }]
+          }
+        });
+        for (const event of events) {
+          lastVersion = BigInt(event.transaction_version) > lastVersion ? BigInt(event.transaction_version) : lastVersion;
+          callback(await this.toChainEvent(event));
+        }
+        return events.length > 0 ? 'changed' : 'unchanged';
+      };
+
+      this.scheduler.schedule(group, eventType, poll);
+      this.subscriptions.push(eventType);
+    }
+  }
+
+  unsubscribeFromEvents(): Promise<void> {
+    for (const eventType of this.subscriptions) {
+      this.scheduler.unschedule(`aptos-events:${this.chainId}`, eventType);
+    }
+    this.subscriptions = [];
+    return Promise.resolve();
+  }
+
+  /**
+   * Escrow events whose hash lock is `orderHash`
+   */
+  async getOrderEvents(orderHash: string): Promise<ChainEvent[]> {
+    const events = await this.getAptos().getEvents({
+      options: {
+        where: {
+          indexed_type: { _in: APTOS_HTLC_EVENTS.map(type => this.getEventType(type)) },
+          data: { _contains: { hash_lock: orderHash.toLowerCase() } }
+        },
+        orderBy: [{ transaction_version: 'asc' }]
+      }
+    });
+    return Promise.all(events.map(event => this.toChainEvent(event)));
+  }
+
+  // Hash lock operations
+
+  /**
+   * Derive the keccak256 hash lock for a secret, as the escrow module checks it
+   */
+  createHashLock(secret: string, timelocks: Timelocks): Promise<string> {
+    return new Promise(resolve => {
+      validateTimelocks(timelocks);
+      resolve(keccak256(secret));
+    });
+  }
+
+  async lockFunds(params: HashLockParams): Promise<ChainTxResult> {
+    validateTimelocks(params.timelocks);
+    const [withdrawalDelay, cancellationDelay] = params.side === 'src'
+      ? [params.timelocks.srcWithdrawal, params.timelocks.srcCancellation]
+      : [params.timelocks.dstWithdrawal, params.timelocks.dstCancellation];
+
+    return this.callHtlc(APTOS_HTLC_FUNCTIONS.createEscrow, [
+      MoveVector.U8(params.hashLock),
+      AccountAddress.from(params.recipient),
+      AccountAddress.from(await this.getMetadataAddress(params.asset)),
+      new U64(BigInt(params.amount)),
+      new U64(withdrawalDelay),
+      new U64(cancellationDelay)
+    ]);
+  }
+
+  async revealSecret(hashLock: string, secret: string, escrow: EscrowTimelocks): Promise<ChainTxResult> {
+    if (keccak256(secret) !== hashLock) {
+      throw new Error(`Secret does not match hash lock ${hashLock}`);
+    }
+    assertActionPermitted(escrow, 'withdraw', await this.getBlockTimestamp());
+    return this.withdrawHashLock(hashLock, secret);
+  }
+
+  async refundHashLock(hashLock: string, escrow: EscrowTimelocks): Promise<ChainTxResult> {
+    assertActionPermitted(escrow, 'cancel', await this.getBlockTimestamp());
+    return this.callHtlc(APTOS_HTLC_FUNCTIONS.refund, [MoveVector.U8(hashLock)]);
+  }
+
+  /**
+   * Check the escrow the module holds under the expected hash lock; escrows
+   * are keyed by hash lock, so `expected.address` is not used
+   */
+  async inspectEscrow(expected: ExpectedEscrow): Promise<EscrowInspection | undefined> {
+    const deployment = await this.getTransactionStatus(expected.txHash);
+    if (deployment.status === 'pending' || deployment.blockNumber === undefined) {
+      return undefined;
+    }
+
+    const head = await this.getCurrentBlockNumber();
+    const inspection: EscrowInspection = {
+      blockNumber: deployment.blockNumber,
+      confirmations: Math.max(head - deployment.blockNumber + 1, 0),
+      deployedAt: 0,
+      mismatches: [],
+      transient: []
+    };
+    if (deployment.status === 'failed') {
+      inspection.mismatches.push(`deployment ${expected.txHash} failed`);
+      return inspection;
+    }
+
+    let escrow: AptosEscrow;
+    try {
+      escrow = await this.getEscrow(expected.hashLock);
+    } catch {
+      inspection.transient.push(`no escrow under hash lock ${expected.hashLock}`);
+      return inspection;
+    }
+    inspection.deployedAt = escrow.createdAt;
+
+    const metadata = await this.getMetadataAddress(expected.asset);
+    const checks: [boolean, string][] = [
+      [sameAddress(escrow.recipient, expected.maker), `recipient is ${escrow.recipient}, expected ${expected.maker}`],
+      [sameAddress(escrow.metadata, metadata), `asset is ${escrow.metadata}, expected ${metadata}`],
+      [escrow.amount === BigInt(expected.amount), `amount is ${escrow.amount}, expected ${expected.amount}`],
+      [escrow.withdrawalDelay === expected.timelocks.dstWithdrawal, `withdrawal delay is ${escrow.withdrawalDelay}s, expected ${expected.timelocks.dstWithdrawal}s`],
+      [escrow.cancellationDelay === expected.timelocks.dstCancellation, `cancellation delay is ${escrow.cancellationDelay}s, expected ${expected.timelocks.dstCancellation}s`],
+      [escrow.state === AptosEscrowState.LOCKED, `escrow is ${AptosEscrowState[escrow.state]?.toLowerCase() ?? escrow.state}`]
+    ];
+    inspection.mismatches.push(...checks.filter(([ok]) => !ok).map(([, mismatch]) => mismatch));
+    return inspection;
+  }
+
+  // Chain-specific utilities
+
+  async estimateGas(txParams: UniversalTxParams): Promise<string> {
+    const transaction = await this.buildTransaction(txParams);
+    const [simulation] = await this.getAptos().transaction.simulate.simple({
+      transaction,
+      options: { estimateGasUnitPrice: true, estimateMaxGasAmount: true }
+    });
+    return simulation.gas_used;
+  }
+
+  async getCurrentBlockNumber(): Promise<number> {
+    return Number((await this.getAptos().getLedgerInfo()).block_height);
+  }
+
+  async getBlockTimestamp(blockNumber?: number): Promise<number> {
+    const micros = blockNumber === undefined
+      ? (await this.getAptos().getLedgerInfo()).ledger_timestamp
+      : (await this.getAptos().getBlockByHeight({ blockHeight: blockNumber })).block_timestamp;
+    return Math.floor(Number(micros) / 1_000_000);
+  }
+
+  // Internal helpers
+
+  private async withdrawHashLock(hashLock: string, secret: string): Promise<ChainTxResult> {
+    return await this.callHtlc(APTOS_HTLC_FUNCTIONS.withdraw, [MoveVector.U8(hashLock), MoveVector.U8(secret)]);
+  }
+
+  private async getEscrow(hashLock: string): Promise<AptosEscrow> {
+    const [sender, recipient, metadata, amount, createdAt, withdrawalDelay, cancellationDelay, state] =
+      await this.view<[string, string, string, string, string, string, string, number]>({
+        function: `${this.getHtlcModule()}::${APTOS_HTLC_FUNCTIONS.getEscrow}`,
+        functionArguments: [Hex.fromHexInput(hashLock).toUint8Array()]
+      });
+
+    return {
+      sender,
+      recipient,
+      metadata,
+      amount: BigInt(amount),
+      createdAt: Number(createdAt),
+      withdrawalDelay: Number(withdrawalDelay),
+      cancellationDelay: Number(cancellationDelay),
+      state: Number(state)
+    };
+  }
+
+  /**
+   * Fungible-asset metadata of an asset; coins use their paired metadata
+   */
+  private async getMetadataAddress(asset: UniversalAsset): Promise<string> {
+    if (!isCoinType(asset.address)) {
+      return asset.address;
+    }
+    if (asset.address === APTOS_COIN_TYPE) {
+      return APT_METADATA_ADDRESS;
+    }
+
+    const [paired] = await this.view<[{ vec: Array<{ inner: string }> }]>({
+      function: '0x1::coin::paired_metadata',
+      typeArguments: [asset.address]
+    });
+    if (paired.vec.length === 0) {
+      throw new Error(`Coin ${asset.address} has no paired fungible asset on ${this.chainName}`);
+    }
+    return paired.vec[0].inner;
+  }
+
+  private async callHtlc(name: string, functionArguments: EntryFunctionArgumentTypes[]): Promise<ChainTxResult> {
+    return await this.sendTransaction({
+      to: `${this.getHtlcModule()}::${name}`,
+      chainSpecific: { functionArguments }
+    });
+  }
+
+  /**
+   * Sign, submit and wait for a transaction to be committed
+   */
+  private async sendTransaction(txParams: UniversalTxParams): Promise<ChainTxResult> {
+    const signedTx = await this.signTransaction(txParams);
+    const { txHash } = await this.broadcastTransaction(signedTx);
+    const response = await this.getAptos().waitForTransaction({
+      transactionHash: txHash,
+      options: { checkSuccess: false }
+    });
+    return this.toTxResult(response);
+  }
+
+  /**
+   * Build the entry-function transaction named by `to` into `data`, so the
+   * signer receives a complete BCS transaction
+   */
+  private async populateTransaction(txParams: UniversalTxParams): Promise<UniversalTxParams> {
+    if (txParams.data) {
+      return txParams;
+    }
+    const transaction = await this.buildTransaction(txParams);
+    return { ...txParams, data: transaction.bcsToHex().toString() };
+  }
+
+  /**
+   * `to` is the entry function id; `chainSpecific` carries its BCS arguments
+   * and type arguments. Gas limit, gas price and nonce map to Aptos' max gas
+   * amount, gas unit price and sequence number.
+   */
+  private async buildTransaction(txParams: UniversalTxParams): Promise<SimpleTransaction> {
+    if (txParams.data) {
+      return SimpleTransaction.deserialize(new Deserializer(Hex.fromHexInput(txParams.data).toUint8Array()));
+    }
+
+    return this.getAptos().transaction.build.simple({
+      sender: await this.getAddress(),
+      data: {
+        function: txParams.to as `${string}::${string}::${string}`,
+        typeArguments: (txParams.chainSpecific?.typeArguments ?? []) as TypeArgument[],
+        functionArguments: (txParams.chainSpecific?.functionArguments ?? []) as EntryFunctionArgumentTypes[]
+      },
+      options: {
+        maxGasAmount: txParams.gasLimit ? Number(txParams.gasLimit) : undefined,
+        gasUnitPrice: txParams.gasPrice ? Number(txParams.gasPrice) : undefined,
+        accountSequenceNumber: txParams.nonce
+      }
+    });
+  }
+
+  private async view<T extends MoveValue[]>(payload: {
+    function: string;
+    typeArguments?: string[];
+    functionArguments?: InputViewFunctionData['functionArguments'];
+  }): Promise<T> {
+    return await this.getAptos().view<T>({ payload: payload as InputViewFunctionData });
+  }
+
+  private async toTxResult(response: CommittedTransactionResponse): Promise<ChainTxResult> {
+    const block = await this.getAptos().getBlockByVersion({ ledgerVersion: Number(response.version) });
+    const success = isUserTransactionResponse(response) ? response.success : true;
+
+    return {
+      txHash: response.hash,
+      blockNumber: Number(block.block_height),
+      gasUsed: response.gas_used,
+      status: success ? 'confirmed' : 'failed',
+      chainSpecific: {
+        version: response.version,
+        blockHash: block.block_hash,
+        vmStatus: response.vm_status,
+        events: isUserTransactionResponse(response) ? response.events : []
+      }
+    };
+  }
+
+  private async toChainEvent(event: AptosIndexedEvent): Promise<ChainEvent> {
+    const transaction = await this.getAptos().getTransactionByVersion({ ledgerVersion: Number(event.transaction_version) });
+    const timestamp = 'timestamp' in transaction ? Math.floor(Number(transaction.timestamp) / 1_000_000) : 0;
+
+    return {
+      eventType: event.type.split('::').at(-1) ?? event.type,
+      orderHash: (event.data.order_hash ?? event.data.hash_lock) as string | undefined,
+      txHash: transaction.hash,
+      blockNumber: Number(event.transaction_block_height),
+      timestamp,
+      data: event.data
+    };
+  }
+
+  private getEventType(name: string): string {
+    return `${this.getHtlcModule()}::${name}`;
+  }
+
+  private getHtlcModule(): string {
+    return this.getContractAddress('htlc');
+  }
+
+  private getContractAddress(name: string): string {
+    this.ensureConnected();
+    const address = this.config?.contractAddresses?.[name];
+    if (!address) {
+      throw new Error(`Missing contract address '${name}' for ${this.chainName}`);
+    }
+    return address;
+  }
+
+  private getOrderDomain(): OrderDomain {
+    return buildOrderDomain(this.chainId, this.getHtlcModule());
+  }
+
+  private getAptos(): Aptos {
+    this.ensureConnected();
+    if (!this.aptos) {
+      throw new Error(`Chain adapter for ${this.chainName} is not connected`);
+    }
+    return this.aptos;
+  }
+
+  private getSigner(): ISigner {
+    this.ensureConnected();
+    if (!this.signer) {
+      throw new Error(`No signer configured for ${this.chainName}`);
+    }
+    return this.signer;
+  }
+}
+
+/**
+ * Coin types are fully qualified Move struct tags; anything else is fungible-asset metadata
+ */
+function isCoinType(address: string): boolean {
+  return address.includes('::');
+}
+
+function sameAddress(a: string, b: string): boolean {
+  try {
+    return AccountAddress.from(a).equals(AccountAddress.from(b));
+  } catch {
+    return false;
+  }
+}
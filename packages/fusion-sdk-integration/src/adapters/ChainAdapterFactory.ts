@@ -1,64 +1,56 @@
-import { IChainAdapter, IChainAdapterFactory } from '../interfaces/IChainAdapter';
+import type { ChainConfig, IChainAdapter, IChainAdapterFactory } from '../interfaces/IChainAdapter';
 import { EVMChainAdapter } from './EVMChainAdapter';
 import { AptosChainAdapter } from './AptosChainAdapter';
 import { SuiChainAdapter } from './SuiChainAdapter';
 import { TezosChainAdapter } from './TezosChainAdapter';
-import { UniversalAsset } from '../utils/fusionUtils';
+import { type ChainArchitecture, type ChainDefinition, type ChainRegistry, chainRegistry } from './ChainRegistry';
+import { DEFAULT_CHAINS } from './chains';
 
 /**
  * Chain adapter factory for creating chain-specific adapters
+ *
+ * Every chain of the registry gets the adapter its definition names; chain
+ * metadata (names, confirmations, architectures) comes from the same registry.
  */
 export class ChainAdapterFactory implements IChainAdapterFactory {
-  private adapters: Map<string | number, new () => IChainAdapter> = new Map();
+  private adapters: Map<string | number, () => IChainAdapter> = new Map();
   private instances: Map<string | number, IChainAdapter> = new Map();
 
-  constructor() {
+  constructor(private readonly registry: ChainRegistry = chainRegistry) {
     this.registerDefaultAdapters();
   }
 
   /**
-   * Register default chain adapters
+   * Register an adapter for every chain in the registry
    */
   private registerDefaultAdapters(): void {
-   
-    // Etherlink (Tezos L2)
-    this.registerAdapter(128123, () => new EVMChainAdapter(
-      128123,
-      'Etherlink',
-      {
-        chainId: 128123,
-        address: '0x0000000000000000000000000000000000000000',
-        symbol: 'XTZ',
-        decimals: 18,
-        standard: 'NATIVE'
-      }
-    ));
-
-    // Polygon
-    this.registerAdapter(137, () => new EVMChainAdapter(
-      137,
-      'Polygon',
-      {
-        chainId: 137,
-        address: '0x0000000000000000000000000000000000000000',
-        symbol: 'MATIC',
-        decimals: 18,
-        standard: 'NATIVE'
-      }
-    ));
-
-    // Non-EVM Chains
-    
-    // Aptos
-    this.registerAdapter('aptos-mainnet', () => new AptosChainAdapter());
-    
-    // Sui
-    this.registerAdapter('sui-mainnet', () => new SuiChainAdapter());
-    
-    // Tezos
-    this.registerAdapter('tezos-mainnet', () => new TezosChainAdapter());
+    for (const chain of this.registry.list()) {
+      this.registerAdapter(chain.id, () => this.buildAdapter(chain));
+    }
+  }
 
-   
+  private buildAdapter(chain: ChainDefinition): IChainAdapter {
+    const nativeAsset = this.registry.getNativeAsset(chain.id);
+    switch (chain.adapter) {
+      case 'evm':
+        return new EVMChainAdapter(Number(chain.id), chain.name, nativeAsset);
+      case 'aptos':
+        return new AptosChainAdapter(String(chain.id), chain.name, nativeAsset);
+      case 'sui':
+        return new SuiChainAdapter(String(chain.id), chain.name, nativeAsset);
+      case 'tezos':
+        return new TezosChainAdapter(String(chain.id), chain.name, nativeAsset);
+      default:
+        throw new Error(`Unknown adapter ${chain.adapter} for chain ${chain.id}`);
+    }
+  }
+
+  /**
+   * Add a chain to the registry and register its adapter
+   */
+  registerChain(definition: ChainDefinition): void {
+    this.registry.register(definition);
+    this.registerAdapter(definition.id, () => this.buildAdapter(this.registry.get(definition.id)));
   }
 
   /**
@@ -73,12 +65,12 @@ export class ChainAdapterFactory implements IChainAdapterFactory {
     }
 
     // Create new instance
-    const AdapterClass = this.adapters.get(key);
-    if (!AdapterClass) {
+    const adapterFactory = this.adapters.get(key);
+    if (!adapterFactory) {
       throw new Error(`No adapter registered for chain ID: ${chainId}`);
     }
 
-    const adapter = new AdapterClass();
+    const adapter = adapterFactory();
     this.instances.set(key, adapter);
     
     return adapter;
@@ -96,7 +88,7 @@ export class ChainAdapterFactory implements IChainAdapterFactory {
    */
   registerAdapter(chainId: string | number, adapterFactory: () => IChainAdapter): void {
     const key = chainId.toString();
-    this.adapters.set(key, adapterFactory as any);
+    this.adapters.set(key, adapterFactory);
     
     // Clear cached instance if exists
     if (this.instances.has(key)) {
@@ -121,99 +113,82 @@ export class ChainAdapterFactory implements IChainAdapterFactory {
   clearCache(): void {
     this.instances.clear();
   }
+
+  /**
+   * Adapter config for a chain of the registry (see `ChainRegistry.getChainConfig`)
+   */
+  getChainConfig(chainId: string | number, overrides: Partial<ChainConfig> = {}): ChainConfig {
+    return this.registry.getChainConfig(chainId, overrides);
+  }
+
+  getChainName(chainId: string | number): string {
+    return this.registry.find(chainId)?.name ?? `Chain ${chainId}`;
+  }
+
+  /**
+   * Confirmations after which a transaction is treated as final, unless the
+   * chain config sets its own
+   */
+  getDefaultConfirmations(chainId: string | number): number {
+    return this.registry.find(chainId)?.confirmations ?? 12;
+  }
+
+  isEVMCompatible(chainId: string | number): boolean {
+    return this.registry.find(chainId)?.architecture === 'EVM';
+  }
+
+  getChainArchitecture(chainId: string | number): ChainArchitecture | 'Unknown' {
+    return this.registry.find(chainId)?.architecture ?? 'Unknown';
+  }
+
+  getSupportedTokenStandards(chainId: string | number): string[] {
+    return [...(this.registry.find(chainId)?.tokenStandards ?? ['NATIVE'])];
+  }
 }
 
 // Export singleton instance
 export const chainAdapterFactory = new ChainAdapterFactory();
 
+type DefaultChain = typeof DEFAULT_CHAINS[number];
+
 /**
- * Supported chain configurations
+ * Ids of the chains in `DEFAULT_CHAINS`, by key
  */
-export const SUPPORTED_CHAINS = {
-  // EVM-Compatible Chains
-  ETHEREUM: 1,
-  ARBITRUM: 42161,
-  ETHERLINK: 128123,
-  BASE: 8453,
-  POLYGON: 137,
-  
-  // Non-EVM Chains
-  APTOS: 'aptos-mainnet',
-  SUI: 'sui-mainnet',
-  TEZOS: 'tezos-mainnet'
-} as const;
+export const SUPPORTED_CHAINS = Object.fromEntries(
+  DEFAULT_CHAINS.map(chain => [chain.key, chain.id])
+) as { readonly [Chain in DefaultChain as Chain['key']]: Chain['id'] };
 
 /**
- * Get chain name from chain ID
+ * Get chain name from chain ID, as the default factory knows it
  */
 export function getChainName(chainId: string | number): string {
-  const chainMap: Record<string, string> = {
-    // EVM Chains
-    '1': 'Ethereum',
-    '42161': 'Arbitrum One',
-    '128123': 'Etherlink',
-    '8453': 'Base',
-    '137': 'Polygon',
-    
-    // Non-EVM Chains
-    'aptos-mainnet': 'Aptos',
-    'sui-mainnet': 'Sui',
-    'tezos-mainnet': 'Tezos'
-  };
+  return chainAdapterFactory.getChainName(chainId);
+}
 
-  return chainMap[chainId.toString()] || `Chain ${chainId}`;
+/**
+ * Default confirmations of a chain (see `ChainAdapterFactory.getDefaultConfirmations`)
+ */
+export function getDefaultConfirmations(chainId: string | number): number {
+  return chainAdapterFactory.getDefaultConfirmations(chainId);
 }
 
 /**
  * Check if chain is EVM compatible
  */
 export function isEVMCompatible(chainId: string | number): boolean {
-  const evmChains = [1, 42161, 128123, 8453, 137];
-  return evmChains.includes(Number(chainId));
+  return chainAdapterFactory.isEVMCompatible(chainId);
 }
 
 /**
  * Get chain architecture type
  */
-export function getChainArchitecture(chainId: string | number): 'EVM' | 'Move' | 'Michelson' | 'Unknown' {
-  const chainArch: Record<string, string> = {
-    // EVM Chains
-    '1': 'EVM',
-    '42161': 'EVM',
-    '128123': 'EVM',
-    '8453': 'EVM',
-    '137': 'EVM',
-    
-    // Move-based Chains
-    'aptos-mainnet': 'Move',
-    'sui-mainnet': 'Move',
-    
-    // Michelson-based Chains
-    'tezos-mainnet': 'Michelson'
-  };
-
-  return (chainArch[chainId.toString()] as any) || 'Unknown';
+export function getChainArchitecture(chainId: string | number): ChainArchitecture | 'Unknown' {
+  return chainAdapterFactory.getChainArchitecture(chainId);
 }
 
 /**
  * Get supported token standards for a chain
  */
 export function getSupportedTokenStandards(chainId: string | number): string[] {
-  const architecture = getChainArchitecture(chainId);
-  
-  switch (architecture) {
-    case 'EVM':
-      return ['NATIVE', 'ERC20', 'ERC721', 'ERC1155'];
-    case 'Move':
-      if (chainId === 'aptos-mainnet') {
-        return ['NATIVE', 'APTOS_COIN'];
-      } else if (chainId === 'sui-mainnet') {
-        return ['NATIVE', 'SUI_COIN'];
-      }
-      return ['NATIVE'];
-    case 'Michelson':
-      return ['NATIVE', 'FA1.2', 'FA2'];
-    default:
-      return ['NATIVE'];
-  }
+  return chainAdapterFactory.getSupportedTokenStandards(chainId);
 }
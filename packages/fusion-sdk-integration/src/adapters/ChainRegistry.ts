@@ -0,0 +1,181 @@
+import type { ChainConfig } from '../interfaces/IChainAdapter';
+import type { UniversalAsset } from '../utils/fusionUtils';
+import { DEFAULT_CHAINS } from './chains';
+
+export type ChainArchitecture = 'EVM' | 'Move' | 'Michelson';
+
+/**
+ * Adapter implementation serving a chain
+ */
+export type ChainAdapterKind = 'evm' | 'aptos' | 'sui' | 'tezos';
+
+export interface ChainExplorer {
+  name: string;
+  url: string;
+}
+
+/**
+ * Everything the SDK knows about a chain
+ *
+ * `key` names the chain in `SUPPORTED_CHAINS`; `contracts` are the
+ * addresses adapters read from `ChainConfig.contractAddresses` (the Fusion+
+ * `fusionRouter` and `escrowFactory`, or a self-hosted `htlc`).
+ */
+export interface ChainDefinition {
+  id: string | number;
+  key: string;
+  name: string;
+  architecture: ChainArchitecture;
+  adapter: ChainAdapterKind;
+  nativeAsset: { address: string; symbol: string; decimals: number };
+  tokenStandards: readonly string[];
+  rpcUrls: readonly string[];
+  explorers: readonly ChainExplorer[];
+  confirmations: number;
+  contracts: Readonly<Record<string, string>>;
+  testnet: boolean;
+}
+
+const ARCHITECTURES: Record<ChainAdapterKind, ChainArchitecture> = {
+  evm: 'EVM',
+  aptos: 'Move',
+  sui: 'Move',
+  tezos: 'Michelson'
+};
+
+/**
+ * Check a chain definition, e.g. one parsed from JSON, field by field
+ */
+export function validateChainDefinition(value: unknown): ChainDefinition {
+  if (!value || typeof value !== 'object') {
+    throw new Error('Invalid chain definition: not an object');
+  }
+
+  const chain = value as ChainDefinition;
+  const native = chain.nativeAsset as Partial<ChainDefinition['nativeAsset']> | undefined;
+  const isStringList = (items: unknown): boolean =>
+    Array.isArray(items) && items.every(item => typeof item === 'string' && item.length > 0);
+
+  const checks: [boolean, string][] = [
+    [(typeof chain.id === 'string' && chain.id !== '') || Number.isInteger(chain.id), 'id must be a non-empty string or an integer'],
+    [typeof chain.key === 'string' && chain.key !== '', 'key is required'],
+    [typeof chain.name === 'string' && chain.name !== '', 'name is required'],
+    [chain.adapter in ARCHITECTURES, `unknown adapter ${chain.adapter}`],
+    [
+      !(chain.adapter in ARCHITECTURES) || ARCHITECTURES[chain.adapter] === chain.architecture,
+      `${chain.adapter} adapters serve ${ARCHITECTURES[chain.adapter]} chains, not ${chain.architecture}`
+    ],
+    [chain.adapter !== 'evm' || Number.isInteger(Number(chain.id)), 'EVM chain ids must be numeric'],
+    [typeof native?.address === 'string' && typeof native.symbol === 'string', 'nativeAsset needs an address and a symbol'],
+    [Number.isInteger(native?.decimals) && (native?.decimals ?? -1) >= 0, 'nativeAsset decimals must be a non-negative integer'],
+    [isStringList(chain.tokenStandards), 'tokenStandards must be a list of strings'],
+    [isStringList(chain.rpcUrls), 'rpcUrls must be a list of URLs'],
+    [
+      Array.isArray(chain.explorers) && chain.explorers.every(explorer => explorer?.name && explorer?.url),
+      'explorers must be a list of { name, url }'
+    ],
+    [Number.isInteger(chain.confirmations) && chain.confirmations >= 1, 'confirmations must be a positive integer'],
+    [
+      !!chain.contracts && typeof chain.contracts === 'object' && Object.values(chain.contracts).every(address => typeof address === 'string'),
+      'contracts must map names to addresses'
+    ],
+    [typeof chain.testnet === 'boolean', 'testnet must be a boolean']
+  ];
+
+  const problems = checks.filter(([ok]) => !ok).map(([, problem]) => problem);
+  if (problems.length > 0) {
+    throw new Error(`Invalid chain definition ${chain.id ?? ''}: ${problems.join('; ')}`);
+  }
+  return chain;
+}
+
+/**
+ * Typed registry of the chains the SDK can work with
+ *
+ * Loaded from `DEFAULT_CHAINS` by default; more chains (or overrides of the
+ * defaults) can be registered at runtime or loaded from JSON.
+ */
+export class ChainRegistry {
+  private readonly chains: Map<string, ChainDefinition> = new Map();
+
+  constructor(definitions: readonly ChainDefinition[] = []) {
+    this.load(definitions);
+  }
+
+  /**
+   * Registry from a JSON array of chain definitions
+   */
+  static fromJSON(json: string): ChainRegistry {
+    const definitions: unknown = JSON.parse(json);
+    if (!Array.isArray(definitions)) {
+      throw new Error('Chain registry JSON must be an array of chain definitions');
+    }
+    return new ChainRegistry(definitions.map(validateChainDefinition));
+  }
+
+  load(definitions: readonly ChainDefinition[]): void {
+    for (const definition of definitions) {
+      this.register(definition);
+    }
+  }
+
+  /**
+   * Add a chain, replacing any chain with the same id
+   */
+  register(definition: ChainDefinition): void {
+    const chain = validateChainDefinition(definition);
+    this.chains.set(chain.id.toString(), chain);
+  }
+
+  has(chainId: string | number): boolean {
+    return this.chains.has(chainId.toString());
+  }
+
+  find(chainId: string | number): ChainDefinition | undefined {
+    return this.chains.get(chainId.toString());
+  }
+
+  get(chainId: string | number): ChainDefinition {
+    const chain = this.find(chainId);
+    if (!chain) {
+      throw new Error(`Unknown chain: ${chainId}`);
+    }
+    return chain;
+  }
+
+  /**
+   * Registered chains, optionally only mainnets or only testnets
+   */
+  list(filter: { testnet?: boolean } = {}): ChainDefinition[] {
+    return Array.from(this.chains.values()).filter(chain =>
+      filter.testnet === undefined || chain.testnet === filter.testnet
+    );
+  }
+
+  getNativeAsset(chainId: string | number): UniversalAsset {
+    const chain = this.get(chainId);
+    return { chainId: chain.id, ...chain.nativeAsset, standard: 'NATIVE' };
+  }
+
+  /**
+   * Adapter config from the chain's first RPC and its contracts; `overrides`
+   * win, and chains the registry does not know need `overrides.rpcUrl`
+   */
+  getChainConfig(chainId: string | number, overrides: Partial<ChainConfig> = {}): ChainConfig {
+    const chain = this.find(chainId);
+    const rpcUrl = overrides.rpcUrl ?? chain?.rpcUrls[0];
+    if (!rpcUrl) {
+      throw new Error(`No RPC URL configured for chain ${chainId}`);
+    }
+
+    return {
+      ...overrides,
+      rpcUrl,
+      confirmations: overrides.confirmations ?? chain?.confirmations,
+      contractAddresses: { ...chain?.contracts, ...overrides.contractAddresses }
+    };
+  }
+}
+
+// Export singleton instance
+export const chainRegistry = new ChainRegistry(DEFAULT_CHAINS);
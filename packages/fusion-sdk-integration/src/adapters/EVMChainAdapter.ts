@@ -0,0 +1,753 @@
+import {
+  Contract,
+  EventLog,
+  Interface,
+  JsonRpcProvider,
+  type Result,
+  type TransactionReceipt,
+  isError,
+  keccak256
+} from 'ethers';
+import {
+  BaseChainAdapter,
+  type ChainConfig,
+  type ChainEvent,
+  type ChainTxResult,
+  type EscrowCancellation,
+  type EscrowInspection,
+  type ExpectedEscrow,
+  type HashLockParams,
+  SignatureScheme
+} from '../interfaces/IChainAdapter';
+import { TransactionTimeoutError } from '../interfaces/IEscrowExecutor';
+import type { ISigner } from '../interfaces/ISigner';
+import { LocalKeySigner } from '../signers/LocalKeySigner';
+import { MnemonicSigner } from '../signers/MnemonicSigner';
+import { type EvmChainSpecific, type EvmLog, toEthersTransaction } from '../signers/evmTransaction';
+import type { UniversalAsset, UniversalOrder, UniversalTxParams } from '../utils/fusionUtils';
+import { type EscrowTimelocks, type Timelocks, assertActionPermitted, toSdkTimeLocks, validateTimelocks } from '../utils/timelocks';
+import {
+  LIMIT_ORDER_PROTOCOL_ADDRESS,
+  type OrderDomain,
+  buildOrderDomain,
+  calculateOrderHash,
+  signOrder,
+  toCanonicalOrder
+} from '../orders/orderHashing';
+import {
+  ERC20_ABI,
+  ESCROW_ABI,
+  ESCROW_FACTORY_ABI,
+  HTLC_ABI,
+  LIMIT_ORDER_PROTOCOL_ABI,
+  NATIVE_ASSET_ADDRESS,
+  ONEINCH_NATIVE_ASSET_ADDRESS,
+  RESOLVER_ABI
+} from './evmAbis';
+
+const MAX_UINT256 = (1n << 256n) - 1n;
+
+/**
+ * Seconds an HTLC timelock may start before the lock is mined: `lockFunds`
+ * counts it from the latest block seen before sending
+ */
+const HTLC_TIMELOCK_TOLERANCE = 300n;
+
+/**
+ * How long `sendTransaction` waits for a broadcast transaction to be mined
+ */
+const CONFIRMATION_TIMEOUT_MS = 180_000;
+
+/**
+ * Fusion+ escrow immutables as the factory and escrows take them, addresses as uint256
+ */
+interface EscrowImmutables {
+  orderHash: string;
+  hashlock: string;
+  maker: bigint;
+  taker: bigint;
+  token: bigint;
+  amount: bigint;
+  safetyDeposit: bigint;
+  timelocks: bigint;
+}
+
+/**
+ * Chain adapter for EVM-compatible chains built on ethers
+ *
+ * Order operations go through the 1inch limit order protocol deployed at
+ * `contractAddresses.fusionRouter`, hash lock operations through the HTLC
+ * contract at `contractAddresses.htlc`. Signing is delegated to the
+ * configured `ISigner`.
+ */
+export class EVMChainAdapter extends BaseChainAdapter {
+  readonly signatureScheme = SignatureScheme.ECDSA_SECP256K1;
+
+  private provider?: JsonRpcProvider;
+  private signer?: ISigner;
+  private subscribedContracts: Contract[] = [];
+
+  constructor(
+    readonly chainId: number,
+    readonly chainName: string,
+    readonly nativeAsset: UniversalAsset
+  ) {
+    super();
+  }
+
+  async connect(config: ChainConfig): Promise<void> {
+    // Uncached: nonces and receipts read right after a send must be current
+    const provider = new JsonRpcProvider(config.rpcUrl, Number(config.networkId ?? this.chainId), {
+      staticNetwork: true,
+      cacheTimeout: -1
+    });
+
+    const network = await provider.getNetwork();
+    if (network.chainId !== BigInt(this.chainId)) {
+      provider.destroy();
+      throw new Error(`RPC ${config.rpcUrl} serves chain ${network.chainId}, expected ${this.chainId}`);
+    }
+
+    this.provider = provider;
+    this.signer = config.signer
+      ?? (config.privateKey ? new LocalKeySigner(config.privateKey) : undefined)
+      ?? (config.mnemonic ? new MnemonicSigner(config.mnemonic) : undefined);
+
+    if (this.signer && this.signer.signatureScheme !== this.signatureScheme) {
+      provider.destroy();
+      throw new Error(`Signer scheme ${this.signer.signatureScheme} cannot sign for ${this.chainName}`);
+    }
+
+    await super.connect(config);
+  }
+
+  async disconnect(): Promise<void> {
+    await this.unsubscribeFromEvents();
+    this.provider?.destroy();
+    this.provider = undefined;
+    this.signer = undefined;
+    await super.disconnect();
+  }
+
+  // Account management
+
+  async getAddress(): Promise<string> {
+    return await this.getSigner().getAddress();
+  }
+
+  async getBalance(asset: UniversalAsset, address?: string): Promise<string> {
+    const owner = address ?? (await this.getAddress());
+
+    if (this.isNative(asset)) {
+      return (await this.getProvider().getBalance(owner)).toString();
+    }
+
+    const balance: bigint = await this.getErc20(asset).balanceOf(owner);
+    return balance.toString();
+  }
+
+  async getNonce(address?: string): Promise<number> {
+    const owner = address ?? (await this.getAddress());
+    return this.getProvider().getTransactionCount(owner, 'pending');
+  }
+
+  // Transaction operations
+
+  async signTransaction(txParams: UniversalTxParams): Promise<string> {
+    const signer = this.getSigner();
+    return signer.signTransaction(await this.populateTransaction(txParams));
+  }
+
+  async signMessage(message: string): Promise<string> {
+    return await this.getSigner().signMessage(message);
+  }
+
+  async broadcastTransaction(signedTx: string): Promise<ChainTxResult> {
+    const response = await this.getProvider().broadcastTransaction(signedTx);
+    return {
+      txHash: response.hash,
+      status: 'pending'
+    };
+  }
+
+  async getTransactionStatus(txHash: string): Promise<ChainTxResult> {
+    const receipt = await this.getProvider().getTransactionReceipt(txHash);
+    if (!receipt) {
+      return { txHash, status: 'pending' };
+    }
+    return this.toTxResult(receipt);
+  }
+
+  // Asset operations
+
+  async getAssetMetadata(address: string): Promise<UniversalAsset> {
+    const normalized = address.toLowerCase();
+    if (normalized === NATIVE_ASSET_ADDRESS || normalized === ONEINCH_NATIVE_ASSET_ADDRESS) {
+      return { ...this.nativeAsset, address };
+    }
+
+    const token = new Contract(address, ERC20_ABI, this.getProvider());
+    const [symbol, decimals]: [string, bigint] = await Promise.all([token.symbol(), token.decimals()]);
+    return {
+      chainId: this.chainId,
+      address,
+      symbol,
+      decimals: Number(decimals),
+      standard: 'ERC20'
+    };
+  }
+
+  async approveAsset(asset: UniversalAsset, spender: string, amount: string): Promise<ChainTxResult> {
+    if (this.isNative(asset)) {
+      throw new Error(`Native ${asset.symbol} on ${this.chainName} does not require approval`);
+    }
+
+    const data = new Interface(ERC20_ABI).encodeFunctionData('approve', [spender, BigInt(amount)]);
+    return await this.sendTransaction({ to: asset.address, data });
+  }
+
+  async getAssetAllowance(asset: UniversalAsset, owner: string, spender: string): Promise<string> {
+    if (this.isNative(asset)) {
+      return MAX_UINT256.toString();
+    }
+
+    const allowance: bigint = await this.getErc20(asset).allowance(owner, spender);
+    return allowance.toString();
+  }
+
+  // Order-specific operations
+
+  /**
+   * EVM fusion orders are signed off-chain and relayed, so creation only derives the hash
+   */
+  createOrder(order: UniversalOrder): Promise<string> {
+    return new Promise(resolve => {
+      this.ensureConnected();
+      resolve(order.orderHash || calculateOrderHash(order, this.getOrderDomain()));
+    });
+  }
+
+  /**
+   * EIP-712 signature over the order, bound to this chain and its fusion router
+   */
+  async signOrder(order: UniversalOrder): Promise<string> {
+    return await signOrder(toCanonicalOrder(order), this.getOrderDomain(), this.getSigner());
+  }
+
+  /**
+   * Invalidate the order in the limit order protocol; its maker traits
+   * select how (per order hash or by bit invalidator)
+   */
+  async cancelOrder(orderHash: string, makerTraits: string): Promise<ChainTxResult> {
+    const data = new Interface(LIMIT_ORDER_PROTOCOL_ABI).encodeFunctionData('cancelOrder', [BigInt(makerTraits), orderHash]);
+    return await this.sendTransaction({ to: this.getContractAddress('fusionRouter'), data });
+  }
+
+  /**
+   * Claim funds locked under the secret's hash, checking the lock covers the
+   * fill amount and has not expired
+   */
+  async fillOrder(orderHash: string, fillAmount: string, secret: string): Promise<ChainTxResult> {
+    const hashLock = keccak256(secret);
+    const lock = await this.getHtlc().locks(hashLock);
+
+    if (lock.amount < BigInt(fillAmount)) {
+      throw new Error(`Lock ${hashLock} for order ${orderHash} holds ${lock.amount}, less than fill ${fillAmount}`);
+    }
+    const now = await this.getBlockTimestamp();
+    if (BigInt(now) >= lock.timelock) {
+      throw new Error(`Lock ${hashLock} for order ${orderHash} expired at ${lock.timelock} (chain time ${now})`);
+    }
+
+    return this.withdrawHashLock(hashLock, secret);
+  }
+
+  // Event monitoring
+
+  async subscribeToEvents(eventTypes: string[], callback: (event: ChainEvent) => void): Promise<void> {
+    const contracts = [this.getLimitOrderProtocol(), this.getHtlc()];
+
+    for (const contract of contracts) {
+      for (const eventType of eventTypes) {
+        if (!contract.interface.getEvent(eventType)) {
+          continue;
+        }
+
+        await contract.on(eventType, async (...args: unknown[]) => {
+          const payload = args.at(-1) as { log: EventLog };
+          callback(await this.toChainEvent(payload.log));
+        });
+      }
+      this.subscribedContracts.push(contract);
+    }
+  }
+
+  async unsubscribeFromEvents(): Promise<void> {
+    for (const contract of this.subscribedContracts) {
+      await contract.removeAllListeners();
+    }
+    this.subscribedContracts = [];
+  }
+
+  async getOrderEvents(orderHash: string): Promise<ChainEvent[]> {
+    const lop = this.getLimitOrderProtocol();
+    const logs = [
+      ...(await lop.queryFilter(lop.filters.OrderFilled())),
+      ...(await lop.queryFilter(lop.filters.OrderCancelled()))
+    ].filter((log): log is EventLog => log instanceof EventLog && log.args.orderHash === orderHash);
+
+    const events = await Promise.all(logs.map(log => this.toChainEvent(log)));
+    return events.sort((a, b) => a.blockNumber - b.blockNumber);
+  }
+
+  // Hash lock operations
+
+  /**
+   * Derive the keccak256 hash lock for a secret; funds are locked when the escrow is deployed
+   */
+  createHashLock(secret: string, timelocks: Timelocks): Promise<string> {
+    return new Promise(resolve => {
+      validateTimelocks(timelocks);
+      resolve(keccak256(secret));
+    });
+  }
+
+  /**
+   * Lock funds in the HTLC contract, refundable from the side's cancellation
+   * offset; ERC20 assets must already be approved for the contract
+   *
+   * The offset counts from the latest block when the lock is sent, so the
+   * timelock ends slightly before the mined lock's time plus the offset.
+   */
+  async lockFunds(params: HashLockParams): Promise<ChainTxResult> {
+    validateTimelocks(params.timelocks);
+    const cancellation = params.side === 'src' ? params.timelocks.srcCancellation : params.timelocks.dstCancellation;
+    const timelock = BigInt(await this.getBlockTimestamp()) + BigInt(cancellation);
+
+    const native = this.isNative(params.asset);
+    const data = this.getHtlc().interface.encodeFunctionData('lock', [
+      params.hashLock,
+      params.recipient,
+      native ? NATIVE_ASSET_ADDRESS : params.asset.address,
+      BigInt(params.amount),
+      timelock
+    ]);
+    return this.sendTransaction({
+      to: this.getContractAddress('htlc'),
+      value: native ? params.amount : undefined,
+      data
+    });
+  }
+
+  async revealSecret(hashLock: string, secret: string, escrow: EscrowTimelocks): Promise<ChainTxResult> {
+    if (keccak256(secret) !== hashLock) {
+      throw new Error(`Secret does not match hash lock ${hashLock}`);
+    }
+    assertActionPermitted(escrow, 'withdraw', await this.getBlockTimestamp());
+    return this.withdrawHashLock(hashLock, secret);
+  }
+
+  async refundHashLock(hashLock: string, escrow: EscrowTimelocks): Promise<ChainTxResult> {
+    assertActionPermitted(escrow, 'cancel', await this.getBlockTimestamp());
+
+    const data = this.getHtlc().interface.encodeFunctionData('refund', [hashLock]);
+    return this.sendTransaction({ to: this.getContractAddress('htlc'), data });
+  }
+
+  /**
+   * Cancel a Fusion+ escrow with its immutables, rebuilt from the deployment
+   *
+   * Escrows only accept `cancel` from their taker, so it goes through the
+   * resolver contract at `contractAddresses.resolver` when one is configured;
+   * `publicCancel` is sent to the escrow itself.
+   */
+  async cancelEscrow(cancellation: EscrowCancellation): Promise<ChainTxResult> {
+    assertActionPermitted(cancellation.escrow, cancellation.action, await this.getBlockTimestamp());
+    const immutables = await this.readEscrowImmutables(cancellation);
+
+    const resolver = this.config?.contractAddresses?.resolver;
+    if (cancellation.action === 'cancel' && resolver) {
+      const data = new Interface(RESOLVER_ABI).encodeFunctionData('cancel', [cancellation.address, immutables]);
+      return this.sendTransaction({ to: resolver, data });
+    }
+    const data = new Interface(ESCROW_ABI).encodeFunctionData(cancellation.action, [immutables]);
+    return this.sendTransaction({ to: cancellation.address, data });
+  }
+
+  /**
+   * Check a destination escrow against the factory at `contractAddresses.escrowFactory`,
+   * or a lock in the HTLC contract when `expected.address` is `contractAddresses.htlc`
+   *
+   * The factory derives escrow addresses from the hash of their immutables,
+   * so an escrow at the address derived from the expected values (with the
+   * taker from the creation event and the order's safety deposit) carries
+   * exactly the expected token, amount, maker, hash lock and timelocks.
+   * Its balance is current state, so a shortfall is only `transient`.
+   */
+  async inspectEscrow(expected: ExpectedEscrow): Promise<EscrowInspection | undefined> {
+    const provider = this.getProvider();
+    const receipt = await provider.getTransactionReceipt(expected.txHash);
+    if (!receipt) {
+      return undefined;
+    }
+
+    const [currentBlock, deployedAt] = await Promise.all([
+      provider.getBlockNumber(),
+      this.getBlockTimestamp(receipt.blockNumber)
+    ]);
+    const inspection: EscrowInspection = {
+      blockNumber: receipt.blockNumber,
+      confirmations: Math.max(currentBlock - receipt.blockNumber + 1, 0),
+      deployedAt,
+      mismatches: [],
+      transient: []
+    };
+    if (receipt.status !== 1) {
+      inspection.mismatches.push(`deployment ${expected.txHash} reverted`);
+      return inspection;
+    }
+    if (sameAddress(expected.address, this.config?.contractAddresses?.htlc)) {
+      return this.inspectHtlcLock(expected, receipt, inspection);
+    }
+
+    // Only events emitted by the configured factory count
+    const factory = new Contract(this.getContractAddress('escrowFactory'), ESCROW_FACTORY_ABI, provider);
+    const created = receipt.logs
+      .filter(log => log.address.toLowerCase() === factory.target.toString().toLowerCase())
+      .map(log => factory.interface.parseLog(log))
+      .find(log => log?.name === 'DstEscrowCreated' && log.args.escrow.toLowerCase() === expected.address.toLowerCase());
+    if (!created) {
+      inspection.mismatches.push(`no DstEscrowCreated event for ${expected.address} in ${expected.txHash}`);
+      return inspection;
+    }
+    if (created.args.hashlock.toLowerCase() !== expected.hashLock.toLowerCase()) {
+      inspection.mismatches.push(`hash lock is ${created.args.hashlock}, expected ${expected.hashLock}`);
+    }
+    if (expected.safetyDeposit === undefined) {
+      inspection.mismatches.push('safety deposit of the order is unknown');
+      return inspection;
+    }
+
+    const derived: string = await factory.addressOfEscrowDst(this.buildDstImmutables(
+      expected,
+      created.args.taker,
+      BigInt(expected.safetyDeposit),
+      deployedAt
+    ));
+    if (!sameAddress(derived, expected.address)) {
+      inspection.mismatches.push(`escrow ${expected.address} was not deployed for the expected token, amount, maker, safety deposit and timelocks`);
+      return inspection;
+    }
+
+    const native = this.isNative(expected.asset);
+    const amount = BigInt(expected.amount);
+    const lockedAmount: bigint = native
+      ? await provider.getBalance(expected.address)
+      : await this.getErc20(expected.asset).balanceOf(expected.address);
+    if (lockedAmount < amount) {
+      inspection.transient.push(`escrow holds ${lockedAmount}, expected ${amount}`);
+    }
+    return inspection;
+  }
+
+  // Chain-specific utilities
+
+  async estimateGas(txParams: UniversalTxParams): Promise<string> {
+    const request = toEthersTransaction(txParams);
+    if (this.signer) {
+      request.from = await this.signer.getAddress();
+    }
+    return (await this.getProvider().estimateGas(request)).toString();
+  }
+
+  async getCurrentBlockNumber(): Promise<number> {
+    return await this.getProvider().getBlockNumber();
+  }
+
+  async getBlockTimestamp(blockNumber?: number): Promise<number> {
+    const block = await this.getProvider().getBlock(blockNumber ?? 'latest');
+    if (!block) {
+      throw new Error(`Block ${blockNumber ?? 'latest'} not found on ${this.chainName}`);
+    }
+    return block.timestamp;
+  }
+
+  // Internal helpers
+
+  /**
+   * Check a lock of the HTLC contract, keyed by hash lock
+   *
+   * Terms come from the `Locked` event; its single timelock must end at
+   * the deployment time plus the destination cancellation offset, or up to
+   * `HTLC_TIMELOCK_TOLERANCE` earlier. Only whether the lock is still open
+   * is read from current state.
+   */
+  private async inspectHtlcLock(
+    expected: ExpectedEscrow,
+    receipt: TransactionReceipt,
+    inspection: EscrowInspection
+  ): Promise<EscrowInspection> {
+    const htlc = this.getHtlc();
+    const locked = receipt.logs
+      .filter(log => sameAddress(log.address, htlc.target.toString()))
+      .map(log => htlc.interface.parseLog(log))
+      .find(log => log?.name === 'Locked' && log.args.hashLock.toLowerCase() === expected.hashLock.toLowerCase());
+    if (!locked) {
+      inspection.mismatches.push(`no Locked event for hash lock ${expected.hashLock} in ${expected.txHash}`);
+      return inspection;
+    }
+
+    const { recipient, token, amount, timelock } = locked.args;
+    const expectedToken = this.isNative(expected.asset) ? NATIVE_ASSET_ADDRESS : expected.asset.address;
+    const latest = BigInt(inspection.deployedAt + expected.timelocks.dstCancellation);
+    const earliest = latest - HTLC_TIMELOCK_TOLERANCE;
+    const checks: [boolean, string][] = [
+      [sameAddress(recipient, expected.maker), `recipient is ${recipient}, expected ${expected.maker}`],
+      [sameAddress(token, expectedToken), `token is ${token}, expected ${expectedToken}`],
+      [amount === BigInt(expected.amount), `amount is ${amount}, expected ${expected.amount}`],
+      [timelock >= earliest && timelock <= latest, `timelock is ${timelock}, expected between ${earliest} and ${latest}`]
+    ];
+    inspection.mismatches.push(...checks.filter(([ok]) => !ok).map(([, mismatch]) => mismatch));
+
+    const lock = await htlc.locks(expected.hashLock);
+    if (lock.refunded) {
+      inspection.mismatches.push('lock is refunded');
+    } else if (lock.withdrawn) {
+      inspection.mismatches.push('lock is withdrawn');
+    } else if (lock.amount !== amount) {
+      inspection.transient.push(`lock ${expected.hashLock} is not visible in contract state yet`);
+    }
+    return inspection;
+  }
+
+  /**
+   * Immutables of a Fusion+ escrow deployed in `cancellation.txHash`
+   *
+   * A source escrow's come from the factory's `SrcEscrowCreated` event
+   * (matched by the address they derive); a destination escrow's are
+   * rebuilt from the expected values and the taker and hash lock of its
+   * `DstEscrowCreated` event, and must derive its address.
+   */
+  private async readEscrowImmutables(cancellation: EscrowCancellation): Promise<EscrowImmutables> {
+    const { address, txHash, hashLock } = cancellation;
+    const receipt = await this.getProvider().getTransactionReceipt(txHash);
+    if (!receipt) {
+      throw new Error(`Deployment ${txHash} of escrow ${address} not found on ${this.chainName}`);
+    }
+
+    const factory = new Contract(this.getContractAddress('escrowFactory'), ESCROW_FACTORY_ABI, this.getProvider());
+    const events = receipt.logs
+      .filter(log => sameAddress(log.address, factory.target.toString()))
+      .map(log => factory.interface.parseLog(log))
+      .filter(log => log !== null);
+
+    if (cancellation.escrow.side === 'src') {
+      for (const created of events.filter(log => log.name === 'SrcEscrowCreated')) {
+        const immutables = toEscrowImmutables(created.args.srcImmutables);
+        if (sameAddress(await factory.addressOfEscrowSrc(immutables), address)) {
+          assertHashLock(immutables, hashLock, address);
+          return immutables;
+        }
+      }
+      throw new Error(`No SrcEscrowCreated event for ${address} in ${txHash}`);
+    }
+
+    const created = events.find(log => log.name === 'DstEscrowCreated' && sameAddress(log.args.escrow, address));
+    if (!created) {
+      throw new Error(`No DstEscrowCreated event for ${address} in ${txHash}`);
+    }
+    if (cancellation.safetyDeposit === undefined) {
+      throw new Error(`Safety deposit of escrow ${address} is unknown`);
+    }
+    const immutables = this.buildDstImmutables(
+      { ...cancellation, hashLock: created.args.hashlock, timelocks: cancellation.escrow.timelocks },
+      created.args.taker,
+      BigInt(cancellation.safetyDeposit),
+      cancellation.escrow.deployedAt
+    );
+    assertHashLock(immutables, hashLock, address);
+    if (!sameAddress(await factory.addressOfEscrowDst(immutables), address)) {
+      throw new Error(`Escrow ${address} was not deployed for the expected token, amount, maker and timelocks`);
+    }
+    return immutables;
+  }
+
+  private buildDstImmutables(
+    expected: Pick<ExpectedEscrow, 'orderHash' | 'hashLock' | 'maker' | 'asset' | 'amount' | 'timelocks'>,
+    taker: bigint,
+    safetyDeposit: bigint,
+    deployedAt: number
+  ): EscrowImmutables {
+    return {
+      orderHash: expected.orderHash,
+      hashlock: expected.hashLock,
+      maker: BigInt(expected.maker),
+      taker,
+      token: this.isNative(expected.asset) ? 0n : BigInt(expected.asset.address),
+      amount: BigInt(expected.amount),
+      safetyDeposit,
+      timelocks: toSdkTimeLocks(expected.timelocks).setDeployedAt(BigInt(deployedAt)).build()
+    };
+  }
+
+  private async withdrawHashLock(hashLock: string, secret: string): Promise<ChainTxResult> {
+    const data = this.getHtlc().interface.encodeFunctionData('withdraw', [hashLock, secret]);
+    return await this.sendTransaction({ to: this.getContractAddress('htlc'), data });
+  }
+
+  /**
+   * Sign, broadcast and wait for a transaction to be mined
+   *
+   * Throws a `TransactionTimeoutError` if it is not mined within
+   * `CONFIRMATION_TIMEOUT_MS`; it may still be mined later.
+   */
+  private async sendTransaction(txParams: UniversalTxParams): Promise<ChainTxResult> {
+    const signedTx = await this.signTransaction(txParams);
+    const { txHash } = await this.broadcastTransaction(signedTx);
+    let receipt: TransactionReceipt | null;
+    try {
+      receipt = await this.getProvider().waitForTransaction(txHash, 1, CONFIRMATION_TIMEOUT_MS);
+    } catch (error) {
+      if (isError(error, 'TIMEOUT')) {
+        throw new TransactionTimeoutError(this.chainId, txHash);
+      }
+      throw error;
+    }
+    if (!receipt) {
+      return { txHash, status: 'pending' };
+    }
+    return this.toTxResult(receipt);
+  }
+
+  /**
+   * Fill in nonce, gas limit, fees and chain id so the signer receives a complete transaction
+   */
+  private async populateTransaction(txParams: UniversalTxParams): Promise<UniversalTxParams> {
+    const chainSpecific: EvmChainSpecific = { ...txParams.chainSpecific, chainId: this.chainId };
+    let gasPrice = txParams.gasPrice;
+
+    if (!gasPrice && chainSpecific.maxFeePerGas === undefined) {
+      const feeData = await this.getProvider().getFeeData();
+      if (feeData.maxFeePerGas !== null && feeData.maxPriorityFeePerGas !== null) {
+        chainSpecific.type = 2;
+        chainSpecific.maxFeePerGas = feeData.maxFeePerGas.toString();
+        chainSpecific.maxPriorityFeePerGas = feeData.maxPriorityFeePerGas.toString();
+      } else if (feeData.gasPrice !== null) {
+        gasPrice = feeData.gasPrice.toString();
+      }
+    }
+
+    return {
+      ...txParams,
+      gasPrice,
+      nonce: txParams.nonce ?? (await this.getNonce()),
+      gasLimit: txParams.gasLimit ?? (await this.estimateGas(txParams)),
+      chainSpecific: { ...chainSpecific }
+    };
+  }
+
+  private toTxResult(receipt: TransactionReceipt): ChainTxResult {
+    return {
+      txHash: receipt.hash,
+      blockNumber: receipt.blockNumber,
+      gasUsed: receipt.gasUsed.toString(),
+      status: receipt.status === 1 ? 'confirmed' : 'failed',
+      chainSpecific: {
+        blockHash: receipt.blockHash,
+        effectiveGasPrice: receipt.gasPrice.toString(),
+        logs: receipt.logs.map((log): EvmLog => ({ address: log.address, topics: [...log.topics], data: log.data }))
+      }
+    };
+  }
+
+  private async toChainEvent(log: EventLog): Promise<ChainEvent> {
+    const data: Record<string, unknown> = {};
+    log.fragment.inputs.forEach((input, i) => {
+      const value = log.args[i];
+      data[input.name] = typeof value === 'bigint' ? value.toString() : value;
+    });
+
+    return {
+      eventType: log.eventName,
+      orderHash: (data.orderHash ?? data.hashLock) as string | undefined,
+      txHash: log.transactionHash,
+      blockNumber: log.blockNumber,
+      timestamp: await this.getBlockTimestamp(log.blockNumber),
+      data
+    };
+  }
+
+  private isNative(asset: UniversalAsset): boolean {
+    const address = asset.address.toLowerCase();
+    return asset.standard === 'NATIVE' || address === NATIVE_ASSET_ADDRESS || address === ONEINCH_NATIVE_ASSET_ADDRESS;
+  }
+
+  private getErc20(asset: UniversalAsset): Contract {
+    if (asset.standard !== 'ERC20') {
+      throw new Error(`Unsupported token standard on ${this.chainName}: ${asset.standard}`);
+    }
+    return new Contract(asset.address, ERC20_ABI, this.getProvider());
+  }
+
+  private getLimitOrderProtocol(): Contract {
+    return new Contract(this.getContractAddress('fusionRouter'), LIMIT_ORDER_PROTOCOL_ABI, this.getProvider());
+  }
+
+  private getHtlc(): Contract {
+    return new Contract(this.getContractAddress('htlc'), HTLC_ABI, this.getProvider());
+  }
+
+  private getContractAddress(name: string): string {
+    this.ensureConnected();
+    const address = this.config?.contractAddresses?.[name];
+    if (!address) {
+      throw new Error(`Missing contract address '${name}' for ${this.chainName}`);
+    }
+    return address;
+  }
+
+  private getOrderDomain(): OrderDomain {
+    this.ensureConnected();
+    const router = this.config?.contractAddresses?.fusionRouter ?? LIMIT_ORDER_PROTOCOL_ADDRESS;
+    return buildOrderDomain(this.chainId, router);
+  }
+
+  private getProvider(): JsonRpcProvider {
+    this.ensureConnected();
+    if (!this.provider) {
+      throw new Error(`Chain adapter for ${this.chainName} is not connected`);
+    }
+    return this.provider;
+  }
+
+  private getSigner(): ISigner {
+    this.ensureConnected();
+    if (!this.signer) {
+      throw new Error(`No signer configured for ${this.chainName}`);
+    }
+    return this.signer;
+  }
+}
+
+function toEscrowImmutables(value: Result): EscrowImmutables {
+  return {
+    orderHash: value.orderHash,
+    hashlock: value.hashlock,
+    maker: value.maker,
+    taker: value.taker,
+    token: value.token,
+    amount: value.amount,
+    safetyDeposit: value.safetyDeposit,
+    timelocks: value.timelocks
+  };
+}
+
+function assertHashLock(immutables: EscrowImmutables, hashLock: string | undefined, address: string): void {
+  if (hashLock && immutables.hashlock.toLowerCase() !== hashLock.toLowerCase()) {
+    throw new Error(`Escrow ${address} is locked with ${immutables.hashlock}, expected ${hashLock}`);
+  }
+}
+
+function sameAddress(a: string, b: string | undefined): boolean {
+  return b !== undefined && a.toLowerCase() === b.toLowerCase();
+}
@@ -0,0 +1,793 @@
+import { SuiClient, type SuiEvent, type SuiTransactionBlockResponse, type CoinStruct, type EventId } from '@mysten/sui/client';
+import { Transaction, type TransactionObjectArgument } from '@mysten/sui/transactions';
+import { SUI_CLOCK_OBJECT_ID, fromBase64, normalizeStructTag, normalizeSuiAddress, toBase64 } from '@mysten/sui/utils';
+import { getBytes, hexlify, isHexString, keccak256 } from 'ethers';
+import {
+  BaseChainAdapter,
+  type ChainConfig,
+  type ChainEvent,
+  type ChainTxResult,
+  type EscrowInspection,
+  type ExpectedEscrow,
+  type HashLockParams,
+  SignatureScheme
+} from '../interfaces/IChainAdapter';
+import type { ISigner } from '../interfaces/ISigner';
+import { SuiKeySigner, type SuiSignedTransaction } from '../signers/SuiKeySigner';
+import { type PollOutcome, type PollingScheduler, pollingScheduler } from '../core/PollingScheduler';
+import type { UniversalAsset, UniversalOrder, UniversalTxParams } from '../utils/fusionUtils';
+import { type EscrowTimelocks, type Timelocks, assertActionPermitted, validateTimelocks } from '../utils/timelocks';
+import { type OrderDomain, buildOrderDomain, calculateOrderHash, signOrder, toCanonicalOrder } from '../orders/orderHashing';
+import {
+  DEFAULT_SUI_GAS_BUDGET,
+  MAX_SUI_GAS_OBJECTS,
+  SUI_COIN_TYPE,
+  SUI_HTLC_ESCROW_STRUCT,
+  SUI_HTLC_EVENTS,
+  SUI_HTLC_FUNCTIONS,
+  SuiEscrowState
+} from './suiModules';
+
+const MAX_U64 = (1n << 64n) - 1n;
+
+const MISSING_TRANSACTION_PATTERN = /could not find|does not exist/i;
+
+/**
+ * Fields of a shared `Escrow<T>` object
+ */
+interface SuiEscrow {
+  objectId: string;
+  coinType: string;
+  sender: string;
+  recipient: string;
+  hashLock: string;
+  amount: bigint;
+  createdAt: number;
+  withdrawalDelay: number;
+  cancellationDelay: number;
+  state: SuiEscrowState;
+}
+
+/**
+ * Move fields of an `Escrow<T>` object as the RPC renders them
+ */
+interface SuiEscrowFields {
+  sender: string;
+  recipient: string;
+  hash_lock: number[] | string;
+  balance: string;
+  created_at: string;
+  withdrawal_delay: string;
+  cancellation_delay: string;
+  state: number;
+}
+
+/**
+ * `parsedJson` of the escrow module's events
+ */
+interface SuiEscrowEventJson {
+  escrow_id: string;
+  hash_lock: number[] | string;
+}
+
+/**
+ * Chain adapter for Sui built on the Sui TS SDK
+ *
+ * Assets are coin types (`0x2::sui::SUI`). Sui has no account nonces or
+ * allowances: balances are spread over owned coin objects, which are
+ * selected and merged into programmable transaction blocks (PTBs) as each
+ * transaction needs them, with SUI coins picked as gas payment.
+ *
+ * `UniversalTxParams.chainSpecific.transaction` carries a `Transaction` to
+ * build; `value` is the SUI it spends besides gas. Hash locks are shared
+ * `Escrow<T>` objects of the module at `contractAddresses.htlc`. Runs
+ * against a `sui start --with-faucet` localnet as well as mainnet.
+ */
+export class SuiChainAdapter extends BaseChainAdapter {
+  readonly signatureScheme = SignatureScheme.ED25519;
+
+  private client?: SuiClient;
+  private signer?: ISigner;
+  private subscribed = false;
+  /** Escrow object ids by hash lock, filled by `lockFunds` and event lookups */
+  private escrowIds: Map<string, string> = new Map();
+
+  constructor(
+    readonly chainId: string,
+    readonly chainName: string,
+    readonly nativeAsset: UniversalAsset,
+    private readonly scheduler: PollingScheduler = pollingScheduler
+  ) {
+    super();
+  }
+
+  async connect(config: ChainConfig): Promise<void> {
+    const client = new SuiClient({ url: config.rpcUrl });
+
+    const chainIdentifier = await client.getChainIdentifier();
+    if (config.networkId !== undefined && chainIdentifier !== String(config.networkId)) {
+      throw new Error(`RPC ${config.rpcUrl} serves Sui chain ${chainIdentifier}, expected ${config.networkId}`);
+    }
+
+    this.client = client;
+    this.signer = config.signer
+      ?? (config.privateKey ? new SuiKeySigner(config.privateKey) : undefined)
+      ?? (config.mnemonic ? SuiKeySigner.fromMnemonic(config.mnemonic) : undefined);
+
+    if (this.signer && this.signer.signatureScheme !== this.signatureScheme) {
+      throw new Error(`Signer scheme ${this.signer.signatureScheme} cannot sign for ${this.chainName}`);
+    }
+
+    await super.connect(config);
+  }
+
+  async disconnect(): Promise<void> {
+    await this.unsubscribeFromEvents();
+    this.client = undefined;
+    this.signer = undefined;
+    this.escrowIds.clear();
+    await super.disconnect();
+  }
+
+  // Account management
+
+  async getAddress(): Promise<string> {
+    return await this.getSigner().getAddress();
+  }
+
+  /**
+   * Total over all coin objects of the asset's type
+   */
+  async getBalance(asset: UniversalAsset, address?: string): Promise<string> {
+    const owner = address ?? (await this.getAddress());
+    const balance = await this.getClient().getBalance({ owner, coinType: asset.address });
+    return balance.totalBalance;
+  }
+
+  /**
+   * Sui orders transactions by the versions of their input objects; there is no account nonce
+   */
+  getNonce(): Promise<number> {
+    return Promise.resolve(0);
+  }
+
+  // Transaction operations
+
+  async signTransaction(txParams: UniversalTxParams): Promise<string> {
+    return this.getSigner().signTransaction(await this.populateTransaction(txParams));
+  }
+
+  async signMessage(message: string): Promise<string> {
+    return await this.getSigner().signMessage(message);
+  }
+
+  /**
+   * Execute a transaction as produced by a Sui signer: a JSON-encoded `SuiSignedTransaction`
+   */
+  async broadcastTransaction(signedTx: string): Promise<ChainTxResult> {
+    const { bytes, signature }: SuiSignedTransaction = JSON.parse(signedTx);
+    const response = await this.getClient().executeTransactionBlock({ transactionBlock: bytes, signature });
+    return { txHash: response.digest, status: 'pending' };
+  }
+
+  async getTransactionStatus(txHash: string): Promise<ChainTxResult> {
+    try {
+      const response = await this.getClient().getTransactionBlock({
+        digest: txHash,
+        options: { showEffects: true, showEvents: true, showObjectChanges: true }
+      });
+      return this.toTxResult(response);
+    } catch (error) {
+      if (error instanceof Error && MISSING_TRANSACTION_PATTERN.test(error.message)) {
+        return { txHash, status: 'pending' };
+      }
+      throw error;
+    }
+  }
+
+  // Asset operations
+
+  async getAssetMetadata(address: string): Promise<UniversalAsset> {
+    const coinType = normalizeStructTag(address);
+    if (coinType === normalizeStructTag(SUI_COIN_TYPE)) {
+      return { ...this.nativeAsset, address };
+    }
+
+    const metadata = await this.getClient().getCoinMetadata({ coinType });
+    if (!metadata) {
+      throw new Error(`Coin ${address} has no metadata on ${this.chainName}`);
+    }
+    return {
+      chainId: this.chainId,
+      address,
+      symbol: metadata.symbol,
+      decimals: metadata.decimals,
+      standard: 'SUI_COIN'
+    };
+  }
+
+  /**
+   * Sui has no allowances: transactions spend the sender's own coin objects
+   */
+  approveAsset(asset: UniversalAsset): Promise<ChainTxResult> {
+    return Promise.reject(new Error(`${asset.symbol} on ${this.chainName} does not require approval`));
+  }
+
+  getAssetAllowance(): Promise<string> {
+    return Promise.resolve(MAX_U64.toString());
+  }
+
+  /**
+   * Send `amount` of an asset, merging as many coin objects as it takes
+   */
+  async transfer(asset: UniversalAsset, recipient: string, amount: string): Promise<ChainTxResult> {
+    const tx = new Transaction();
+    const coin = await this.takeCoin(tx, asset, BigInt(amount));
+    tx.transferObjects([coin], recipient);
+    return this.execute(tx, isSui(asset) ? BigInt(amount) : 0n);
+  }
+
+  // Order-specific operations
+
+  /**
+   * Orders are signed off-chain, so creation only derives the hash
+   */
+  createOrder(order: UniversalOrder): Promise<string> {
+    return new Promise(resolve => {
+      this.ensureConnected();
+      resolve(order.orderHash || calculateOrderHash(order, this.getOrderDomain()));
+    });
+  }
+
+  /**
+   * Ed25519 signature over the order digest, bound to this chain and its escrow module
+   */
+  async signOrder(order: UniversalOrder): Promise<string> {
+    return await signOrder(toCanonicalOrder(order), this.getOrderDomain(), this.getSigner());
+  }
+
+  cancelOrder(orderHash: string): Promise<ChainTxResult> {
+    return Promise.reject(new Error(`Orders on ${this.chainName} are not held on-chain; refund the hash lock of ${orderHash} instead`));
+  }
+
+  /**
+   * Claim funds locked under the secret's hash, checking the escrow covers
+   * the fill amount and has not expired
+   */
+  async fillOrder(orderHash: string, fillAmount: string, secret: string): Promise<ChainTxResult> {
+    const hashLock = keccak256(secret);
+    const escrow = await this.getEscrow(await this.findEscrowId(hashLock));
+
+    if (escrow.state !== SuiEscrowState.LOCKED) {
+      throw new Error(`Escrow ${escrow.objectId} for order ${orderHash} is no longer locked`);
+    }
+    if (escrow.amount < BigInt(fillAmount)) {
+      throw new Error(`Escrow ${escrow.objectId} for order ${orderHash} holds ${escrow.amount}, less than fill ${fillAmount}`);
+    }
+    const now = await this.getBlockTimestamp();
+    const expiresAt = escrow.createdAt + escrow.cancellationDelay;
+    if (now >= expiresAt) {
+      throw new Error(`Escrow ${escrow.objectId} for order ${orderHash} expired at ${expiresAt} (chain time ${now})`);
+    }
+
+    return this.withdrawEscrow(escrow, secret);
+  }
+
+  // Event monitoring
+
+  /**
+   * Poll the escrow module's events with a `MoveModule` filter; Sui
+   * fullnodes no longer push events
+   */
+  async subscribeToEvents(eventTypes: string[], callback: (event: ChainEvent) => void): Promise<void> {
+    const wanted = new Set(eventTypes.filter(type => (SUI_HTLC_EVENTS as readonly string[]).includes(type)));
+    if (wanted.size === 0) {
+      return;
+    }
+
+    const query = this.getModuleFilter();
+    const [latest] = (await this.getClient().queryEvents({ query, limit: 1, order: 'descending' })).data;
+    let cursor: EventId | null = latest?.id ?? null;
+
+    const poll = async (): Promise<PollOutcome> => {
+      let delivered = false;
+      let hasNextPage = true;
+      while (hasNextPage) {
+        const page = await this.getClient().queryEvents({ query, cursor, order: 'ascending' });
+        for (const event of page.data) {
+          if (wanted.has(getEventName(event))) {
+            callback(await this.toChainEvent(event));
+            delivered = true;
+          }
+        }
+        cursor = page.nextCursor ?? cursor;
+        hasNextPage = page.hasNextPage;
+      }
+      return delivered ? 'changed' : 'unchanged';
+    };
+
+    this.scheduler.schedule(this.getEventGroup(), 'events', poll);
+    this.subscribed = true;
+  }
+
+  unsubscribeFromEvents(): Promise<void> {
+    if (this.subscribed) {
+      this.scheduler.unschedule(this.getEventGroup(), 'events');
+      this.subscribed = false;
+    }
+    return Promise.resolve();
+  }
+
+  /**
+   * Escrow events whose hash lock is `orderHash`
+   */
+  async getOrderEvents(orderHash: string): Promise<ChainEvent[]> {
+    const events: SuiEvent[] = [];
+    await this.scanEvents('ascending', event => {
+      if (getEventHashLock(event) === orderHash.toLowerCase()) {
+        events.push(event);
+      }
+      return false;
+    });
+    return Promise.all(events.map(event => this.toChainEvent(event)));
+  }
+
+  // Hash lock operations
+
+  /**
+   * Derive the keccak256 hash lock for a secret, as the escrow module checks it
+   */
+  createHashLock(secret: string, timelocks: Timelocks): Promise<string> {
+    return new Promise(resolve => {
+      validateTimelocks(timelocks);
+      resolve(keccak256(secret));
+    });
+  }
+
+  /**
+   * Create a shared escrow object funded from the sender's coins
+   */
+  async lockFunds(params: HashLockParams): Promise<ChainTxResult> {
+    validateTimelocks(params.timelocks);
+    const [withdrawalDelay, cancellationDelay] = params.side === 'src'
+      ? [params.timelocks.srcWithdrawal, params.timelocks.srcCancellation]
+      : [params.timelocks.dstWithdrawal, params.timelocks.dstCancellation];
+    const amount = BigInt(params.amount);
+
+    const tx = new Transaction();
+    const coin = await this.takeCoin(tx, params.asset, amount);
+    tx.moveCall({
+      target: `${this.getHtlcModule()}::${SUI_HTLC_FUNCTIONS.createEscrow}`,
+      typeArguments: [params.asset.address],
+      arguments: [
+        coin,
+        tx.pure.vector('u8', getBytes(params.hashLock)),
+        tx.pure.address(params.recipient),
+        tx.pure.u64(withdrawalDelay),
+        tx.pure.u64(cancellationDelay),
+        tx.object(SUI_CLOCK_OBJECT_ID)
+      ]
+    });
+
+    const result = await this.execute(tx, isSui(params.asset) ? amount : 0n);
+    const escrow = this.getCreatedEscrows(result)[0];
+    if (escrow) {
+      this.escrowIds.set(params.hashLock.toLowerCase(), escrow);
+    }
+    return result;
+  }
+
+  async revealSecret(hashLock: string, secret: string, escrow: EscrowTimelocks): Promise<ChainTxResult> {
+    if (keccak256(secret) !== hashLock) {
+      throw new Error(`Secret does not match hash lock ${hashLock}`);
+    }
+    assertActionPermitted(escrow, 'withdraw', await this.getBlockTimestamp());
+    return this.withdrawEscrow(await this.getEscrow(await this.findEscrowId(hashLock)), secret);
+  }
+
+  async refundHashLock(hashLock: string, escrow: EscrowTimelocks): Promise<ChainTxResult> {
+    assertActionPermitted(escrow, 'cancel', await this.getBlockTimestamp());
+    const { objectId, coinType } = await this.getEscrow(await this.findEscrowId(hashLock));
+
+    const tx = new Transaction();
+    tx.moveCall({
+      target: `${this.getHtlcModule()}::${SUI_HTLC_FUNCTIONS.refund}`,
+      typeArguments: [coinType],
+      arguments: [tx.object(objectId), tx.object(SUI_CLOCK_OBJECT_ID)]
+    });
+    return this.execute(tx);
+  }
+
+  /**
+   * Check the escrow object at `expected.address` was created by the
+   * deployment transaction and holds what the maker is owed
+   */
+  async inspectEscrow(expected: ExpectedEscrow): Promise<EscrowInspection | undefined> {
+    const deployment = await this.getTransactionStatus(expected.txHash);
+    if (deployment.status === 'pending' || deployment.blockNumber === undefined) {
+      return undefined;
+    }
+
+    const head = await this.getCurrentBlockNumber();
+    const inspection: EscrowInspection = {
+      blockNumber: deployment.blockNumber,
+      confirmations: Math.max(head - deployment.blockNumber + 1, 0),
+      deployedAt: 0,
+      mismatches: [],
+      transient: []
+    };
+    if (deployment.status === 'failed') {
+      inspection.mismatches.push(`deployment ${expected.txHash} failed`);
+      return inspection;
+    }
+    if (!this.getCreatedEscrows(deployment).some(id => sameAddress(id, expected.address))) {
+      inspection.mismatches.push(`escrow ${expected.address} was not created by ${expected.txHash}`);
+      return inspection;
+    }
+
+    let escrow: SuiEscrow;
+    try {
+      escrow = await this.getEscrow(expected.address);
+    } catch {
+      inspection.transient.push(`escrow ${expected.address} not found`);
+      return inspection;
+    }
+    inspection.deployedAt = escrow.createdAt;
+
+    const coinType = normalizeStructTag(expected.asset.address);
+    const checks: [boolean, string][] = [
+      [escrow.hashLock === expected.hashLock.toLowerCase(), `hash lock is ${escrow.hashLock}, expected ${expected.hashLock}`],
+      [sameAddress(escrow.recipient, expected.maker), `recipient is ${escrow.recipient}, expected ${expected.maker}`],
+      [escrow.coinType === coinType, `asset is ${escrow.coinType}, expected ${coinType}`],
+      [escrow.amount === BigInt(expected.amount), `amount is ${escrow.amount}, expected ${expected.amount}`],
+      [escrow.withdrawalDelay === expected.timelocks.dstWithdrawal, `withdrawal delay is ${escrow.withdrawalDelay}s, expected ${expected.timelocks.dstWithdrawal}s`],
+      [escrow.cancellationDelay === expected.timelocks.dstCancellation, `cancellation delay is ${escrow.cancellationDelay}s, expected ${expected.timelocks.dstCancellation}s`],
+      [escrow.state === SuiEscrowState.LOCKED, `escrow is ${SuiEscrowState[escrow.state]?.toLowerCase() ?? escrow.state}`]
+    ];
+    inspection.mismatches.push(...checks.filter(([ok]) => !ok).map(([, mismatch]) => mismatch));
+    return inspection;
+  }
+
+  // Chain-specific utilities
+
+  /**
+   * Gas budget a dry run needs: computation plus storage, before the storage rebate
+   */
+  async estimateGas(txParams: UniversalTxParams): Promise<string> {
+    const { data } = await this.populateTransaction(txParams);
+    const dryRun = await this.getClient().dryRunTransactionBlock({ transactionBlock: data });
+    const { computationCost, storageCost } = dryRun.effects.gasUsed;
+    return (BigInt(computationCost) + BigInt(storageCost)).toString();
+  }
+
+  /**
+   * Latest checkpoint, Sui's unit of finality
+   */
+  async getCurrentBlockNumber(): Promise<number> {
+    return Number(await this.getClient().getLatestCheckpointSequenceNumber());
+  }
+
+  async getBlockTimestamp(blockNumber?: number): Promise<number> {
+    const id = blockNumber ?? (await this.getCurrentBlockNumber());
+    const checkpoint = await this.getClient().getCheckpoint({ id: id.toString() });
+    return Math.floor(Number(checkpoint.timestampMs) / 1000);
+  }
+
+  // Internal helpers
+
+  private async withdrawEscrow(escrow: SuiEscrow, secret: string): Promise<ChainTxResult> {
+    const tx = new Transaction();
+    tx.moveCall({
+      target: `${this.getHtlcModule()}::${SUI_HTLC_FUNCTIONS.withdraw}`,
+      typeArguments: [escrow.coinType],
+      arguments: [tx.object(escrow.objectId), tx.pure.vector('u8', getBytes(secret)), tx.object(SUI_CLOCK_OBJECT_ID)]
+    });
+    return await this.execute(tx);
+  }
+
+  /**
+   * Add a coin of exactly `amount` to the transaction. SUI is split off the
+   * gas coin; other coins are merged from as many owned objects as needed.
+   */
+  private async takeCoin(tx: Transaction, asset: UniversalAsset, amount: bigint): Promise<TransactionObjectArgument> {
+    if (isSui(asset)) {
+      const [coin] = tx.splitCoins(tx.gas, [amount]);
+      return coin;
+    }
+
+    const [primary, ...rest] = await this.selectCoins(asset.address, amount);
+    if (rest.length > 0) {
+      tx.mergeCoins(primary.coinObjectId, rest.map(coin => coin.coinObjectId));
+    }
+    const [coin] = tx.splitCoins(primary.coinObjectId, [amount]);
+    return coin;
+  }
+
+  /**
+   * Largest-first selection of the sender's coins of a type until they cover `amount`
+   */
+  private async selectCoins(coinType: string, amount: bigint, limit?: number): Promise<CoinStruct[]> {
+    const owner = await this.getAddress();
+    const coins: CoinStruct[] = [];
+    let cursor: string | null | undefined;
+    do {
+      const page = await this.getClient().getCoins({ owner, coinType, cursor });
+      coins.push(...page.data);
+      cursor = page.hasNextPage ? page.nextCursor : undefined;
+    } while (cursor);
+
+    coins.sort((a, b) => {
+      const difference = BigInt(b.balance) - BigInt(a.balance);
+      if (difference === 0n) {
+        return 0;
+      }
+      return difference > 0n ? 1 : -1;
+    });
+    const selected: CoinStruct[] = [];
+    let total = 0n;
+    for (const coin of coins) {
+      if (total >= amount || (limit !== undefined && selected.length >= limit)) {
+        break;
+      }
+      selected.push(coin);
+      total += BigInt(coin.balance);
+    }
+
+    if (total < amount) {
+      throw new Error(`Insufficient ${coinType} on ${this.chainName}: ${total} of ${amount} available in ${selected.length} coins`);
+    }
+    return selected;
+  }
+
+  /**
+   * Set sender, gas price, budget and payment coins, then build to BCS bytes.
+   * Gas coins are picked to cover the budget plus the SUI the transaction spends.
+   */
+  private async buildTransaction(tx: Transaction, txParams: UniversalTxParams): Promise<Uint8Array> {
+    const client = this.getClient();
+    tx.setSenderIfNotSet(await this.getAddress());
+    tx.setGasPrice(txParams.gasPrice ? BigInt(txParams.gasPrice) : await client.getReferenceGasPrice());
+    if (txParams.gasLimit) {
+      tx.setGasBudget(BigInt(txParams.gasLimit));
+    }
+
+    const budget = txParams.gasLimit ? BigInt(txParams.gasLimit) : DEFAULT_SUI_GAS_BUDGET;
+    const gasCoins = await this.selectCoins(SUI_COIN_TYPE, budget + BigInt(txParams.value ?? 0), MAX_SUI_GAS_OBJECTS);
+    tx.setGasPayment(gasCoins.map(coin => ({ objectId: coin.coinObjectId, version: coin.version, digest: coin.digest })));
+
+    return tx.build({ client });
+  }
+
+  /**
+   * Build the PTB in `chainSpecific.transaction` into base64 `data`, so the
+   * signer receives complete transaction bytes; with no PTB, `value` SUI is
+   * sent to `to`
+   */
+  private async populateTransaction(txParams: UniversalTxParams): Promise<UniversalTxParams & { data: string }> {
+    if (txParams.data) {
+      return { ...txParams, data: txParams.data };
+    }
+
+    let tx = txParams.chainSpecific?.transaction as Transaction | undefined;
+    if (!tx) {
+      tx = new Transaction();
+      const [coin] = tx.splitCoins(tx.gas, [BigInt(txParams.value ?? 0)]);
+      tx.transferObjects([coin], txParams.to);
+    }
+    return { ...txParams, data: toBase64(await this.buildTransaction(tx, txParams)) };
+  }
+
+  /**
+   * Sign, execute and wait for a PTB; `value` is the SUI it spends besides gas
+   */
+  private async execute(tx: Transaction, value = 0n): Promise<ChainTxResult> {
+    const signedTx = await this.signTransaction({
+      to: this.getHtlcModule(),
+      value: value.toString(),
+      chainSpecific: { transaction: tx }
+    });
+    const { txHash } = await this.broadcastTransaction(signedTx);
+    const response = await this.getClient().waitForTransaction({
+      digest: txHash,
+      options: { showEffects: true, showEvents: true, showObjectChanges: true }
+    });
+    return this.toTxResult(response);
+  }
+
+  /**
+   * Executed transactions are `confirmed` or `failed` from their effects;
+   * block fields are set once the transaction is in a checkpoint
+   */
+  private async toTxResult(response: SuiTransactionBlockResponse): Promise<ChainTxResult> {
+    if (!response.effects) {
+      return { txHash: response.digest, status: 'pending' };
+    }
+
+    const { computationCost, storageCost, storageRebate } = response.effects.gasUsed;
+    const checkpoint = response.checkpoint
+      ? await this.getClient().getCheckpoint({ id: response.checkpoint })
+      : undefined;
+
+    return {
+      txHash: response.digest,
+      blockNumber: checkpoint ? Number(checkpoint.sequenceNumber) : undefined,
+      gasUsed: (BigInt(computationCost) + BigInt(storageCost) - BigInt(storageRebate)).toString(),
+      status: response.effects.status.status === 'success' ? 'confirmed' : 'failed',
+      chainSpecific: {
+        checkpoint: checkpoint?.sequenceNumber,
+        blockHash: checkpoint?.digest,
+        error: response.effects.status.error,
+        events: response.events ?? [],
+        createdObjects: (response.objectChanges ?? [])
+          .filter(change => change.type === 'created')
+          .map(change => ({ objectId: change.objectId, objectType: change.objectType }))
+      }
+    };
+  }
+
+  /**
+   * Ids of `Escrow<T>` objects a transaction created
+   */
+  private getCreatedEscrows(result: ChainTxResult): string[] {
+    const prefix = `${this.getHtlcModule()}::${SUI_HTLC_ESCROW_STRUCT}<`;
+    const created = (result.chainSpecific?.createdObjects ?? []) as Array<{ objectId: string; objectType: string }>;
+    return created
+      .filter(object => normalizeStructTag(object.objectType).startsWith(prefix))
+      .map(object => object.objectId);
+  }
+
+  private async getEscrow(objectId: string): Promise<SuiEscrow> {
+    const response = await this.getClient().getObject({ id: objectId, options: { showContent: true } });
+    const content = response.data?.content;
+    if (!content || content.dataType !== 'moveObject') {
+      throw new Error(`Escrow ${objectId} not found on ${this.chainName}`);
+    }
+
+    const type = normalizeStructTag(content.type);
+    const prefix = `${this.getHtlcModule()}::${SUI_HTLC_ESCROW_STRUCT}<`;
+    if (!type.startsWith(prefix)) {
+      throw new Error(`Object ${objectId} is a ${content.type}, not an escrow`);
+    }
+
+    const fields = content.fields as unknown as SuiEscrowFields;
+    return {
+      objectId,
+      coinType: type.slice(prefix.length, -1),
+      sender: fields.sender,
+      recipient: fields.recipient,
+      hashLock: toHex(fields.hash_lock),
+      amount: BigInt(fields.balance),
+      createdAt: Number(fields.created_at),
+      withdrawalDelay: Number(fields.withdrawal_delay),
+      cancellationDelay: Number(fields.cancellation_delay),
+      state: Number(fields.state)
+    };
+  }
+
+  /**
+   * Escrow object for a hash lock, from the cache or the newest matching `EscrowCreated` event
+   */
+  private async findEscrowId(hashLock: string): Promise<string> {
+    const key = hashLock.toLowerCase();
+    if (!this.escrowIds.has(key)) {
+      await this.scanEvents('descending', event => {
+        if (getEventName(event) !== 'EscrowCreated' || getEventHashLock(event) !== key) {
+          return false;
+        }
+        this.escrowIds.set(key, (event.parsedJson as SuiEscrowEventJson).escrow_id);
+        return true;
+      });
+    }
+
+    const escrowId = this.escrowIds.get(key);
+    if (!escrowId) {
+      throw new Error(`No escrow under hash lock ${hashLock} on ${this.chainName}`);
+    }
+    return escrowId;
+  }
+
+  /**
+   * Page through the escrow module's events until `visit` returns true
+   */
+  private async scanEvents(order: 'ascending' | 'descending', visit: (event: SuiEvent) => boolean): Promise<void> {
+    let cursor: EventId | null = null;
+    let hasNextPage = true;
+    while (hasNextPage) {
+      const page = await this.getClient().queryEvents({ query: this.getModuleFilter(), cursor, order });
+      if (page.data.some(visit)) {
+        return;
+      }
+      cursor = page.nextCursor ?? null;
+      hasNextPage = page.hasNextPage;
+    }
+  }
+
+  private async toChainEvent(event: SuiEvent): Promise<ChainEvent> {
+    const transaction = await this.getClient().getTransactionBlock({ digest: event.id.txDigest });
+
+    return {
+      eventType: getEventName(event),
+      orderHash: getEventHashLock(event),
+      txHash: event.id.txDigest,
+      blockNumber: Number(transaction.checkpoint ?? 0),
+      timestamp: Math.floor(Number(event.timestampMs ?? 0) / 1000),
+      data: event.parsedJson as Record<string, unknown>
+    };
+  }
+
+  private getModuleFilter() {
+    const [pkg, module] = this.getHtlcModule().split('::');
+    return { MoveModule: { package: pkg, module } };
+  }
+
+  private getEventGroup(): string {
+    return `sui-events:${this.chainId}`;
+  }
+
+  /**
+   * `contractAddresses.htlc` with its package address normalized, as Sui reports types
+   */
+  private getHtlcModule(): string {
+    const [pkg, module] = this.getContractAddress('htlc').split('::');
+    return `${normalizeSuiAddress(pkg)}::${module}`;
+  }
+
+  private getContractAddress(name: string): string {
+    this.ensureConnected();
+    const address = this.config?.contractAddresses?.[name];
+    if (!address) {
+      throw new Error(`Missing contract address '${name}' for ${this.chainName}`);
+    }
+    return address;
+  }
+
+  private getOrderDomain(): OrderDomain {
+    return buildOrderDomain(this.chainId, this.getHtlcModule());
+  }
+
+  private getClient(): SuiClient {
+    this.ensureConnected();
+    if (!this.client) {
+      throw new Error(`Chain adapter for ${this.chainName} is not connected`);
+    }
+    return this.client;
+  }
+
+  private getSigner(): ISigner {
+    this.ensureConnected();
+    if (!this.signer) {
+      throw new Error(`No signer configured for ${this.chainName}`);
+    }
+    return this.signer;
+  }
+}
+
+function isSui(asset: UniversalAsset): boolean {
+  return normalizeStructTag(asset.address) === normalizeStructTag(SUI_COIN_TYPE);
+}
+
+/**
+ * Event struct name without module path or type arguments
+ */
+function getEventName(event: SuiEvent): string {
+  return event.type.split('<')[0].split('::').at(-1) ?? event.type;
+}
+
+function getEventHashLock(event: SuiEvent): string | undefined {
+  const hashLock = (event.parsedJson as SuiEscrowEventJson | undefined)?.hash_lock;
+  return hashLock === undefined ? undefined : toHex(hashLock);
+}
+
+/**
+ * Move `vector<u8>` as rendered by the RPC (a byte array or base64) to lowercase hex
+ */
+function toHex(value: number[] | string): string {
+  if (Array.isArray(value)) {
+    return hexlify(Uint8Array.from(value));
+  }
+  return isHexString(value) ? value.toLowerCase() : hexlify(fromBase64(value));
+}
+
+function sameAddress(a: string, b: string): boolean {
+  return normalizeSuiAddress(a) === normalizeSuiAddress(b);
+}
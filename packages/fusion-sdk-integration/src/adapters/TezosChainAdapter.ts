@@ -0,0 +1,899 @@
+import { OpKind, type ParamsWithKind, type Signer, TezosToolkit, type TransferParams } from '@taquito/taquito';
+import { LocalForger } from '@taquito/local-forging';
+import { Schema } from '@taquito/michelson-encoder';
+import type {
+  BlockResponse,
+  MichelsonV1Expression,
+  OperationContentsAndResultOrigination,
+  OperationContentsAndResultTransaction,
+  OperationEntry
+} from '@taquito/rpc';
+import { MaxUint256, keccak256, toUtf8String } from 'ethers';
+import {
+  BaseChainAdapter,
+  type ChainConfig,
+  type ChainEvent,
+  type ChainTxResult,
+  type EscrowInspection,
+  type ExpectedEscrow,
+  type HashLockParams,
+  SignatureScheme
+} from '../interfaces/IChainAdapter';
+import type { ISigner } from '../interfaces/ISigner';
+import { TezosKeySigner } from '../signers/TezosKeySigner';
+import { type PollOutcome, type PollingScheduler, pollingScheduler } from '../core/PollingScheduler';
+import { type UniversalAsset, type UniversalOrder, type UniversalTxParams, sleep } from '../utils/fusionUtils';
+import { type EscrowTimelocks, type Timelocks, assertActionPermitted, validateTimelocks } from '../utils/timelocks';
+import { type OrderDomain, buildOrderDomain, calculateOrderHash, signOrder, toCanonicalOrder } from '../orders/orderHashing';
+import {
+  TEZOS_HTLC_CODE,
+  TEZOS_HTLC_ENTRYPOINTS,
+  TEZOS_HTLC_EVENTS,
+  TEZOS_HTLC_INITIAL_STORAGE,
+  TEZOS_NATIVE_ADDRESS,
+  TezosEscrowState
+} from './tezosContracts';
+
+/**
+ * Blocks searched for operations the adapter did not inject itself
+ */
+const DEFAULT_LOOKBACK_BLOCKS = 120;
+
+/**
+ * How long `execute` waits for an injected operation to be included
+ */
+const INCLUSION_TIMEOUT_MS = 180_000;
+
+const HEX_PREFIX_PATTERN = /^0x/;
+
+/**
+ * Escrow as stored in the contract's big map
+ */
+interface TezosEscrow {
+  sender: string;
+  recipient: string;
+  asset: TezosAssetRef;
+  amount: bigint;
+  createdAt: number;
+  withdrawalDelay: number;
+  cancellationDelay: number;
+  state: TezosEscrowState;
+}
+
+/**
+ * Asset as the contract identifies it
+ */
+type TezosAssetRef =
+  | { tez: symbol }
+  | { fa12: string }
+  | { fa2: { token: string; token_id: { toString(): string } } };
+
+/**
+ * Big map as Taquito exposes it in decoded storage
+ */
+interface TezosBigMap<K, V> {
+  get(key: K): Promise<V | undefined>;
+}
+
+/**
+ * Storage fields read from TZIP-7/TZIP-12 token contracts; Taquito decodes
+ * nats as BigNumbers
+ */
+interface TezosTokenStorage {
+  token_metadata?: TezosBigMap<string, { token_info: Map<string, string> }>;
+  operators?: TezosBigMap<{ owner: string; operator: string; token_id: string }, unknown>;
+}
+
+/**
+ * Escrow as stored in the contract's big map
+ */
+interface TezosEscrowStorage {
+  sender: string;
+  recipient: string;
+  asset: TezosAssetRef;
+  amount: { toFixed(decimalPlaces: number): string };
+  created_at: string;
+  withdrawal_delay: { toNumber(): number };
+  cancellation_delay: { toNumber(): number };
+  state: { toNumber(): number };
+}
+
+/**
+ * Manager operation found in a block
+ */
+interface IncludedOperation {
+  block: BlockResponse;
+  operation: OperationEntry;
+}
+
+/**
+ * Signer with the public key Tezos needs to reveal an account
+ */
+type TezosSigner = ISigner & { getPublicKey(): Promise<string> };
+
+/**
+ * Transaction calling one of the escrow contract's entrypoints
+ */
+type HtlcCall = OperationContentsAndResultTransaction & Required<Pick<OperationContentsAndResultTransaction, 'parameters'>>;
+
+/**
+ * Chain adapter for Tezos built on Taquito
+ *
+ * Assets are tez (`tez`), FA1.2 contracts, or FA2 contracts with a
+ * `tokenId`. FA1.2 spending goes through `approve` allowances and FA2
+ * through `update_operators`, which grant unlimited access per token.
+ * Operations are batched, forged locally and signed through the adapter's
+ * signer. Hash locks live in the Michelson contract at
+ * `contractAddresses.htlc` (see `deployHtlc`).
+ *
+ * The node RPC cannot look operations up by hash, so the adapter scans
+ * blocks from where it injected them, or the last
+ * `customParams.lookbackBlocks` blocks for others. Runs against a Flextesa
+ * sandbox as well as mainnet.
+ */
+export class TezosChainAdapter extends BaseChainAdapter {
+  readonly signatureScheme = SignatureScheme.ED25519;
+
+  private tezos?: TezosToolkit;
+  private signer?: ISigner;
+  private subscribed = false;
+  /** Lowest level each known operation can be included at */
+  private operationLevels: Map<string, number> = new Map();
+
+  constructor(
+    readonly chainId: string,
+    readonly chainName: string,
+    readonly nativeAsset: UniversalAsset,
+    private readonly scheduler: PollingScheduler = pollingScheduler
+  ) {
+    super();
+  }
+
+  async connect(config: ChainConfig): Promise<void> {
+    const tezos = new TezosToolkit(config.rpcUrl);
+
+    const chainId = await tezos.rpc.getChainId();
+    if (config.networkId !== undefined && chainId !== String(config.networkId)) {
+      throw new Error(`RPC ${config.rpcUrl} serves Tezos chain ${chainId}, expected ${config.networkId}`);
+    }
+
+    this.tezos = tezos;
+    this.signer = config.signer
+      ?? (config.privateKey ? new TezosKeySigner(config.privateKey) : undefined)
+      ?? (config.mnemonic ? TezosKeySigner.fromMnemonic(config.mnemonic) : undefined);
+
+    if (this.signer && this.signer.signatureScheme !== this.signatureScheme) {
+      throw new Error(`Signer scheme ${this.signer.signatureScheme} cannot sign for ${this.chainName}`);
+    }
+    if (this.signer) {
+      tezos.setSignerProvider(new SignerKeyProvider(this.signer));
+    }
+
+    await super.connect(config);
+  }
+
+  async disconnect(): Promise<void> {
+    await this.unsubscribeFromEvents();
+    this.tezos = undefined;
+    this.signer = undefined;
+    this.operationLevels.clear();
+    await super.disconnect();
+  }
+
+  // Account management
+
+  async getAddress(): Promise<string> {
+    return await this.getSigner().getAddress();
+  }
+
+  async getBalance(asset: UniversalAsset, address?: string): Promise<string> {
+    const owner = address ?? (await this.getAddress());
+
+    switch (asset.standard) {
+      case 'NATIVE':
+        return (await this.getTezos().tz.getBalance(owner)).toFixed(0);
+      case 'FA1.2': {
+        const token = await this.getTezos().contract.at(asset.address);
+        return (await token.views.getBalance(owner).read()).toFixed(0);
+      }
+      case 'FA2': {
+        const token = await this.getTezos().contract.at(asset.address);
+        const [response] = await token.views.balance_of([{ owner, token_id: asset.tokenId ?? '0' }]).read();
+        return response.balance.toFixed(0);
+      }
+      default:
+        throw new Error(`Unsupported asset standard on ${this.chainName}: ${asset.standard}`);
+    }
+  }
+
+  /**
+   * Counter of the account's last manager operation
+   */
+  async getNonce(address?: string): Promise<number> {
+    const owner = address ?? (await this.getAddress());
+    const contract = await this.getTezos().rpc.getContract(owner);
+    return Number(contract.counter ?? 0);
+  }
+
+  // Transaction operations
+
+  async signTransaction(txParams: UniversalTxParams): Promise<string> {
+    return this.getSigner().signTransaction(await this.populateTransaction(txParams));
+  }
+
+  async signMessage(message: string): Promise<string> {
+    return await this.getSigner().signMessage(message);
+  }
+
+  /**
+   * Inject a signed operation: its forged bytes followed by the signature
+   */
+  async broadcastTransaction(signedTx: string): Promise<ChainTxResult> {
+    const level = await this.getCurrentBlockNumber();
+    const opHash = await this.getTezos().rpc.injectOperation(signedTx.replace(HEX_PREFIX_PATTERN, ''));
+    this.operationLevels.set(opHash, level);
+    return { txHash: opHash, status: 'pending' };
+  }
+
+  async getTransactionStatus(txHash: string): Promise<ChainTxResult> {
+    const included = await this.findOperation(txHash);
+    if (!included) {
+      return { txHash, status: 'pending' };
+    }
+
+    const { block, operation } = included;
+    const results = operation.contents.map(content => (content as OperationContentsAndResultTransaction).metadata?.operation_result);
+    const milligas = results.reduce((total, result) => total + BigInt(result?.consumed_milligas ?? 0), 0n);
+
+    return {
+      txHash,
+      blockNumber: block.header.level,
+      gasUsed: ((milligas + 999n) / 1000n).toString(),
+      status: results.every(result => result?.status === 'applied') ? 'confirmed' : 'failed',
+      chainSpecific: {
+        blockHash: block.hash,
+        contents: operation.contents
+      }
+    };
+  }
+
+  // Asset operations
+
+  /**
+   * Symbol and decimals from the contract's TZIP-12 `token_metadata` big map
+   */
+  async getAssetMetadata(address: string, tokenId?: string): Promise<UniversalAsset> {
+    if (address === TEZOS_NATIVE_ADDRESS) {
+      return this.nativeAsset;
+    }
+
+    const token = await this.getTezos().contract.at(address);
+    const storage = await token.storage<TezosTokenStorage | undefined>();
+    const metadata = await storage?.token_metadata?.get(tokenId ?? '0');
+    if (!metadata) {
+      throw new Error(`Token ${address} has no token_metadata for token ${tokenId ?? '0'} on ${this.chainName}`);
+    }
+
+    const info = metadata.token_info;
+    const isFa2 = 'update_operators' in token.entrypoints.entrypoints;
+    return {
+      chainId: this.chainId,
+      address,
+      symbol: toUtf8String(`0x${info.get('symbol') ?? ''}`),
+      decimals: Number(toUtf8String(`0x${info.get('decimals') ?? '30'}`)),
+      standard: isFa2 ? 'FA2' : 'FA1.2',
+      tokenId: isFa2 ? (tokenId ?? '0') : undefined
+    };
+  }
+
+  /**
+   * FA1.2 approves `amount`, first resetting a different non-zero allowance
+   * as the standard requires; FA2 adds `spender` as operator, or removes it
+   * when `amount` is zero
+   */
+  async approveAsset(asset: UniversalAsset, spender: string, amount: string): Promise<ChainTxResult> {
+    const owner = await this.getAddress();
+
+    switch (asset.standard) {
+      case 'FA1.2': {
+        const current = BigInt(await this.getAssetAllowance(asset, owner, spender));
+        const operations = current > 0n && current !== BigInt(amount) && BigInt(amount) > 0n
+          ? [this.fa12Approve(asset, spender, 0n), this.fa12Approve(asset, spender, BigInt(amount))]
+          : [this.fa12Approve(asset, spender, BigInt(amount))];
+        return this.execute(operations);
+      }
+      case 'FA2':
+        return this.execute([this.fa2UpdateOperator(asset, owner, spender, BigInt(amount) > 0n)]);
+      default:
+        throw new Error(`${asset.symbol} on ${this.chainName} does not require approval`);
+    }
+  }
+
+  /**
+   * FA1.2 allowance; FA2 operators may move any amount, so this is either
+   * unlimited or zero
+   */
+  async getAssetAllowance(asset: UniversalAsset, owner: string, spender: string): Promise<string> {
+    switch (asset.standard) {
+      case 'FA1.2': {
+        const token = await this.getTezos().contract.at(asset.address);
+        return (await token.views.getAllowance(owner, spender).read()).toFixed(0);
+      }
+      case 'FA2':
+        return (await this.isOperator(asset, owner, spender)) ? MaxUint256.toString() : '0';
+      default:
+        return MaxUint256.toString();
+    }
+  }
+
+  // Order-specific operations
+
+  /**
+   * Orders are signed off-chain, so creation only derives the hash
+   */
+  createOrder(order: UniversalOrder): Promise<string> {
+    return new Promise(resolve => {
+      this.ensureConnected();
+      resolve(order.orderHash || calculateOrderHash(order, this.getOrderDomain()));
+    });
+  }
+
+  /**
+   * Tezos signature over the order digest, bound to this chain and its escrow contract
+   */
+  async signOrder(order: UniversalOrder): Promise<string> {
+    return await signOrder(toCanonicalOrder(order), this.getOrderDomain(), this.getSigner());
+  }
+
+  cancelOrder(orderHash: string): Promise<ChainTxResult> {
+    return Promise.reject(new Error(`Orders on ${this.chainName} are not held on-chain; refund the hash lock of ${orderHash} instead`));
+  }
+
+  /**
+   * Claim funds locked under the secret's hash, checking the escrow covers
+   * the fill amount and has not expired
+   */
+  async fillOrder(orderHash: string, fillAmount: string, secret: string): Promise<ChainTxResult> {
+    const hashLock = keccak256(secret);
+    const escrow = await this.getEscrow(hashLock);
+    if (!escrow) {
+      throw new Error(`No escrow under hash lock ${hashLock} for order ${orderHash}`);
+    }
+
+    if (escrow.state !== TezosEscrowState.LOCKED) {
+      throw new Error(`Escrow ${hashLock} for order ${orderHash} is no longer locked`);
+    }
+    if (escrow.amount < BigInt(fillAmount)) {
+      throw new Error(`Escrow ${hashLock} for order ${orderHash} holds ${escrow.amount}, less than fill ${fillAmount}`);
+    }
+    const now = await this.getBlockTimestamp();
+    const expiresAt = escrow.createdAt + escrow.cancellationDelay;
+    if (now >= expiresAt) {
+      throw new Error(`Escrow ${hashLock} for order ${orderHash} expired at ${expiresAt} (chain time ${now})`);
+    }
+
+    return this.execute([this.htlcCall(TEZOS_HTLC_ENTRYPOINTS.withdraw, pair(bytes(hashLock), bytes(secret)))]);
+  }
+
+  // Event monitoring
+
+  /**
+   * Poll new blocks for applied calls to the escrow contract, reported as
+   * `EscrowCreated`, `EscrowWithdrawn` and `EscrowRefunded`
+   */
+  async subscribeToEvents(eventTypes: string[], callback: (event: ChainEvent) => void): Promise<void> {
+    const wanted = new Set(eventTypes.filter(type => Object.values(TEZOS_HTLC_EVENTS).includes(type)));
+    if (wanted.size === 0) {
+      return;
+    }
+
+    let lastLevel = await this.getCurrentBlockNumber();
+    const poll = async (): Promise<PollOutcome> => {
+      const head = await this.getCurrentBlockNumber();
+      let delivered = false;
+      for (let level = lastLevel + 1; level <= head; level++) {
+        for (const event of await this.getHtlcEvents(await this.getBlock(level))) {
+          if (wanted.has(event.eventType)) {
+            callback(event);
+            delivered = true;
+          }
+        }
+        lastLevel = level;
+      }
+      return delivered ? 'changed' : 'unchanged';
+    };
+
+    this.scheduler.schedule(this.getEventGroup(), 'events', poll);
+    this.subscribed = true;
+  }
+
+  unsubscribeFromEvents(): Promise<void> {
+    if (this.subscribed) {
+      this.scheduler.unschedule(this.getEventGroup(), 'events');
+      this.subscribed = false;
+    }
+    return Promise.resolve();
+  }
+
+  /**
+   * Escrow contract calls with hash lock `orderHash` within the lookback window
+   */
+  async getOrderEvents(orderHash: string): Promise<ChainEvent[]> {
+    const head = await this.getCurrentBlockNumber();
+    const events: ChainEvent[] = [];
+    for (let level = Math.max(head - this.getLookback(), 1); level <= head; level++) {
+      const blockEvents = await this.getHtlcEvents(await this.getBlock(level));
+      events.push(...blockEvents.filter(event => event.orderHash === orderHash.toLowerCase()));
+    }
+    return events;
+  }
+
+  // Hash lock operations
+
+  /**
+   * Derive the keccak256 hash lock for a secret, as the escrow contract checks it
+   */
+  createHashLock(secret: string, timelocks: Timelocks): Promise<string> {
+    return new Promise(resolve => {
+      validateTimelocks(timelocks);
+      resolve(keccak256(secret));
+    });
+  }
+
+  /**
+   * Lock funds in one batch: tez are sent with the call; FA1.2 tokens are
+   * approved for exactly the amount, and FA2 tokens have the contract added
+   * as operator for the call and removed after it
+   */
+  async lockFunds(params: HashLockParams): Promise<ChainTxResult> {
+    validateTimelocks(params.timelocks);
+    const [withdrawalDelay, cancellationDelay] = params.side === 'src'
+      ? [params.timelocks.srcWithdrawal, params.timelocks.srcCancellation]
+      : [params.timelocks.dstWithdrawal, params.timelocks.dstCancellation];
+    const { asset } = params;
+    const amount = BigInt(params.amount);
+    const htlc = this.getHtlcAddress();
+    const owner = await this.getAddress();
+
+    const lock = this.htlcCall(
+      TEZOS_HTLC_ENTRYPOINTS.lock,
+      pair(
+        bytes(params.hashLock),
+        { string: params.recipient },
+        assetRef(asset),
+        nat(amount),
+        nat(withdrawalDelay),
+        nat(cancellationDelay)
+      ),
+      asset.standard === 'NATIVE' ? amount : 0n
+    );
+
+    const operations: ParamsWithKind[] = [];
+    switch (asset.standard) {
+      case 'NATIVE':
+        operations.push(lock);
+        break;
+      case 'FA1.2': {
+        if (BigInt(await this.getAssetAllowance(asset, owner, htlc)) > 0n) {
+          operations.push(this.fa12Approve(asset, htlc, 0n));
+        }
+        operations.push(this.fa12Approve(asset, htlc, amount), lock);
+        break;
+      }
+      case 'FA2':
+        if (await this.isOperator(asset, owner, htlc)) {
+          operations.push(lock);
+        } else {
+          operations.push(this.fa2UpdateOperator(asset, owner, htlc, true), lock, this.fa2UpdateOperator(asset, owner, htlc, false));
+        }
+        break;
+      default:
+        throw new Error(`Unsupported asset standard on ${this.chainName}: ${asset.standard}`);
+    }
+
+    return this.execute(operations);
+  }
+
+  async revealSecret(hashLock: string, secret: string, escrow: EscrowTimelocks): Promise<ChainTxResult> {
+    if (keccak256(secret) !== hashLock) {
+      throw new Error(`Secret does not match hash lock ${hashLock}`);
+    }
+    assertActionPermitted(escrow, 'withdraw', await this.getBlockTimestamp());
+    return this.execute([this.htlcCall(TEZOS_HTLC_ENTRYPOINTS.withdraw, pair(bytes(hashLock), bytes(secret)))]);
+  }
+
+  async refundHashLock(hashLock: string, escrow: EscrowTimelocks): Promise<ChainTxResult> {
+    assertActionPermitted(escrow, 'cancel', await this.getBlockTimestamp());
+    return this.execute([this.htlcCall(TEZOS_HTLC_ENTRYPOINTS.refund, bytes(hashLock))]);
+  }
+
+  /**
+   * Check the deployment called `lock` with the expected hash lock and
+   * that the escrow stored under it holds what the maker is owed; escrows
+   * are keyed by hash lock, so `expected.address` is not used
+   */
+  async inspectEscrow(expected: ExpectedEscrow): Promise<EscrowInspection | undefined> {
+    const deployment = await this.getTransactionStatus(expected.txHash);
+    if (deployment.status === 'pending' || deployment.blockNumber === undefined) {
+      return undefined;
+    }
+
+    const head = await this.getCurrentBlockNumber();
+    const inspection: EscrowInspection = {
+      blockNumber: deployment.blockNumber,
+      confirmations: Math.max(head - deployment.blockNumber + 1, 0),
+      deployedAt: 0,
+      mismatches: [],
+      transient: []
+    };
+    if (deployment.status === 'failed') {
+      inspection.mismatches.push(`deployment ${expected.txHash} failed`);
+      return inspection;
+    }
+
+    const contents = (deployment.chainSpecific?.contents ?? []) as OperationContentsAndResultTransaction[];
+    const locks = contents
+      .filter(content => this.isHtlcCall(content))
+      .filter(content => content.parameters.entrypoint === TEZOS_HTLC_ENTRYPOINTS.lock);
+    if (!locks.some(content => getHashLock(content.parameters.value) === expected.hashLock.toLowerCase())) {
+      inspection.mismatches.push(`${expected.txHash} did not lock hash lock ${expected.hashLock}`);
+      return inspection;
+    }
+
+    const escrow = await this.getEscrow(expected.hashLock);
+    if (!escrow) {
+      inspection.transient.push(`no escrow under hash lock ${expected.hashLock}`);
+      return inspection;
+    }
+    inspection.deployedAt = escrow.createdAt;
+
+    const checks: [boolean, string][] = [
+      [escrow.recipient === expected.maker, `recipient is ${escrow.recipient}, expected ${expected.maker}`],
+      [isSameAsset(escrow.asset, expected.asset), `asset is ${describeAsset(escrow.asset)}, expected ${expected.asset.address}`],
+      [escrow.amount === BigInt(expected.amount), `amount is ${escrow.amount}, expected ${expected.amount}`],
+      [escrow.withdrawalDelay === expected.timelocks.dstWithdrawal, `withdrawal delay is ${escrow.withdrawalDelay}s, expected ${expected.timelocks.dstWithdrawal}s`],
+      [escrow.cancellationDelay === expected.timelocks.dstCancellation, `cancellation delay is ${escrow.cancellationDelay}s, expected ${expected.timelocks.dstCancellation}s`],
+      [escrow.state === TezosEscrowState.LOCKED, `escrow is ${TezosEscrowState[escrow.state]?.toLowerCase() ?? escrow.state}`]
+    ];
+    inspection.mismatches.push(...checks.filter(([ok]) => !ok).map(([, mismatch]) => mismatch));
+    return inspection;
+  }
+
+  /**
+   * Originate the escrow contract; put the returned address in `contractAddresses.htlc`
+   */
+  async deployHtlc(): Promise<string> {
+    const result = await this.execute([{
+      kind: OpKind.ORIGINATION,
+      code: TEZOS_HTLC_CODE,
+      init: TEZOS_HTLC_INITIAL_STORAGE,
+      balance: '0'
+    }]);
+    const origination = ((result.chainSpecific?.contents ?? []) as OperationEntry['contents'])
+      .find(content => content.kind === 'origination') as OperationContentsAndResultOrigination | undefined;
+    const address = origination?.metadata.operation_result.originated_contracts?.[0];
+    if (result.status !== 'confirmed' || !address) {
+      throw new Error(`Escrow contract origination ${result.txHash} failed on ${this.chainName}`);
+    }
+    return address;
+  }
+
+  // Chain-specific utilities
+
+  async estimateGas(txParams: UniversalTxParams): Promise<string> {
+    const estimates = await this.getTezos().estimate.batch(this.getOperations(txParams));
+    return estimates.reduce((total, estimate) => total + BigInt(estimate.gasLimit), 0n).toString();
+  }
+
+  async getCurrentBlockNumber(): Promise<number> {
+    return (await this.getTezos().rpc.getBlockHeader()).level;
+  }
+
+  async getBlockTimestamp(blockNumber?: number): Promise<number> {
+    const header = await this.getTezos().rpc.getBlockHeader({ block: blockNumber === undefined ? 'head' : String(blockNumber) });
+    return Math.floor(new Date(header.timestamp).getTime() / 1000);
+  }
+
+  // Internal helpers
+
+  private htlcCall(entrypoint: string, value: MichelsonV1Expression, mutez = 0n): ParamsWithKind {
+    return {
+      kind: OpKind.TRANSACTION,
+      to: this.getHtlcAddress(),
+      amount: Number(mutez),
+      mutez: true,
+      parameter: { entrypoint, value }
+    };
+  }
+
+  /**
+   * TZIP-7 `approve (pair (address :spender) (nat :value))`
+   */
+  private fa12Approve(asset: UniversalAsset, spender: string, amount: bigint): ParamsWithKind {
+    return {
+      kind: OpKind.TRANSACTION,
+      to: asset.address,
+      amount: 0,
+      parameter: { entrypoint: 'approve', value: pair({ string: spender }, nat(amount)) }
+    };
+  }
+
+  /**
+   * TZIP-12 `update_operators` with a single `add_operator` or `remove_operator`
+   */
+  private fa2UpdateOperator(asset: UniversalAsset, owner: string, operator: string, add: boolean): ParamsWithKind {
+    const update = pair({ string: owner }, { string: operator }, nat(asset.tokenId ?? 0));
+    return {
+      kind: OpKind.TRANSACTION,
+      to: asset.address,
+      amount: 0,
+      parameter: { entrypoint: 'update_operators', value: [{ prim: add ? 'Left' : 'Right', args: [update] }] }
+    };
+  }
+
+  /**
+   * Look the operator up in the `operators` big map, keyed as in the TZIP-12
+   * reference implementation: `(pair (address %owner) (address %operator) (nat %token_id))`
+   */
+  private async isOperator(asset: UniversalAsset, owner: string, operator: string): Promise<boolean> {
+    const token = await this.getTezos().contract.at(asset.address);
+    const storage = await token.storage<TezosTokenStorage | undefined>();
+    if (!storage?.operators?.get) {
+      throw new Error(`${asset.symbol} does not expose FA2 operators in its storage`);
+    }
+    const entry = await storage.operators.get({ owner, operator, token_id: asset.tokenId ?? '0' });
+    return entry !== undefined;
+  }
+
+  private async getEscrow(hashLock: string): Promise<TezosEscrow | undefined> {
+    const htlc = await this.getTezos().contract.at(this.getHtlcAddress());
+    const escrows = await htlc.storage<TezosBigMap<string, TezosEscrowStorage>>();
+    const escrow = await escrows.get(hashLock.replace(HEX_PREFIX_PATTERN, '').toLowerCase());
+    if (!escrow) {
+      return undefined;
+    }
+
+    return {
+      sender: escrow.sender,
+      recipient: escrow.recipient,
+      asset: escrow.asset,
+      amount: BigInt(escrow.amount.toFixed(0)),
+      createdAt: Math.floor(new Date(escrow.created_at).getTime() / 1000),
+      withdrawalDelay: escrow.withdrawal_delay.toNumber(),
+      cancellationDelay: escrow.cancellation_delay.toNumber(),
+      state: escrow.state.toNumber()
+    };
+  }
+
+  private getOperations(txParams: UniversalTxParams): ParamsWithKind[] {
+    if (txParams.chainSpecific?.operations) {
+      return txParams.chainSpecific.operations as ParamsWithKind[];
+    }
+
+    const transfer: TransferParams = {
+      to: txParams.to,
+      amount: Number(txParams.value ?? 0),
+      mutez: true,
+      gasLimit: txParams.gasLimit ? Number(txParams.gasLimit) : undefined
+    };
+    return [{ kind: OpKind.TRANSACTION, ...transfer }];
+  }
+
+  /**
+   * Estimate, fill counters and forge the batch in `chainSpecific.operations`
+   * (a tez transfer of `value` to `to` by default) into hex `data`
+   */
+  private async populateTransaction(txParams: UniversalTxParams): Promise<UniversalTxParams> {
+    if (txParams.data) {
+      return txParams;
+    }
+
+    const tezos = this.getTezos();
+    const prepared = await tezos.prepare.batch(this.getOperations(txParams));
+    const forged = await new LocalForger().forge(tezos.prepare.toForge(prepared));
+    return { ...txParams, data: forged };
+  }
+
+  /**
+   * Sign and inject a batch, then wait for it to be included
+   */
+  private async execute(operations: ParamsWithKind[]): Promise<ChainTxResult> {
+    const signedTx = await this.signTransaction({ to: this.config?.contractAddresses?.htlc ?? '', chainSpecific: { operations } });
+    const { txHash } = await this.broadcastTransaction(signedTx);
+
+    const deadline = Date.now() + INCLUSION_TIMEOUT_MS;
+    while (Date.now() < deadline) {
+      const result = await this.getTransactionStatus(txHash);
+      if (result.status !== 'pending') {
+        return result;
+      }
+      await sleep(1000);
+    }
+    throw new Error(`Operation ${txHash} was not included on ${this.chainName} within ${INCLUSION_TIMEOUT_MS / 1000}s`);
+  }
+
+  /**
+   * Scan blocks for a manager operation, from the level it was injected at
+   * when known, otherwise across the lookback window
+   */
+  private async findOperation(opHash: string): Promise<IncludedOperation | undefined> {
+    const head = await this.getCurrentBlockNumber();
+    const from = this.operationLevels.get(opHash) ?? Math.max(head - this.getLookback(), 1);
+
+    for (let level = from; level <= head; level++) {
+      const block = await this.getBlock(level);
+      const operation = block.operations[3]?.find(entry => entry.hash === opHash);
+      if (operation) {
+        this.operationLevels.set(opHash, level);
+        return { block, operation };
+      }
+    }
+    return undefined;
+  }
+
+  private async getBlock(level: number): Promise<BlockResponse> {
+    return await this.getTezos().rpc.getBlock({ block: String(level) });
+  }
+
+  /**
+   * Applied escrow contract calls in a block, as chain events
+   */
+  private async getHtlcEvents(block: BlockResponse): Promise<ChainEvent[]> {
+    const calls = (block.operations[3] ?? []).flatMap(operation => operation.contents
+      .filter(content => this.isHtlcCall(content as OperationContentsAndResultTransaction))
+      .map(content => ({ operation, content: content as HtlcCall })));
+    if (calls.length === 0) {
+      return [];
+    }
+
+    const htlc = await this.getTezos().contract.at(this.getHtlcAddress());
+    const timestamp = Math.floor(new Date(block.header.timestamp).getTime() / 1000);
+
+    return calls
+      .filter(({ content }) => content.metadata.operation_result.status === 'applied')
+      .map(({ operation, content }) => {
+        const { entrypoint, value } = content.parameters;
+        const schema = new Schema(htlc.entrypoints.entrypoints[entrypoint]);
+        return {
+          eventType: TEZOS_HTLC_EVENTS[entrypoint],
+          orderHash: getHashLock(value),
+          txHash: operation.hash,
+          blockNumber: block.header.level,
+          timestamp,
+          data: { sender: content.source, amount: content.amount, ...schema.Execute(value) }
+        };
+      });
+  }
+
+  private isHtlcCall(content: OperationContentsAndResultTransaction): content is HtlcCall {
+    return content.kind === 'transaction'
+      && content.destination === this.getHtlcAddress()
+      && content.parameters?.entrypoint !== undefined
+      && content.parameters.entrypoint in TEZOS_HTLC_EVENTS;
+  }
+
+  private getLookback(): number {
+    return (this.config?.customParams?.lookbackBlocks as number | undefined) ?? DEFAULT_LOOKBACK_BLOCKS;
+  }
+
+  private getEventGroup(): string {
+    return `tezos-events:${this.chainId}`;
+  }
+
+  private getHtlcAddress(): string {
+    this.ensureConnected();
+    const address = this.config?.contractAddresses?.htlc;
+    if (!address) {
+      throw new Error(`Missing contract address 'htlc' for ${this.chainName}`);
+    }
+    return address;
+  }
+
+  private getOrderDomain(): OrderDomain {
+    return buildOrderDomain(this.chainId, this.getHtlcAddress());
+  }
+
+  private getTezos(): TezosToolkit {
+    this.ensureConnected();
+    if (!this.tezos) {
+      throw new Error(`Chain adapter for ${this.chainName} is not connected`);
+    }
+    return this.tezos;
+  }
+
+  private getSigner(): ISigner {
+    this.ensureConnected();
+    if (!this.signer) {
+      throw new Error(`No signer configured for ${this.chainName}`);
+    }
+    return this.signer;
+  }
+}
+
+/**
+ * Gives Taquito the account's address and public key to estimate and
+ * prepare operations; signing itself goes through the adapter's signer
+ */
+class SignerKeyProvider implements Signer {
+  constructor(private readonly signer: ISigner) {}
+
+  publicKeyHash(): Promise<string> {
+    return this.signer.getAddress();
+  }
+
+  publicKey(): Promise<string> {
+    if (!hasPublicKey(this.signer)) {
+      return Promise.reject(new Error('Tezos signer must expose getPublicKey() to reveal its account'));
+    }
+    return this.signer.getPublicKey();
+  }
+
+  secretKey(): Promise<undefined> {
+    return Promise.resolve(undefined);
+  }
+
+  sign(): Promise<never> {
+    return Promise.reject(new Error('Tezos operations are signed through the adapter signer'));
+  }
+}
+
+function hasPublicKey(signer: ISigner): signer is TezosSigner {
+  return typeof (signer as Partial<TezosSigner>).getPublicKey === 'function';
+}
+
+function pair(...args: MichelsonV1Expression[]): MichelsonV1Expression {
+  return { prim: 'Pair', args };
+}
+
+function bytes(hex: string): MichelsonV1Expression {
+  return { bytes: hex.replace(HEX_PREFIX_PATTERN, '').toLowerCase() };
+}
+
+function nat(value: bigint | number | string): MichelsonV1Expression {
+  return { int: value.toString() };
+}
+
+/**
+ * The contract's `(or (unit %tez) (or (address %fa12) (pair %fa2 address nat)))`
+ */
+function assetRef(asset: UniversalAsset): MichelsonV1Expression {
+  switch (asset.standard) {
+    case 'NATIVE':
+      return { prim: 'Left', args: [{ prim: 'Unit' }] };
+    case 'FA1.2':
+      return { prim: 'Right', args: [{ prim: 'Left', args: [{ string: asset.address }] }] };
+    case 'FA2':
+      return { prim: 'Right', args: [{ prim: 'Right', args: [pair({ string: asset.address }, nat(asset.tokenId ?? 0))] }] };
+    default:
+      throw new Error(`Unsupported asset standard on Tezos: ${asset.standard}`);
+  }
+}
+
+function isSameAsset(ref: TezosAssetRef, asset: UniversalAsset): boolean {
+  if ('tez' in ref) {
+    return asset.standard === 'NATIVE';
+  }
+  if ('fa12' in ref) {
+    return asset.standard === 'FA1.2' && ref.fa12 === asset.address;
+  }
+  return asset.standard === 'FA2' && ref.fa2.token === asset.address && ref.fa2.token_id.toString() === (asset.tokenId ?? '0');
+}
+
+function describeAsset(ref: TezosAssetRef): string {
+  if ('tez' in ref) {
+    return TEZOS_NATIVE_ADDRESS;
+  }
+  if ('fa12' in ref) {
+    return ref.fa12;
+  }
+  return `${ref.fa2.token}#${ref.fa2.token_id}`;
+}
+
+/**
+ * Hash lock of a `lock`, `withdraw` or `refund` argument: the bare bytes,
+ * or the first field of the pair
+ */
+function getHashLock(value: MichelsonV1Expression): string | undefined {
+  const first = 'prim' in value && value.prim === 'Pair' ? value.args?.[0] : value;
+  return first && 'bytes' in first && first.bytes ? `0x${first.bytes.toLowerCase()}` : undefined;
+}
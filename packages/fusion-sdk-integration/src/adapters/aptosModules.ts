@@ -0,0 +1,45 @@
+/**
+ * Coin type of the native asset; its fungible-asset metadata lives at `0xa`
+ */
+export const APTOS_COIN_TYPE = '0x1::aptos_coin::AptosCoin';
+export const APT_METADATA_ADDRESS = '0xa';
+
+/**
+ * Type argument of framework functions generic over fungible-asset metadata
+ */
+export const FUNGIBLE_ASSET_METADATA_TYPE = '0x1::fungible_asset::Metadata';
+
+/**
+ * Hash time-locked escrow module deployed at `contractAddresses.htlc`
+ * (a module id such as `0xcafe::htlc`); its source is `move/aptos`
+ *
+ * Escrows hold fungible assets, keyed by their keccak256 hash lock; the
+ * delays count from the creation block timestamp:
+ *
+ *   entry create_escrow(sender: &signer, hash_lock: vector<u8>, recipient: address,
+ *     metadata: Object<Metadata>, amount: u64, withdrawal_delay: u64, cancellation_delay: u64)
+ *   entry withdraw(caller: &signer, hash_lock: vector<u8>, secret: vector<u8>)
+ *   entry refund(caller: &signer, hash_lock: vector<u8>)
+ *   #[view] get_escrow(hash_lock: vector<u8>): (address, address, address, u64, u64, u64, u64, u8)
+ *     sender, recipient, metadata, amount, created_at, withdrawal_delay, cancellation_delay, state
+ */
+export const APTOS_HTLC_FUNCTIONS = {
+  createEscrow: 'create_escrow',
+  withdraw: 'withdraw',
+  refund: 'refund',
+  getEscrow: 'get_escrow'
+} as const;
+
+/**
+ * Module events of the escrow module, each carrying `hash_lock`
+ */
+export const APTOS_HTLC_EVENTS = ['EscrowCreated', 'EscrowWithdrawn', 'EscrowRefunded'] as const;
+
+/**
+ * `state` values returned by `get_escrow`
+ */
+export enum AptosEscrowState {
+  LOCKED = 0,
+  WITHDRAWN = 1,
+  REFUNDED = 2
+}
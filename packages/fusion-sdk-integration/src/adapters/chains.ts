@@ -0,0 +1,141 @@
+import type { ChainDefinition } from './ChainRegistry';
+import { APTOS_COIN_TYPE } from './aptosModules';
+import { SUI_COIN_TYPE } from './suiModules';
+import { TEZOS_NATIVE_ADDRESS } from './tezosContracts';
+import { LIMIT_ORDER_PROTOCOL_ADDRESS } from '../orders/orderHashing';
+
+const EVM_NATIVE_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+/**
+ * Fusion+ contracts, deployed at the same addresses on every chain 1inch supports
+ */
+const FUSION_PLUS_CONTRACTS = {
+  fusionRouter: LIMIT_ORDER_PROTOCOL_ADDRESS,
+  escrowFactory: '0xa7bcb4eac8964306f9e3764f67db6a7af6ddf99a'
+} as const;
+
+const EVM_TOKEN_STANDARDS = ['NATIVE', 'ERC20', 'ERC721', 'ERC1155'] as const;
+
+/**
+ * Chains the SDK ships with
+ *
+ * Chains without Fusion+ contracts settle through self-hosted HTLCs; set
+ * `contractAddresses.htlc` in their chain config once it is deployed.
+ */
+export const DEFAULT_CHAINS = [
+  // EVM-Compatible Chains
+  {
+    id: 1,
+    key: 'ETHEREUM',
+    name: 'Ethereum',
+    architecture: 'EVM',
+    adapter: 'evm',
+    nativeAsset: { address: EVM_NATIVE_ADDRESS, symbol: 'ETH', decimals: 18 },
+    tokenStandards: EVM_TOKEN_STANDARDS,
+    rpcUrls: ['https://ethereum-rpc.publicnode.com', 'https://cloudflare-eth.com'],
+    explorers: [{ name: 'Etherscan', url: 'https://etherscan.io' }],
+    confirmations: 12,
+    contracts: FUSION_PLUS_CONTRACTS,
+    testnet: false
+  },
+  {
+    id: 42161,
+    key: 'ARBITRUM',
+    name: 'Arbitrum One',
+    architecture: 'EVM',
+    adapter: 'evm',
+    nativeAsset: { address: EVM_NATIVE_ADDRESS, symbol: 'ETH', decimals: 18 },
+    tokenStandards: EVM_TOKEN_STANDARDS,
+    rpcUrls: ['https://arb1.arbitrum.io/rpc'],
+    explorers: [{ name: 'Arbiscan', url: 'https://arbiscan.io' }],
+    confirmations: 20,
+    contracts: FUSION_PLUS_CONTRACTS,
+    testnet: false
+  },
+  {
+    id: 128123,
+    key: 'ETHERLINK',
+    name: 'Etherlink',
+    architecture: 'EVM',
+    adapter: 'evm',
+    nativeAsset: { address: EVM_NATIVE_ADDRESS, symbol: 'XTZ', decimals: 18 },
+    tokenStandards: EVM_TOKEN_STANDARDS,
+    rpcUrls: ['https://node.ghostnet.etherlink.com'],
+    explorers: [{ name: 'Etherlink Explorer', url: 'https://testnet.explorer.etherlink.com' }],
+    confirmations: 2,
+    contracts: {},
+    testnet: true
+  },
+  {
+    id: 8453,
+    key: 'BASE',
+    name: 'Base',
+    architecture: 'EVM',
+    adapter: 'evm',
+    nativeAsset: { address: EVM_NATIVE_ADDRESS, symbol: 'ETH', decimals: 18 },
+    tokenStandards: EVM_TOKEN_STANDARDS,
+    rpcUrls: ['https://mainnet.base.org'],
+    explorers: [{ name: 'Basescan', url: 'https://basescan.org' }],
+    confirmations: 20,
+    contracts: FUSION_PLUS_CONTRACTS,
+    testnet: false
+  },
+  {
+    id: 137,
+    key: 'POLYGON',
+    name: 'Polygon',
+    architecture: 'EVM',
+    adapter: 'evm',
+    nativeAsset: { address: EVM_NATIVE_ADDRESS, symbol: 'MATIC', decimals: 18 },
+    tokenStandards: EVM_TOKEN_STANDARDS,
+    rpcUrls: ['https://polygon-rpc.com'],
+    explorers: [{ name: 'Polygonscan', url: 'https://polygonscan.com' }],
+    confirmations: 64,
+    contracts: FUSION_PLUS_CONTRACTS,
+    testnet: false
+  },
+
+  // Non-EVM Chains (BFT finality)
+  {
+    id: 'aptos-mainnet',
+    key: 'APTOS',
+    name: 'Aptos',
+    architecture: 'Move',
+    adapter: 'aptos',
+    nativeAsset: { address: APTOS_COIN_TYPE, symbol: 'APT', decimals: 8 },
+    tokenStandards: ['NATIVE', 'APTOS_COIN', 'APTOS_FA'],
+    rpcUrls: ['https://fullnode.mainnet.aptoslabs.com/v1'],
+    explorers: [{ name: 'Aptos Explorer', url: 'https://explorer.aptoslabs.com' }],
+    confirmations: 1,
+    contracts: {},
+    testnet: false
+  },
+  {
+    id: 'sui-mainnet',
+    key: 'SUI',
+    name: 'Sui',
+    architecture: 'Move',
+    adapter: 'sui',
+    nativeAsset: { address: SUI_COIN_TYPE, symbol: 'SUI', decimals: 9 },
+    tokenStandards: ['NATIVE', 'SUI_COIN'],
+    rpcUrls: ['https://fullnode.mainnet.sui.io:443'],
+    explorers: [{ name: 'Suiscan', url: 'https://suiscan.xyz/mainnet' }],
+    confirmations: 1,
+    contracts: {},
+    testnet: false
+  },
+  {
+    id: 'tezos-mainnet',
+    key: 'TEZOS',
+    name: 'Tezos',
+    architecture: 'Michelson',
+    adapter: 'tezos',
+    nativeAsset: { address: TEZOS_NATIVE_ADDRESS, symbol: 'XTZ', decimals: 6 },
+    tokenStandards: ['NATIVE', 'FA1.2', 'FA2'],
+    rpcUrls: ['https://mainnet.tezos.ecadinfra.com'],
+    explorers: [{ name: 'TzKT', url: 'https://tzkt.io' }],
+    confirmations: 2,
+    contracts: {},
+    testnet: false
+  }
+] as const satisfies readonly ChainDefinition[];
@@ -0,0 +1,73 @@
+/**
+ * Minimal ERC20 ABI used for balances, allowances and approvals
+ */
+export const ERC20_ABI = [
+  'function balanceOf(address owner) view returns (uint256)',
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function approve(address spender, uint256 amount) returns (bool)',
+  'function symbol() view returns (string)',
+  'function decimals() view returns (uint8)'
+] as const;
+
+/**
+ * 1inch Limit Order Protocol subset used by the fusion router
+ */
+export const LIMIT_ORDER_PROTOCOL_ABI = [
+  'function cancelOrder(uint256 makerTraits, bytes32 orderHash)',
+  'function remainingInvalidatorForOrder(address maker, bytes32 orderHash) view returns (uint256)',
+  'event OrderFilled(bytes32 orderHash, uint256 remainingAmount)',
+  'event OrderCancelled(bytes32 orderHash)'
+] as const;
+
+/**
+ * Hash time-locked contract used for hash lock operations
+ */
+export const HTLC_ABI = [
+  'function lock(bytes32 hashLock, address recipient, address token, uint256 amount, uint256 timelock) payable',
+  'function withdraw(bytes32 hashLock, bytes32 secret)',
+  'function refund(bytes32 hashLock)',
+  'function locks(bytes32 hashLock) view returns (address sender, address recipient, address token, uint256 amount, uint256 timelock, bool withdrawn, bool refunded)',
+  'event Locked(bytes32 indexed hashLock, address indexed sender, address indexed recipient, address token, uint256 amount, uint256 timelock)',
+  'event Withdrawn(bytes32 indexed hashLock, bytes32 secret)',
+  'event Refunded(bytes32 indexed hashLock)'
+] as const;
+
+const IMMUTABLES_TUPLE = 'tuple(bytes32 orderHash, bytes32 hashlock, uint256 maker, uint256 taker, uint256 token, uint256 amount, uint256 safetyDeposit, uint256 timelocks)';
+
+/**
+ * 1inch cross-chain resolver contract; escrows are deployed and settled through it
+ */
+export const RESOLVER_ABI = [
+  `function deploySrc(${IMMUTABLES_TUPLE} immutables, tuple(uint256 salt, uint256 maker, uint256 receiver, uint256 makerAsset, uint256 takerAsset, uint256 makingAmount, uint256 takingAmount, uint256 makerTraits) order, bytes32 r, bytes32 vs, uint256 amount, uint256 takerTraits, bytes args) payable`,
+  `function deployDst(${IMMUTABLES_TUPLE} dstImmutables, uint256 srcCancellationTimestamp) payable`,
+  `function withdraw(address escrow, bytes32 secret, ${IMMUTABLES_TUPLE} immutables)`,
+  `function cancel(address escrow, ${IMMUTABLES_TUPLE} immutables)`
+] as const;
+
+/**
+ * Fusion+ escrow settlement; only source escrows support `publicCancel`
+ */
+export const ESCROW_ABI = [
+  `function cancel(${IMMUTABLES_TUPLE} immutables)`,
+  `function publicCancel(${IMMUTABLES_TUPLE} immutables)`
+] as const;
+
+/**
+ * Escrow factory events reporting deployed escrows, and escrow address derivation
+ */
+export const ESCROW_FACTORY_ABI = [
+  `function addressOfEscrowSrc(${IMMUTABLES_TUPLE} immutables) view returns (address)`,
+  `function addressOfEscrowDst(${IMMUTABLES_TUPLE} immutables) view returns (address)`,
+  `event SrcEscrowCreated(${IMMUTABLES_TUPLE} srcImmutables, tuple(uint256 maker, uint256 amount, uint256 token, uint256 safetyDeposit, uint256 chainId) dstImmutablesComplement)`,
+  'event DstEscrowCreated(address escrow, bytes32 hashlock, uint256 taker)'
+] as const;
+
+/**
+ * Native asset placeholder address used across EVM chains
+ */
+export const NATIVE_ASSET_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+/**
+ * Pseudo-address 1inch APIs use for the native asset
+ */
+export const ONEINCH_NATIVE_ASSET_ADDRESS = '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee';
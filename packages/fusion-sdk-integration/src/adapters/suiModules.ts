@@ -0,0 +1,51 @@
+/**
+ * Coin type of the native asset
+ */
+export const SUI_COIN_TYPE = '0x2::sui::SUI';
+
+/**
+ * Gas budget used to pick gas coins when the transaction does not set one
+ */
+export const DEFAULT_SUI_GAS_BUDGET = 50_000_000n;
+
+/**
+ * Upper bound on gas payment coins per transaction
+ */
+export const MAX_SUI_GAS_OBJECTS = 256;
+
+/**
+ * Hash time-locked escrow module deployed at `contractAddresses.htlc`
+ * (a module id such as `0xcafe::htlc`); its source is `move/sui`
+ *
+ * Each escrow is a shared `Escrow<T>` object holding a `Balance<T>`;
+ * `created_at` is the clock time in seconds and the delays count from it:
+ *
+ *   public fun create_escrow<T>(coin: Coin<T>, hash_lock: vector<u8>, recipient: address,
+ *     withdrawal_delay: u64, cancellation_delay: u64, clock: &Clock, ctx: &mut TxContext)
+ *   public fun withdraw<T>(escrow: &mut Escrow<T>, secret: vector<u8>, clock: &Clock, ctx: &mut TxContext)
+ *   public fun refund<T>(escrow: &mut Escrow<T>, clock: &Clock, ctx: &mut TxContext)
+ *   public struct Escrow<phantom T> has key { id: UID, sender: address, recipient: address,
+ *     hash_lock: vector<u8>, balance: Balance<T>, created_at: u64,
+ *     withdrawal_delay: u64, cancellation_delay: u64, state: u8 }
+ */
+export const SUI_HTLC_FUNCTIONS = {
+  createEscrow: 'create_escrow',
+  withdraw: 'withdraw',
+  refund: 'refund'
+} as const;
+
+export const SUI_HTLC_ESCROW_STRUCT = 'Escrow';
+
+/**
+ * Module events of the escrow module, each carrying `escrow_id` and `hash_lock`
+ */
+export const SUI_HTLC_EVENTS = ['EscrowCreated', 'EscrowWithdrawn', 'EscrowRefunded'] as const;
+
+/**
+ * `state` values of an `Escrow` object
+ */
+export enum SuiEscrowState {
+  LOCKED = 0,
+  WITHDRAWN = 1,
+  REFUNDED = 2
+}
@@ -0,0 +1,120 @@
+/**
+ * Address the token lists use for tez
+ */
+export const TEZOS_NATIVE_ADDRESS = 'tez';
+
+/**
+ * Hash time-locked escrow contract, originated with `TezosChainAdapter.deployHtlc`
+ * and addressed by `contractAddresses.htlc`
+ *
+ * Storage maps each keccak256 hash lock to its escrow; the delays count in
+ * seconds from `created_at`. `lock` pulls FA1.2 tokens through an allowance
+ * and FA2 tokens through an operator, so both must be granted to the
+ * contract first. Anyone holding the secret may `withdraw` to the
+ * recipient, and anyone may `refund` the sender once cancellation opens.
+ */
+export const TEZOS_HTLC_CODE = `parameter (or (pair %lock (bytes %hash_lock)
+                          (address %recipient)
+                          (or %asset (unit %tez) (or (address %fa12) (pair %fa2 (address %token) (nat %token_id))))
+                          (nat %amount)
+                          (nat %withdrawal_delay)
+                          (nat %cancellation_delay))
+              (or (pair %withdraw (bytes %hash_lock) (bytes %secret))
+                  (bytes %refund)));
+storage (big_map bytes
+                 (pair (address %sender)
+                       (address %recipient)
+                       (or %asset (unit %tez) (or (address %fa12) (pair %fa2 (address %token) (nat %token_id))))
+                       (nat %amount)
+                       (timestamp %created_at)
+                       (nat %withdrawal_delay)
+                       (nat %cancellation_delay)
+                       (nat %state)));
+code { UNPAIR ;
+       IF_LEFT
+         { UNPAIR 6 ;
+           DUP 7 ; DUP 2 ; MEM ; IF { PUSH string "ESCROW_EXISTS" ; FAILWITH } {} ;
+           DUP 6 ; DUP 6 ; COMPARE ; LT ; IF {} { PUSH string "BAD_TIMELOCKS" ; FAILWITH } ;
+           DUP 3 ;
+           IF_LEFT
+             { DROP ;
+               PUSH mutez 1 ; DUP 5 ; MUL ; AMOUNT ; COMPARE ; EQ ; IF {} { PUSH string "BAD_AMOUNT" ; FAILWITH } ;
+               NIL operation }
+             { AMOUNT ; PUSH mutez 0 ; COMPARE ; EQ ; IF {} { PUSH string "TEZ_NOT_ACCEPTED" ; FAILWITH } ;
+               IF_LEFT
+                 { CONTRACT %transfer (pair address address nat) ; IF_NONE { PUSH string "BAD_FA12" ; FAILWITH } {} ;
+                   PUSH mutez 0 ; DUP 6 ; SELF_ADDRESS ; SENDER ; PAIR 3 ;
+                   TRANSFER_TOKENS }
+                 { UNPAIR ;
+                   CONTRACT %transfer (list (pair address (list (pair address nat nat)))) ; IF_NONE { PUSH string "BAD_FA2" ; FAILWITH } {} ;
+                   SWAP ; PUSH mutez 0 ; SWAP ;
+                   DUP 7 ; SWAP ; SELF_ADDRESS ; PAIR 3 ;
+                   NIL (pair address nat nat) ; SWAP ; CONS ; SENDER ; PAIR ;
+                   NIL (pair address (list (pair address nat nat))) ; SWAP ; CONS ;
+                   TRANSFER_TOKENS } ;
+               NIL operation ; SWAP ; CONS } ;
+           DUG 7 ;
+           DIP { PUSH nat 0 ; DUG 5 ; NOW ; DUG 3 ; SENDER ; PAIR 8 ; SOME } ;
+           UPDATE ;
+           SWAP ; PAIR }
+         { IF_LEFT
+             { UNPAIR ;
+               DUP 3 ; DUP 2 ; GET ; IF_NONE { PUSH string "NO_ESCROW" ; FAILWITH } {} ;
+               DUP ; GET 14 ; PUSH nat 0 ; COMPARE ; EQ ; IF {} { PUSH string "NOT_LOCKED" ; FAILWITH } ;
+               DIG 2 ; KECCAK ; DUP 3 ; COMPARE ; EQ ; IF {} { PUSH string "BAD_SECRET" ; FAILWITH } ;
+               DUP ; GET 9 ; DUP 2 ; GET 11 ; INT ; ADD ; NOW ; COMPARE ; GE ; IF {} { PUSH string "TOO_EARLY" ; FAILWITH } ;
+               DUP ; GET 9 ; DUP 2 ; GET 13 ; INT ; ADD ; NOW ; COMPARE ; LT ; IF {} { PUSH string "EXPIRED" ; FAILWITH } ;
+               PUSH nat 1 ; UPDATE 14 ;
+               DUP ; GET 3 }
+             { DUP 2 ; DUP 2 ; GET ; IF_NONE { PUSH string "NO_ESCROW" ; FAILWITH } {} ;
+               DUP ; GET 14 ; PUSH nat 0 ; COMPARE ; EQ ; IF {} { PUSH string "NOT_LOCKED" ; FAILWITH } ;
+               DUP ; GET 9 ; DUP 2 ; GET 13 ; INT ; ADD ; NOW ; COMPARE ; GE ; IF {} { PUSH string "NOT_EXPIRED" ; FAILWITH } ;
+               PUSH nat 2 ; UPDATE 14 ;
+               DUP ; GET 1 } ;
+           DIG 3 ; DUP 3 ; SOME ; DIG 4 ; UPDATE ; DUG 2 ;
+           SWAP ; DUP ; GET 7 ; SWAP ; GET 5 ;
+           IF_LEFT
+             { DROP ;
+               PUSH mutez 1 ; MUL ;
+               SWAP ; CONTRACT unit ; IF_NONE { PUSH string "BAD_RECIPIENT" ; FAILWITH } {} ;
+               SWAP ; UNIT ; TRANSFER_TOKENS }
+             { IF_LEFT
+                 { CONTRACT %transfer (pair address address nat) ; IF_NONE { PUSH string "BAD_FA12" ; FAILWITH } {} ;
+                   PUSH mutez 0 ; DIG 2 ; DIG 3 ; SELF_ADDRESS ; PAIR 3 ;
+                   TRANSFER_TOKENS }
+                 { UNPAIR ;
+                   CONTRACT %transfer (list (pair address (list (pair address nat nat)))) ; IF_NONE { PUSH string "BAD_FA2" ; FAILWITH } {} ;
+                   PUSH mutez 0 ; DIG 3 ; DIG 3 ; DIG 4 ; PAIR 3 ;
+                   NIL (pair address nat nat) ; SWAP ; CONS ; SELF_ADDRESS ; PAIR ;
+                   NIL (pair address (list (pair address nat nat))) ; SWAP ; CONS ;
+                   TRANSFER_TOKENS } } ;
+           NIL operation ; SWAP ; CONS ; PAIR } }`;
+
+/**
+ * Empty storage to originate the contract with
+ */
+export const TEZOS_HTLC_INITIAL_STORAGE = '{}';
+
+export const TEZOS_HTLC_ENTRYPOINTS = {
+  lock: 'lock',
+  withdraw: 'withdraw',
+  refund: 'refund'
+} as const;
+
+/**
+ * Event names reported for calls to each entrypoint, matching the Move escrow modules
+ */
+export const TEZOS_HTLC_EVENTS: Record<string, string> = {
+  [TEZOS_HTLC_ENTRYPOINTS.lock]: 'EscrowCreated',
+  [TEZOS_HTLC_ENTRYPOINTS.withdraw]: 'EscrowWithdrawn',
+  [TEZOS_HTLC_ENTRYPOINTS.refund]: 'EscrowRefunded'
+};
+
+/**
+ * `state` values of an escrow
+ */
+export enum TezosEscrowState {
+  LOCKED = 0,
+  WITHDRAWN = 1,
+  REFUNDED = 2
+}
@@ -0,0 +1,229 @@
+import { Interface, concat, getBytes, hexlify } from 'ethers';
+import type { IChainAdapter } from '../interfaces/IChainAdapter';
+import {
+  type BridgeTransfer,
+  type EtherlinkDepositParams,
+  type EtherlinkWithdrawParams,
+  FA_WITHDRAWAL_PRECOMPILE,
+  type IEtherlinkBridgeBackend,
+  WEI_PER_MUTEZ,
+  XTZ_WITHDRAWAL_PRECOMPILE,
+  forgeTezosAddress
+} from './etherlink-connector';
+
+const WITHDRAWAL_ABI = [
+  'function withdraw_base58(string target) payable',
+  'function withdraw(address ticketOwner, bytes routingInfo, uint256 amount, bytes22 ticketer, bytes content)'
+];
+
+const TRAILING_SLASH_PATTERN = /\/$/;
+
+/**
+ * Contract call on Tezos L1, with its parameter in Micheline JSON
+ */
+export interface TezosContractCall {
+  contract: string;
+  entrypoint: string;
+  parameter: unknown;
+  amountMutez?: string;
+}
+
+/**
+ * Minimal Tezos L1 access the bridge needs: inject a call and find its block
+ */
+export interface ITezosL1Client {
+  callContract(call: TezosContractCall): Promise<string>;
+  getOperationLevel(operationHash: string): Promise<number | undefined>;
+}
+
+/**
+ * Live bridge configuration
+ *
+ * `xtzBridge` is the L1 helper that deposits XTZ into the rollup.
+ */
+export interface EtherlinkRollupBridgeConfig {
+  rollupAddress: string;
+  rollupNodeUrl: string;
+  xtzBridge: string;
+  l1: ITezosL1Client;
+  l2: IChainAdapter;
+}
+
+interface OutboxLevel {
+  outbox_level: number;
+  messages: Array<{ message_index: number; message: unknown }>;
+}
+
+/**
+ * Bridge backend for the live Tezos L1 and Etherlink networks
+ *
+ * Deposits are L1 calls to the bridge helpers, complete once the rollup
+ * node has processed the L1 block. Withdrawals are calls to Etherlink's
+ * withdrawal precompiles; their outbox messages are followed through the
+ * rollup node's pending-outbox RPCs until they are executed on L1.
+ */
+export class EtherlinkRollupBridge implements IEtherlinkBridgeBackend {
+  constructor(private readonly config: EtherlinkRollupBridgeConfig) {}
+
+  async deposit(params: EtherlinkDepositParams): Promise<BridgeTransfer> {
+    const { asset } = params;
+    const receiver = getBytes(params.l2Receiver);
+
+    const call: TezosContractCall = asset.kind === 'XTZ'
+      ? {
+        contract: this.config.xtzBridge,
+        entrypoint: 'deposit',
+        parameter: { prim: 'Pair', args: [{ string: this.config.rollupAddress }, { bytes: hexlify(receiver).slice(2) }] },
+        amountMutez: params.amount
+      }
+      : {
+        contract: asset.l1TokenBridge,
+        entrypoint: 'deposit',
+        parameter: {
+          prim: 'Pair',
+          args: [
+            { string: this.config.rollupAddress },
+            // Routing info: L2 receiver followed by the ERC-20 proxy holding the tickets
+            { prim: 'Pair', args: [{ bytes: concat([receiver, getBytes(asset.l2TicketOwner)]).slice(2) }, { int: params.amount }] }
+          ]
+        }
+      };
+
+    const l1OperationHash = await this.config.l1.callContract(call);
+    return this.createTransfer(l1OperationHash, 'deposit', params.asset, params.amount, params.l2Receiver, {
+      l1OperationHash
+    });
+  }
+
+  async withdraw(params: EtherlinkWithdrawParams): Promise<BridgeTransfer> {
+    const { asset } = params;
+    const precompile = new Interface(WITHDRAWAL_ABI);
+
+    const txParams = asset.kind === 'XTZ'
+      ? {
+        to: XTZ_WITHDRAWAL_PRECOMPILE,
+        value: params.amount,
+        data: precompile.encodeFunctionData('withdraw_base58', [params.l1Receiver])
+      }
+      : {
+        to: FA_WITHDRAWAL_PRECOMPILE,
+        data: precompile.encodeFunctionData('withdraw', [
+          asset.l2TicketOwner,
+          concat([forgeTezosAddress(params.l1Receiver), forgeTezosAddress(asset.ticketer)]),
+          params.amount,
+          forgeTezosAddress(asset.ticketer),
+          hexlify(asset.ticketContent.startsWith('0x') ? asset.ticketContent : `0x${asset.ticketContent}`)
+        ])
+      };
+
+    const signed = await this.config.l2.signTransaction(txParams);
+    const { txHash } = await this.config.l2.broadcastTransaction(signed);
+    return this.createTransfer(txHash, 'withdrawal', params.asset, params.amount, params.l1Receiver, {
+      l2TransactionHash: txHash
+    });
+  }
+
+  async refresh(transfer: BridgeTransfer): Promise<BridgeTransfer> {
+    const updated = transfer.direction === 'deposit'
+      ? await this.refreshDeposit(transfer)
+      : await this.refreshWithdrawal(transfer);
+    return updated.status === transfer.status ? updated : { ...updated, updatedAt: Date.now() };
+  }
+
+  private async refreshDeposit(transfer: BridgeTransfer): Promise<BridgeTransfer> {
+    if (!transfer.l1OperationHash) {
+      throw new Error(`Deposit ${transfer.id} has no L1 operation hash`);
+    }
+    const l1Level = transfer.l1Level ?? await this.config.l1.getOperationLevel(transfer.l1OperationHash);
+    if (l1Level === undefined) {
+      return transfer;
+    }
+
+    // The deposit is credited when the rollup processes the L1 block's inbox
+    const head = await this.rollupRpc<{ level: number }>('/global/block/head');
+    return { ...transfer, l1Level, status: head.level >= l1Level ? 'completed' : 'l1_confirmed' };
+  }
+
+  private async refreshWithdrawal(current: BridgeTransfer): Promise<BridgeTransfer> {
+    let transfer = current;
+    if (transfer.status === 'pending') {
+      if (!transfer.l2TransactionHash) {
+        throw new Error(`Withdrawal ${transfer.id} has no L2 transaction hash`);
+      }
+      const receipt = await this.config.l2.getTransactionStatus(transfer.l2TransactionHash);
+      if (receipt.status === 'pending') {
+        return transfer;
+      }
+      if (receipt.status === 'failed') {
+        return { ...transfer, status: 'failed', error: `Withdrawal transaction ${receipt.txHash} reverted` };
+      }
+      transfer = { ...transfer, status: 'l2_confirmed' };
+    }
+
+    const [unexecutable, executable] = await Promise.all([
+      this.rollupRpc<OutboxLevel[]>('/local/outbox/pending/unexecutable'),
+      this.rollupRpc<OutboxLevel[]>('/local/outbox/pending/executable')
+    ]);
+
+    const queued = this.findOutboxMessage(transfer, unexecutable);
+    if (queued) {
+      return { ...transfer, ...queued, status: 'outbox_queued' };
+    }
+
+    const cemented = this.findOutboxMessage(transfer, executable);
+    if (cemented) {
+      return { ...transfer, ...cemented, status: 'cemented' };
+    }
+
+    // A message we saw before that is no longer pending has been executed on L1
+    return transfer.outboxLevel !== undefined ? { ...transfer, status: 'completed' } : transfer;
+  }
+
+  /**
+   * Match the withdrawal's outbox message by receiver and L1 amount
+   */
+  private findOutboxMessage(
+    transfer: BridgeTransfer,
+    levels: OutboxLevel[]
+  ): Pick<BridgeTransfer, 'outboxLevel' | 'outboxMessageIndex'> | undefined {
+    const l1Amount = transfer.asset.kind === 'XTZ'
+      ? (BigInt(transfer.amount) / WEI_PER_MUTEZ).toString()
+      : transfer.amount;
+
+    for (const level of levels) {
+      for (const { message_index, message } of level.messages) {
+        if (transfer.outboxLevel !== undefined
+          && (level.outbox_level !== transfer.outboxLevel || message_index !== transfer.outboxMessageIndex)) {
+          continue;
+        }
+        const encoded = JSON.stringify(message);
+        if (encoded.includes(transfer.receiver) && encoded.includes(`"${l1Amount}"`)) {
+          return { outboxLevel: level.outbox_level, outboxMessageIndex: message_index };
+        }
+      }
+    }
+    return undefined;
+  }
+
+  private async rollupRpc<T>(path: string): Promise<T> {
+    const response = await fetch(`${this.config.rollupNodeUrl.replace(TRAILING_SLASH_PATTERN, '')}${path}`, {
+      signal: AbortSignal.timeout(10000)
+    });
+    if (!response.ok) {
+      throw new Error(`Rollup node ${path} failed: ${response.status} ${response.statusText}`);
+    }
+    return (await response.json()) as T;
+  }
+
+  private createTransfer(
+    id: string,
+    direction: BridgeTransfer['direction'],
+    asset: BridgeTransfer['asset'],
+    amount: string,
+    receiver: string,
+    details: Partial<BridgeTransfer>
+  ): BridgeTransfer {
+    const now = Date.now();
+    return { id, direction, asset, amount, receiver, status: 'pending', createdAt: now, updatedAt: now, ...details };
+  }
+}
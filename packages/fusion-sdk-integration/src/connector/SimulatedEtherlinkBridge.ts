@@ -0,0 +1,115 @@
+import { randomBytes } from 'node:crypto';
+import { encodeBase58 } from 'ethers';
+import type {
+  BridgeStatus,
+  BridgeTransfer,
+  EtherlinkDepositParams,
+  EtherlinkWithdrawParams,
+  IEtherlinkBridgeBackend
+} from './etherlink-connector';
+
+/**
+ * Simulated delays, each measured from the previous stage
+ */
+export interface SimulatedEtherlinkBridgeOptions {
+  l1ConfirmationMs?: number;
+  depositCreditMs?: number;
+  l2ConfirmationMs?: number;
+  outboxMs?: number;
+  challengeWindowMs?: number;
+  executionMs?: number;
+  now?: () => number;
+}
+
+/**
+ * In-memory bridge backend for offline tests and demos
+ *
+ * Transfers advance through the same statuses as on the live networks,
+ * driven by elapsed time (`now` can be replaced with a fake clock).
+ * `fail()` forces a transfer into the failed state.
+ */
+export class SimulatedEtherlinkBridge implements IEtherlinkBridgeBackend {
+  private failures: Map<string, string> = new Map();
+  private readonly now: () => number;
+  private readonly depositStages: [BridgeStatus, number][];
+  private readonly withdrawalStages: [BridgeStatus, number][];
+  private outboxLevel = 1;
+
+  constructor(options: SimulatedEtherlinkBridgeOptions = {}) {
+    this.now = options.now ?? Date.now;
+    this.depositStages = cumulative([
+      ['l1_confirmed', options.l1ConfirmationMs ?? 8000],
+      ['completed', options.depositCreditMs ?? 4000]
+    ]);
+    this.withdrawalStages = cumulative([
+      ['l2_confirmed', options.l2ConfirmationMs ?? 1000],
+      ['outbox_queued', options.outboxMs ?? 8000],
+      ['cemented', options.challengeWindowMs ?? 60000],
+      ['completed', options.executionMs ?? 8000]
+    ]);
+  }
+
+  deposit(params: EtherlinkDepositParams): Promise<BridgeTransfer> {
+    const l1OperationHash = simulatedOperationHash();
+    return Promise.resolve(this.createTransfer(l1OperationHash, 'deposit', params.asset, params.amount, params.l2Receiver, {
+      l1OperationHash
+    }));
+  }
+
+  withdraw(params: EtherlinkWithdrawParams): Promise<BridgeTransfer> {
+    const l2TransactionHash = `0x${randomBytes(32).toString('hex')}`;
+    return Promise.resolve(this.createTransfer(l2TransactionHash, 'withdrawal', params.asset, params.amount, params.l1Receiver, {
+      l2TransactionHash,
+      outboxLevel: this.outboxLevel++,
+      outboxMessageIndex: 0
+    }));
+  }
+
+  async refresh(transfer: BridgeTransfer): Promise<BridgeTransfer> {
+    const error = this.failures.get(transfer.id);
+    if (error) {
+      return { ...transfer, status: 'failed', error, updatedAt: this.now() };
+    }
+
+    const elapsed = this.now() - transfer.createdAt;
+    const stages = transfer.direction === 'deposit' ? this.depositStages : this.withdrawalStages;
+    const reached = stages.filter(([, at]) => elapsed >= at).pop();
+    const status = reached ? reached[0] : 'pending';
+
+    return status === transfer.status ? transfer : { ...transfer, status, updatedAt: this.now() };
+  }
+
+  /**
+   * Make a transfer fail on its next refresh
+   */
+  fail(id: string, reason = 'Simulated failure'): void {
+    this.failures.set(id, reason);
+  }
+
+  private createTransfer(
+    id: string,
+    direction: BridgeTransfer['direction'],
+    asset: BridgeTransfer['asset'],
+    amount: string,
+    receiver: string,
+    details: Partial<BridgeTransfer>
+  ): BridgeTransfer {
+    const now = this.now();
+    return { id, direction, asset, amount, receiver, status: 'pending', createdAt: now, updatedAt: now, ...details };
+  }
+}
+
+function cumulative(stages: [BridgeStatus, number][]): [BridgeStatus, number][] {
+  let total = 0;
+  return stages.map(([status, delay]) => {
+    total += delay;
+    return [status, total];
+  });
+}
+
+/**
+ * Random Tezos-style operation hash (`o…`)
+ */
+function simulatedOperationHash(): string {
+  return `o${encodeBase58(randomBytes(32)).slice(0, 50)}`;
+}
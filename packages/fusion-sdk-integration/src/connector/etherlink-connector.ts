@@ -0,0 +1,274 @@
+import { createHash } from 'node:crypto';
+import { decodeBase58, getAddress, hexlify, toBeHex } from 'ethers';
+import { sleep } from '../utils/fusionUtils';
+
+/**
+ * XTZ withdrawals go through this Etherlink precompile (`withdraw_base58`)
+ */
+export const XTZ_WITHDRAWAL_PRECOMPILE = '0xff00000000000000000000000000000000000001';
+
+/**
+ * FA token withdrawals go through this Etherlink precompile (`withdraw`)
+ */
+export const FA_WITHDRAWAL_PRECOMPILE = '0xff00000000000000000000000000000000000002';
+
+/**
+ * XTZ has 18 decimals on Etherlink and 6 (mutez) on Tezos L1
+ */
+export const WEI_PER_MUTEZ = 10n ** 12n;
+
+/**
+ * Native XTZ, bridged by the rollup's native bridge
+ */
+export interface XtzBridgeAsset {
+  kind: 'XTZ';
+}
+
+/**
+ * FA1.2/FA2 token bridged as tickets
+ *
+ * `ticketer` wraps the L1 token into tickets and `l1TokenBridge` is the
+ * helper contract that deposits them into the rollup; on Etherlink the
+ * tickets are held by the ERC-20 proxy `l2TicketOwner`.
+ */
+export interface FaBridgeAsset {
+  kind: 'FA';
+  ticketer: string;
+  ticketContent: string; // Hex-encoded ticket content (token id and metadata)
+  l1TokenBridge: string;
+  l2TicketOwner: string;
+}
+
+export type EtherlinkBridgeAsset = XtzBridgeAsset | FaBridgeAsset;
+
+/**
+ * Tezos L1 → Etherlink deposit
+ */
+export interface EtherlinkDepositParams {
+  asset: EtherlinkBridgeAsset;
+  amount: string; // L1 base units (mutez for XTZ)
+  l2Receiver: string;
+}
+
+/**
+ * Etherlink → Tezos L1 withdrawal
+ */
+export interface EtherlinkWithdrawParams {
+  asset: EtherlinkBridgeAsset;
+  amount: string; // L2 base units (wei for XTZ)
+  l1Receiver: string;
+}
+
+export type BridgeDirection = 'deposit' | 'withdrawal';
+
+/**
+ * Bridge transfer progress
+ *
+ * Deposits: `pending` → `l1_confirmed` → `completed` once the rollup has
+ * processed the L1 block. Withdrawals: `pending` → `l2_confirmed` →
+ * `outbox_queued` (awaiting cementation of the rollup commitment) →
+ * `cemented` (executable on L1) → `completed` once the outbox message has
+ * been executed.
+ */
+export type BridgeStatus =
+  | 'pending'
+  | 'l1_confirmed'
+  | 'l2_confirmed'
+  | 'outbox_queued'
+  | 'cemented'
+  | 'completed'
+  | 'failed';
+
+const BRIDGE_STATUS_PROGRESS: Record<BridgeDirection, BridgeStatus[]> = {
+  deposit: ['pending', 'l1_confirmed', 'completed'],
+  withdrawal: ['pending', 'l2_confirmed', 'outbox_queued', 'cemented', 'completed']
+};
+
+/**
+ * A deposit or withdrawal tracked by the connector; `id` is the hash of the
+ * operation that started it
+ */
+export interface BridgeTransfer {
+  id: string;
+  direction: BridgeDirection;
+  asset: EtherlinkBridgeAsset;
+  amount: string;
+  receiver: string;
+  status: BridgeStatus;
+  createdAt: number;
+  updatedAt: number;
+  l1OperationHash?: string;
+  l1Level?: number;
+  l2TransactionHash?: string;
+  outboxLevel?: number;
+  outboxMessageIndex?: number;
+  error?: string;
+}
+
+/**
+ * Executes bridge operations and reports their progress
+ */
+export interface IEtherlinkBridgeBackend {
+  deposit(params: EtherlinkDepositParams): Promise<BridgeTransfer>;
+  withdraw(params: EtherlinkWithdrawParams): Promise<BridgeTransfer>;
+  refresh(transfer: BridgeTransfer): Promise<BridgeTransfer>;
+}
+
+/**
+ * Bridge monitoring options
+ */
+export interface MonitorBridgeOptions {
+  until?: BridgeStatus;
+  pollIntervalMs?: number;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Connector for moving assets between Tezos L1 and Etherlink
+ *
+ * Parameters are validated here; the backend performs the operations, either
+ * against the live networks (`EtherlinkRollupBridge`) or in memory
+ * (`SimulatedEtherlinkBridge`).
+ */
+export class EtherlinkConnector {
+  private transfers: Map<string, BridgeTransfer> = new Map();
+
+  constructor(
+    private readonly backend: IEtherlinkBridgeBackend,
+    private readonly options: { pollIntervalMs?: number; timeoutMs?: number } = {}
+  ) {}
+
+  /**
+   * Deposit from Tezos L1 to Etherlink; returns the transfer id
+   */
+  public async bridgeToEtherlink(params: EtherlinkDepositParams): Promise<string> {
+    validateAmount(params.amount);
+    validateAsset(params.asset);
+    const l2Receiver = getAddress(params.l2Receiver);
+
+    const transfer = await this.backend.deposit({ ...params, l2Receiver });
+    this.transfers.set(transfer.id, transfer);
+    return transfer.id;
+  }
+
+  /**
+   * Withdraw from Etherlink to Tezos L1; returns the transfer id
+   */
+  public async bridgeToTezos(params: EtherlinkWithdrawParams): Promise<string> {
+    validateAmount(params.amount);
+    validateAsset(params.asset);
+    forgeTezosAddress(params.l1Receiver); // rejects malformed addresses
+
+    if (params.asset.kind === 'XTZ' && BigInt(params.amount) % WEI_PER_MUTEZ !== 0n) {
+      throw new Error(`XTZ withdrawals must be a whole number of mutez, got ${params.amount} wei`);
+    }
+
+    const transfer = await this.backend.withdraw(params);
+    this.transfers.set(transfer.id, transfer);
+    return transfer.id;
+  }
+
+  /**
+   * Refresh and return the state of a transfer
+   */
+  public async getBridgeStatus(id: string): Promise<BridgeTransfer> {
+    const transfer = this.transfers.get(id);
+    if (!transfer) {
+      throw new Error(`Unknown bridge transfer: ${id}`);
+    }
+    if (transfer.status === 'completed' || transfer.status === 'failed') {
+      return { ...transfer };
+    }
+
+    const updated = await this.backend.refresh(transfer);
+    this.transfers.set(id, updated);
+    return { ...updated };
+  }
+
+  /**
+   * Poll a transfer until it reaches `until` (default `completed`), fails or times out
+   */
+  public async monitorBridgeStatus(id: string, options: MonitorBridgeOptions = {}): Promise<BridgeTransfer> {
+    const until = options.until ?? 'completed';
+    const pollIntervalMs = options.pollIntervalMs ?? this.options.pollIntervalMs ?? 10000;
+    const timeoutMs = options.timeoutMs ?? this.options.timeoutMs;
+    const deadline = timeoutMs !== undefined ? Date.now() + timeoutMs : Number.POSITIVE_INFINITY;
+
+    for (;;) {
+      options.signal?.throwIfAborted();
+
+      const transfer = await this.getBridgeStatus(id);
+      if (transfer.status === 'failed' || hasReached(transfer, until)) {
+        return transfer;
+      }
+      if (Date.now() + pollIntervalMs > deadline) {
+        throw new Error(`Bridge transfer ${id} still ${transfer.status} after ${timeoutMs}ms`);
+      }
+      await sleep(pollIntervalMs);
+    }
+  }
+}
+
+/**
+ * Whether a transfer has progressed to (or past) a status
+ */
+export function hasReached(transfer: BridgeTransfer, status: BridgeStatus): boolean {
+  const progress = BRIDGE_STATUS_PROGRESS[transfer.direction];
+  const target = progress.indexOf(status);
+  if (target === -1) {
+    throw new Error(`Status ${status} does not apply to ${transfer.direction}s`);
+  }
+  return progress.indexOf(transfer.status) >= target;
+}
+
+const TEZOS_ADDRESS_PREFIXES: Record<string, { prefix: string; forged: (hash: string) => string }> = {
+  tz1: { prefix: '06a19f', forged: hash => `0000${hash}` },
+  tz2: { prefix: '06a1a1', forged: hash => `0001${hash}` },
+  tz3: { prefix: '06a1a4', forged: hash => `0002${hash}` },
+  KT1: { prefix: '025a79', forged: hash => `01${hash}00` }
+};
+
+/**
+ * Binary (22-byte) form of a Tezos address, as used in routing info
+ */
+export function forgeTezosAddress(address: string): string {
+  const kind = TEZOS_ADDRESS_PREFIXES[address.slice(0, 3)];
+  if (!kind || address.length !== 36) {
+    throw new Error(`Invalid Tezos address: ${address}`);
+  }
+
+  const decoded = toBeHex(decodeBase58(address), 27).slice(2);
+  const payload = decoded.slice(0, 46);
+  const checksum = createHash('sha256')
+    .update(createHash('sha256').update(Buffer.from(payload, 'hex')).digest())
+    .digest('hex')
+    .slice(0, 8);
+
+  if (!payload.startsWith(kind.prefix) || checksum !== decoded.slice(46)) {
+    throw new Error(`Invalid Tezos address checksum: ${address}`);
+  }
+  return hexlify(`0x${kind.forged(payload.slice(6))}`);
+}
+
+const BASE_UNITS_PATTERN = /^\d+$/;
+const HEX_BYTES_PATTERN = /^(0x)?([0-9a-fA-F]{2})*$/;
+
+function validateAmount(amount: string): void {
+  if (!BASE_UNITS_PATTERN.test(amount) || BigInt(amount) === 0n) {
+    throw new Error(`Bridge amount must be a positive integer in base units, got ${amount}`);
+  }
+}
+
+function validateAsset(asset: EtherlinkBridgeAsset): void {
+  if (asset.kind === 'XTZ') {
+    return;
+  }
+
+  forgeTezosAddress(asset.ticketer);
+  forgeTezosAddress(asset.l1TokenBridge);
+  getAddress(asset.l2TicketOwner);
+  if (!HEX_BYTES_PATTERN.test(asset.ticketContent)) {
+    throw new Error(`Ticket content must be hex bytes, got ${asset.ticketContent}`);
+  }
+}
@@ -1,24 +1,98 @@
+import type { Quote } from '@1inch/cross-chain-sdk';
 import { IConnector } from '../interfaces/IConnector';
+import type { Order } from '../interfaces/Order';
 import { Maker } from './Maker';
 import { Resolver } from './Resolver';
 import { TransactionWatcher } from './TransactionWatcher';
 import { ApiClient } from '../utils/ApiClient';
 import { OrderBuilder } from './OrderBuilder';
+import {
+  type CreateOrderParams,
+  type FusionOrderConfig,
+  GeneralizedFusionOrderManager,
+  type QuoteParams
+} from '../orders/fusionOrders';
+import type { OrderLifecycleEvent } from '../orders/orderEvents';
+import { fromUniversalOrder } from '../orders/orderMapping';
 
 import { EtherlinkConnector } from '../connector/etherlink-connector';
 
+/**
+ * FusionSDK configuration
+ *
+ * `manager` is either a ready order manager or the config to build one.
+ */
+export interface FusionSDKConfig {
+  apiKey: string;
+  apiUrl?: string;
+  connector: IConnector;
+  manager: GeneralizedFusionOrderManager | FusionOrderConfig;
+  etherlinkConnector?: EtherlinkConnector;
+}
+
+/**
+ * Facade over the generalized order manager
+ *
+ * Cross-chain orders are quoted, placed, tracked and cancelled by the
+ * manager and exposed here as simple `Order`s; `maker`, `resolver`,
+ * `watcher` and `orderBuilder` remain available for direct API use.
+ */
 export class FusionSDK {
+  public readonly manager: GeneralizedFusionOrderManager;
   public readonly maker: Maker;
   public readonly resolver: Resolver;
   public readonly watcher: TransactionWatcher;
   public readonly orderBuilder: OrderBuilder;
   private readonly apiClient: ApiClient;
 
-  constructor(apiKey: string, private readonly connector: IConnector, private readonly etherlinkConnector?: EtherlinkConnector) {
-    this.apiClient = new ApiClient(apiKey);
-    this.maker = new Maker(connector, this.apiClient, etherlinkConnector);
-    this.resolver = new Resolver(connector, this.apiClient, etherlinkConnector);
-    this.watcher = new TransactionWatcher(connector);
-    this.orderBuilder = new OrderBuilder(connector);
+  constructor(config: FusionSDKConfig) {
+    this.manager = config.manager instanceof GeneralizedFusionOrderManager
+      ? config.manager
+      : new GeneralizedFusionOrderManager(config.manager);
+    this.apiClient = new ApiClient(config.apiKey, { baseUrl: config.apiUrl });
+    this.maker = new Maker(config.connector, this.apiClient, config.etherlinkConnector, { manager: this.manager });
+    this.resolver = new Resolver(config.connector, this.apiClient, config.etherlinkConnector);
+    this.watcher = new TransactionWatcher(config.connector);
+    this.orderBuilder = new OrderBuilder(config.connector);
+  }
+
+  public getQuote(params: QuoteParams): Promise<Quote> {
+    return this.manager.getQuote(params);
+  }
+
+  /**
+   * Place a cross-chain order through the manager
+   */
+  public async placeOrder(params: CreateOrderParams): Promise<Order> {
+    const orderHash = await this.manager.createOrder(params);
+    const order = this.manager.getOrder(orderHash);
+    if (!order) {
+      throw new Error(`Order ${orderHash} was not tracked after placement`);
+    }
+    return fromUniversalOrder(order);
+  }
+
+  public cancelOrder(orderId: string): Promise<boolean> {
+    return this.maker.cancelOrder(orderId);
+  }
+
+  public getActiveOrders(): Promise<Order[]> {
+    return this.maker.getActiveOrders();
+  }
+
+  public getOrder(orderId: string): Order | undefined {
+    const order = this.manager.getOrder(orderId);
+    return order ? fromUniversalOrder(order) : undefined;
+  }
+
+  public watchOrder(orderId: string, options: { signal?: AbortSignal } = {}): AsyncIterableIterator<OrderLifecycleEvent> {
+    return this.manager.watchOrder(orderId, options);
+  }
+
+  /**
+   * Stop monitoring and disconnect; tracked orders stay in the manager's store
+   */
+  public async close(): Promise<void> {
+    await this.manager.cleanup();
   }
 }
@@ -1,53 +1,154 @@
-import { IConnector } from '../interfaces/IConnector';
+import {
+  OrderStatus as RelayerOrderStatus,
+  type OrderStatusResponse,
+  type OrdersByMakerResponse
+} from '@1inch/cross-chain-sdk';
+import { type IConnector, TransactionStatus } from '../interfaces/IConnector';
 import { Order } from '../interfaces/Order';
 import { ApiClient } from '../utils/ApiClient';
+import { sleep } from '../utils/fusionUtils';
+import { Interface } from 'ethers';
+import { LIMIT_ORDER_PROTOCOL_ABI } from '../adapters/evmAbis';
+import { LIMIT_ORDER_PROTOCOL_ADDRESS } from '../orders/orderHashing';
 
-import { EtherlinkConnector } from '../connector/etherlink-connector';
+import type { GeneralizedFusionOrderManager } from '../orders/fusionOrders';
+import { fromRelayerOrder, fromUniversalOrder, toCreateOrderParams } from '../orders/orderMapping';
+import { isTerminalStatus } from '../orders/orderStateMachine';
+
+import type { EtherlinkConnector, EtherlinkDepositParams } from '../connector/etherlink-connector';
+
+/**
+ * Relayer order API, as used by the 1inch cross-chain SDK
+ */
+const RELAYER_ORDERS_PATH = '/orders/v1.1/order';
+
+/**
+ * Optional maker settings
+ */
+export interface MakerOptions {
+  settlementAddress?: string;
+  manager?: GeneralizedFusionOrderManager; // Tracks cross-chain orders placed through FusionSDK
+  confirmationTimeoutMs?: number;
+  pollIntervalMs?: number;
+}
 
 export class Maker {
   constructor(
     private readonly connector: IConnector,
     private readonly apiClient: ApiClient,
-    private readonly etherlinkConnector?: EtherlinkConnector // Optional, for cross-chain
+    private readonly etherlinkConnector?: EtherlinkConnector, // Optional, for cross-chain
+    private readonly options: MakerOptions = {}
   ) {}
 
   /**
-   * Place a Fusion+ order, optionally bridging to Etherlink first if needed.
-   * If the order has a crossChainBridge param, use EtherlinkConnector to bridge assets before order.
+   * Place an order through the manager, optionally bridging to Etherlink first.
+   * If the order has bridgeParams, use EtherlinkConnector to deposit assets from Tezos before the order.
+   * Returns the order hash the manager tracks the order under.
    */
-  public async placeOrder(order: Order & { bridgeParams?: any }): Promise<string> {
+  public async placeOrder(order: Order & { bridgeParams?: EtherlinkDepositParams }): Promise<string> {
+    const manager = this.options.manager;
+    if (!manager) {
+      throw new Error('Placing orders requires an order manager');
+    }
+
     // 1. If Etherlink bridging is required, use the connector
     if (order.bridgeParams && this.etherlinkConnector) {
-      const txHash = await this.etherlinkConnector.bridgeToEtherlink(order.bridgeParams);
-      const status = await this.etherlinkConnector.monitorBridgeStatus(txHash);
-      if (status.status !== 'completed') throw new Error('Etherlink bridge failed');
+      const transferId = await this.etherlinkConnector.bridgeToEtherlink(order.bridgeParams);
+      const transfer = await this.etherlinkConnector.monitorBridgeStatus(transferId);
+      if (transfer.status !== 'completed') {
+        throw new Error(`Etherlink bridge failed: ${transfer.error}`);
+      }
     }
-    // 2. Standard Fusion+ order placement
-    const orderForSignature = { ...order };
-    delete orderForSignature.signature;
-
-    const signature = await this.connector.signMessage(
-      JSON.stringify(orderForSignature)
-    );
-    order.signature = signature;
-
-    // Assuming an endpoint to submit the order
-    const response = await this.apiClient.post<{ orderId: string }>(
-      '/orders/submit',
-      order
-    );
-    return response.orderId;
+    // 2. The manager quotes, signs and submits the order, as it does for cancellations
+    return manager.createOrder(toCreateOrderParams(order, await this.connector.getChainId()));
   }
 
+  /**
+   * Cancel an order on chain: through the manager for orders it tracks,
+   * otherwise with the maker traits the relayer reports, signed by the connector.
+   * Returns false when the order is already settled, cancelled or expired.
+   */
   public async cancelOrder(orderId: string): Promise<boolean> {
-    // TODO: Implement order cancellation logic
-    console.log('Cancelling order:', orderId);
+    const manager = this.options.manager;
+    const tracked = manager?.getOrder(orderId);
+    if (manager && tracked) {
+      if (isTerminalStatus(tracked.status)) {
+        return false;
+      }
+      await manager.cancelOrder(orderId);
+      return true;
+    }
+
+    // The relayer has no cancel endpoint: orders are invalidated in the limit order protocol
+    const status = await this.apiClient.get<OrderStatusResponse>(`${RELAYER_ORDERS_PATH}/status/${orderId}`);
+    if (status.status !== RelayerOrderStatus.Pending) {
+      return false;
+    }
+
+    const chainId = await this.connector.getChainId();
+    if (String(status.srcChainId) !== String(chainId) || !('makerTraits' in status.order)) {
+      throw new Error(`Order ${orderId} is on chain ${status.srcChainId}, the connector signs for chain ${chainId}`);
+    }
+
+    const signed = await this.connector.signTransaction({
+      to: this.options.settlementAddress ?? LIMIT_ORDER_PROTOCOL_ADDRESS,
+      data: new Interface(LIMIT_ORDER_PROTOCOL_ABI).encodeFunctionData('cancelOrder', [
+        BigInt(status.order.makerTraits),
+        orderId
+      ]),
+      chainId,
+      nonce: await this.connector.getNonce(await this.connector.getAddress())
+    });
+    await this.waitForTransaction(await this.connector.broadcastTransaction(signed));
     return true;
   }
 
+  /**
+   * Open orders of this maker, from the manager and the relayer
+   *
+   * Falls back to the tracked orders alone when the relayer cannot be reached.
+   */
   public async getActiveOrders(): Promise<Order[]> {
-    // TODO: Implement logic to fetch active orders
-    console.log('Fetching active orders');
-    return [];
+    const makerAddress = (await this.connector.getAddress()).toLowerCase();
+    const tracked = (this.options.manager?.getAllOrders() ?? [])
+      .filter(order => order.maker.toLowerCase() === makerAddress && !isTerminalStatus(order.status))
+      .map(fromUniversalOrder);
+
+    let listed: Order[];
+    try {
+      const response = await this.apiClient.get<OrdersByMakerResponse>(`${RELAYER_ORDERS_PATH}/maker/${makerAddress}`, {
+        limit: 100
+      });
+      listed = response.items
+        .filter(order => order.status === RelayerOrderStatus.Pending)
+        .map(order => fromRelayerOrder(order, makerAddress));
+    } catch {
+      return tracked;
+    }
+
+    const trackedIds = new Set(tracked.map(order => order.id.toLowerCase()));
+    return [...tracked, ...listed.filter(order => !trackedIds.has(order.id.toLowerCase()))];
+  }
+
+  /**
+   * Poll the connector until the transaction is mined; throws if it fails or times out
+   */
+  private async waitForTransaction(txHash: string): Promise<void> {
+    const pollIntervalMs = this.options.pollIntervalMs ?? 2000;
+    const deadline = Date.now() + (this.options.confirmationTimeoutMs ?? 300000);
+
+    for (;;) {
+      const status = await this.connector.getTransactionStatus(txHash);
+      if (status === TransactionStatus.CONFIRMED) {
+        return;
+      }
+      if (status === TransactionStatus.FAILED) {
+        throw new Error(`Transaction ${txHash} failed`);
+      }
+      if (Date.now() + pollIntervalMs > deadline) {
+        throw new Error(`Transaction ${txHash} not mined in time`);
+      }
+      await sleep(pollIntervalMs);
+    }
   }
 }
@@ -0,0 +1,305 @@
+/**
+ * Result of one poll; drives the adaptive interval of the task
+ *
+ * - `changed`: something happened, poll again at the fastest rate
+ * - `unchanged`: nothing new, gradually slow down
+ * - `done`: remove the task
+ */
+export type PollOutcome = 'changed' | 'unchanged' | 'done';
+
+export type PollTask = () => Promise<PollOutcome | undefined>;
+
+/**
+ * Per-group polling options; a group is one chain or one API
+ *
+ * Tasks still make their own requests: a tick caps how many of them run,
+ * it does not merge their calls into one.
+ */
+export interface PollingGroupOptions {
+  minIntervalMs: number;
+  maxIntervalMs: number;
+  maxConcurrency: number;
+  maxTasksPerTick: number;
+}
+
+/**
+ * Scheduler-wide options
+ */
+export interface PollingSchedulerOptions {
+  maxTasks?: number;
+  jitterRatio?: number;
+  defaultGroup?: Partial<PollingGroupOptions>;
+  onError?: (group: string, key: string, error: unknown) => void;
+}
+
+/**
+ * Snapshot of one group's queue
+ */
+export interface PollingGroupMetrics {
+  tasks: number;
+  queueDepth: number;
+  inFlight: number;
+  ticks: number;
+  skippedTicks: number;
+  errors: number;
+  lastTickAt?: number;
+  lastTickDurationMs?: number;
+}
+
+/**
+ * Snapshot of the whole scheduler
+ */
+export interface PollingSchedulerMetrics {
+  totalTasks: number;
+  queueDepth: number;
+  groups: Record<string, PollingGroupMetrics>;
+}
+
+interface TaskState {
+  key: string;
+  run: PollTask;
+  intervalMs: number;
+  nextRunAt: number;
+  consecutiveErrors: number;
+}
+
+interface GroupState {
+  options: PollingGroupOptions;
+  tasks: Map<string, TaskState>;
+  timer?: NodeJS.Timeout;
+  running: boolean;
+  inFlight: number;
+  metrics: Omit<PollingGroupMetrics, 'tasks' | 'queueDepth' | 'inFlight'>;
+}
+
+const DEFAULT_GROUP_OPTIONS: PollingGroupOptions = {
+  minIntervalMs: 5000,
+  maxIntervalMs: 60000,
+  maxConcurrency: 4,
+  maxTasksPerTick: 50
+};
+
+/**
+ * Shared scheduler replacing one `setInterval` per order or transaction
+ *
+ * Tasks are grouped (per chain, per API) and each group runs on a single
+ * timer. A group never ticks while its previous tick is still running, each
+ * tick runs a bounded number of due tasks with bounded concurrency, intervals
+ * adapt to activity, and failing tasks back off exponentially with jitter.
+ */
+export class PollingScheduler {
+  private groups: Map<string, GroupState> = new Map();
+  private readonly maxTasks: number;
+  private readonly jitterRatio: number;
+
+  constructor(private readonly options: PollingSchedulerOptions = {}) {
+    this.maxTasks = options.maxTasks ?? 1000;
+    this.jitterRatio = options.jitterRatio ?? 0.2;
+  }
+
+  /**
+   * Set polling options for a group; existing tasks keep their current timing
+   */
+  configureGroup(group: string, options: Partial<PollingGroupOptions>): void {
+    const state = this.getGroup(group);
+    state.options = { ...state.options, ...options };
+  }
+
+  /**
+   * Add or replace a task; it first runs after the group's minimum interval
+   */
+  schedule(group: string, key: string, run: PollTask): void {
+    const state = this.getGroup(group);
+
+    if (!state.tasks.has(key) && this.getTotalTasks() >= this.maxTasks) {
+      throw new Error(`Polling scheduler is at capacity (${this.maxTasks} tasks)`);
+    }
+
+    state.tasks.set(key, {
+      key,
+      run,
+      intervalMs: state.options.minIntervalMs,
+      nextRunAt: Date.now() + state.options.minIntervalMs,
+      consecutiveErrors: 0
+    });
+    this.arm(group, state);
+  }
+
+  /**
+   * Remove a task; a run already in flight is allowed to finish
+   */
+  unschedule(group: string, key: string): boolean {
+    const state = this.groups.get(group);
+    const removed = state?.tasks.delete(key) ?? false;
+
+    if (state && state.tasks.size === 0) {
+      clearTimeout(state.timer);
+      state.timer = undefined;
+    }
+    return removed;
+  }
+
+  /**
+   * Whether a task is scheduled
+   */
+  has(group: string, key: string): boolean {
+    return this.groups.get(group)?.tasks.has(key) ?? false;
+  }
+
+  /**
+   * Run a task on the next tick instead of waiting for its interval
+   */
+  wake(group: string, key: string): void {
+    const state = this.groups.get(group);
+    const task = state?.tasks.get(key);
+    if (!state || !task) {
+      return;
+    }
+
+    task.intervalMs = state.options.minIntervalMs;
+    task.nextRunAt = Date.now();
+    this.arm(group, state);
+  }
+
+  /**
+   * Stop all timers and drop every task
+   */
+  stop(): void {
+    for (const state of this.groups.values()) {
+      clearTimeout(state.timer);
+      state.timer = undefined;
+      state.tasks.clear();
+    }
+  }
+
+  getMetrics(): PollingSchedulerMetrics {
+    const now = Date.now();
+    const groups: Record<string, PollingGroupMetrics> = {};
+    let totalTasks = 0;
+    let queueDepth = 0;
+
+    for (const [name, state] of this.groups) {
+      const due = Array.from(state.tasks.values()).filter(task => task.nextRunAt <= now).length;
+      groups[name] = {
+        ...state.metrics,
+        tasks: state.tasks.size,
+        queueDepth: due,
+        inFlight: state.inFlight
+      };
+      totalTasks += state.tasks.size;
+      queueDepth += due;
+    }
+
+    return { totalTasks, queueDepth, groups };
+  }
+
+  private getGroup(group: string): GroupState {
+    let state = this.groups.get(group);
+    if (!state) {
+      state = {
+        options: { ...DEFAULT_GROUP_OPTIONS, ...this.options.defaultGroup },
+        tasks: new Map(),
+        running: false,
+        inFlight: 0,
+        metrics: { ticks: 0, skippedTicks: 0, errors: 0 }
+      };
+      this.groups.set(group, state);
+    }
+    return state;
+  }
+
+  private getTotalTasks(): number {
+    let total = 0;
+    for (const state of this.groups.values()) {
+      total += state.tasks.size;
+    }
+    return total;
+  }
+
+  /**
+   * (Re)arm the group timer for its earliest due task
+   */
+  private arm(group: string, state: GroupState): void {
+    if (state.running) { return; // re-armed when the tick finishes
+}
+
+    clearTimeout(state.timer);
+    state.timer = undefined;
+    if (state.tasks.size === 0) {
+      return;
+    }
+
+    const earliest = Math.min(...Array.from(state.tasks.values(), task => task.nextRunAt));
+    const delay = Math.max(0, earliest - Date.now());
+    state.timer = setTimeout(() => this.tick(group, state), delay);
+  }
+
+  private async tick(group: string, state: GroupState): Promise<void> {
+    state.timer = undefined;
+    if (state.running) {
+      state.metrics.skippedTicks++;
+      return;
+    }
+
+    state.running = true;
+    const startedAt = Date.now();
+
+    try {
+      const due = Array.from(state.tasks.values())
+        .filter(task => task.nextRunAt <= startedAt)
+        .sort((a, b) => a.nextRunAt - b.nextRunAt)
+        .slice(0, state.options.maxTasksPerTick);
+
+      for (let i = 0; i < due.length; i += state.options.maxConcurrency) {
+        const chunk = due.slice(i, i + state.options.maxConcurrency);
+        await Promise.all(chunk.map(task => this.runTask(group, state, task)));
+      }
+    } finally {
+      state.running = false;
+      state.metrics.ticks++;
+      state.metrics.lastTickAt = startedAt;
+      state.metrics.lastTickDurationMs = Date.now() - startedAt;
+      this.arm(group, state);
+    }
+  }
+
+  private async runTask(group: string, state: GroupState, task: TaskState): Promise<void> {
+    const { minIntervalMs, maxIntervalMs } = state.options;
+    state.inFlight++;
+
+    try {
+      const outcome = (await task.run()) ?? 'unchanged';
+      task.consecutiveErrors = 0;
+
+      if (outcome === 'done') {
+        if (state.tasks.get(task.key) === task) {
+          state.tasks.delete(task.key);
+        }
+        return;
+      }
+
+      task.intervalMs = outcome === 'changed'
+        ? minIntervalMs
+        : Math.min(maxIntervalMs, Math.round(task.intervalMs * 1.5));
+    } catch (error) {
+      task.consecutiveErrors++;
+      state.metrics.errors++;
+      task.intervalMs = Math.min(maxIntervalMs, minIntervalMs * 2 ** task.consecutiveErrors);
+      this.options.onError?.(group, task.key, error);
+    } finally {
+      state.inFlight--;
+    }
+
+    task.nextRunAt = Date.now() + this.jitter(task.intervalMs);
+  }
+
+  private jitter(intervalMs: number): number {
+    const spread = intervalMs * this.jitterRatio;
+    return Math.round(intervalMs - spread + Math.random() * spread * 2);
+  }
+}
+
+/**
+ * Scheduler shared by order managers and transaction watchers by default
+ */
+export const pollingScheduler = new PollingScheduler();
@@ -2,7 +2,7 @@ import { IConnector } from '../interfaces/IConnector';
 import { Order } from '../interfaces/Order';
 import { ApiClient } from '../utils/ApiClient';
 
-import { EtherlinkConnector } from '../connector/etherlink-connector';
+import type { EtherlinkConnector, EtherlinkWithdrawParams } from '../connector/etherlink-connector';
 
 export class Resolver {
   constructor(
@@ -18,14 +18,17 @@ export class Resolver {
 
   /**
    * Fill a Fusion+ order, optionally bridging from Etherlink if needed.
-   * If the order has a crossChainBridge param, use EtherlinkConnector to bridge assets before fill.
+   * If bridgeParams are given, use EtherlinkConnector to withdraw assets to Tezos before fill.
+   * Withdrawals complete only after the rollup's challenge window.
    */
-  public async fillOrder(orderId: string, fillAmount: string, bridgeParams?: any): Promise<string> {
+  public async fillOrder(orderId: string, fillAmount: string, bridgeParams?: EtherlinkWithdrawParams): Promise<string> {
     // 1. If Etherlink bridging is required, use the connector
     if (bridgeParams && this.etherlinkConnector) {
-      const txHash = await this.etherlinkConnector.bridgeToEvm(bridgeParams);
-      const status = await this.etherlinkConnector.monitorBridgeStatus(txHash);
-      if (status.status !== 'completed') throw new Error('Etherlink bridge (to EVM) failed');
+      const transferId = await this.etherlinkConnector.bridgeToTezos(bridgeParams);
+      const transfer = await this.etherlinkConnector.monitorBridgeStatus(transferId);
+      if (transfer.status !== 'completed') {
+        throw new Error(`Etherlink bridge (to Tezos) failed: ${transfer.error}`);
+      }
     }
     // 2. Standard Fusion+ fill
     const fillData = { orderId, fillAmount };
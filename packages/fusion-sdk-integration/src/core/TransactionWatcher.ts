@@ -1,21 +1,175 @@
+import { EventEmitter } from 'node:events';
+import type { IChainAdapter } from '../interfaces/IChainAdapter';
 import { IConnector, TransactionStatus } from '../interfaces/IConnector';
+import { type PollOutcome, type PollingScheduler, pollingScheduler } from './PollingScheduler';
 
-export class TransactionWatcher {
-  constructor(private readonly connector: IConnector) {}
-
-  public watch(transactionHash: string, onStatusChange: (status: TransactionStatus) => void): void {
-    console.log(`Watching transaction: ${transactionHash}`);
-    const interval = setInterval(async () => {
-      try {
-        const status = await this.connector.getTransactionStatus(transactionHash);
-        onStatusChange(status);
-        if (status === TransactionStatus.CONFIRMED || status === TransactionStatus.FAILED) {
-          clearInterval(interval);
-        }
-      } catch (error) {
-        console.error('Error watching transaction:', error);
-        clearInterval(interval);
+/**
+ * Where a watched transaction currently stands
+ *
+ * `blockNumber` and `blockHash` are set once it is included; connectors
+ * report status only, so their transactions count as final when confirmed.
+ */
+export interface TransactionInclusion {
+  txHash: string;
+  status: TransactionStatus;
+  blockNumber?: number;
+  blockHash?: string;
+  confirmations: number;
+}
+
+/**
+ * Payload of a `reorged` event: the transaction left the block it was
+ * included in, and is either back in the mempool or in another block
+ */
+export interface TransactionReorg {
+  txHash: string;
+  previous: TransactionInclusion;
+  current: TransactionInclusion;
+}
+
+/**
+ * Payload of a `dropped` event: the transaction stayed out of any block
+ * since `pendingSince` (ms) and is no longer watched
+ */
+export interface TransactionDrop {
+  txHash: string;
+  pendingSince: number;
+}
+
+/**
+ * Event map of the watcher
+ *
+ * `included` fires each time the transaction lands in a block, `final`
+ * once it has the required confirmations and `dropped` once it has been
+ * pending for too long; after either it is no longer watched. `error`
+ * reports a transaction that could not be scheduled.
+ */
+export interface TransactionWatcherEvents {
+  included: [inclusion: TransactionInclusion];
+  final: [inclusion: TransactionInclusion];
+  reorged: [reorg: TransactionReorg];
+  dropped: [drop: TransactionDrop];
+  error: [error: Error];
+}
+
+/**
+ * Watcher options; `confirmations` is usually the chain's `ChainConfig.confirmations`,
+ * `dropAfterMs` how long a transaction may stay out of any block
+ */
+export interface TransactionWatcherOptions {
+  confirmations?: number;
+  dropAfterMs?: number;
+}
+
+const DEFAULT_DROP_AFTER_MS = 30 * 60_000;
+
+export class TransactionWatcher extends EventEmitter<TransactionWatcherEvents> {
+  private group?: string;
+  private readonly confirmations: number;
+  private readonly dropAfterMs: number;
+
+  constructor(
+    private readonly chain: IConnector | IChainAdapter,
+    private readonly scheduler: PollingScheduler = pollingScheduler,
+    options: TransactionWatcherOptions = {}
+  ) {
+    super();
+    this.confirmations = Math.max(options.confirmations ?? 1, 1);
+    this.dropAfterMs = options.dropAfterMs ?? DEFAULT_DROP_AFTER_MS;
+  }
+
+  /**
+   * Poll a transaction on the shared scheduler until it is final.
+   * All transactions of one chain are checked in the same scheduler group.
+   *
+   * `onStatusChange` sees CONFIRMED or FAILED only once the transaction has
+   * the required confirmations, PENDING again if a reorg drops it, and
+   * FAILED if it stays out of any block for `dropAfterMs`.
+   */
+  public watch(transactionHash: string, onStatusChange?: (status: TransactionStatus) => void): void {
+    let lastStatus: TransactionStatus | undefined;
+    let included: TransactionInclusion | undefined;
+    let pendingSince = Date.now();
+
+    const poll = async (): Promise<PollOutcome> => {
+      const current = await this.getInclusion(transactionHash);
+      let changed = false;
+
+      // Dropped back to the mempool, or re-mined in a different block
+      if (included && (current.status === TransactionStatus.PENDING || current.blockHash !== included.blockHash)) {
+        this.emit('reorged', { txHash: transactionHash, previous: included, current });
+        included = undefined;
+        pendingSince = Date.now();
+        changed = true;
+      }
+      if (!included && current.status !== TransactionStatus.PENDING) {
+        included = current;
+        this.emit('included', current);
+        changed = true;
       }
-    }, 5000); // Poll every 5 seconds
+      if (!included && Date.now() - pendingSince >= this.dropAfterMs) {
+        onStatusChange?.(TransactionStatus.FAILED);
+        this.emit('dropped', { txHash: transactionHash, pendingSince });
+        return 'done';
+      }
+
+      const final = included !== undefined && current.confirmations >= this.confirmations;
+      const status = final ? current.status : TransactionStatus.PENDING;
+      if (status !== lastStatus) {
+        lastStatus = status;
+        onStatusChange?.(status);
+        changed = true;
+      }
+
+      if (final) {
+        this.emit('final', current);
+        return 'done';
+      }
+      return changed ? 'changed' : 'unchanged';
+    };
+
+    this.getGroup()
+      .then(group => this.scheduler.schedule(group, transactionHash, poll))
+      .catch(error => this.emit('error', error instanceof Error ? error : new Error(String(error))));
+  }
+
+  /**
+   * Stop watching a transaction
+   */
+  public async unwatch(transactionHash: string): Promise<void> {
+    this.scheduler.unschedule(await this.getGroup(), transactionHash);
   }
+
+  private async getInclusion(txHash: string): Promise<TransactionInclusion> {
+    if (!isChainAdapter(this.chain)) {
+      const status = await this.chain.getTransactionStatus(txHash);
+      return { txHash, status, confirmations: status === TransactionStatus.PENDING ? 0 : this.confirmations };
+    }
+
+    const result = await this.chain.getTransactionStatus(txHash);
+    if (result.status === 'pending' || result.blockNumber === undefined) {
+      return { txHash, status: TransactionStatus.PENDING, confirmations: 0 };
+    }
+
+    const head = await this.chain.getCurrentBlockNumber();
+    return {
+      txHash,
+      status: result.status === 'confirmed' ? TransactionStatus.CONFIRMED : TransactionStatus.FAILED,
+      blockNumber: result.blockNumber,
+      blockHash: (result.chainSpecific?.blockHash as string | undefined) ?? String(result.blockNumber),
+      confirmations: Math.max(head - result.blockNumber + 1, 0)
+    };
+  }
+
+  private async getGroup(): Promise<string> {
+    if (!this.group) {
+      const chainId = isChainAdapter(this.chain) ? this.chain.chainId : await this.chain.getChainId();
+      this.group = `chain:${chainId}`;
+    }
+    return this.group;
+  }
+}
+
+function isChainAdapter(chain: IConnector | IChainAdapter): chain is IChainAdapter {
+  return 'getCurrentBlockNumber' in chain;
 }
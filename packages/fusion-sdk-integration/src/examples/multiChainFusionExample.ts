@@ -6,14 +6,28 @@ import {
   getChainName
 } from '../orders/fusionOrders';
 import {
+chainAdapterFactory,
 getChainArchitecture,
 getSupportedTokenStandards
 } from '../adapters/ChainAdapterFactory';
+import { chainRegistry } from '../adapters/ChainRegistry';
 import { 
   UniversalAsset, 
-  OrderStatus, 
-  sleep 
+  OrderStatus
 } from '../utils/fusionUtils';
+import { LocalKeySigner } from '../signers/LocalKeySigner';
+import { AptosKeySigner } from '../signers/AptosKeySigner';
+import { SuiKeySigner } from '../signers/SuiKeySigner';
+import { TezosKeySigner } from '../signers/TezosKeySigner';
+import type { ISigner } from '../interfaces/ISigner';
+
+/**
+ * Print a line of example output
+ */
+function print(message: string): void {
+  // biome-ignore lint/suspicious/noConsole lint/suspicious/noConsoleLog: the example reports its progress on the terminal
+  console.log(message);
+}
 
 /**
  * Comprehensive example demonstrating generalized fusion orders across multiple chains
@@ -45,6 +59,7 @@ export class MultiChainFusionExample {
       chainId: string | number;
       rpcUrl: string;
       contractAddresses?: Record<string, string>;
+      signer?: ISigner;
     }> = [
       // EVM-Compatible Chains
       {
@@ -64,40 +79,46 @@ export class MultiChainFusionExample {
       },
       {
         chainId: SUPPORTED_CHAINS.ETHERLINK,
-        rpcUrl: process.env.ETHERLINK_RPC_URL || 'https://node.mainnet.etherlink.com',
+        rpcUrl: process.env.ETHERLINK_RPC_URL || 'https://node.ghostnet.etherlink.com',
         contractAddresses: {
           fusionRouter: '0x111111125421ca6dc452d289314280a0f8842a65'
         }
       },
       
-      // Non-EVM Chains (Mock configurations for demonstration)
+      // Non-EVM Chains
       {
+        // For a local node: aptos node run-local-testnet --with-indexer-api
         chainId: SUPPORTED_CHAINS.APTOS,
         rpcUrl: process.env.APTOS_RPC_URL || 'https://fullnode.mainnet.aptoslabs.com/v1',
         contractAddresses: {
-          fusionModule: '0x1::fusion::FusionOrderbook'
-        }
+          htlc: process.env.APTOS_HTLC_MODULE || ''
+        },
+        signer: process.env.APTOS_WALLET_KEY ? new AptosKeySigner(process.env.APTOS_WALLET_KEY) : undefined
       },
       {
+        // For a local node: sui start --with-faucet
         chainId: SUPPORTED_CHAINS.SUI,
         rpcUrl: process.env.SUI_RPC_URL || 'https://fullnode.mainnet.sui.io:443',
         contractAddresses: {
-          fusionPackage: '0x2::fusion::Orderbook'
-        }
+          htlc: process.env.SUI_HTLC_MODULE || ''
+        },
+        signer: process.env.SUI_WALLET_KEY ? new SuiKeySigner(process.env.SUI_WALLET_KEY) : undefined
       },
       {
+        // For a local node: the Flextesa sandbox (oxheadalpha/flextesa)
         chainId: SUPPORTED_CHAINS.TEZOS,
         rpcUrl: process.env.TEZOS_RPC_URL || 'https://mainnet.api.tez.ie',
         contractAddresses: {
-          fusionContract: 'KT1VSUr8wwNhLAzempoch5d6hLRiTh8Cjcjb' // Mock Tezos contract address
-        }
+          htlc: process.env.TEZOS_HTLC_CONTRACT || ''
+        },
+        signer: process.env.TEZOS_WALLET_KEY ? new TezosKeySigner(process.env.TEZOS_WALLET_KEY) : undefined
       }
     ];
 
     // Create fusion manager
     this.fusionManager = createFusionOrderManager({
       apiKey: process.env.DEV_PORTAL_KEY!,
-      privateKey: process.env.WALLET_KEY!,
+      signer: new LocalKeySigner(process.env.WALLET_KEY ?? ''),
       walletAddress: process.env.WALLET_ADDRESS!,
       chains: chainConfigs
     });
@@ -187,28 +208,29 @@ export class MultiChainFusionExample {
     }
 
     try {
-      // Note: This is a mock example as 1inch Fusion+ doesn't currently support non-EVM chains
-      // In a real implementation, this would require custom bridge protocols
-      
-      console.log('🚧 Mock Example: Arbitrum USDC → Aptos USDC');
-      console.log('   (This demonstrates the adapter pattern for future non-EVM support)');
-      
-      // Mock order creation for demonstration
-      const mockOrderData = {
-        srcChain: getChainName(SUPPORTED_CHAINS.ARBITRUM),
-        dstChain: getChainName(SUPPORTED_CHAINS.APTOS),
-        srcArchitecture: getChainArchitecture(SUPPORTED_CHAINS.ARBITRUM),
-        dstArchitecture: getChainArchitecture(SUPPORTED_CHAINS.APTOS),
-        bridgeRequired: true,
-        estimatedTime: '5-10 minutes'
-      };
+      // 1inch Fusion+ doesn't relay to non-EVM chains, so orders on this pair
+      // run in htlc mode: both legs are locked in the escrow contracts
+      // (APTOS_HTLC_MODULE on Aptos) and need an `htlcCounterparty`
+      await this.fusionManager.ready;
+      const aptos = chainAdapterFactory.createAdapter(SUPPORTED_CHAINS.APTOS);
+      if (!aptos.isConnected()) {
+        print('⚠️ Aptos is not connected; set APTOS_RPC_URL and APTOS_WALLET_KEY');
+        return;
+      }
+
+      print('🔗 Example: Arbitrum USDC → Aptos APT');
+      print(`   Source: ${getChainName(SUPPORTED_CHAINS.ARBITRUM)} (${getChainArchitecture(SUPPORTED_CHAINS.ARBITRUM)})`);
+      print(`   Destination: ${getChainName(SUPPORTED_CHAINS.APTOS)} (${getChainArchitecture(SUPPORTED_CHAINS.APTOS)})`);
+
+      const address = await aptos.getAddress();
+      const balance = await aptos.getBalance(aptos.nativeAsset);
+      const height = await aptos.getCurrentBlockNumber();
+
+      print('📋 Aptos account:');
+      print(`   Address: ${address}`);
+      print(`   Balance: ${balance} (${aptos.nativeAsset.decimals} decimals ${aptos.nativeAsset.symbol})`);
+      print(`   Ledger height: ${height}`);
 
-      console.log('📋 Cross-architecture order details:');
-      console.log(`   Source: ${mockOrderData.srcChain} (${mockOrderData.srcArchitecture})`);
-      console.log(`   Destination: ${mockOrderData.dstChain} (${mockOrderData.dstArchitecture})`);
-      console.log(`   Bridge Required: ${mockOrderData.bridgeRequired}`);
-      console.log(`   Estimated Time: ${mockOrderData.estimatedTime}`);
-      
     } catch (error) {
       console.error('❌ Cross-architecture swap failed:', error);
     }
@@ -218,29 +240,47 @@ export class MultiChainFusionExample {
    * Monitor an order until completion or timeout
    */
   private async monitorOrder(orderHash: string, timeoutMs: number): Promise<void> {
-    const startTime = Date.now();
-    const pollInterval = 2000; // 2 seconds
-    
-    while (Date.now() - startTime < timeoutMs) {
-      const order = this.fusionManager!.getOrder(orderHash);
-      
-      if (order) {
-        console.log(`📊 Order Status: ${order.status}`);
-        console.log(`   Fills: ${order.fills.length}`);
-        
-        if (order.status === OrderStatus.EXECUTED) {
-          console.log('🎉 Order completed successfully!');
+    if (!this.fusionManager) {
+      throw new Error('Fusion manager not initialized');
+    }
+
+    const signal = AbortSignal.timeout(timeoutMs);
+
+    for await (const event of this.fusionManager.watchOrder(orderHash, { signal })) {
+      switch (event.type) {
+        case 'fillReady':
+          print(`🔓 Fill ${event.idx} ready for secret`);
+          break;
+        case 'partiallyFilled':
+          print(`📊 Order partially filled, fills: ${event.order.fills.length}`);
+          break;
+        case 'executed': {
+          print('🎉 Order completed successfully!');
           return;
-        } else if (order.status === OrderStatus.CANCELLED || order.status === OrderStatus.FAILED) {
-          console.log(`❌ Order ${order.status}`);
+        }
+        case 'cancelled':
+        case 'expired': {
+          print(`❌ Order ${event.order.status}`);
           return;
         }
+        case 'failed': {
+          print(`💥 Order failed: ${event.reason}`);
+          return;
+        }
+        case 'error':
+          print(`⚠️ ${event.error.message}`);
+          break;
+        default:
+          break;
       }
-      
-      await sleep(pollInterval);
     }
-    
-    console.log('⏰ Monitoring timeout reached');
+
+    const order = this.fusionManager.getOrder(orderHash);
+    if (order?.status === OrderStatus.EXECUTED) {
+      print('🎉 Order completed successfully!');
+    } else if (signal.aborted) {
+      print('⏰ Monitoring timeout reached');
+    }
   }
 
   /**
@@ -250,17 +290,13 @@ export class MultiChainFusionExample {
     console.log('\n🌐 Supported Chains and Capabilities');
     console.log('====================================');
     
-    const chains = Object.entries(SUPPORTED_CHAINS);
-    
-    for (const [name, chainId] of chains) {
-      const architecture = getChainArchitecture(chainId);
-      const tokenStandards = getSupportedTokenStandards(chainId);
-      
-      console.log(`\n${name}:`);
-      console.log(`   Chain ID: ${chainId}`);
-      console.log(`   Architecture: ${architecture}`);
-      console.log(`   Token Standards: ${tokenStandards.join(', ')}`);
-      console.log(`   Status: ${architecture === 'EVM' ? '✅ Fully Supported' : '🚧 Mock Implementation'}`);
+    for (const chain of chainRegistry.list()) {
+      print(`\n${chain.key}${chain.testnet ? ' (testnet)' : ''}:`);
+      print(`   Chain ID: ${chain.id}`);
+      print(`   Architecture: ${chain.architecture}`);
+      print(`   Token Standards: ${chain.tokenStandards.join(', ')}`);
+      print(`   Explorer: ${chain.explorers[0]?.url ?? 'n/a'}`);
+      print(`   Status: ${chainAdapterFactory.getAdapterInfo(chain.id).supported ? '✅ Fully Supported' : '🚧 Mock Implementation'}`);
     }
   }
 
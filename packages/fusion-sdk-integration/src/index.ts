@@ -4,4 +4,45 @@ export * from './core/Resolver';
 export * from './core/OrderBuilder';
 export * from './core/TransactionWatcher';
 export * from './interfaces/IConnector';
-export * from './interfaces/Order';
\ No newline at end of file
+export * from './interfaces/Order';
+export * from './interfaces/ISigner';
+export * from './signers/LocalKeySigner';
+export * from './signers/MnemonicSigner';
+export * from './signers/RemoteSigner';
+export * from './signers/Eip1193Signer';
+export * from './signers/AptosKeySigner';
+export * from './signers/SuiKeySigner';
+export * from './signers/TezosKeySigner';
+export * from './interfaces/IOrderStore';
+export * from './stores/InMemoryOrderStore';
+export * from './stores/FileOrderStore';
+export * from './interfaces/IKeyProvider';
+export * from './secrets/SecretVault';
+export * from './secrets/keyProviders';
+export * from './orders/orderEvents';
+export * from './orders/orderStateMachine';
+export * from './core/PollingScheduler';
+export * from './orders/orderPricing';
+export * from './tokens/TokenRegistry';
+export * from './tokens/tokenLists';
+export * from './utils/amounts';
+export * from './orders/orderHashing';
+export * from './utils/ApiClient';
+export * from './orders/orderMapping';
+export * from './utils/apiErrors';
+export * from './connector/etherlink-connector';
+export * from './connector/SimulatedEtherlinkBridge';
+export * from './connector/EtherlinkRollupBridge';
+export * from './interfaces/IResolverStrategy';
+export * from './interfaces/IEscrowExecutor';
+export * from './resolver/strategies';
+export * from './resolver/FusionOrderSource';
+export * from './resolver/FusionEscrowExecutor';
+export * from './resolver/ResolverEngine';
+export * from './utils/timelocks';
+export * from './utils/partialFills';
+export * from './orders/orderRecovery';
+export * from './orders/escrowVerification';
+export * from './interfaces/IHtlcCounterparty';
+export * from './orders/htlcOrders';
+export * from './adapters/ChainRegistry';
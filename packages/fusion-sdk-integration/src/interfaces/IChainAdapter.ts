@@ -1,4 +1,6 @@
 import { UniversalOrder, UniversalTxParams, UniversalAsset, OrderFill } from '../utils/fusionUtils';
+import type { ISigner } from './ISigner';
+import type { EscrowAction, EscrowSide, EscrowTimelocks, Timelocks } from '../utils/timelocks';
 
 /**
  * Signature schemes supported by different chains
@@ -17,7 +19,78 @@ export interface ChainTxResult {
   blockNumber?: number;
   gasUsed?: string;
   status: 'pending' | 'confirmed' | 'failed';
-  chainSpecific?: Record<string, any>;
+  chainSpecific?: Record<string, unknown>;
+}
+
+/**
+ * Funds to lock in a hash time-locked escrow
+ *
+ * The `side` offsets of `timelocks` start when the lock is mined;
+ * `recipient` receives the funds when the secret is revealed.
+ */
+export interface HashLockParams {
+  hashLock: string;
+  recipient: string;
+  asset: UniversalAsset;
+  amount: string;
+  side: EscrowSide;
+  timelocks: Timelocks;
+}
+
+/**
+ * Escrow a resolver is expected to have deployed
+ *
+ * `maker` receives the funds on withdrawal; `txHash` is the deployment
+ * transaction reported by the relayer. `safetyDeposit` is the native
+ * deposit the order requires of resolvers, where escrows take one.
+ */
+export interface ExpectedEscrow {
+  address: string;
+  txHash: string;
+  orderHash: string;
+  hashLock: string;
+  maker: string;
+  asset: UniversalAsset;
+  amount: string;
+  timelocks: Timelocks;
+  safetyDeposit?: string;
+}
+
+/**
+ * Fusion+ escrow to cancel
+ *
+ * The escrow's immutables are rebuilt from its deployment `txHash`; the
+ * destination escrow's also need `maker` (the receiver), `asset`, `amount`
+ * and `safetyDeposit`. `hashLock` is unknown for escrows of multiple-fill
+ * orders whose fill was never linked, and is then read from the deployment.
+ */
+export interface EscrowCancellation {
+  address: string;
+  txHash: string;
+  orderHash: string;
+  hashLock?: string;
+  maker: string;
+  asset: UniversalAsset;
+  amount: string;
+  safetyDeposit?: string;
+  escrow: EscrowTimelocks;
+  action: Extract<EscrowAction, 'cancel' | 'publicCancel'>;
+}
+
+/**
+ * Escrow deployment as observed on-chain
+ *
+ * `mismatches` describes every way the deployment differs from what was
+ * expected; empty when the escrow matches. `transient` are differences
+ * read from current chain state, which a lagging node may still report
+ * differently, so they are checked again rather than held against the escrow.
+ */
+export interface EscrowInspection {
+  blockNumber: number;
+  confirmations: number;
+  deployedAt: number;
+  mismatches: string[];
+  transient: string[];
 }
 
 /**
@@ -46,12 +119,15 @@ export interface IChainAdapter {
   getTransactionStatus(txHash: string): Promise<ChainTxResult>;
 
   // Asset operations
+  getAssetMetadata(address: string, tokenId?: string): Promise<UniversalAsset>;
   approveAsset(asset: UniversalAsset, spender: string, amount: string): Promise<ChainTxResult>;
   getAssetAllowance(asset: UniversalAsset, owner: string, spender: string): Promise<string>;
 
   // Order-specific operations
   createOrder(order: UniversalOrder): Promise<string>;
-  cancelOrder(orderHash: string): Promise<ChainTxResult>;
+  signOrder(order: UniversalOrder): Promise<string>;
+  /** `makerTraits` are the signed order's, which the protocol checks the cancellation against */
+  cancelOrder(orderHash: string, makerTraits: string): Promise<ChainTxResult>;
   fillOrder(orderHash: string, fillAmount: string, secret: string): Promise<ChainTxResult>;
 
   // Event monitoring
@@ -60,9 +136,13 @@ export interface IChainAdapter {
   getOrderEvents(orderHash: string): Promise<ChainEvent[]>;
 
   // Hash lock operations
-  createHashLock(secret: string, timelock: number): Promise<string>;
-  revealSecret(hashLock: string, secret: string): Promise<ChainTxResult>;
-  refundHashLock(hashLock: string): Promise<ChainTxResult>;
+  createHashLock(secret: string, timelocks: Timelocks): Promise<string>;
+  lockFunds(params: HashLockParams): Promise<ChainTxResult>;
+  revealSecret(hashLock: string, secret: string, escrow: EscrowTimelocks): Promise<ChainTxResult>;
+  refundHashLock(hashLock: string, escrow: EscrowTimelocks): Promise<ChainTxResult>;
+  cancelEscrow(cancellation: EscrowCancellation): Promise<ChainTxResult>;
+  /** Resolves undefined while the deployment is not yet mined */
+  inspectEscrow(expected: ExpectedEscrow): Promise<EscrowInspection | undefined>;
 
   // Chain-specific utilities
   estimateGas(txParams: UniversalTxParams): Promise<string>;
@@ -75,12 +155,17 @@ export interface IChainAdapter {
  */
 export interface ChainConfig {
   rpcUrl: string;
+  signer?: ISigner;
+  /** @deprecated Pass a `signer` so keys do not live in chain config */
   privateKey?: string;
+  /** @deprecated Pass a `signer` so keys do not live in chain config */
   mnemonic?: string;
   apiKey?: string;
   networkId?: string | number;
   contractAddresses?: Record<string, string>;
-  customParams?: Record<string, any>;
+  /** Blocks on top of a transaction before it is treated as final */
+  confirmations?: number;
+  customParams?: Record<string, unknown>;
 }
 
 /**
@@ -92,7 +177,7 @@ export interface ChainEvent {
   txHash: string;
   blockNumber: number;
   timestamp: number;
-  data: Record<string, any>;
+  data: Record<string, unknown>;
 }
 
 /**
@@ -127,6 +212,13 @@ export abstract class BaseChainAdapter implements IChainAdapter {
     }
   }
 
+  /**
+   * Fusion+ escrows only exist on chains with the escrow factory; others settle through HTLCs
+   */
+  cancelEscrow(cancellation: EscrowCancellation): Promise<ChainTxResult> {
+    return Promise.reject(new Error(`Cannot cancel escrow ${cancellation.address}: ${this.chainName} has no Fusion+ escrows`));
+  }
+
   // Abstract methods that must be implemented by each chain adapter
   abstract getAddress(): Promise<string>;
   abstract getBalance(asset: UniversalAsset, address?: string): Promise<string>;
@@ -135,17 +227,21 @@ export abstract class BaseChainAdapter implements IChainAdapter {
   abstract signMessage(message: string): Promise<string>;
   abstract broadcastTransaction(signedTx: string): Promise<ChainTxResult>;
   abstract getTransactionStatus(txHash: string): Promise<ChainTxResult>;
+  abstract getAssetMetadata(address: string, tokenId?: string): Promise<UniversalAsset>;
   abstract approveAsset(asset: UniversalAsset, spender: string, amount: string): Promise<ChainTxResult>;
   abstract getAssetAllowance(asset: UniversalAsset, owner: string, spender: string): Promise<string>;
   abstract createOrder(order: UniversalOrder): Promise<string>;
-  abstract cancelOrder(orderHash: string): Promise<ChainTxResult>;
+  abstract signOrder(order: UniversalOrder): Promise<string>;
+  abstract cancelOrder(orderHash: string, makerTraits: string): Promise<ChainTxResult>;
   abstract fillOrder(orderHash: string, fillAmount: string, secret: string): Promise<ChainTxResult>;
   abstract subscribeToEvents(eventTypes: string[], callback: (event: ChainEvent) => void): Promise<void>;
   abstract unsubscribeFromEvents(): Promise<void>;
   abstract getOrderEvents(orderHash: string): Promise<ChainEvent[]>;
-  abstract createHashLock(secret: string, timelock: number): Promise<string>;
-  abstract revealSecret(hashLock: string, secret: string): Promise<ChainTxResult>;
-  abstract refundHashLock(hashLock: string): Promise<ChainTxResult>;
+  abstract createHashLock(secret: string, timelocks: Timelocks): Promise<string>;
+  abstract lockFunds(params: HashLockParams): Promise<ChainTxResult>;
+  abstract revealSecret(hashLock: string, secret: string, escrow: EscrowTimelocks): Promise<ChainTxResult>;
+  abstract refundHashLock(hashLock: string, escrow: EscrowTimelocks): Promise<ChainTxResult>;
+  abstract inspectEscrow(expected: ExpectedEscrow): Promise<EscrowInspection | undefined>;
   abstract estimateGas(txParams: UniversalTxParams): Promise<string>;
   abstract getCurrentBlockNumber(): Promise<number>;
   abstract getBlockTimestamp(blockNumber?: number): Promise<number>;
@@ -157,5 +253,5 @@ export abstract class BaseChainAdapter implements IChainAdapter {
 export interface IChainAdapterFactory {
   createAdapter(chainId: string | number): IChainAdapter;
   getSupportedChains(): (string | number)[];
-  registerAdapter(chainId: string | number, adapterClass: new () => IChainAdapter): void;
+  registerAdapter(chainId: string | number, adapterFactory: () => IChainAdapter): void;
 }
@@ -1,3 +1,5 @@
+import type { TransactionRequest, TypedDataDomain, TypedDataField } from 'ethers';
+
 export enum TransactionStatus {
   PENDING,
   CONFIRMED,
@@ -6,8 +8,13 @@ export enum TransactionStatus {
 
 export interface IConnector {
   getAddress(): Promise<string>;
-  signTransaction(transaction: any): Promise<string>;
+  signTransaction(transaction: TransactionRequest): Promise<string>;
   signMessage(message: string): Promise<string>;
+  signTypedData?(
+    domain: TypedDataDomain,
+    types: Record<string, TypedDataField[]>,
+    value: Record<string, unknown>
+  ): Promise<string>;
   broadcastTransaction(signedTransaction: string): Promise<string>;
   getTransactionStatus(transactionHash: string): Promise<TransactionStatus>;
   getNonce(address: string): Promise<number>;
@@ -0,0 +1,69 @@
+import type { ResolverOrder } from './IResolverStrategy';
+
+/**
+ * An escrow deployed by the resolver, with the windows that govern it
+ *
+ * `immutables` is the escrow's immutables in JSON form, as needed to
+ * withdraw from or cancel it. Window times are unix seconds; on the
+ * destination chain `publicCancellableAt` is unset (only the resolver
+ * can cancel there).
+ */
+export interface EscrowDeployment {
+  side: 'src' | 'dst';
+  chainId: string | number;
+  address: string;
+  txHash: string;
+  immutables: Record<string, string>;
+  amount: bigint;
+  deployedAt: number;
+  withdrawableAt: number;
+  publicWithdrawableAt: number;
+  cancellableAt: number;
+  publicCancellableAt?: number;
+  details?: Record<string, string>; // Executor-specific data for later steps
+}
+
+/**
+ * A fill of (part of) an order: how much, and which secret unlocks it
+ */
+export interface FillPlan {
+  makingAmount: bigint;
+  takingAmount: bigint;
+  secretIndex: number;
+  secretHash?: string;
+}
+
+/**
+ * Raised when a transaction was broadcast but not mined in time; it may still be
+ */
+export class TransactionTimeoutError extends Error {
+  constructor(
+    public readonly chainId: string | number,
+    public readonly txHash: string
+  ) {
+    super(`Transaction ${txHash} on chain ${chainId} not mined in time`);
+    this.name = 'TransactionTimeoutError';
+  }
+}
+
+/**
+ * Executes the on-chain side of a fill through the chain adapters
+ *
+ * `getSrcEscrow` reads the escrow a mined `deploySrcEscrow` transaction
+ * created, for deployments that timed out before being mined.
+ */
+export interface IEscrowExecutor {
+  deploySrcEscrow(order: ResolverOrder, plan: FillPlan): Promise<EscrowDeployment>;
+  getSrcEscrow(order: ResolverOrder, txHash: string): Promise<EscrowDeployment>;
+  deployDstEscrow(order: ResolverOrder, src: EscrowDeployment): Promise<EscrowDeployment>;
+  withdraw(escrow: EscrowDeployment, secret: string): Promise<string>;
+  cancel(escrow: EscrowDeployment): Promise<string>;
+}
+
+/**
+ * Where the resolver discovers orders and learns their secrets
+ */
+export interface IResolverOrderSource {
+  fetchActiveOrders(): Promise<ResolverOrder[]>;
+  getPublishedSecret(orderHash: string, secretIndex: number): Promise<string | undefined>;
+}
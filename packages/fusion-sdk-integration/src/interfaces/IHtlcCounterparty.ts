@@ -0,0 +1,78 @@
+import type { UniversalAsset } from '../utils/fusionUtils';
+import type { Timelocks } from '../utils/timelocks';
+
+/**
+ * A swap the maker would like a counterparty to price
+ *
+ * `amount` is in source base units; `maker` is the maker's source-chain address.
+ */
+export interface HtlcQuoteRequest {
+  srcChain: string | number;
+  dstChain: string | number;
+  srcAsset: UniversalAsset;
+  dstAsset: UniversalAsset;
+  amount: string;
+  maker: string;
+}
+
+/**
+ * The counterparty's offer: `dstAmount` (destination base units) for the
+ * source amount, with `resolver` the source-chain address it is paid at
+ */
+export interface HtlcQuote {
+  resolver: string;
+  dstAmount: string;
+}
+
+/**
+ * A swap whose source funds the maker has locked
+ *
+ * The counterparty must lock at least `minReturn` of `dstAsset` for
+ * `receiver` on the destination chain under the same `hashLock`, with the
+ * destination delays of `timelocks`, before `deadline`. The source lock
+ * (`srcTxHash`, mined at `srcLockedAt`) pays `resolver` once the maker's
+ * secret is revealed on the destination chain.
+ */
+export interface HtlcSwap {
+  orderHash: string;
+  srcChain: string | number;
+  dstChain: string | number;
+  srcAsset: UniversalAsset;
+  dstAsset: UniversalAsset;
+  amount: string;
+  minReturn: string;
+  maker: string;
+  receiver: string;
+  resolver: string;
+  hashLock: string;
+  timelocks: Timelocks;
+  deadline: number;
+  srcTxHash: string;
+  srcLockedAt: number;
+}
+
+/**
+ * Destination lock reported by the counterparty
+ *
+ * `address` identifies the escrow as the destination adapter's
+ * `inspectEscrow` expects it: the HTLC contract on EVM chains, the
+ * `Escrow` object on Sui.
+ */
+export interface HtlcDstLock {
+  address: string;
+  txHash: string;
+  amount: string;
+}
+
+/**
+ * Resolver taking the other side of self-hosted HTLC swaps
+ *
+ * The maker never trusts what is reported here: destination locks are
+ * checked on-chain before the secret is revealed.
+ */
+export interface IHtlcCounterparty {
+  quote(request: HtlcQuoteRequest): Promise<HtlcQuote>;
+  notifySrcLocked(swap: HtlcSwap): Promise<void>;
+  /** Resolves undefined while the counterparty has not locked yet */
+  getDstLock(orderHash: string): Promise<HtlcDstLock | undefined>;
+}
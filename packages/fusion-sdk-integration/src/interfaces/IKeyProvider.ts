@@ -0,0 +1,19 @@
+/**
+ * Freshly generated data key, in plaintext and wrapped by the key-encryption key
+ */
+export interface DataKey {
+  keyId: string;
+  plaintext: Buffer;
+  wrapped: string;
+}
+
+/**
+ * Source of envelope keys for the secret vault
+ *
+ * Mirrors the data-key API of cloud KMS services: the key-encryption key
+ * never leaves the provider, callers only handle per-order data keys.
+ */
+export interface IKeyProvider {
+  generateDataKey(): Promise<DataKey>;
+  unwrapDataKey(keyId: string, wrapped: string): Promise<Buffer>;
+}
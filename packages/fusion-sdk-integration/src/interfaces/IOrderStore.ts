@@ -0,0 +1,28 @@
+import type { SealedSecretSet } from '../secrets/SecretVault';
+import type { OrderStatus, UniversalOrder } from '../utils/fusionUtils';
+
+/**
+ * Filter for listing stored orders
+ */
+export interface OrderStoreFilter {
+  statuses?: OrderStatus[];
+  maker?: string;
+}
+
+/**
+ * Persistence for fusion orders and their hash-lock secrets
+ *
+ * Secrets are stored apart from orders, sealed by the `SecretVault`, so that
+ * a restarted process can still reveal them to resolvers and release funds
+ * from escrow.
+ */
+export interface IOrderStore {
+  saveOrder(order: UniversalOrder): Promise<void>;
+  getOrder(orderHash: string): Promise<UniversalOrder | undefined>;
+  listOrders(filter?: OrderStoreFilter): Promise<UniversalOrder[]>;
+  deleteOrder(orderHash: string): Promise<void>;
+
+  saveSecrets(orderHash: string, secrets: SealedSecretSet): Promise<void>;
+  getSecrets(orderHash: string): Promise<SealedSecretSet | undefined>;
+  deleteSecrets(orderHash: string): Promise<void>;
+}
@@ -0,0 +1,60 @@
+/**
+ * An active cross-chain order as seen by the resolver
+ *
+ * Amounts are in base units; times are unix seconds. `raw` carries the
+ * source-specific data the escrow executor needs to fill the order.
+ */
+export interface ResolverOrder {
+  orderHash: string;
+  srcChain: string | number;
+  dstChain: string | number;
+  maker: string;
+  srcToken: string;
+  dstToken: string;
+  makingAmount: bigint;
+  takingAmount: bigint;
+  remainingMakingAmount: bigint;
+  auctionStartTime: number;
+  auctionEndTime: number;
+  deadline: number;
+  srcSafetyDeposit: bigint;
+  dstSafetyDeposit: bigint;
+  partialFillAllowed: boolean;
+  multipleFillsAllowed: boolean;
+  secretHashes?: string[];
+  /** Destination amount owed for `makingAmount` if filled at `time` (Dutch auction price) */
+  getTakingAmount(makingAmount: bigint, time: number): bigint;
+  raw: unknown;
+}
+
+/**
+ * What a strategy wants done with an order
+ *
+ * - `fill`: take `makingAmount` of the source asset now
+ * - `wait`: re-evaluate later, e.g. once the auction price has decayed
+ * - `skip`: leave the order to other resolvers
+ */
+export type FillDecision =
+  | { action: 'fill'; makingAmount: bigint; reason?: string }
+  | { action: 'wait'; reason: string; retryAt?: number }
+  | { action: 'skip'; reason: string };
+
+/**
+ * Resolver state available to strategies
+ */
+export interface ResolverContext {
+  now: number;
+  getInventory(chainId: string | number, token: string): Promise<bigint>;
+  getNativeBalance(chainId: string | number): Promise<bigint>;
+}
+
+/**
+ * Pluggable fill policy; the engine fills only when every strategy agrees
+ *
+ * `makingAmount` is the fill to evaluate, the remaining amount by default;
+ * a strategy may answer with a smaller fill but never a larger one.
+ */
+export interface IResolverStrategy {
+  readonly name: string;
+  evaluate(order: ResolverOrder, context: ResolverContext, makingAmount?: bigint): Promise<FillDecision>;
+}
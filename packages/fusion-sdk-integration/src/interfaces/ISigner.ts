@@ -0,0 +1,24 @@
+import type { TypedDataDomain, TypedDataField } from 'ethers';
+import type { UniversalTxParams } from '../utils/fusionUtils';
+import type { SignatureScheme } from './IChainAdapter';
+
+/**
+ * Signer interface that chain adapters delegate signing to
+ *
+ * Implementations may hold a key locally, derive it from a mnemonic,
+ * forward requests to a remote signing service or to a browser wallet.
+ * Transactions handed to a signer are fully populated by the adapter.
+ * EVM signers also sign EIP-712 typed data, used for order signatures.
+ */
+export interface ISigner {
+  readonly signatureScheme: SignatureScheme;
+
+  getAddress(): Promise<string>;
+  signTransaction(txParams: UniversalTxParams): Promise<string>;
+  signMessage(message: string): Promise<string>;
+  signTypedData?(
+    domain: TypedDataDomain,
+    types: Record<string, TypedDataField[]>,
+    value: Record<string, unknown>
+  ): Promise<string>;
+}
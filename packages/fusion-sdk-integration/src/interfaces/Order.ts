@@ -1,3 +1,5 @@
+import type { OrderStatus } from '../utils/fusionUtils';
+
 export interface Order {
   id: string;
   fromToken: string;
@@ -7,4 +9,7 @@ export interface Order {
   makerAddress: string;
   deadline: number;
   signature?: string; // Signature will be added by the maker
+  srcChain?: string | number; // Set for cross-chain orders
+  dstChain?: string | number;
+  status?: OrderStatus;
 }
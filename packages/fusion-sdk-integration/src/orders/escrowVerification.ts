@@ -0,0 +1,92 @@
+import type { ExpectedEscrow, IChainAdapter } from '../interfaces/IChainAdapter';
+import type { OrderEscrow, UniversalOrder } from '../utils/fusionUtils';
+
+/**
+ * Result of checking a destination escrow before revealing its secret
+ *
+ * `pending` checks are retried on the next poll; `rejected` ones mean the
+ * secret must never be revealed for that fill. `deployedAt` is the
+ * escrow's creation time on-chain, once mined.
+ */
+export interface EscrowVerification {
+  status: 'verified' | 'pending' | 'rejected';
+  confirmations: number;
+  requiredConfirmations: number;
+  reasons: string[];
+  deployedAt?: number;
+}
+
+/**
+ * Raised when a destination escrow does not hold what the maker is owed
+ */
+export class EscrowVerificationError extends Error {
+  constructor(
+    public readonly escrow: string,
+    public readonly reasons: string[]
+  ) {
+    super(`Escrow ${escrow} failed verification: ${reasons.join('; ')}`);
+    this.name = 'EscrowVerificationError';
+  }
+}
+
+/**
+ * Independently confirm, through the destination chain, that a fill's
+ * destination escrow exists with the order's token, a fair amount, the
+ * fill's hash lock and the order's timelocks, and is `requiredConfirmations` deep
+ */
+export async function verifyDstEscrow(
+  adapter: IChainAdapter,
+  order: UniversalOrder,
+  escrow: OrderEscrow,
+  requiredConfirmations: number
+): Promise<EscrowVerification> {
+  const result = (
+    status: EscrowVerification['status'],
+    reasons: string[],
+    confirmations = 0,
+    deployedAt?: number
+  ): EscrowVerification => ({ status, confirmations, requiredConfirmations, reasons, deployedAt });
+
+  if (!order.timelocks) {
+    return result('pending', ['timelocks not reported yet']);
+  }
+  if (!escrow.hashLock) {
+    return result('pending', ['secret index not linked yet']);
+  }
+
+  // The destination amount must cover the maker's minimum return pro rata
+  const srcEscrow = order.escrows?.find(other => other.side === 'src' && other.idx === escrow.idx);
+  if (!srcEscrow) {
+    return result('pending', ['source escrow not reported yet']);
+  }
+  if (BigInt(escrow.amount) * BigInt(order.amount) < BigInt(order.minReturn) * BigInt(srcEscrow.amount)) {
+    return result('rejected', [`${escrow.amount} for ${srcEscrow.amount} is below the minimum return of ${order.minReturn} for ${order.amount}`]);
+  }
+
+  const expected: ExpectedEscrow = {
+    address: escrow.address,
+    txHash: escrow.txHash,
+    orderHash: order.orderHash,
+    hashLock: escrow.hashLock,
+    maker: order.receiver ?? order.maker,
+    asset: order.dstAsset,
+    amount: escrow.amount,
+    timelocks: order.timelocks,
+    safetyDeposit: order.dstSafetyDeposit
+  };
+  const inspection = await adapter.inspectEscrow(expected);
+  if (!inspection) {
+    return result('pending', [`deployment ${escrow.txHash} not mined yet`]);
+  }
+  if (inspection.mismatches.length > 0) {
+    return result('rejected', inspection.mismatches, inspection.confirmations, inspection.deployedAt);
+  }
+  if (inspection.transient.length > 0) {
+    return result('pending', inspection.transient, inspection.confirmations, inspection.deployedAt);
+  }
+  if (inspection.confirmations < requiredConfirmations) {
+    return result('pending', [`${inspection.confirmations}/${requiredConfirmations} confirmations`], inspection.confirmations, inspection.deployedAt);
+  }
+
+  return result('verified', [], inspection.confirmations, inspection.deployedAt);
+}
@@ -1,19 +1,44 @@
 import "dotenv/config";
-import { SDK as CrossChainSDK, HashLock, NetworkEnum } from "@1inch/cross-chain-sdk";
-import { solidityPackedKeccak256 } from 'ethers';
-import { IChainAdapter, ChainConfig } from '../interfaces/IChainAdapter';
-import { chainAdapterFactory, SUPPORTED_CHAINS, getChainName } from '../adapters/ChainAdapterFactory';
+import { EventEmitter } from 'node:events';
+import { SDK as CrossChainSDK, EvmCrossChainOrder, type PresetEnum, type CustomPreset, type OrderStatusResponse, type Quote } from "@1inch/cross-chain-sdk";
+import type { IChainAdapter, ChainConfig, ChainTxResult } from '../interfaces/IChainAdapter';
+import type { ISigner } from '../interfaces/ISigner';
+import type { IOrderStore } from '../interfaces/IOrderStore';
+import type { IHtlcCounterparty } from '../interfaces/IHtlcCounterparty';
+import { InMemoryOrderStore } from '../stores/InMemoryOrderStore';
+import { SecretVault } from '../secrets/SecretVault';
+import { EnvKeyProvider, LocalKmsKeyProvider } from '../secrets/keyProviders';
+import { type FusionOrderEvents, type OrderLifecycleEvent, createOrderWatcher, snapshotOrder } from './orderEvents';
+import { deriveOrderStatus, isTerminalStatus, rollbackOrder, transitionOrder } from './orderStateMachine';
+import { type PollOutcome, type PollingGroupMetrics, type PollingScheduler, pollingScheduler } from '../core/PollingScheduler';
+import { type TransactionReorg, TransactionWatcher } from '../core/TransactionWatcher';
+import { type AuctionPresetChoice, priceOrder } from './orderPricing';
+import {
+  OrderRecoveryWorker,
+  type RecoveryRole,
+  getRecoveryOutcome,
+  linkFillEscrows,
+  syncOrderEscrows
+} from './orderRecovery';
+import { recordFill, validateFillSecret } from '../utils/partialFills';
+import { EscrowVerificationError, verifyDstEscrow } from './escrowVerification';
+import { getHtlcDeadline, recordDstLock, selectExecutionMode, toHtlcSwap } from './htlcOrders';
+import { DEFAULT_TIMELOCKS, type EscrowTimelocks, type Timelocks, isActionPermitted } from '../utils/timelocks';
+import { LocalKeySigner } from '../signers/LocalKeySigner';
+import { type TokenRegistry, tokenRegistry } from '../tokens/TokenRegistry';
+import { ApiClient } from '../utils/ApiClient';
+import { OrderNotFoundError } from '../utils/apiErrors';
+import { type ChainAdapterFactory, chainAdapterFactory, SUPPORTED_CHAINS } from '../adapters/ChainAdapterFactory';
 import {
   UniversalOrder,
-  UniversalAsset,
   OrderStatus,
   OrderFill,
+  type OrderEscrow,
+  type OrderExecutionMode,
   generateSecretsAndHashLock,
   validateOrderParams,
-  calculateOrderHash,
   getRandomBytes32,
-  sleep,
-  retry
+  sleep
 } from '../utils/fusionUtils';
 
 /**
@@ -22,11 +47,20 @@ import {
 export interface FusionOrderConfig {
   apiKey: string;
   apiUrl?: string;
-  makerPrivateKey: string;
   makerAddress: string;
   chainConfigs: Map<string | number, ChainConfig>;
+  orderStore?: IOrderStore;
+  secretVault?: SecretVault;
+  tokenRegistry?: TokenRegistry;
+  /** Creates the adapters and describes the chains; the shared factory by default */
+  adapterFactory?: ChainAdapterFactory;
+  scheduler?: PollingScheduler;
   pollingInterval?: number;
+  maxPollingInterval?: number;
   maxRetries?: number;
+  recoveryRole?: RecoveryRole;
+  /** Resolver taking the other side of `htlc` orders */
+  htlcCounterparty?: IHtlcCounterparty;
 }
 
 /**
@@ -42,34 +76,114 @@ export interface QuoteParams {
   walletAddress: string;
 }
 
+/**
+ * Order parameters: a quote request plus the maker's price and time limits
+ *
+ * `mode` defaults to `fusion` for EVM pairs and `htlc` otherwise; `receiver`
+ * and `timelocks` apply to `htlc` orders, where the receiver defaults to the
+ * destination adapter's address.
+ */
+export interface CreateOrderParams extends QuoteParams {
+  slippageBps?: number;
+  minReturn?: string;
+  preset?: AuctionPresetChoice;
+  customPreset?: CustomPreset;
+  deadline?: number;
+  mode?: OrderExecutionMode;
+  receiver?: string;
+  timelocks?: Timelocks;
+}
+
 /**
  * Generalized Fusion Order Manager for cross-chain atomic swaps
  * Supports multiple blockchain architectures through adapter pattern
+ * and emits typed lifecycle events (see `FusionOrderEvents`)
  */
-export class GeneralizedFusionOrderManager {
+export class GeneralizedFusionOrderManager extends EventEmitter<FusionOrderEvents> {
   private sdk: CrossChainSDK;
   private adapters: Map<string | number, IChainAdapter> = new Map();
   private activeOrders: Map<string, UniversalOrder> = new Map();
-  private orderSecrets: Map<string, string[]> = new Map();
-  private pollingIntervals: Map<string, NodeJS.Timeout> = new Map();
+  private monitoredOrders: Set<string> = new Set();
+  private readonly scheduler: PollingScheduler;
+  private readonly pollingGroup: string;
+  private readonly store: IOrderStore;
+  private readonly vault: SecretVault;
+  private readonly tokens: TokenRegistry;
+  private readonly chains: ChainAdapterFactory;
+  private readonly recovery: OrderRecoveryWorker;
+  private readonly watchers: Map<string | number, TransactionWatcher> = new Map();
+  private readonly escrowTxs: Map<string, { orderHash: string; chainId: string | number; txHash: string }> = new Map();
+  private readonly finalEscrowTxs: Map<string, string> = new Map(); // `${chainId}:${txHash}` → orderHash
   
   public readonly config: FusionOrderConfig;
+  public readonly ready: Promise<void>;
 
   constructor(config: FusionOrderConfig) {
+    super();
     this.config = {
       apiUrl: 'https://api.1inch.dev/fusion-plus',
       pollingInterval: 5000,
+      maxPollingInterval: 60000,
       maxRetries: 3,
       ...config
     };
 
-    // Initialize 1inch Cross-Chain SDK
+    // Initialize 1inch Cross-Chain SDK; requests go through the ApiClient for
+    // timeouts, rate-limit handling, idempotent retries and typed errors
     this.sdk = new CrossChainSDK({
       url: this.config.apiUrl!,
-      authKey: this.config.apiKey
+      authKey: this.config.apiKey,
+      httpProvider: new ApiClient(this.config.apiKey, {
+        baseUrl: this.config.apiUrl,
+        maxRetries: this.config.maxRetries
+      })
     });
 
-    this.initializeAdapters();
+    // One polling group per relayer API, shared by every order on it
+    this.scheduler = this.config.scheduler ?? pollingScheduler;
+    this.pollingGroup = `fusion-api:${this.config.apiUrl}`;
+    this.scheduler.configureGroup(this.pollingGroup, {
+      minIntervalMs: this.config.pollingInterval,
+      maxIntervalMs: this.config.maxPollingInterval
+    });
+
+    this.store = this.config.orderStore ?? new InMemoryOrderStore();
+    this.vault = this.config.secretVault ?? this.createDefaultVault();
+    this.tokens = this.config.tokenRegistry ?? tokenRegistry;
+    this.chains = this.config.adapterFactory ?? chainAdapterFactory;
+    this.recovery = new OrderRecoveryWorker(this.adapters, this.config.recoveryRole);
+    this.ready = this.initialize();
+    // Callers awaiting `ready` see the rejection; `error` listeners are told as well
+    this.ready.catch(error => {
+      if (this.listenerCount('error') > 0) {
+        this.emitError(error);
+      }
+    });
+  }
+
+  /**
+   * Build a vault keyed from FUSION_SECRET_KEY, or an ephemeral one for in-memory stores
+   *
+   * Secrets persisted under an ephemeral key could not be revealed after a
+   * restart, leaving the funds of resumed orders locked until refunded.
+   */
+  private createDefaultVault(): SecretVault {
+    const envProvider = EnvKeyProvider.fromEnv();
+    if (envProvider) {
+      return new SecretVault(this.store, envProvider);
+    }
+    if (!(this.store instanceof InMemoryOrderStore)) {
+      throw new Error('FUSION_SECRET_KEY (or a secretVault with a durable key provider) is required to persist orders');
+    }
+    return new SecretVault(this.store, new LocalKmsKeyProvider());
+  }
+
+  /**
+   * Connect adapters, then rehydrate persisted orders
+   */
+  private async initialize(): Promise<void> {
+    await this.initializeAdapters();
+    await this.rehydrateOrders();
   }
 
   /**
@@ -78,40 +192,55 @@ export class GeneralizedFusionOrderManager {
   private async initializeAdapters(): Promise<void> {
     for (const [chainId, chainConfig] of this.config.chainConfigs) {
       try {
-        const adapter = chainAdapterFactory.createAdapter(chainId);
+        const adapter = this.chains.createAdapter(chainId);
         await adapter.connect(chainConfig);
         this.adapters.set(chainId, adapter);
-        console.log(`✅ Connected to ${getChainName(chainId)} (${chainId})`);
+        this.emit('chainConnected', { chainId });
       } catch (error) {
-        console.error(`❌ Failed to connect to chain ${chainId}:`, error);
+        this.emit('chainUnavailable', { chainId, error: error instanceof Error ? error : new Error(String(error)) });
       }
     }
   }
 
+  /**
+   * Reload non-terminal orders from the store and resume monitoring them
+   */
+  private async rehydrateOrders(): Promise<void> {
+    const orders = await this.store.listOrders();
+    const resumable = orders.filter(order =>
+      order.orderHash && !isTerminalStatus(order.status)
+    );
+
+    for (const order of resumable) {
+      this.activeOrders.set(order.orderHash, order);
+      this.startOrderMonitoring(order.orderHash);
+    }
+  }
+
   /**
    * Get quote for cross-chain swap
    */
-  async getQuote(params: QuoteParams): Promise<any> {
-    console.log(`🔍 Getting quote for ${getChainName(params.srcChainId)} → ${getChainName(params.dstChainId)}`);
-    
-    return retry(async () => {
-      return await this.sdk.getQuote({
-        srcChainId: Number(params.srcChainId),
-        dstChainId: Number(params.dstChainId),
-        srcTokenAddress: params.srcTokenAddress,
-        dstTokenAddress: params.dstTokenAddress,
-        amount: params.amount,
-        enableEstimate: params.enableEstimate || true,
-        walletAddress: params.walletAddress
-      });
-    }, this.config.maxRetries);
+  async getQuote(params: QuoteParams, customPreset?: CustomPreset): Promise<Quote> {
+    const request = {
+      srcChainId: Number(params.srcChainId),
+      dstChainId: Number(params.dstChainId),
+      srcTokenAddress: params.srcTokenAddress,
+      dstTokenAddress: params.dstTokenAddress,
+      amount: params.amount,
+      enableEstimate: params.enableEstimate || true,
+      walletAddress: params.walletAddress
+    };
+
+    return await (customPreset
+      ? this.sdk.getQuoteWithCustomPreset(request, { customPreset })
+      : this.sdk.getQuote(request));
   }
 
   /**
    * Create and place a fusion order
    */
-  async createOrder(params: QuoteParams): Promise<string> {
-    console.log(`🚀 Creating fusion order...`);
+  async createOrder(params: CreateOrderParams): Promise<string> {
+    await this.ready;
     
     // Validate chain support
     const srcAdapter = this.adapters.get(params.srcChainId);
@@ -121,11 +250,39 @@ export class GeneralizedFusionOrderManager {
       throw new Error(`Unsupported chain pair: ${params.srcChainId} → ${params.dstChainId}`);
     }
 
+    const mode = params.mode ?? selectExecutionMode(params.srcChainId, params.dstChainId, this.chains);
+    if (mode === 'htlc') {
+      return this.createHtlcOrder(params, srcAdapter, dstAdapter);
+    }
+    if (selectExecutionMode(params.srcChainId, params.dstChainId, this.chains) === 'htlc') {
+      throw new Error(`Fusion+ does not support ${this.chains.getChainName(params.srcChainId)} → ${this.chains.getChainName(params.dstChainId)}; use htlc mode`);
+    }
+
+    if (params.preset === 'custom' && !params.customPreset) {
+      throw new Error('A customPreset is required when preset is "custom"');
+    }
+
     // Get quote from 1inch
-    const quote = await this.getQuote(params);
-    const secretsCount = quote.getPreset().secretsCount;
-    
-    console.log(`📋 Quote received, secrets needed: ${secretsCount}`);
+    const quote = await this.getQuote(params, params.preset === 'custom' ? params.customPreset : undefined);
+    const presetType: PresetEnum = (params.preset as PresetEnum | undefined) ?? quote.recommendedPreset;
+    const preset = quote.getPreset(presetType);
+    const secretsCount = preset.secretsCount;
+
+    // Refuse orders whose auction could end below the maker's limit
+    const pricing = priceOrder({
+      quotedAmount: BigInt(quote.dstTokenAmount),
+      auctionEndAmount: BigInt(preset.auctionEndAmount),
+      startAuctionIn: BigInt(preset.startAuctionIn),
+      auctionDuration: BigInt(preset.auctionDuration),
+      slippageBps: params.slippageBps,
+      minReturn: params.minReturn,
+      deadline: params.deadline
+    });
+
+    const [srcAsset, dstAsset] = await Promise.all([
+      this.tokens.resolve(srcAdapter, params.srcTokenAddress),
+      this.tokens.resolve(dstAdapter, params.dstTokenAddress)
+    ]);
 
     // Generate secrets and hash locks
     const { secrets, secretHashes, hashLock } = generateSecretsAndHashLock(secretsCount);
@@ -135,52 +292,53 @@ export class GeneralizedFusionOrderManager {
       orderHash: '', // Will be set after placement
       srcChain: params.srcChainId,
       dstChain: params.dstChainId,
-      srcAsset: {
-        chainId: params.srcChainId,
-        address: params.srcTokenAddress,
-        symbol: 'SRC', // Would be fetched from chain
-        decimals: 18,
-        standard: 'ERC20'
-      },
-      dstAsset: {
-        chainId: params.dstChainId,
-        address: params.dstTokenAddress,
-        symbol: 'DST',
-        decimals: 18,
-        standard: 'ERC20'
-      },
+      srcAsset,
+      dstAsset,
       amount: params.amount,
-      minReturn: '0', // Would be calculated from quote
+      minReturn: pricing.minReturn,
       maker: params.walletAddress,
-      deadline: Math.floor(Date.now() / 1000) + 3600, // 1 hour from now
+      deadline: pricing.deadline,
       status: OrderStatus.CREATED,
+      statusHistory: [],
       fills: [],
-      secrets,
       secretHashes,
-      hashLock
+      hashLock,
+      dstSafetyDeposit: quote.dstSafetyDeposit.toString()
     };
 
     // Validate order parameters
     validateOrderParams(order);
 
-    // Place order with 1inch
-    const quoteResponse = await retry(async () => {
-      return await this.sdk.placeOrder(quote, {
-        walletAddress: params.walletAddress,
-        hashLock,
-        secretHashes
-      });
-    }, this.config.maxRetries);
+    // Build the order locally so its hash is known before anything goes live
+    const prepared = this.sdk.createOrder(quote, {
+      walletAddress: params.walletAddress,
+      hashLock,
+      secretHashes,
+      preset: presetType
+    });
+    if (!(prepared.order instanceof EvmCrossChainOrder)) {
+      throw new Error(`Orders from ${this.chains.getChainName(params.srcChainId)} must be announced and created on-chain`);
+    }
 
-    const orderHash = quoteResponse.orderHash;
+    const orderHash = prepared.hash;
     order.orderHash = orderHash;
-    order.status = OrderStatus.PENDING;
+    order.makerTraits = prepared.order.build().makerTraits;
 
-    // Store order and secrets
+    // Seal and persist before submitting: once resolvers fill, only these secrets release the funds
+    await this.vault.seal(orderHash, secrets, secretHashes);
+    await this.store.saveOrder(order);
     this.activeOrders.set(orderHash, order);
-    this.orderSecrets.set(orderHash, secrets);
 
-    console.log(`✅ Order placed successfully: ${orderHash}`);
+    try {
+      await this.sdk.submitOrder(quote.srcChainId, prepared.order, prepared.quoteId, secretHashes);
+    } catch (error) {
+      await this.applyTransition(order, OrderStatus.FAILED, 'rejected by relayer');
+      throw error;
+    }
+    transitionOrder(order, OrderStatus.PENDING, 'placed with relayer');
+    await this.store.saveOrder(order);
+
+    this.emit('orderPlaced', { orderHash, order: snapshotOrder(order) });
     
     // Start monitoring the order
     this.startOrderMonitoring(orderHash);
@@ -188,22 +346,173 @@ export class GeneralizedFusionOrderManager {
     return orderHash;
   }
 
+  /**
+   * Lock the maker's funds in a self-hosted HTLC for a counterparty resolver
+   *
+   * The counterparty prices the swap, the source funds are locked for it
+   * under the hash of a fresh secret, and it is then asked to lock the
+   * destination side; monitoring settles the order from there.
+   */
+  private async createHtlcOrder(
+    params: CreateOrderParams,
+    srcAdapter: IChainAdapter,
+    dstAdapter: IChainAdapter
+  ): Promise<string> {
+    const counterparty = this.config.htlcCounterparty;
+    if (!counterparty) {
+      throw new Error('An htlcCounterparty is required for htlc orders');
+    }
+
+    const timelocks = params.timelocks ?? DEFAULT_TIMELOCKS;
+    const [srcAsset, dstAsset, receiver] = await Promise.all([
+      this.tokens.resolve(srcAdapter, params.srcTokenAddress),
+      this.tokens.resolve(dstAdapter, params.dstTokenAddress),
+      params.receiver ?? dstAdapter.getAddress()
+    ]);
+
+    const quote = await counterparty.quote({
+      srcChain: params.srcChainId,
+      dstChain: params.dstChainId,
+      srcAsset,
+      dstAsset,
+      amount: params.amount,
+      maker: params.walletAddress
+    });
+
+    // A firm quote: the worst case is the quoted amount itself
+    const now = Math.floor(Date.now() / 1000);
+    const pricing = priceOrder({
+      quotedAmount: BigInt(quote.dstAmount),
+      auctionEndAmount: BigInt(quote.dstAmount),
+      startAuctionIn: 0n,
+      auctionDuration: 0n,
+      slippageBps: params.slippageBps,
+      minReturn: params.minReturn,
+      deadline: params.deadline ?? getHtlcDeadline(timelocks, now),
+      now
+    });
+
+    const secret = getRandomBytes32();
+    const hashLock = await srcAdapter.createHashLock(secret, timelocks);
+
+    const order: UniversalOrder = {
+      orderHash: '',
+      srcChain: params.srcChainId,
+      dstChain: params.dstChainId,
+      srcAsset,
+      dstAsset,
+      amount: params.amount,
+      minReturn: pricing.minReturn,
+      maker: params.walletAddress,
+      receiver,
+      taker: quote.resolver,
+      deadline: pricing.deadline,
+      status: OrderStatus.CREATED,
+      statusHistory: [],
+      fills: [],
+      secretHashes: [hashLock],
+      hashLock,
+      timelocks,
+      mode: 'htlc'
+    };
+    validateOrderParams(order);
+
+    const orderHash = await srcAdapter.createOrder(order);
+    order.orderHash = orderHash;
+
+    // Seal and persist before locking: without the secret the funds only come back by refund
+    await this.vault.seal(orderHash, [secret], [hashLock]);
+    await this.store.saveOrder(order);
+
+    let lock: ChainTxResult;
+    try {
+      lock = await srcAdapter.lockFunds({
+        hashLock,
+        recipient: quote.resolver,
+        asset: srcAsset,
+        amount: params.amount,
+        side: 'src',
+        timelocks
+      });
+    } catch (error) {
+      await this.applyTransition(order, OrderStatus.FAILED, 'source lock not sent');
+      throw error;
+    }
+    if (lock.status === 'failed') {
+      await this.applyTransition(order, OrderStatus.FAILED, 'source lock reverted');
+      throw new Error(`Source lock ${lock.txHash} of order ${orderHash} reverted`);
+    }
+
+    order.escrows = [{
+      side: 'src',
+      chainId: params.srcChainId,
+      address: this.config.chainConfigs.get(params.srcChainId)?.contractAddresses?.htlc ?? '',
+      txHash: lock.txHash,
+      deployedAt: await srcAdapter.getBlockTimestamp(lock.blockNumber),
+      amount: params.amount,
+      idx: 0,
+      hashLock,
+      status: 'locked'
+    }];
+    transitionOrder(order, OrderStatus.PENDING, 'source funds locked');
+    await this.store.saveOrder(order);
+    this.activeOrders.set(orderHash, order);
+
+    this.emit('orderPlaced', { orderHash, order: snapshotOrder(order) });
+    this.startOrderMonitoring(orderHash);
+
+    // The lock is on-chain either way; without a destination lock recovery refunds it
+    try {
+      await counterparty.notifySrcLocked(toHtlcSwap(order));
+    } catch (error) {
+      this.emitError(error, orderHash);
+    }
+
+    return orderHash;
+  }
+
   /**
    * Start monitoring an order for fills
    */
   private startOrderMonitoring(orderHash: string): void {
-    console.log(`👀 Starting monitoring for order: ${orderHash}`);
-    
-    const intervalId = setInterval(async () => {
-      try {
+    this.scheduler.schedule(this.pollingGroup, orderHash, async () => {
+      const outcome = await this.pollOrder(orderHash);
+      // The scheduler drops finished tasks by itself; forget the order as well
+      if (outcome === 'done') {
+        this.stopOrderMonitoring(orderHash);
+      }
+      return outcome;
+    });
+    this.monitoredOrders.add(orderHash);
+  }
+
+  /**
+   * One monitoring pass; errors propagate so the scheduler backs off
+   */
+  private async pollOrder(orderHash: string): Promise<PollOutcome> {
+    const order = this.activeOrders.get(orderHash);
+    if (!order || isTerminalStatus(order.status)) {
+      return 'done';
+    }
+
+    const before = `${order.status}:${order.fills.length}`;
+    try {
+      if (order.mode === 'htlc') {
+        await this.processHtlcOrder(order);
+      } else {
         await this.checkOrderStatus(orderHash);
         await this.processOrderFills(orderHash);
-      } catch (error) {
-        console.error(`❌ Error monitoring order ${orderHash}:`, error);
       }
-    }, this.config.pollingInterval);
+      await this.recoverOrder(order);
+    } catch (error) {
+      this.emitError(error, orderHash);
+      throw error;
+    }
 
-    this.pollingIntervals.set(orderHash, intervalId);
+    if (isTerminalStatus(order.status)) {
+      return 'done';
+    }
+    return `${order.status}:${order.fills.length}` === before ? 'unchanged' : 'changed';
   }
 
   /**
@@ -213,20 +522,37 @@ export class GeneralizedFusionOrderManager {
     const order = this.activeOrders.get(orderHash);
     if (!order) return;
 
+    let orderStatus: OrderStatusResponse;
     try {
-      const orderStatus = await this.sdk.getOrderStatus(orderHash);
-      
-      if (orderStatus.status === 'executed') {
-        order.status = OrderStatus.EXECUTED;
-        this.stopOrderMonitoring(orderHash);
-        console.log(`🎉 Order ${orderHash} completed successfully!`);
-      } else if (orderStatus.status === 'cancelled') {
-        order.status = OrderStatus.CANCELLED;
-        this.stopOrderMonitoring(orderHash);
-        console.log(`❌ Order ${orderHash} was cancelled`);
-      }
+      orderStatus = await this.sdk.getOrderStatus(orderHash);
     } catch (error) {
-      console.error(`Error checking order status:`, error);
+      // Persisted before submission, then interrupted: the relayer never saw it
+      if (error instanceof OrderNotFoundError && order.status === OrderStatus.CREATED) {
+        await this.applyTransition(order, OrderStatus.FAILED, 'never reached the relayer');
+        return;
+      }
+      throw error;
+    }
+    if (syncOrderEscrows(order, orderStatus)) {
+      await this.store.saveOrder(order);
+    }
+    this.watchEscrows(order);
+    
+    if (orderStatus.status === 'executed') {
+      await this.applyTransition(order, OrderStatus.EXECUTED, 'relayer reported executed');
+    } else if (this.recovery.getLockedEscrows(order).length > 0) {
+      // Funds are still locked in escrow; the recovery pass settles the order
+    } else if (orderStatus.status === 'cancelled') {
+      await this.applyTransition(order, OrderStatus.CANCELLED, 'relayer reported cancelled');
+    } else if (orderStatus.status === 'expired') {
+      await this.applyTransition(order, OrderStatus.EXPIRED, 'relayer reported expired');
+    } else if (orderStatus.status === 'refunded') {
+      await this.applyTransition(order, OrderStatus.FAILED, 'escrow refunded');
+    } else {
+      const derived = deriveOrderStatus(order);
+      if (derived !== order.status) {
+        await this.applyTransition(order, derived, 'derived from deadline and fills');
+      }
     }
   }
 
@@ -234,77 +560,393 @@ export class GeneralizedFusionOrderManager {
    * Process order fills and submit secrets
    */
   private async processOrderFills(orderHash: string): Promise<void> {
-    const secrets = this.orderSecrets.get(orderHash);
-    if (!secrets) return;
+    const order = this.activeOrders.get(orderHash);
+    if (!order || !(await this.vault.hasSecrets(orderHash))) {
+      return;
+    }
 
     try {
       const fillsObject = await this.sdk.getReadyToAcceptSecretFills(orderHash);
       
       if (fillsObject.fills.length > 0) {
-        console.log(`🔓 Found ${fillsObject.fills.length} fills ready for secrets`);
-        
-        for (const fill of fillsObject.fills) {
+        // Secrets are revealed in index order, so earlier fills are recorded first
+        const fills = [...fillsObject.fills].sort((a, b) => a.idx - b.idx);
+        for (const fill of fills) {
+          if (linkFillEscrows(order, fill)) {
+            await this.store.saveOrder(order);
+          }
+          if (order.fills.some(existing => existing.idx === fill.idx)) {
+            continue;
+          }
+
+          const srcEscrow = order.escrows?.find(escrow => escrow.side === 'src' && escrow.idx === fill.idx);
+          const dstEscrow = order.escrows?.find(escrow => escrow.side === 'dst' && escrow.idx === fill.idx);
+          if (!srcEscrow || !dstEscrow) {
+            continue;
+          }
+          if (dstEscrow.rejection) { continue; // Never revealed; recovery refunds the source escrow
+}
+          this.emit('fillReady', { orderHash, order: snapshotOrder(order), idx: fill.idx });
+
           try {
-            await this.sdk.submitSecret(orderHash, secrets[fill.idx]);
-            console.log(`✅ Secret submitted for fill ${fill.idx}`);
+            validateFillSecret(order, fill.idx, BigInt(srcEscrow.amount));
+            if (!(await this.verifyDstEscrow(order, dstEscrow))) {
+              continue;
+            }
+
+            // A fill rolled back by a reorg comes back with its secret already submitted
+            if (!(await this.vault.isZeroized(orderHash, fill.idx))) {
+              const secret = await this.vault.reveal(orderHash, fill.idx, 'submitSecret');
+              await this.sdk.submitSecret(orderHash, secret);
+              this.emit('secretSubmitted', { orderHash, order: snapshotOrder(order), idx: fill.idx });
+            }
             
             // Update order with fill information
-            const order = this.activeOrders.get(orderHash);
-            if (order) {
-              order.fills.push({
-                idx: fill.idx,
-                amount: (fill as any).amount || '0',
-                txHash: (fill as any).txHash || '',
-                timestamp: Math.floor(Date.now() / 1000),
-                resolver: (fill as any).resolver || ''
-              });
-            }
+            const orderFill: OrderFill = {
+              idx: fill.idx,
+              amount: srcEscrow.amount,
+              txHash: fill.srcEscrowDeployTxHash,
+              timestamp: Math.floor(Date.now() / 1000),
+              resolver: ''
+            };
+            recordFill(order, orderFill);
+            transitionOrder(order, OrderStatus.PARTIALLY_FILLED, `fill ${fill.idx} recorded`);
+            await this.store.saveOrder(order);
+
+            // The relayer now holds the secret, so the local copy is no longer needed
+            await this.vault.zeroize(orderHash, fill.idx);
+            this.emit('partiallyFilled', { orderHash, order: snapshotOrder(order), fill: { ...orderFill } });
           } catch (error) {
-            console.error(`❌ Error submitting secret for fill ${fill.idx}:`, error);
+            this.emitError(error, orderHash);
           }
         }
       }
     } catch (error) {
-      if ((error as any).response?.status !== 404) { // 404 is expected when no fills are ready
-        console.error(`Error processing fills:`, (error as Error).message);      }
+      if (!(error instanceof OrderNotFoundError)) { // expected when no fills are ready
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Settle an htlc order: pick up the counterparty's destination lock,
+   * verify it on-chain and withdraw it with the secret, which lets the
+   * resolver claim the source lock in turn
+   *
+   * Orders whose destination lock never arrives, or is rejected, are left
+   * to the recovery pass, which refunds the source lock.
+   */
+  private async processHtlcOrder(order: UniversalOrder): Promise<void> {
+    const { orderHash } = order;
+    const counterparty = this.config.htlcCounterparty;
+    if (!counterparty || !order.timelocks || !(await this.vault.hasSecrets(orderHash))) {
+      return;
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    let dstEscrow = order.escrows?.find(escrow => escrow.side === 'dst');
+    if (!dstEscrow) {
+      if (now > order.deadline) {
+        return;
+      }
+      const lock = await counterparty.getDstLock(orderHash);
+      if (!lock) {
+        return;
+      }
+
+      dstEscrow = recordDstLock(order, lock);
+      await this.store.saveOrder(order);
+      this.emit('fillReady', { orderHash, order: snapshotOrder(order), idx: 0 });
+    }
+    if (dstEscrow.status !== 'locked' || dstEscrow.rejection) {
+      return;
+    }
+
+    const dstAdapter = this.adapters.get(order.dstChain);
+    if (!dstAdapter) {
+      throw new Error(`No adapter for destination chain ${order.dstChain}`);
+    }
+
+    try {
+      if (!(await this.verifyDstEscrow(order, dstEscrow))) {
+        return;
+      }
+
+      const timelocks: EscrowTimelocks = { side: 'dst', timelocks: order.timelocks, deployedAt: dstEscrow.deployedAt };
+      if (!isActionPermitted(timelocks, 'withdraw', now)) {
+        return;
+      }
+
+      if (!dstEscrow.hashLock) {
+        throw new Error(`Destination lock of ${orderHash} has no hash lock`);
+      }
+      const secret = await this.vault.reveal(orderHash, 0, 'revealSecret');
+      const tx = await dstAdapter.revealSecret(dstEscrow.hashLock, secret, timelocks);
+      if (tx.status === 'failed') {
+        throw new Error(`Withdrawal ${tx.txHash} reverted`);
+      }
+      dstEscrow.status = 'withdrawn';
+      this.emit('secretSubmitted', { orderHash, order: snapshotOrder(order), idx: 0 });
+
+      const orderFill: OrderFill = {
+        idx: 0,
+        amount: order.amount,
+        txHash: tx.txHash,
+        timestamp: now,
+        resolver: order.taker ?? ''
+      };
+      recordFill(order, orderFill);
+      transitionOrder(order, OrderStatus.PARTIALLY_FILLED, 'destination lock withdrawn');
+      await this.store.saveOrder(order);
+
+      // The secret is public on the destination chain now
+      await this.vault.zeroize(orderHash, 0);
+      this.emit('partiallyFilled', { orderHash, order: snapshotOrder(order), fill: { ...orderFill } });
+      await this.applyTransition(order, OrderStatus.EXECUTED, 'destination funds received');
+    } catch (error) {
+      this.emitError(error, orderHash);
     }
   }
 
+  /**
+   * Watch the deployments of an order's locked escrows until they are final
+   *
+   * Final deployments are remembered so later polls do not watch them again.
+   */
+  private watchEscrows(order: UniversalOrder): void {
+    for (const escrow of order.escrows ?? []) {
+      const key = `${escrow.chainId}:${escrow.txHash.toLowerCase()}`;
+      if (escrow.status !== 'locked' || this.escrowTxs.has(key) || this.finalEscrowTxs.has(key)) {
+        continue;
+      }
+
+      const watcher = this.getWatcher(escrow.chainId);
+      if (!watcher) {
+        continue;
+      }
+      this.escrowTxs.set(key, { orderHash: order.orderHash, chainId: escrow.chainId, txHash: escrow.txHash });
+      watcher.watch(escrow.txHash);
+    }
+  }
+
+  /**
+   * One transaction watcher per chain, requiring the chain's confirmation depth
+   */
+  private getWatcher(chainId: string | number): TransactionWatcher | undefined {
+    const adapter = this.adapters.get(chainId);
+    if (!adapter) {
+      return undefined;
+    }
+
+    let watcher = this.watchers.get(chainId);
+    if (!watcher) {
+      watcher = new TransactionWatcher(adapter, this.scheduler, {
+        confirmations: this.config.chainConfigs.get(chainId)?.confirmations ?? this.chains.getDefaultConfirmations(chainId)
+      });
+      watcher.on('final', ({ txHash }) => {
+        const key = `${chainId}:${txHash.toLowerCase()}`;
+        const watched = this.escrowTxs.get(key);
+        if (!watched) {
+          return;
+        }
+        this.escrowTxs.delete(key);
+        this.finalEscrowTxs.set(key, watched.orderHash);
+      });
+      watcher.on('reorged', reorg => {
+        this.handleEscrowReorg(chainId, reorg).catch(error => this.emitError(error));
+      });
+      // Watched again if the relayer still reports the escrow
+      watcher.on('dropped', ({ txHash }) => {
+        this.escrowTxs.delete(`${chainId}:${txHash.toLowerCase()}`);
+      });
+      watcher.on('error', error => this.emitError(error));
+      this.watchers.set(chainId, watcher);
+    }
+    return watcher;
+  }
+
+  /**
+   * Undo what an order recorded from a reorged escrow deployment
+   *
+   * Escrows of the transaction are dropped (the relayer reports them again
+   * once re-mined) together with their fills; an order left without fills
+   * rolls back to PENDING.
+   */
+  private async handleEscrowReorg(chainId: string | number, reorg: TransactionReorg): Promise<void> {
+    const watched = this.escrowTxs.get(`${chainId}:${reorg.txHash.toLowerCase()}`);
+    const order = watched ? this.activeOrders.get(watched.orderHash) : undefined;
+    if (!order || isTerminalStatus(order.status)) {
+      return;
+    }
+
+    const reorged = (escrow: OrderEscrow) =>
+      escrow.chainId === chainId && escrow.txHash.toLowerCase() === reorg.txHash.toLowerCase();
+    const deployed = order.escrows ?? [];
+    const escrows = deployed.filter(reorged);
+    if (escrows.length === 0) {
+      return;
+    }
+
+    const idxs = new Set(escrows.map(escrow => escrow.idx));
+    order.escrows = deployed.filter(escrow => !reorged(escrow));
+    order.fills = order.fills.filter(fill => !idxs.has(fill.idx));
+    if (order.status === OrderStatus.PARTIALLY_FILLED && order.fills.length === 0) {
+      rollbackOrder(order, OrderStatus.PENDING, `escrow deployment ${reorg.txHash} reorged`);
+    }
+    await this.store.saveOrder(order);
+
+    this.emit('reorged', { orderHash: order.orderHash, order: snapshotOrder(order), chainId, txHash: reorg.txHash, escrows });
+  }
+
+  /**
+   * Check the destination escrow on-chain; true once it is verified and final
+   *
+   * A rejected escrow is recorded on the order and raised as an
+   * `EscrowVerificationError`, and its secret is never revealed.
+   */
+  private async verifyDstEscrow(order: UniversalOrder, escrow: OrderEscrow): Promise<boolean> {
+    if (escrow.verifiedAt) {
+      return true;
+    }
+
+    const adapter = this.adapters.get(order.dstChain);
+    if (!adapter) {
+      throw new Error(`No adapter for destination chain ${order.dstChain}`);
+    }
+    const requiredConfirmations = this.config.chainConfigs.get(order.dstChain)?.confirmations
+      ?? this.chains.getDefaultConfirmations(order.dstChain);
+
+    const verification = await verifyDstEscrow(adapter, order, escrow, requiredConfirmations);
+    if (verification.status === 'pending') {
+      return false;
+    }
+    if (verification.status === 'rejected') {
+      escrow.rejection = verification.reasons.join('; ');
+      await this.store.saveOrder(order);
+      throw new EscrowVerificationError(escrow.address, verification.reasons);
+    }
+
+    escrow.verifiedAt = Math.floor(Date.now() / 1000);
+    if (!escrow.deployedAt && verification.deployedAt) {
+      escrow.deployedAt = verification.deployedAt;
+    }
+    await this.store.saveOrder(order);
+    return true;
+  }
+
+  /**
+   * Refund escrows whose cancellation window has opened, then settle the order
+   */
+  private async recoverOrder(order: UniversalOrder): Promise<void> {
+    const { orderHash } = order;
+    if (isTerminalStatus(order.status) || this.recovery.getLockedEscrows(order).length === 0) {
+      return;
+    }
+
+    const result = await this.recovery.recover(order);
+    for (const { error } of result.failures) {
+      this.emitError(error, orderHash);
+    }
+
+    if (result.refunds.length > 0) {
+      await this.store.saveOrder(order);
+      this.emit('recovered', { orderHash, order: snapshotOrder(order), refunds: result.refunds });
+    }
+
+    const outcome = getRecoveryOutcome(order, result);
+    if (outcome) {
+      await this.applyTransition(order, outcome.status, outcome.reason);
+    }
+  }
+
+  /**
+   * Move an order to a new status, persist it and emit the matching event
+   *
+   * Terminal statuses also stop monitoring and wipe remaining secrets.
+   */
+  private async applyTransition(order: UniversalOrder, to: OrderStatus, reason: string): Promise<void> {
+    const { orderHash } = order;
+    if (!transitionOrder(order, to, reason)) {
+      return;
+    }
+
+    await this.store.saveOrder(order);
+
+    if (isTerminalStatus(to)) {
+      await this.vault.zeroizeAll(orderHash);
+      this.stopOrderMonitoring(orderHash);
+    }
+
+    switch (to) {
+      case OrderStatus.EXECUTED:
+        this.emit('executed', { orderHash, order: snapshotOrder(order) });
+        break;
+      case OrderStatus.CANCELLED:
+        this.emit('cancelled', { orderHash, order: snapshotOrder(order) });
+        break;
+      case OrderStatus.EXPIRED:
+        this.emit('expired', { orderHash, order: snapshotOrder(order) });
+        break;
+      case OrderStatus.FAILED:
+        this.emit('failed', { orderHash, order: snapshotOrder(order), reason });
+        break;
+      default:
+        break;
+    }
+  }
+
+  /**
+   * Emit an `error` event; like any emitter, it throws when nobody listens
+   */
+  private emitError(error: unknown, orderHash?: string): void {
+    this.emit('error', {
+      orderHash,
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+  }
+
   /**
    * Stop monitoring an order
    */
   private stopOrderMonitoring(orderHash: string): void {
-    const intervalId = this.pollingIntervals.get(orderHash);
-    if (intervalId) {
-      clearInterval(intervalId);
-      this.pollingIntervals.delete(orderHash);
-      console.log(`⏹️ Stopped monitoring order: ${orderHash}`);
+    for (const [key, finalOrderHash] of this.finalEscrowTxs) {
+      if (finalOrderHash === orderHash) {
+        this.finalEscrowTxs.delete(key);
+      }
+    }
+    if (this.monitoredOrders.delete(orderHash)) {
+      this.scheduler.unschedule(this.pollingGroup, orderHash);
     }
   }
 
   /**
-   * Cancel an active order
+   * Cancel an active order on its source chain
+   *
+   * The order only becomes CANCELLED once the cancellation is mined.
    */
   async cancelOrder(orderHash: string): Promise<void> {
     const order = this.activeOrders.get(orderHash);
     if (!order) {
       throw new Error(`Order not found: ${orderHash}`);
     }
+    if (order.mode === 'htlc') {
+      throw new Error(`Order ${orderHash} is locked on-chain; it is refunded once its cancellation window opens`);
+    }
+
+    if (!order.makerTraits) {
+      throw new Error(`Maker traits of order ${orderHash} are unknown; it cannot be cancelled on-chain`);
+    }
 
     const srcAdapter = this.adapters.get(order.srcChain);
     if (!srcAdapter) {
       throw new Error(`No adapter for source chain: ${order.srcChain}`);
     }
 
-    try {
-      await srcAdapter.cancelOrder(orderHash);
-      order.status = OrderStatus.CANCELLED;
-      this.stopOrderMonitoring(orderHash);
-      console.log(`❌ Order cancelled: ${orderHash}`);
-    } catch (error) {
-      console.error(`Error cancelling order:`, error);
-      throw error;
+    const tx = await srcAdapter.cancelOrder(orderHash, order.makerTraits);
+    if (tx.status !== 'confirmed') {
+      throw new Error(`Cancellation ${tx.txHash} of order ${orderHash} is ${tx.status}`);
     }
+    await this.applyTransition(order, OrderStatus.CANCELLED, 'cancelled by maker');
   }
 
   /**
@@ -314,6 +956,33 @@ export class GeneralizedFusionOrderManager {
     return this.activeOrders.get(orderHash);
   }
 
+  /**
+   * Iterate over lifecycle events of an order until it reaches a terminal state
+   *
+   * ```ts
+   * for await (const event of manager.watchOrder(orderHash)) {
+   *   if (event.type === 'partiallyFilled') console.log(event.fill.amount);
+   * }
+   * ```
+   */
+  watchOrder(orderHash: string, options: { signal?: AbortSignal } = {}): AsyncIterableIterator<OrderLifecycleEvent> {
+    const watcher = createOrderWatcher(this, orderHash, options.signal);
+    const order = this.activeOrders.get(orderHash);
+
+    // Nothing more will happen to orders that already finished
+    if (order && isTerminalStatus(order.status)) {
+      watcher.return?.();
+    }
+    return watcher;
+  }
+
+  /**
+   * Polling metrics (queue depth, errors, tick timing) for this manager's group
+   */
+  getMonitoringMetrics(): PollingGroupMetrics | undefined {
+    return this.scheduler.getMetrics().groups[this.pollingGroup];
+  }
+
   /**
    * Get all active orders
    */
@@ -322,31 +991,21 @@ export class GeneralizedFusionOrderManager {
   }
 
   /**
-   * Approve token spending for an order
+   * Approve token spending for an order; resolves with the approval transaction
    */
   async approveToken(
     chainId: string | number,
     tokenAddress: string,
     spenderAddress: string,
     amount: string = '115792089237316195423570985008687907853269984665640564039457584007913129639935' // Max uint256
-  ): Promise<void> {
+  ): Promise<ChainTxResult> {
     const adapter = this.adapters.get(chainId);
     if (!adapter) {
       throw new Error(`No adapter for chain: ${chainId}`);
     }
 
-    const asset: UniversalAsset = {
-      chainId,
-      address: tokenAddress,
-      symbol: 'TOKEN',
-      decimals: 18,
-      standard: 'ERC20'
-    };
-
-    console.log(`🔓 Approving token ${tokenAddress} on ${getChainName(chainId)}...`);
-    
-    const txResult = await adapter.approveAsset(asset, spenderAddress, amount);
-    console.log(`✅ Approval transaction: ${txResult.txHash}`);
+    const asset = await this.tokens.resolve(adapter, tokenAddress);
+    return adapter.approveAsset(asset, spenderAddress, amount);
   }
 
   /**
@@ -354,54 +1013,81 @@ export class GeneralizedFusionOrderManager {
    */
   async cleanup(): Promise<void> {
     // Stop all monitoring
-    for (const [orderHash] of this.pollingIntervals) {
+    for (const orderHash of Array.from(this.monitoredOrders)) {
       this.stopOrderMonitoring(orderHash);
     }
+    for (const { chainId, txHash } of this.escrowTxs.values()) {
+      await this.watchers.get(chainId)?.unwatch(txHash);
+    }
+    this.escrowTxs.clear();
+    this.finalEscrowTxs.clear();
 
-    // Disconnect all adapters
-    for (const [chainId, adapter] of this.adapters) {
+    // Disconnect all adapters, even when some fail
+    const failures: unknown[] = [];
+    for (const adapter of this.adapters.values()) {
       try {
         await adapter.disconnect();
-        console.log(`🔌 Disconnected from ${getChainName(chainId)}`);
       } catch (error) {
-        console.error(`Error disconnecting from ${chainId}:`, error);
+        failures.push(error);
       }
     }
 
+    // Orders and secrets stay in the store so a new manager can resume them
     this.adapters.clear();
     this.activeOrders.clear();
-    this.orderSecrets.clear();
+
+    if (failures.length > 0) {
+      throw new AggregateError(failures, `Failed to disconnect ${failures.length} chain adapter(s)`);
+    }
   }
 }
 
 /**
  * Factory function to create a fusion order manager with common configurations
+ *
+ * Chains default to the RPC and contracts of their entry in the adapter
+ * factory's registry.
  */
 export function createFusionOrderManager(config: {
   apiKey: string;
-  privateKey: string;
+  signer?: ISigner;
+  /** @deprecated Pass a `signer` instead */
+  privateKey?: string;
   walletAddress: string;
   chains: Array<{
     chainId: string | number;
-    rpcUrl: string;
+    rpcUrl?: string;
     contractAddresses?: Record<string, string>;
+    confirmations?: number;
+    /** Signer for this chain, for chains that do not use the default signer's scheme */
+    signer?: ISigner;
   }>;
+  htlcCounterparty?: IHtlcCounterparty;
+  adapterFactory?: ChainAdapterFactory;
 }): GeneralizedFusionOrderManager {
+  const signer = config.signer ?? (config.privateKey ? new LocalKeySigner(config.privateKey) : undefined);
+  if (!signer) {
+    throw new Error('A signer (or private key) is required to create a fusion order manager');
+  }
+
+  const adapterFactory = config.adapterFactory ?? chainAdapterFactory;
   const chainConfigs = new Map<string | number, ChainConfig>();
   
   for (const chain of config.chains) {
-    chainConfigs.set(chain.chainId, {
+    chainConfigs.set(chain.chainId, adapterFactory.getChainConfig(chain.chainId, {
       rpcUrl: chain.rpcUrl,
-      privateKey: config.privateKey,
-      contractAddresses: chain.contractAddresses || {}
-    });
+      signer: chain.signer ?? signer,
+      contractAddresses: chain.contractAddresses,
+      confirmations: chain.confirmations
+    }));
   }
 
   return new GeneralizedFusionOrderManager({
     apiKey: config.apiKey,
-    makerPrivateKey: config.privateKey,
     makerAddress: config.walletAddress,
-    chainConfigs
+    chainConfigs,
+    htlcCounterparty: config.htlcCounterparty,
+    adapterFactory
   });
 }
 
@@ -412,7 +1098,7 @@ export async function exampleUsage(): Promise<void> {
   // Load environment variables
   const config = {
     apiKey: process.env.DEV_PORTAL_KEY!,
-    privateKey: process.env.WALLET_KEY!,
+    signer: process.env.WALLET_KEY ? new LocalKeySigner(process.env.WALLET_KEY) : undefined,
     walletAddress: process.env.WALLET_ADDRESS!,
     chains: [
       {
@@ -425,18 +1111,20 @@ export async function exampleUsage(): Promise<void> {
       },
       {
         chainId: SUPPORTED_CHAINS.ETHERLINK,
-        rpcUrl: process.env.ETHERLINK_RPC_URL || 'https://node.mainnet.etherlink.com'
+        rpcUrl: process.env.ETHERLINK_RPC_URL || 'https://node.ghostnet.etherlink.com'
       }
     ]
   };
 
   // Validate environment variables
-  if (!config.apiKey || !config.privateKey || !config.walletAddress) {
+  if (!config.apiKey || !config.signer || !config.walletAddress) {
     throw new Error('Missing required environment variables. Please check your .env file.');
   }
 
   // Create fusion order manager
   const fusionManager = createFusionOrderManager(config);
+  fusionManager.on('chainUnavailable', ({ chainId, error }) => console.warn(`⚠️ Chain ${chainId} is unavailable:`, error));
+  fusionManager.on('error', ({ orderHash, error }) => console.error(`❌ Order ${orderHash ?? '(none)'} error:`, error));
 
   try {
     // Example: Create cross-chain swap from Arbitrum to Base
@@ -446,7 +1134,9 @@ export async function exampleUsage(): Promise<void> {
       srcTokenAddress: '0xaf88d065e77c8cC2239327C5EDb6E08f4c7C32D4f71b54bdA02913', // USDC on Arbitrum
       dstTokenAddress: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', // USDC on Base
       amount: '1000000', // 1 USDC (6 decimals)
-      walletAddress: config.walletAddress
+      walletAddress: config.walletAddress,
+      slippageBps: 50, // 0.5% below the quoted amount
+      preset: 'fast'
     });
 
     console.log(`🎯 Order created: ${orderHash}`);
@@ -474,7 +1164,7 @@ Usage Example:
 
 const fusionManager = createFusionOrderManager({
   apiKey: process.env.DEV_PORTAL_KEY!,
-  privateKey: process.env.WALLET_KEY!,
+  signer: new LocalKeySigner(process.env.WALLET_KEY!),
   walletAddress: process.env.WALLET_ADDRESS!,
   chains: [
     {
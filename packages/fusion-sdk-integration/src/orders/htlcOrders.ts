@@ -0,0 +1,74 @@
+import type { HtlcDstLock, HtlcSwap } from '../interfaces/IHtlcCounterparty';
+import { type ChainAdapterFactory, chainAdapterFactory } from '../adapters/ChainAdapterFactory';
+import type { OrderEscrow, OrderExecutionMode, UniversalOrder } from '../utils/fusionUtils';
+import type { Timelocks } from '../utils/timelocks';
+
+/**
+ * Fusion+ settles EVM pairs only; any pair with another architecture needs the maker's own HTLCs
+ */
+export function selectExecutionMode(
+  srcChain: string | number,
+  dstChain: string | number,
+  factory: ChainAdapterFactory = chainAdapterFactory
+): OrderExecutionMode {
+  return factory.isEVMCompatible(srcChain) && factory.isEVMCompatible(dstChain) ? 'fusion' : 'htlc';
+}
+
+/**
+ * Latest time a destination lock is accepted for a source lock made at `lockedAt`
+ *
+ * Past it the destination lock would stay withdrawable after the source
+ * one becomes refundable, leaving the resolver no window to claim.
+ */
+export function getHtlcDeadline(timelocks: Timelocks, lockedAt: number): number {
+  return lockedAt + timelocks.srcCancellation - timelocks.dstCancellation;
+}
+
+/**
+ * Describe a locked htlc order to its counterparty
+ */
+export function toHtlcSwap(order: UniversalOrder): HtlcSwap {
+  const srcEscrow = order.escrows?.find(escrow => escrow.side === 'src');
+  if (order.mode !== 'htlc' || !srcEscrow || !order.taker || !order.timelocks || !srcEscrow.hashLock) {
+    throw new Error(`Order ${order.orderHash} has no source lock`);
+  }
+
+  return {
+    orderHash: order.orderHash,
+    srcChain: order.srcChain,
+    dstChain: order.dstChain,
+    srcAsset: order.srcAsset,
+    dstAsset: order.dstAsset,
+    amount: order.amount,
+    minReturn: order.minReturn,
+    maker: order.maker,
+    receiver: order.receiver ?? order.maker,
+    resolver: order.taker,
+    hashLock: srcEscrow.hashLock,
+    timelocks: order.timelocks,
+    deadline: order.deadline,
+    srcTxHash: srcEscrow.txHash,
+    srcLockedAt: srcEscrow.deployedAt
+  };
+}
+
+/**
+ * Record the destination lock a counterparty reports for an htlc order
+ *
+ * `deployedAt` stays 0 until the lock is verified on-chain.
+ */
+export function recordDstLock(order: UniversalOrder, lock: HtlcDstLock): OrderEscrow {
+  const escrow: OrderEscrow = {
+    side: 'dst',
+    chainId: order.dstChain,
+    address: lock.address,
+    txHash: lock.txHash,
+    deployedAt: 0,
+    amount: lock.amount,
+    idx: 0,
+    hashLock: order.secretHashes?.[0],
+    status: 'locked'
+  };
+  order.escrows = [...(order.escrows ?? []), escrow];
+  return escrow;
+}
@@ -0,0 +1,165 @@
+import type { EventEmitter } from 'node:events';
+import type { OrderEscrow, OrderFill, UniversalOrder } from '../utils/fusionUtils';
+import type { RecoveredFunds } from './orderRecovery';
+
+/**
+ * Payload of each order lifecycle event
+ */
+export interface OrderEventPayloads {
+  orderPlaced: { orderHash: string; order: UniversalOrder };
+  fillReady: { orderHash: string; order: UniversalOrder; idx: number };
+  secretSubmitted: { orderHash: string; order: UniversalOrder; idx: number };
+  partiallyFilled: { orderHash: string; order: UniversalOrder; fill: OrderFill };
+  executed: { orderHash: string; order: UniversalOrder };
+  cancelled: { orderHash: string; order: UniversalOrder };
+  expired: { orderHash: string; order: UniversalOrder };
+  failed: { orderHash: string; order: UniversalOrder; reason: string };
+  recovered: { orderHash: string; order: UniversalOrder; refunds: RecoveredFunds[] };
+  reorged: { orderHash: string; order: UniversalOrder; chainId: string | number; txHash: string; escrows: OrderEscrow[] };
+  error: { orderHash?: string; error: Error };
+}
+
+export type FusionOrderEventName = keyof OrderEventPayloads;
+
+/**
+ * Payload of each chain event; a chain that failed to connect is
+ * `chainUnavailable` and orders on it are rejected as unsupported
+ */
+export interface ChainEventPayloads {
+  chainConnected: { chainId: string | number };
+  chainUnavailable: { chainId: string | number; error: Error };
+}
+
+/**
+ * Event map for the typed `EventEmitter` of the order manager
+ */
+export type FusionOrderEvents = {
+  [K in FusionOrderEventName]: [payload: OrderEventPayloads[K]];
+} & {
+  [K in keyof ChainEventPayloads]: [payload: ChainEventPayloads[K]];
+};
+
+/**
+ * Tagged union of all lifecycle events, as yielded by `watchOrder`
+ */
+export type OrderLifecycleEvent = {
+  [K in FusionOrderEventName]: { type: K } & OrderEventPayloads[K];
+}[FusionOrderEventName];
+
+export const FUSION_ORDER_EVENT_NAMES: readonly FusionOrderEventName[] = [
+  'orderPlaced',
+  'fillReady',
+  'secretSubmitted',
+  'partiallyFilled',
+  'executed',
+  'cancelled',
+  'expired',
+  'failed',
+  'recovered',
+  'reorged',
+  'error'
+];
+
+/**
+ * Events after which an order emits nothing further
+ */
+export const TERMINAL_ORDER_EVENTS: readonly FusionOrderEventName[] = ['executed', 'cancelled', 'expired', 'failed'];
+
+/**
+ * Copy an order so listeners cannot mutate manager state
+ */
+export function snapshotOrder(order: UniversalOrder): UniversalOrder {
+  return {
+    ...order,
+    fills: order.fills.map(fill => ({ ...fill })),
+    statusHistory: order.statusHistory.map(transition => ({ ...transition })),
+    ...(order.escrows && { escrows: order.escrows.map(escrow => ({ ...escrow })) })
+  };
+}
+
+/**
+ * Async iterator over the lifecycle events of one order
+ *
+ * Ends after a terminal event, when `signal` aborts, or when the consumer
+ * breaks out of the loop; listeners are removed in every case.
+ */
+export function createOrderWatcher(
+  emitter: EventEmitter<FusionOrderEvents>,
+  orderHash: string,
+  signal?: AbortSignal
+): AsyncIterableIterator<OrderLifecycleEvent> {
+  const queue: OrderLifecycleEvent[] = [];
+  let waiting: ((result: IteratorResult<OrderLifecycleEvent>) => void) | undefined;
+  let done = false;
+
+  // The typed emitter cannot take one listener for a union of event names
+  const events: EventEmitter = emitter;
+  const listeners = FUSION_ORDER_EVENT_NAMES.map(type => {
+    const listener = (payload: OrderEventPayloads[FusionOrderEventName]) => {
+      if (done || payload.orderHash !== orderHash) {
+        return;
+      }
+
+      const event = { type, ...payload } as OrderLifecycleEvent;
+      if (waiting) {
+        const resolve = waiting;
+        waiting = undefined;
+        resolve({ value: event, done: false });
+      } else {
+        queue.push(event);
+      }
+
+      if (TERMINAL_ORDER_EVENTS.includes(type)) {
+        detach();
+      }
+    };
+    events.on(type, listener);
+    return { type, listener };
+  });
+
+  const detach = () => {
+    for (const { type, listener } of listeners) {
+      events.off(type, listener);
+    }
+    signal?.removeEventListener('abort', finish);
+    done = true;
+  };
+
+  function finish() {
+    detach();
+    queue.length = 0;
+    if (waiting) {
+      const resolve = waiting;
+      waiting = undefined;
+      resolve({ value: undefined, done: true });
+    }
+  }
+
+  if (signal?.aborted) {
+    finish();
+  } else {
+    signal?.addEventListener('abort', finish, { once: true });
+  }
+
+  return {
+    next(): Promise<IteratorResult<OrderLifecycleEvent>> {
+      const value = queue.shift();
+      if (value) {
+        return Promise.resolve({ value, done: false });
+      }
+      if (done) {
+        return Promise.resolve({ value: undefined, done: true });
+      }
+      return new Promise(resolve => {
+        waiting = resolve;
+      });
+    },
+    return(): Promise<IteratorResult<OrderLifecycleEvent>> {
+      finish();
+      return Promise.resolve({ value: undefined, done: true });
+    },
+    [Symbol.asyncIterator]() {
+      return this;
+    }
+  };
+}
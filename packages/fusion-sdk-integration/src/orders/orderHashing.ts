@@ -0,0 +1,250 @@
+import { createPublicKey, verify } from 'node:crypto';
+import { verifySignature as verifyTezosSignature } from '@taquito/utils';
+import {
+  AbiCoder,
+  type TypedDataDomain,
+  TypedDataEncoder,
+  type TypedDataField,
+  ZeroHash,
+  concat,
+  getAddress,
+  getBytes,
+  id,
+  isHexString,
+  keccak256,
+  verifyTypedData
+} from 'ethers';
+import type { ISigner } from '../interfaces/ISigner';
+import type { UniversalOrder } from '../utils/fusionUtils';
+
+/**
+ * 1inch Limit Order Protocol v4, deployed at the same address on supported EVM chains
+ */
+export const LIMIT_ORDER_PROTOCOL_ADDRESS = '0x111111125421cA6dc452d289314280a0f8842A65';
+
+export const ORDER_DOMAIN_NAME = 'Unite Fusion Order';
+export const ORDER_DOMAIN_VERSION = '1';
+
+/**
+ * EIP-712 type of an order; the non-EVM encoding uses the same struct
+ */
+export const ORDER_EIP712_TYPES: Record<string, TypedDataField[]> = {
+  Order: [
+    { name: 'srcChain', type: 'string' },
+    { name: 'dstChain', type: 'string' },
+    { name: 'srcAsset', type: 'string' },
+    { name: 'dstAsset', type: 'string' },
+    { name: 'amount', type: 'uint256' },
+    { name: 'minReturn', type: 'uint256' },
+    { name: 'maker', type: 'string' },
+    { name: 'deadline', type: 'uint256' },
+    { name: 'hashLock', type: 'bytes32' }
+  ]
+};
+
+const NON_EVM_DOMAIN_TYPEHASH = id(
+  'UniteFusionOrderDomain(string name,string version,string chainId,string verifyingContract)'
+);
+
+const BASE_UNITS_PATTERN = /^\d+$/;
+
+/**
+ * Chain an order is signed for and the contract that settles it
+ *
+ * Numeric chain ids are EVM chains and hash with EIP-712; anything else
+ * (e.g. `aptos-mainnet`) uses the equivalent string-domain encoding.
+ */
+export interface OrderDomain {
+  chainId: string | number;
+  verifyingContract: string;
+}
+
+/**
+ * Order fields that are hashed, in a fixed normalized form
+ */
+export interface CanonicalOrder {
+  srcChain: string;
+  dstChain: string;
+  srcAsset: string;
+  dstAsset: string;
+  amount: string;
+  minReturn: string;
+  maker: string;
+  deadline: number;
+  hashLock: string;
+}
+
+/**
+ * Subset of a signer needed to sign orders; both `ISigner` and `IConnector` fit
+ */
+export type OrderSigner = Pick<ISigner, 'signMessage' | 'signTypedData'>;
+
+export function buildOrderDomain(
+  chainId: string | number,
+  verifyingContract: string = LIMIT_ORDER_PROTOCOL_ADDRESS
+): OrderDomain {
+  return { chainId, verifyingContract };
+}
+
+/**
+ * Normalize an order for hashing, rejecting missing or malformed fields
+ *
+ * Hex addresses are lowercased so checksummed and plain forms hash alike.
+ * An order without a hash lock hashes with the zero hash.
+ */
+export function toCanonicalOrder(order: UniversalOrder): CanonicalOrder {
+  const hashLock = order.hashLock ? order.hashLock.toString() : ZeroHash;
+
+  return validateCanonicalOrder({
+    srcChain: String(order.srcChain),
+    dstChain: String(order.dstChain),
+    srcAsset: normalizeAddress(order.srcAsset?.address),
+    dstAsset: normalizeAddress(order.dstAsset?.address),
+    amount: order.amount,
+    minReturn: order.minReturn,
+    maker: normalizeAddress(order.maker),
+    deadline: order.deadline,
+    hashLock
+  });
+}
+
+/**
+ * Canonical byte encoding of an order's fields (the EIP-712 `encodeData`)
+ */
+export function encodeCanonicalOrder(order: CanonicalOrder): string {
+  return TypedDataEncoder.from(ORDER_EIP712_TYPES).encodeData('Order', validateCanonicalOrder(order));
+}
+
+/**
+ * Domain-separated digest of an order; EIP-712 for EVM domains
+ */
+export function hashOrder(order: CanonicalOrder, domain: OrderDomain): string {
+  const canonical = validateCanonicalOrder(order);
+
+  if (isEvmDomain(domain)) {
+    return TypedDataEncoder.hash(toTypedDataDomain(domain), ORDER_EIP712_TYPES, canonical);
+  }
+
+  const structHash = TypedDataEncoder.hashStruct('Order', ORDER_EIP712_TYPES, canonical);
+  return keccak256(concat(['0x1901', hashNonEvmDomain(domain), structHash]));
+}
+
+/**
+ * Hash used to track an order before the relayer assigns one
+ */
+export function calculateOrderHash(order: UniversalOrder, domain: OrderDomain): string {
+  return hashOrder(toCanonicalOrder(order), domain);
+}
+
+/**
+ * Sign an order: EIP-712 typed data on EVM, the digest elsewhere
+ *
+ * Non-EVM signers sign the digest bytes with their chain's message scheme
+ * (see `verifyOrderSignature`).
+ */
+export async function signOrder(order: CanonicalOrder, domain: OrderDomain, signer: OrderSigner): Promise<string> {
+  if (isEvmDomain(domain)) {
+    if (!signer.signTypedData) {
+      throw new Error('Signer does not support EIP-712 typed data signing');
+    }
+    return await signer.signTypedData(toTypedDataDomain(domain), ORDER_EIP712_TYPES, { ...validateCanonicalOrder(order) });
+  }
+
+  return await signer.signMessage(hashOrder(order, domain));
+}
+
+/**
+ * Recover the address that signed an order on an EVM domain
+ */
+export function recoverOrderSigner(order: CanonicalOrder, domain: OrderDomain, signature: string): string {
+  if (!isEvmDomain(domain)) {
+    throw new Error(`Signer recovery is only possible on EVM domains, not ${domain.chainId}`);
+  }
+  return verifyTypedData(toTypedDataDomain(domain), ORDER_EIP712_TYPES, validateCanonicalOrder(order), signature);
+}
+
+/**
+ * Check an order signature
+ *
+ * `expectedSigner` is the maker address on EVM domains and the maker's
+ * Ed25519 public key elsewhere: hex for a raw signature over the digest,
+ * or `edpk…` for a Tezos `edsig…` signature, which covers the Blake2b hash
+ * of the digest (as `TezosKeySigner.signMessage` produces).
+ */
+export function verifyOrderSignature(
+  order: CanonicalOrder,
+  domain: OrderDomain,
+  signature: string,
+  expectedSigner: string
+): boolean {
+  try {
+    if (isEvmDomain(domain)) {
+      return recoverOrderSigner(order, domain, signature) === getAddress(expectedSigner);
+    }
+
+    if (signature.startsWith('edsig')) {
+      return verifyTezosSignature(getBytes(hashOrder(order, domain)), expectedSigner, signature);
+    }
+
+    const publicKey = createPublicKey({
+      key: { kty: 'OKP', crv: 'Ed25519', x: Buffer.from(getBytes(expectedSigner)).toString('base64url') },
+      format: 'jwk'
+    });
+    return verify(null, getBytes(hashOrder(order, domain)), publicKey, getBytes(signature));
+  } catch {
+    return false;
+  }
+}
+
+function isEvmDomain(domain: OrderDomain): boolean {
+  return typeof domain.chainId === 'number';
+}
+
+function toTypedDataDomain(domain: OrderDomain): TypedDataDomain {
+  return {
+    name: ORDER_DOMAIN_NAME,
+    version: ORDER_DOMAIN_VERSION,
+    chainId: domain.chainId as number,
+    verifyingContract: getAddress(domain.verifyingContract)
+  };
+}
+
+function hashNonEvmDomain(domain: OrderDomain): string {
+  return keccak256(AbiCoder.defaultAbiCoder().encode(
+    ['bytes32', 'bytes32', 'bytes32', 'bytes32', 'bytes32'],
+    [
+      NON_EVM_DOMAIN_TYPEHASH,
+      id(ORDER_DOMAIN_NAME),
+      id(ORDER_DOMAIN_VERSION),
+      id(String(domain.chainId)),
+      id(domain.verifyingContract)
+    ]
+  ));
+}
+
+function normalizeAddress(address: string | undefined): string {
+  if (!address) {
+    return '';
+  }
+  return isHexString(address) ? address.toLowerCase() : address;
+}
+
+function validateCanonicalOrder(order: CanonicalOrder): CanonicalOrder {
+  for (const field of ['srcChain', 'dstChain', 'srcAsset', 'dstAsset', 'maker'] as const) {
+    if (!order[field]) {
+      throw new Error(`Order is missing ${field}`);
+    }
+  }
+  for (const field of ['amount', 'minReturn'] as const) {
+    if (!BASE_UNITS_PATTERN.test(order[field] ?? '')) {
+      throw new Error(`Order ${field} must be an integer amount in base units, got ${order[field]}`);
+    }
+  }
+  if (!Number.isSafeInteger(order.deadline) || order.deadline <= 0) {
+    throw new Error(`Order deadline must be a unix timestamp, got ${order.deadline}`);
+  }
+  if (!isHexString(order.hashLock, 32)) {
+    throw new Error(`Order hash lock must be 32 bytes, got ${order.hashLock}`);
+  }
+  return order;
+}
@@ -0,0 +1,89 @@
+import type { OrderFillsByMakerOutput } from '@1inch/cross-chain-sdk';
+import type { Order } from '../interfaces/Order';
+import { OrderStatus, type UniversalAsset, type UniversalOrder } from '../utils/fusionUtils';
+import type { CreateOrderParams } from './fusionOrders';
+
+/**
+ * Flatten a universal order into the simple `Order` used by the maker/resolver API
+ *
+ * The order hash becomes the id and `minReturn` the (minimum) `toAmount`.
+ */
+export function fromUniversalOrder(order: UniversalOrder): Order {
+  return {
+    id: order.orderHash,
+    fromToken: order.srcAsset.address,
+    toToken: order.dstAsset.address,
+    fromAmount: order.amount,
+    toAmount: order.minReturn,
+    makerAddress: order.maker,
+    deadline: order.deadline,
+    srcChain: order.srcChain,
+    dstChain: order.dstChain,
+    status: order.status
+  };
+}
+
+/**
+ * Flatten an order the relayer lists for a maker into the simple `Order`
+ *
+ * Relayer orders are open until their auction ends, which becomes the deadline.
+ */
+export function fromRelayerOrder(order: OrderFillsByMakerOutput, makerAddress: string): Order {
+  return {
+    id: order.orderHash,
+    fromToken: order.makerAsset,
+    toToken: order.takerAsset,
+    fromAmount: order.makerAmount,
+    toAmount: order.minTakerAmount,
+    makerAddress,
+    deadline: order.auctionStartDate + order.auctionDuration,
+    srcChain: order.srcChainId,
+    dstChain: order.dstChainId,
+    status: OrderStatus.PENDING
+  };
+}
+
+/**
+ * Expand a simple `Order` into a universal order, given its resolved assets
+ *
+ * Chains come from the assets; a missing status means the order was just built.
+ */
+export function toUniversalOrder(order: Order, srcAsset: UniversalAsset, dstAsset: UniversalAsset): UniversalOrder {
+  if (order.fromToken.toLowerCase() !== srcAsset.address.toLowerCase()
+    || order.toToken.toLowerCase() !== dstAsset.address.toLowerCase()) {
+    throw new Error(`Assets do not match order ${order.id}`);
+  }
+
+  return {
+    orderHash: order.id,
+    srcChain: srcAsset.chainId,
+    dstChain: dstAsset.chainId,
+    srcAsset,
+    dstAsset,
+    amount: order.fromAmount,
+    minReturn: order.toAmount,
+    maker: order.makerAddress,
+    deadline: order.deadline,
+    status: order.status ?? OrderStatus.CREATED,
+    statusHistory: [],
+    fills: []
+  };
+}
+
+/**
+ * Turn a simple `Order` into the manager's order parameters
+ *
+ * Orders without chains swap on `defaultChainId`; `toAmount` is the minimum return.
+ */
+export function toCreateOrderParams(order: Order, defaultChainId: string | number): CreateOrderParams {
+  return {
+    srcChainId: order.srcChain ?? defaultChainId,
+    dstChainId: order.dstChain ?? defaultChainId,
+    srcTokenAddress: order.fromToken,
+    dstTokenAddress: order.toToken,
+    amount: order.fromAmount,
+    minReturn: order.toAmount,
+    deadline: order.deadline,
+    walletAddress: order.makerAddress
+  };
+}
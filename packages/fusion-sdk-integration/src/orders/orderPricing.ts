@@ -0,0 +1,90 @@
+/**
+ * Auction speed presets offered by the Fusion+ quoter
+ */
+export type AuctionPresetChoice = 'fast' | 'medium' | 'slow' | 'custom';
+
+/**
+ * Default tolerance below the quoted destination amount, in basis points
+ */
+export const DEFAULT_SLIPPAGE_BPS = 100;
+
+const BPS_DENOMINATOR = 10000n;
+
+/**
+ * Inputs for pricing an order from a quote and its chosen preset
+ */
+export interface OrderPricingParams {
+  quotedAmount: bigint;
+  auctionEndAmount: bigint;
+  startAuctionIn: bigint;
+  auctionDuration: bigint;
+  slippageBps?: number;
+  minReturn?: string;
+  deadline?: number;
+  now?: number;
+}
+
+/**
+ * Limits derived for an order
+ */
+export interface OrderPricing {
+  minReturn: string;
+  worstCaseReturn: string;
+  auctionEndsAt: number;
+  deadline: number;
+}
+
+/**
+ * Raised when the auction could settle below the maker's limit
+ */
+export class SlippageExceededError extends Error {
+  constructor(
+    public readonly worstCaseReturn: string,
+    public readonly minReturn: string
+  ) {
+    super(`Worst-case auction return ${worstCaseReturn} is below the limit ${minReturn}`);
+    this.name = 'SlippageExceededError';
+  }
+}
+
+/**
+ * Derive `minReturn` and deadline for an order and check the auction respects them
+ *
+ * `minReturn` is the explicit limit if given, otherwise the quoted amount
+ * reduced by the slippage tolerance. The auction's end amount is the
+ * lowest price a resolver can fill at, so it must not fall below it.
+ */
+export function priceOrder(params: OrderPricingParams): OrderPricing {
+  const slippageBps = params.slippageBps ?? DEFAULT_SLIPPAGE_BPS;
+  if (!Number.isInteger(slippageBps) || slippageBps < 0 || slippageBps > Number(BPS_DENOMINATOR)) {
+    throw new Error(`Slippage must be an integer between 0 and ${BPS_DENOMINATOR} bps, got ${slippageBps}`);
+  }
+
+  const minReturn = params.minReturn !== undefined
+    ? BigInt(params.minReturn)
+    : (params.quotedAmount * (BPS_DENOMINATOR - BigInt(slippageBps))) / BPS_DENOMINATOR;
+
+  if (minReturn <= 0n) {
+    throw new Error('Minimum return must be positive');
+  }
+  if (params.auctionEndAmount < minReturn) {
+    throw new SlippageExceededError(params.auctionEndAmount.toString(), minReturn.toString());
+  }
+
+  const now = params.now ?? Math.floor(Date.now() / 1000);
+  const auctionEndsAt = now + Number(params.startAuctionIn + params.auctionDuration);
+  const deadline = params.deadline ?? auctionEndsAt;
+
+  if (deadline < auctionEndsAt) {
+    throw new Error(
+      `Deadline ${deadline} is before the auction ends at ${auctionEndsAt}; choose a faster preset or a later deadline`
+    );
+  }
+
+  return {
+    minReturn: minReturn.toString(),
+    worstCaseReturn: params.auctionEndAmount.toString(),
+    auctionEndsAt,
+    deadline
+  };
+}
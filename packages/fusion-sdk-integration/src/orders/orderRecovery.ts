@@ -0,0 +1,249 @@
+import {
+  EscrowEventAction,
+  type OrderStatusResponse,
+  type ReadyToAcceptSecretFill,
+  TimeLocks
+} from '@1inch/cross-chain-sdk';
+import type { IChainAdapter } from '../interfaces/IChainAdapter';
+import { type OrderEscrow, OrderStatus, type UniversalAsset, type UniversalOrder } from '../utils/fusionUtils';
+import { type EscrowSide, type EscrowTimelocks, fromSdkTimeLocks, isActionPermitted } from '../utils/timelocks';
+
+/**
+ * Whose escrows to recover
+ *
+ * A maker can only refund its source escrow, once public cancellation
+ * opens; a resolver (the escrows' taker) cancels both sides as soon as
+ * their private cancellation windows open. The source escrow of an `htlc`
+ * order is the maker's own lock, refundable from private cancellation.
+ */
+export type RecoveryRole = 'maker' | 'resolver';
+
+/**
+ * Funds returned by one refund
+ */
+export interface RecoveredFunds {
+  side: EscrowSide;
+  chainId: string | number;
+  escrow: string;
+  asset: UniversalAsset;
+  amount: string;
+  txHash: string;
+}
+
+/**
+ * Outcome of one recovery pass over an order
+ *
+ * `waiting` are locked escrows whose cancellation window has not opened yet.
+ */
+export interface RecoveryResult {
+  refunds: RecoveredFunds[];
+  waiting: OrderEscrow[];
+  failures: Array<{ escrow: OrderEscrow; error: Error }>;
+}
+
+/**
+ * Refunds the escrows of stalled orders
+ *
+ * Escrows are refunded once the chain's block time is inside their
+ * cancellation window: Fusion+ escrows through `IChainAdapter.cancelEscrow`,
+ * the locks of `htlc` orders through `IChainAdapter.refundHashLock`. The
+ * order's escrow records are updated in place.
+ */
+export class OrderRecoveryWorker {
+  constructor(
+    private readonly adapters: Map<string | number, IChainAdapter>,
+    private readonly role: RecoveryRole = 'maker'
+  ) {}
+
+  /**
+   * Locked escrows of the order this role is able to refund
+   */
+  getLockedEscrows(order: UniversalOrder): OrderEscrow[] {
+    return (order.escrows ?? []).filter(escrow =>
+      escrow.status === 'locked' && (this.role === 'resolver' || escrow.side === 'src')
+    );
+  }
+
+  async recover(order: UniversalOrder): Promise<RecoveryResult> {
+    const result: RecoveryResult = { refunds: [], waiting: [], failures: [] };
+    const action = this.role === 'maker' && order.mode !== 'htlc' ? 'publicCancel' : 'cancel';
+
+    for (const escrow of this.getLockedEscrows(order)) {
+      if (!order.timelocks) {
+        result.waiting.push(escrow);
+        continue;
+      }
+      const timelocks: EscrowTimelocks = { side: escrow.side, timelocks: order.timelocks, deployedAt: escrow.deployedAt };
+
+      // Local clock first, so idle escrows cost no RPC calls
+      if (!isActionPermitted(timelocks, action, Math.floor(Date.now() / 1000))) {
+        result.waiting.push(escrow);
+        continue;
+      }
+
+      try {
+        const adapter = this.adapters.get(escrow.chainId);
+        if (!adapter) {
+          throw new Error(`No adapter for chain ${escrow.chainId}`);
+        }
+        if (!isActionPermitted(timelocks, action, await adapter.getBlockTimestamp())) {
+          result.waiting.push(escrow);
+          continue;
+        }
+
+        const tx = order.mode === 'htlc'
+          ? await adapter.refundHashLock(getHtlcHashLock(escrow), timelocks)
+          : await adapter.cancelEscrow({
+            address: escrow.address,
+            txHash: escrow.txHash,
+            orderHash: order.orderHash,
+            hashLock: escrow.hashLock,
+            maker: order.receiver ?? order.maker,
+            asset: escrow.side === 'src' ? order.srcAsset : order.dstAsset,
+            amount: escrow.amount,
+            safetyDeposit: escrow.side === 'dst' ? order.dstSafetyDeposit : undefined,
+            escrow: timelocks,
+            action
+          });
+        if (tx.status === 'failed') {
+          throw new Error(`Refund transaction ${tx.txHash} reverted`);
+        }
+
+        escrow.status = 'refunded';
+        escrow.refundTxHash = tx.txHash;
+        result.refunds.push({
+          side: escrow.side,
+          chainId: escrow.chainId,
+          escrow: escrow.address,
+          asset: escrow.side === 'src' ? order.srcAsset : order.dstAsset,
+          amount: escrow.amount,
+          txHash: tx.txHash
+        });
+      } catch (error) {
+        result.failures.push({ escrow, error: error instanceof Error ? error : new Error(String(error)) });
+      }
+    }
+
+    return result;
+  }
+}
+
+/**
+ * HTLC locks are keyed by hash lock, which every htlc order records
+ */
+function getHtlcHashLock(escrow: OrderEscrow): string {
+  if (!escrow.hashLock) {
+    throw new Error(`Hash lock of escrow ${escrow.address} is unknown`);
+  }
+  return escrow.hashLock;
+}
+
+/**
+ * Final status of an order once recovery has nothing left to do
+ *
+ * EXPIRED when no escrow of the order was ever withdrawn, FAILED when some
+ * fills settled and others had to be refunded.
+ */
+export function getRecoveryOutcome(
+  order: UniversalOrder,
+  result: RecoveryResult
+): { status: OrderStatus.EXPIRED | OrderStatus.FAILED; reason: string } | undefined {
+  if (result.waiting.length > 0 || result.failures.length > 0) {
+    return undefined;
+  }
+
+  const escrows = order.escrows ?? [];
+  const refunded = escrows.filter(escrow => escrow.status === 'refunded').length;
+  if (refunded === 0) {
+    return undefined;
+  }
+
+  return escrows.some(escrow => escrow.status === 'withdrawn')
+    ? { status: OrderStatus.FAILED, reason: `partially settled, ${refunded} escrow(s) refunded after cancellation timelock` }
+    : { status: OrderStatus.EXPIRED, reason: `unfilled, ${refunded} escrow(s) refunded after cancellation timelock` };
+}
+
+const ESCROW_STATUS_BY_ACTION: Partial<Record<EscrowEventAction, OrderEscrow['status']>> = {
+  [EscrowEventAction.Withdrawn]: 'withdrawn',
+  [EscrowEventAction.EscrowCancelled]: 'refunded',
+  [EscrowEventAction.FundsRescued]: 'refunded'
+};
+
+/**
+ * Record the escrows and timelocks the relayer reports for an order
+ *
+ * Returns whether anything changed.
+ */
+export function syncOrderEscrows(order: UniversalOrder, status: OrderStatusResponse): boolean {
+  let changed = false;
+
+  if (!order.timelocks && status.timeLocks) {
+    order.timelocks = fromSdkTimeLocks(TimeLocks.fromBigInt(BigInt(status.timeLocks)));
+    changed = true;
+  }
+
+  const escrows = order.escrows ?? [];
+  const singleFill = order.secretHashes?.length === 1;
+  const find = (address: string) => escrows.find(escrow => escrow.address.toLowerCase() === address.toLowerCase());
+
+  // Creations first, so settlement events always find their escrow
+  for (const fill of status.fills) {
+    for (const event of fill.escrowEvents) {
+      if (event.action !== EscrowEventAction.SrcEscrowCreated && event.action !== EscrowEventAction.DstEscrowCreated) {
+        continue;
+      }
+      if (find(event.escrow)) {
+        continue;
+      }
+
+      const side = event.side as EscrowSide;
+      escrows.push({
+        side,
+        chainId: side === 'src' ? order.srcChain : order.dstChain,
+        address: event.escrow,
+        txHash: event.transactionHash,
+        deployedAt: Math.floor(event.blockTimestamp / 1000),
+        amount: side === 'src' ? fill.filledMakerAmount : fill.filledAuctionTakerAmount,
+        idx: singleFill ? 0 : undefined,
+        hashLock: singleFill ? order.secretHashes?.[0] : undefined,
+        status: 'locked'
+      });
+      changed = true;
+    }
+  }
+
+  for (const fill of status.fills) {
+    for (const event of fill.escrowEvents) {
+      const settled = ESCROW_STATUS_BY_ACTION[event.action];
+      const escrow = find(event.escrow);
+      if (settled && escrow && escrow.status === 'locked') {
+        escrow.status = settled;
+        changed = true;
+      }
+    }
+  }
+
+  if (escrows.length > 0) {
+    order.escrows = escrows;
+  }
+  return changed;
+}
+
+/**
+ * Attach the secret index of a fill to its escrows (multiple-fill orders)
+ *
+ * Returns whether anything changed.
+ */
+export function linkFillEscrows(order: UniversalOrder, fill: ReadyToAcceptSecretFill): boolean {
+  let changed = false;
+  const txHashes = [fill.srcEscrowDeployTxHash, fill.dstEscrowDeployTxHash].map(hash => hash.toLowerCase());
+
+  for (const escrow of order.escrows ?? []) {
+    if (escrow.idx === undefined && txHashes.includes(escrow.txHash.toLowerCase())) {
+      escrow.idx = fill.idx;
+      escrow.hashLock = order.secretHashes?.[fill.idx];
+      changed = true;
+    }
+  }
+  return changed;
+}
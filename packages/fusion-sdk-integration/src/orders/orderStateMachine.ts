@@ -0,0 +1,139 @@
+import { OrderStatus, type UniversalOrder } from '../utils/fusionUtils';
+
+/**
+ * Allowed transitions; terminal statuses have none
+ *
+ * CREATED → PENDING → PARTIALLY_FILLED → EXECUTED
+ *              ↘          ↘
+ *      CANCELLED / EXPIRED / FAILED
+ */
+export const ORDER_TRANSITIONS: Readonly<Record<OrderStatus, readonly OrderStatus[]>> = {
+  [OrderStatus.CREATED]: [OrderStatus.PENDING, OrderStatus.CANCELLED, OrderStatus.FAILED],
+  [OrderStatus.PENDING]: [
+    OrderStatus.PARTIALLY_FILLED,
+    OrderStatus.EXECUTED,
+    OrderStatus.CANCELLED,
+    OrderStatus.EXPIRED,
+    OrderStatus.FAILED
+  ],
+  [OrderStatus.PARTIALLY_FILLED]: [
+    OrderStatus.EXECUTED,
+    OrderStatus.CANCELLED,
+    OrderStatus.EXPIRED,
+    OrderStatus.FAILED
+  ],
+  [OrderStatus.EXECUTED]: [],
+  [OrderStatus.CANCELLED]: [],
+  [OrderStatus.EXPIRED]: [],
+  [OrderStatus.FAILED]: []
+};
+
+/**
+ * Statuses an order may return to when a chain reorg undoes the fills
+ * that moved it forward; terminal statuses are never rolled back
+ */
+export const ORDER_ROLLBACKS: Readonly<Partial<Record<OrderStatus, readonly OrderStatus[]>>> = {
+  [OrderStatus.PARTIALLY_FILLED]: [OrderStatus.PENDING]
+};
+
+/**
+ * Raised when an order is asked to move along a transition that is not allowed
+ */
+export class InvalidOrderTransitionError extends Error {
+  constructor(
+    public readonly orderHash: string,
+    public readonly from: OrderStatus,
+    public readonly to: OrderStatus
+  ) {
+    super(`Invalid transition for order ${orderHash}: ${from} → ${to}`);
+    this.name = 'InvalidOrderTransitionError';
+  }
+}
+
+/**
+ * Check whether an order may move from one status to another
+ */
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Check whether a status is terminal
+ */
+export function isTerminalStatus(status: OrderStatus): boolean {
+  return ORDER_TRANSITIONS[status].length === 0;
+}
+
+/**
+ * Move an order to a new status and record the transition
+ *
+ * Returns false when the order already has that status, throws
+ * `InvalidOrderTransitionError` for transitions that are not allowed.
+ */
+export function transitionOrder(
+  order: UniversalOrder,
+  to: OrderStatus,
+  reason?: string,
+  now: number = Math.floor(Date.now() / 1000)
+): boolean {
+  const from = order.status;
+  if (from === to) {
+    return false;
+  }
+
+  if (!canTransition(from, to)) {
+    throw new InvalidOrderTransitionError(order.orderHash, from, to);
+  }
+
+  order.statusHistory.push({ from, to, timestamp: now, reason });
+  order.status = to;
+  return true;
+}
+
+/**
+ * Move an order back to an earlier status after a reorg, recording the rollback
+ *
+ * Returns false when the order already has that status, throws
+ * `InvalidOrderTransitionError` for rollbacks that are not allowed.
+ */
+export function rollbackOrder(
+  order: UniversalOrder,
+  to: OrderStatus,
+  reason?: string,
+  now: number = Math.floor(Date.now() / 1000)
+): boolean {
+  const from = order.status;
+  if (from === to) {
+    return false;
+  }
+
+  if (!ORDER_ROLLBACKS[from]?.includes(to)) {
+    throw new InvalidOrderTransitionError(order.orderHash, from, to);
+  }
+
+  order.statusHistory.push({ from, to, timestamp: now, reason, rollback: true });
+  order.status = to;
+  return true;
+}
+
+/**
+ * Derive the status an order should have from its deadline and fills
+ *
+ * Terminal statuses are final. A live order past its deadline is EXPIRED;
+ * one with recorded fills is PARTIALLY_FILLED until reported executed.
+ */
+export function deriveOrderStatus(
+  order: UniversalOrder,
+  now: number = Math.floor(Date.now() / 1000)
+): OrderStatus {
+  if (isTerminalStatus(order.status) || order.status === OrderStatus.CREATED) {
+    return order.status;
+  }
+  if (now > order.deadline) {
+    return OrderStatus.EXPIRED;
+  }
+  if (order.fills.length > 0) {
+    return OrderStatus.PARTIALLY_FILLED;
+  }
+  return order.status;
+}
@@ -0,0 +1,266 @@
+import {
+  AmountMode,
+  DstImmutablesComplement,
+  EvmEscrowFactory,
+  EvmAddress,
+  HashLock,
+  Immutables,
+  type ImmutablesData,
+  TakerTraits
+} from '@1inch/cross-chain-sdk';
+import { Interface, type LogDescription, type Result, Signature } from 'ethers';
+import type { ChainTxResult, IChainAdapter } from '../interfaces/IChainAdapter';
+import { type EscrowDeployment, type FillPlan, type IEscrowExecutor, TransactionTimeoutError } from '../interfaces/IEscrowExecutor';
+import type { ResolverOrder } from '../interfaces/IResolverStrategy';
+import { ESCROW_FACTORY_ABI, NATIVE_ASSET_ADDRESS, ONEINCH_NATIVE_ASSET_ADDRESS, RESOLVER_ABI } from '../adapters/evmAbis';
+import type { EvmLog } from '../signers/evmTransaction';
+import { type UniversalTxParams, sleep } from '../utils/fusionUtils';
+import { PartialFillError, getFillProof, verifyFillProof } from '../utils/partialFills';
+import type { FusionOrderData } from './FusionOrderSource';
+
+/**
+ * Resolver deployment on one chain
+ *
+ * The resolver contract is the escrow taker; it must hold (or be approved
+ * for) the destination tokens it deploys.
+ */
+export interface ResolverChainConfig {
+  adapter: IChainAdapter;
+  resolverContract: string;
+  escrowFactory: string;
+  srcEscrowImplementation: string;
+}
+
+/**
+ * Executor options
+ */
+export interface FusionEscrowExecutorOptions {
+  confirmationTimeoutMs?: number;
+  pollIntervalMs?: number;
+}
+
+/**
+ * Deploys and settles Fusion+ escrows through the 1inch resolver contract
+ *
+ * The source escrow is created by filling the maker's order (`deploySrc`)
+ * and its immutables are read back from the factory's `SrcEscrowCreated`
+ * event; the destination escrow mirrors them with the complement from the
+ * same event. Transactions are signed and sent by each chain's adapter.
+ */
+export class FusionEscrowExecutor implements IEscrowExecutor {
+  private readonly resolverInterface = new Interface(RESOLVER_ABI);
+  private readonly factoryInterface = new Interface(ESCROW_FACTORY_ABI);
+
+  constructor(
+    private readonly chains: Map<string | number, ResolverChainConfig>,
+    private readonly options: FusionEscrowExecutorOptions = {}
+  ) {}
+
+  async deploySrcEscrow(order: ResolverOrder, plan: FillPlan): Promise<EscrowDeployment> {
+    const { order: fusionOrder, signature, srcChainId } = order.raw as FusionOrderData;
+    const chain = this.getChain(order.srcChain);
+    const resolver = EvmAddress.fromString(chain.resolverContract);
+    const factory = new EvmEscrowFactory(EvmAddress.fromString(chain.escrowFactory));
+
+    const hashLock = plan.secretHash ? HashLock.fromString(plan.secretHash) : fusionOrder.hashLock;
+    const immutables = fusionOrder.toSrcImmutables(srcChainId, resolver, plan.makingAmount, hashLock);
+
+    const takerTraits = TakerTraits.default()
+      .setExtension(fusionOrder.extension)
+      .setAmountMode(AmountMode.maker)
+      .setAmountThreshold(plan.takingAmount);
+
+    if (order.multipleFillsAllowed && order.secretHashes && plan.secretHash) {
+      // A bad proof reverts the fill on-chain, so check it before paying for it
+      const proof = getFillProof(order.secretHashes, plan.secretIndex);
+      if (!verifyFillProof(fusionOrder.hashLock.toString(), plan.secretIndex, plan.secretHash, proof)) {
+        throw new PartialFillError(plan.secretIndex, `Secret ${plan.secretIndex} does not prove into the hash lock of order ${order.orderHash}`);
+      }
+      takerTraits.setInteraction(factory.getMultipleFillInteraction(proof, plan.secretIndex, plan.secretHash));
+    }
+
+    const { r, yParityAndS: vs } = Signature.from(signature);
+    const { trait, args } = takerTraits.encode();
+    const receipt = await this.send(chain, {
+      to: chain.resolverContract,
+      value: immutables.safetyDeposit.toString(),
+      data: this.resolverInterface.encodeFunctionData('deploySrc', [
+        immutables.build(), fusionOrder.build(), r, vs, plan.makingAmount, trait, args
+      ])
+    });
+    return this.toSrcDeployment(order, chain, receipt);
+  }
+
+  async getSrcEscrow(order: ResolverOrder, txHash: string): Promise<EscrowDeployment> {
+    const chain = this.getChain(order.srcChain);
+    const receipt = await chain.adapter.getTransactionStatus(txHash);
+    if (receipt.status !== 'confirmed') {
+      throw new Error(`Transaction ${txHash} on ${chain.adapter.chainName} is ${receipt.status}`);
+    }
+    return this.toSrcDeployment(order, chain, receipt);
+  }
+
+  async deployDstEscrow(order: ResolverOrder, src: EscrowDeployment): Promise<EscrowDeployment> {
+    if (!src.details) {
+      throw new Error(`Source escrow ${src.address} has no destination complement`);
+    }
+
+    const chain = this.getChain(order.dstChain);
+    const resolver = EvmAddress.fromString(chain.resolverContract);
+    const srcImmutables = Immutables.fromJSON<EvmAddress>(src.immutables as ImmutablesData);
+    const complement = DstImmutablesComplement.new({
+      maker: EvmAddress.fromString(src.details.dstMaker),
+      amount: BigInt(src.details.dstAmount),
+      token: EvmAddress.fromString(src.details.dstToken),
+      taker: resolver,
+      safetyDeposit: BigInt(src.details.dstSafetyDeposit)
+    });
+    const immutables = srcImmutables.withComplement(complement).withTaker(resolver);
+
+    // Native destination assets are sent along with the safety deposit
+    const token = src.details.dstToken.toLowerCase();
+    const native = token === NATIVE_ASSET_ADDRESS || token === ONEINCH_NATIVE_ASSET_ADDRESS;
+    const value = complement.safetyDeposit + (native ? complement.amount : 0n);
+
+    const receipt = await this.send(chain, {
+      to: chain.resolverContract,
+      value: value.toString(),
+      data: this.resolverInterface.encodeFunctionData('deployDst', [immutables.build(), src.cancellableAt])
+    });
+
+    const deployedAt = BigInt(await chain.adapter.getBlockTimestamp(receipt.blockNumber));
+    const deployed = immutables.withDeployedAt(deployedAt);
+    const timeLocks = deployed.timeLocks.toDstTimeLocks();
+    const created = this.findEvent(receipt, chain.escrowFactory, 'DstEscrowCreated');
+
+    return {
+      side: 'dst',
+      chainId: order.dstChain,
+      address: created.args.escrow as string,
+      txHash: receipt.txHash,
+      immutables: deployed.build(),
+      amount: complement.amount,
+      deployedAt: Number(deployedAt),
+      withdrawableAt: Number(timeLocks.privateWithdrawal),
+      publicWithdrawableAt: Number(timeLocks.publicWithdrawal),
+      cancellableAt: Number(timeLocks.privateCancellation)
+    };
+  }
+
+  async withdraw(escrow: EscrowDeployment, secret: string): Promise<string> {
+    const chain = this.getChain(escrow.chainId);
+    const receipt = await this.send(chain, {
+      to: chain.resolverContract,
+      data: this.resolverInterface.encodeFunctionData('withdraw', [escrow.address, secret, escrow.immutables])
+    });
+    return receipt.txHash;
+  }
+
+  async cancel(escrow: EscrowDeployment): Promise<string> {
+    const chain = this.getChain(escrow.chainId);
+    const receipt = await this.send(chain, {
+      to: chain.resolverContract,
+      data: this.resolverInterface.encodeFunctionData('cancel', [escrow.address, escrow.immutables])
+    });
+    return receipt.txHash;
+  }
+
+  /**
+   * Sign, broadcast and wait for the transaction to be mined successfully
+   */
+  private async send(chain: ResolverChainConfig, txParams: UniversalTxParams): Promise<ChainTxResult> {
+    const signedTx = await chain.adapter.signTransaction(txParams);
+    const { txHash } = await chain.adapter.broadcastTransaction(signedTx);
+
+    const pollIntervalMs = this.options.pollIntervalMs ?? 2000;
+    const deadline = Date.now() + (this.options.confirmationTimeoutMs ?? 300000);
+
+    for (;;) {
+      const result = await chain.adapter.getTransactionStatus(txHash);
+      if (result.status === 'confirmed') {
+        return result;
+      }
+      if (result.status === 'failed') {
+        throw new Error(`Transaction ${txHash} on ${chain.adapter.chainName} reverted`);
+      }
+      if (Date.now() + pollIntervalMs > deadline) {
+        throw new TransactionTimeoutError(chain.adapter.chainId, txHash);
+      }
+      await sleep(pollIntervalMs);
+    }
+  }
+
+  /**
+   * Source escrow from the factory's `SrcEscrowCreated` event, which records
+   * deployedAt and the actual taking amount on-chain
+   */
+  private toSrcDeployment(order: ResolverOrder, chain: ResolverChainConfig, receipt: ChainTxResult): EscrowDeployment {
+    const factory = new EvmEscrowFactory(EvmAddress.fromString(chain.escrowFactory));
+    const created = this.findEvent(receipt, chain.escrowFactory, 'SrcEscrowCreated');
+    const srcImmutables = Immutables.fromJSON<EvmAddress>(toImmutablesData(created.args.srcImmutables));
+    const complement = created.args.dstImmutablesComplement as Result;
+    const timeLocks = srcImmutables.timeLocks.toSrcTimeLocks();
+
+    return {
+      side: 'src',
+      chainId: order.srcChain,
+      address: factory.getSrcEscrowAddress(srcImmutables, EvmAddress.fromString(chain.srcEscrowImplementation)).toString(),
+      txHash: receipt.txHash,
+      immutables: srcImmutables.build(),
+      amount: srcImmutables.amount,
+      deployedAt: Number(timeLocks.deployedAt),
+      withdrawableAt: Number(timeLocks.privateWithdrawal),
+      publicWithdrawableAt: Number(timeLocks.publicWithdrawal),
+      cancellableAt: Number(timeLocks.privateCancellation),
+      publicCancellableAt: Number(timeLocks.publicCancellation),
+      details: {
+        dstMaker: toAddress(complement.maker),
+        dstAmount: complement.amount.toString(),
+        dstToken: toAddress(complement.token),
+        dstSafetyDeposit: complement.safetyDeposit.toString()
+      }
+    };
+  }
+
+  private findEvent(receipt: ChainTxResult, factory: string, name: string): LogDescription {
+    const logs = (receipt.chainSpecific?.logs ?? []) as EvmLog[];
+    for (const log of logs) {
+      if (log.address.toLowerCase() !== factory.toLowerCase()) {
+        continue;
+      }
+      const parsed = this.factoryInterface.parseLog(log);
+      if (parsed?.name === name) {
+        return parsed;
+      }
+    }
+    throw new Error(`No ${name} event in transaction ${receipt.txHash}`);
+  }
+
+  private getChain(chainId: string | number): ResolverChainConfig {
+    const chain = this.chains.get(chainId);
+    if (!chain) {
+      throw new Error(`No resolver deployment configured for chain ${chainId}`);
+    }
+    return chain;
+  }
+}
+
+/**
+ * Event immutables carry addresses as uint256
+ */
+function toImmutablesData(value: Result): ImmutablesData {
+  return {
+    orderHash: value.orderHash,
+    hashlock: value.hashlock,
+    maker: toAddress(value.maker),
+    taker: toAddress(value.taker),
+    token: toAddress(value.token),
+    amount: value.amount.toString(),
+    safetyDeposit: value.safetyDeposit.toString(),
+    timelocks: value.timelocks.toString()
+  };
+}
+
+function toAddress(value: bigint): string {
+  return EvmAddress.fromBigInt(value).toString();
+}
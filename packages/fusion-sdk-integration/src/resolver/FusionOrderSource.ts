@@ -0,0 +1,107 @@
+import {
+  type SDK as CrossChainSDK,
+  type ActiveOrder,
+  EvmCrossChainOrder,
+  Extension,
+  type SupportedChain,
+  calcTakingAmount
+} from '@1inch/cross-chain-sdk';
+import type { ResolverOrder } from '../interfaces/IResolverStrategy';
+import type { IResolverOrderSource } from '../interfaces/IEscrowExecutor';
+
+/**
+ * Order data the Fusion escrow executor needs, carried in `ResolverOrder.raw`
+ */
+export interface FusionOrderData {
+  srcChainId: number;
+  order: EvmCrossChainOrder;
+  signature: string;
+}
+
+/**
+ * Order source options; chain ids narrow the relayer query
+ */
+export interface FusionOrderSourceOptions {
+  srcChainId?: SupportedChain;
+  dstChainId?: SupportedChain;
+  pageSize?: number;
+  maxPages?: number;
+}
+
+/**
+ * Active orders and published secrets from the 1inch Fusion+ relayer
+ *
+ * Only EVM-sourced orders are returned; their escrows are deployed through
+ * the resolver contract by `FusionEscrowExecutor`.
+ */
+export class FusionOrderSource implements IResolverOrderSource {
+  constructor(
+    private readonly sdk: CrossChainSDK,
+    private readonly options: FusionOrderSourceOptions = {}
+  ) {}
+
+  async fetchActiveOrders(): Promise<ResolverOrder[]> {
+    const limit = this.options.pageSize ?? 100;
+    const maxPages = this.options.maxPages ?? 10;
+    const orders: ResolverOrder[] = [];
+
+    for (let page = 1; page <= maxPages; page++) {
+      const response = await this.sdk.getActiveOrders({
+        page,
+        limit,
+        srcChainId: this.options.srcChainId,
+        dstChainId: this.options.dstChainId
+      });
+
+      for (const item of response.items) {
+        const order = this.toResolverOrder(item);
+        if (order) {
+          orders.push(order);
+        }
+      }
+      if (page >= response.meta.totalPages) {
+        break;
+      }
+    }
+    return orders;
+  }
+
+  async getPublishedSecret(orderHash: string, secretIndex: number): Promise<string | undefined> {
+    const { secrets } = await this.sdk.getPublishedSecrets(orderHash);
+    return secrets.find(secret => secret.idx === secretIndex)?.secret;
+  }
+
+  private toResolverOrder(item: ActiveOrder): ResolverOrder | undefined {
+    if (!('extension' in item)) { return undefined; // Solana-sourced order
+}
+
+    const order = EvmCrossChainOrder.fromDataAndExtension(item.order, Extension.decode(item.extension));
+    const calculator = order.getCalculator();
+    const raw: FusionOrderData = { srcChainId: item.srcChainId, order, signature: item.signature };
+
+    return {
+      orderHash: item.orderHash,
+      srcChain: item.srcChainId,
+      dstChain: item.dstChainId,
+      maker: order.maker.toString(),
+      srcToken: order.makerAsset.toString(),
+      dstToken: order.takerAsset.toString(),
+      makingAmount: order.makingAmount,
+      takingAmount: order.takingAmount,
+      remainingMakingAmount: BigInt(item.remainingMakerAmount),
+      auctionStartTime: Number(order.auctionStartTime),
+      auctionEndTime: Number(order.auctionEndTime),
+      deadline: Number(order.deadline),
+      srcSafetyDeposit: order.srcSafetyDeposit,
+      dstSafetyDeposit: order.dstSafetyDeposit,
+      partialFillAllowed: order.partialFillAllowed,
+      multipleFillsAllowed: order.multipleFillsAllowed,
+      secretHashes: item.secretHashes,
+      getTakingAmount: (makingAmount, time) => calculator.calcAuctionTakingAmount(
+        calcTakingAmount(makingAmount, order.makingAmount, order.takingAmount),
+        calculator.calcRateBump(BigInt(time))
+      ),
+      raw
+    };
+  }
+}
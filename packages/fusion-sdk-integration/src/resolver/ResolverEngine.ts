@@ -0,0 +1,587 @@
+import { EventEmitter } from 'node:events';
+import type { IChainAdapter } from '../interfaces/IChainAdapter';
+import {
+  type EscrowDeployment,
+  type FillPlan,
+  type IEscrowExecutor,
+  type IResolverOrderSource,
+  TransactionTimeoutError
+} from '../interfaces/IEscrowExecutor';
+import type { IResolverStrategy, ResolverContext, ResolverOrder } from '../interfaces/IResolverStrategy';
+import { type PollOutcome, type PollingScheduler, pollingScheduler } from '../core/PollingScheduler';
+import { type TokenRegistry, tokenRegistry } from '../tokens/TokenRegistry';
+import { getFillSecretIndex } from '../utils/partialFills';
+import { evaluateStrategies, isNativeToken } from './strategies';
+
+/**
+ * Progress of one fill
+ *
+ * `deploying_src` → `src_deployed` → `dst_deployed` → `dst_withdrawn` →
+ * `completed`. Without a secret the destination escrow is cancelled and
+ * the fill moves to `cancelling` until the source escrow can be cancelled.
+ */
+export type ResolverFillStage =
+  | 'deploying_src'
+  | 'src_deployed'
+  | 'dst_deployed'
+  | 'dst_withdrawn'
+  | 'completed'
+  | 'cancelling'
+  | 'cancelled'
+  | 'failed';
+
+/**
+ * A fill the engine is executing; `id` is `<orderHash>:<secretIndex>`
+ *
+ * `srcTxHash` is a source deployment that was sent but not mined in time;
+ * the fill stays in `deploying_src` until that transaction settles.
+ */
+export interface ResolverFill {
+  id: string;
+  order: ResolverOrder;
+  plan: FillPlan;
+  stage: ResolverFillStage;
+  srcTxHash?: string;
+  src?: EscrowDeployment;
+  dst?: EscrowDeployment;
+  secret?: string;
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Payload of each resolver event
+ *
+ * `warning` reports fills that keep going but may have lost funds, e.g.
+ * a safety deposit exposed to public cancellation.
+ */
+export interface ResolverEngineEventPayloads {
+  started: { name: string };
+  stopped: { name: string; abandonFills: boolean };
+  orderSkipped: { orderHash: string; reason: string };
+  orderDeferred: { orderHash: string; reason: string; retryAt?: number };
+  fillStarted: { fill: ResolverFill };
+  srcEscrowDeployed: { fill: ResolverFill; escrow: EscrowDeployment };
+  dstEscrowDeployed: { fill: ResolverFill; escrow: EscrowDeployment };
+  withdrawn: { fill: ResolverFill; side: 'src' | 'dst'; txHash: string };
+  cancelled: { fill: ResolverFill; side: 'src' | 'dst'; txHash: string };
+  fillCompleted: { fill: ResolverFill };
+  fillFailed: { fill: ResolverFill };
+  warning: { fill: ResolverFill; message: string };
+  error: { orderHash?: string; error: Error };
+}
+
+export type ResolverEngineEvents = {
+  [K in keyof ResolverEngineEventPayloads]: [payload: ResolverEngineEventPayloads[K]];
+};
+
+/**
+ * Resolver engine configuration
+ *
+ * `adapters` are used for inventory lookups; `skipTtlMs` is how long a
+ * skipped order is left alone before it is evaluated again.
+ */
+export interface ResolverEngineConfig {
+  source: IResolverOrderSource;
+  executor: IEscrowExecutor;
+  strategies: IResolverStrategy[];
+  adapters: Map<string | number, IChainAdapter>;
+  tokenRegistry?: TokenRegistry;
+  scheduler?: PollingScheduler;
+  name?: string;
+  discoveryIntervalMs?: number;
+  fillIntervalMs?: number;
+  maxActiveFills?: number;
+  skipTtlMs?: number;
+}
+
+const FINISHED_STAGES: ResolverFillStage[] = ['completed', 'cancelled', 'failed'];
+
+// Stages whose fills have yet to lock the destination amount and deposit
+const UNFUNDED_DST_STAGES: ResolverFillStage[] = ['deploying_src', 'src_deployed'];
+
+/**
+ * Long-running resolver bot for cross-chain orders
+ *
+ * Active orders are discovered from the order source and evaluated by the
+ * strategies (see `evaluateStrategies`). Accepted orders are filled by
+ * deploying the source and destination escrows, waiting for the maker's
+ * secret, then withdrawing on both chains. When no secret arrives the
+ * destination escrow is cancelled once its cancellation window opens, and
+ * the source escrow once the private (resolver-only) cancellation window
+ * does; past the public cancellation window anyone may cancel it and take
+ * the safety deposit, so lingering there is reported as a `warning`.
+ *
+ * Discovery and each fill are tasks on the polling scheduler.
+ */
+export class ResolverEngine extends EventEmitter<ResolverEngineEvents> {
+  private fills: Map<string, ResolverFill> = new Map();
+  private deferred: Map<string, number> = new Map(); // orderHash → unix seconds to re-evaluate at
+  private readonly scheduler: PollingScheduler;
+  private readonly tokens: TokenRegistry;
+  private readonly discoveryGroup: string;
+  private readonly fillGroup: string;
+  private readonly maxActiveFills: number;
+  private readonly skipTtlSeconds: number;
+  private running = false;
+
+  constructor(private readonly config: ResolverEngineConfig) {
+    super();
+    const name = config.name ?? 'default';
+    this.scheduler = config.scheduler ?? pollingScheduler;
+    this.tokens = config.tokenRegistry ?? tokenRegistry;
+    this.discoveryGroup = `resolver:${name}`;
+    this.fillGroup = `resolver:${name}:fills`;
+    this.maxActiveFills = config.maxActiveFills ?? 4;
+    this.skipTtlSeconds = Math.ceil((config.skipTtlMs ?? 60000) / 1000);
+
+    const discoveryIntervalMs = config.discoveryIntervalMs ?? 5000;
+    this.scheduler.configureGroup(this.discoveryGroup, {
+      minIntervalMs: discoveryIntervalMs,
+      maxIntervalMs: discoveryIntervalMs * 4,
+      maxConcurrency: 1
+    });
+    const fillIntervalMs = config.fillIntervalMs ?? 5000;
+    this.scheduler.configureGroup(this.fillGroup, {
+      minIntervalMs: fillIntervalMs,
+      maxIntervalMs: fillIntervalMs * 6
+    });
+  }
+
+  /**
+   * Start discovering orders; fills in progress keep running after `stop()`
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.scheduler.schedule(this.discoveryGroup, 'discovery', () => this.discover());
+    this.scheduler.wake(this.discoveryGroup, 'discovery');
+    this.emit('started', { name: this.discoveryGroup });
+  }
+
+  /**
+   * Stop discovering new orders
+   *
+   * With `abandonFills` the fills in progress are no longer driven either;
+   * their escrows then have to be settled some other way.
+   */
+  stop(options: { abandonFills?: boolean } = {}): void {
+    this.running = false;
+    this.scheduler.unschedule(this.discoveryGroup, 'discovery');
+
+    if (options.abandonFills) {
+      for (const id of this.fills.keys()) {
+        this.scheduler.unschedule(this.fillGroup, id);
+      }
+    }
+    this.emit('stopped', { name: this.discoveryGroup, abandonFills: options.abandonFills ?? false });
+  }
+
+  getFills(): ResolverFill[] {
+    return Array.from(this.fills.values(), fill => ({ ...fill }));
+  }
+
+  getActiveFills(): ResolverFill[] {
+    return this.getFills().filter(fill => !FINISHED_STAGES.includes(fill.stage));
+  }
+
+  /**
+   * One discovery round: evaluate every new order and start the accepted fills
+   */
+  private async discover(): Promise<PollOutcome> {
+    const orders = await this.config.source.fetchActiveOrders();
+    const now = this.now();
+    const context = this.createContext(now);
+    let started = 0;
+
+    for (const order of orders) {
+      if (this.getActiveFills().length >= this.maxActiveFills) {
+        break;
+      }
+      if (order.deadline <= now || order.remainingMakingAmount === 0n) {
+        continue;
+      }
+      if (this.hasActiveFill(order.orderHash)) {
+        continue;
+      }
+      if ((this.deferred.get(order.orderHash) ?? 0) > now) {
+        continue;
+      }
+
+      try {
+        const decision = await evaluateStrategies(this.config.strategies, order, context);
+
+        if (decision.action === 'skip') {
+          this.deferred.set(order.orderHash, now + this.skipTtlSeconds);
+          this.emit('orderSkipped', { orderHash: order.orderHash, reason: decision.reason });
+        } else if (decision.action === 'wait') {
+          this.deferred.set(order.orderHash, decision.retryAt ?? now + this.skipTtlSeconds);
+          this.emit('orderDeferred', { orderHash: order.orderHash, reason: decision.reason, retryAt: decision.retryAt });
+        } else if (decision.makingAmount > 0n) {
+          this.deferred.delete(order.orderHash);
+          if (this.startFill(order, decision.makingAmount, now)) {
+            started++;
+          }
+        }
+      } catch (error) {
+        this.emitError(error, order.orderHash);
+      }
+    }
+
+    // Forget deferrals for orders that are no longer active
+    const active = new Set(orders.map(order => order.orderHash));
+    for (const orderHash of this.deferred.keys()) {
+      if (!active.has(orderHash)) {
+        this.deferred.delete(orderHash);
+      }
+    }
+
+    return started > 0 ? 'changed' : 'unchanged';
+  }
+
+  /**
+   * Start a fill unless its secret was already used by an earlier fill
+   * (the relayer may not yet report that fill in the remaining amount)
+   */
+  private startFill(order: ResolverOrder, makingAmount: bigint, now: number): boolean {
+    const secretIndex = getSecretIndex(order, makingAmount);
+    const id = `${order.orderHash}:${secretIndex}`;
+    const existing = this.fills.get(id);
+    if (existing && existing.stage !== 'failed') {
+      return false;
+    }
+
+    const plan: FillPlan = {
+      makingAmount,
+      takingAmount: order.getTakingAmount(makingAmount, now),
+      secretIndex,
+      secretHash: order.multipleFillsAllowed ? order.secretHashes?.[secretIndex] : undefined
+    };
+    const fill: ResolverFill = {
+      id,
+      order,
+      plan,
+      stage: 'deploying_src',
+      createdAt: Date.now(),
+      updatedAt: Date.now()
+    };
+
+    this.fills.set(fill.id, fill);
+    this.scheduler.schedule(this.fillGroup, fill.id, () => this.advance(fill));
+    this.scheduler.wake(this.fillGroup, fill.id);
+    this.emit('fillStarted', { fill: { ...fill } });
+    return true;
+  }
+
+  /**
+   * Move a fill forward by (at most) one on-chain step
+   */
+  private async advance(fill: ResolverFill): Promise<PollOutcome> {
+    try {
+      switch (fill.stage) {
+        case 'deploying_src':
+          return await this.deploySrc(fill);
+        case 'src_deployed':
+          return await this.deployDst(fill);
+        case 'dst_deployed':
+          return await this.settleDst(fill);
+        case 'dst_withdrawn':
+          return await this.withdrawSrc(fill);
+        case 'cancelling':
+          return await this.cancelSrc(fill);
+        default:
+          return 'done';
+      }
+    } catch (error) {
+      fill.error = (error as Error).message;
+
+      const publicCancellableAt = fill.src?.publicCancellableAt;
+      if (publicCancellableAt !== undefined && this.now() >= publicCancellableAt) {
+        this.emit('warning', {
+          fill: { ...fill },
+          message: `Fill ${fill.id} is in the public cancellation window, its safety deposit is at risk`
+        });
+      }
+      this.emitError(error, fill.order.orderHash);
+      throw error; // back off and retry
+    }
+  }
+
+  private async deploySrc(fill: ResolverFill): Promise<PollOutcome> {
+    if (fill.srcTxHash) {
+      return this.reconcileSrc(fill, fill.srcTxHash);
+    }
+
+    try {
+      fill.src = await this.config.executor.deploySrcEscrow(fill.order, fill.plan);
+    } catch (error) {
+      if (error instanceof TransactionTimeoutError) {
+        // The deployment may still be mined and lock funds, so keep following it
+        fill.srcTxHash = error.txHash;
+        fill.error = error.message;
+        fill.updatedAt = Date.now();
+        this.emitError(error, fill.order.orderHash);
+        return 'unchanged';
+      }
+      // Nothing is locked yet, so the fill is simply dropped (e.g. another resolver won)
+      this.finish(fill, 'failed', (error as Error).message);
+      this.emitError(error, fill.order.orderHash);
+      return 'done';
+    }
+
+    this.update(fill, 'src_deployed');
+    this.emit('srcEscrowDeployed', { fill: { ...fill }, escrow: fill.src });
+    return 'changed';
+  }
+
+  /**
+   * Settle a source deployment that timed out: adopt the escrow once it is
+   * mined, drop the fill if it reverted or can no longer be mined
+   */
+  private async reconcileSrc(fill: ResolverFill, txHash: string): Promise<PollOutcome> {
+    const { status } = await this.getAdapter(fill.order.srcChain).getTransactionStatus(txHash);
+
+    if (status === 'pending') {
+      // An expired order can no longer be filled, so the transaction can only revert
+      if (this.now() <= fill.order.deadline) {
+        return 'unchanged';
+      }
+      this.finish(fill, 'failed', `Source deployment ${txHash} not mined before the order expired`);
+      return 'done';
+    }
+    if (status === 'failed') {
+      this.finish(fill, 'failed', `Source deployment ${txHash} reverted`);
+      return 'done';
+    }
+
+    fill.src = await this.config.executor.getSrcEscrow(fill.order, txHash);
+    fill.srcTxHash = undefined;
+    this.update(fill, 'src_deployed');
+    this.emit('srcEscrowDeployed', { fill: { ...fill }, escrow: fill.src });
+    return 'changed';
+  }
+
+  private async deployDst(fill: ResolverFill): Promise<PollOutcome> {
+    const src = requireEscrow(fill, 'src');
+    if (this.now() >= src.cancellableAt) {
+      // Too late for the maker to reveal a secret; take the funds back instead
+      this.update(fill, 'cancelling');
+      return 'changed';
+    }
+
+    fill.dst = await this.config.executor.deployDstEscrow(fill.order, src);
+    this.update(fill, 'dst_deployed');
+    this.emit('dstEscrowDeployed', { fill: { ...fill }, escrow: fill.dst });
+    return 'changed';
+  }
+
+  /**
+   * Withdraw to the maker once the secret is published, or cancel when it never is
+   */
+  private async settleDst(fill: ResolverFill): Promise<PollOutcome> {
+    const dst = requireEscrow(fill, 'dst');
+    const now = this.now();
+    if (now < dst.withdrawableAt) {
+      return 'unchanged';
+    }
+
+    const secret = fill.secret
+      ?? await this.config.source.getPublishedSecret(fill.order.orderHash, fill.plan.secretIndex);
+
+    if (!secret) {
+      if (now < dst.cancellableAt) {
+        return 'unchanged';
+      }
+
+      const txHash = await this.config.executor.cancel(dst);
+      this.update(fill, 'cancelling');
+      this.emit('cancelled', { fill: { ...fill }, side: 'dst', txHash });
+      return 'changed';
+    }
+
+    fill.secret = secret;
+    try {
+      const txHash = await this.config.executor.withdraw(dst, secret);
+      this.emit('withdrawn', { fill: { ...fill }, side: 'dst', txHash });
+    } catch (error) {
+      // In the public window anyone holding the secret may have withdrawn for us
+      if (now < dst.publicWithdrawableAt) {
+        throw error;
+      }
+      this.emit('warning', {
+        fill: { ...fill },
+        message: `Destination withdrawal for ${fill.id} failed in the public window: ${(error as Error).message}`
+      });
+    }
+
+    this.update(fill, 'dst_withdrawn');
+    return 'changed';
+  }
+
+  private async withdrawSrc(fill: ResolverFill): Promise<PollOutcome> {
+    const src = requireEscrow(fill, 'src');
+    if (this.now() < src.withdrawableAt) {
+      return 'unchanged';
+    }
+
+    if (!fill.secret) {
+      throw new Error(`Fill ${fill.id} has no secret to withdraw with`);
+    }
+    const txHash = await this.config.executor.withdraw(src, fill.secret);
+    this.emit('withdrawn', { fill: { ...fill }, side: 'src', txHash });
+    this.finish(fill, 'completed');
+    this.emit('fillCompleted', { fill: { ...fill } });
+    return 'done';
+  }
+
+  private async cancelSrc(fill: ResolverFill): Promise<PollOutcome> {
+    const src = requireEscrow(fill, 'src');
+    if (this.now() < src.cancellableAt) {
+      return 'unchanged';
+    }
+
+    const txHash = await this.config.executor.cancel(src);
+    this.finish(fill, 'cancelled');
+    this.emit('cancelled', { fill: { ...fill }, side: 'src', txHash });
+    return 'done';
+  }
+
+  /**
+   * Strategy context; balances are looked up once per discovery round and
+   * reduced by what active fills have committed (see `getCommitted`)
+   */
+  private createContext(now: number): ResolverContext {
+    const balances: Map<string, Promise<bigint>> = new Map();
+    const cached = (key: string, lookup: () => Promise<bigint>): Promise<bigint> => {
+      let balance = balances.get(key);
+      if (!balance) {
+        balance = lookup();
+        balances.set(key, balance);
+      }
+      return balance;
+    };
+
+    return {
+      now,
+      getInventory: async (chainId, token) => {
+        const balance = await cached(`${chainId}:${token.toLowerCase()}`, async () => {
+          const adapter = this.getAdapter(chainId);
+          const asset = await this.tokens.resolve(adapter, token);
+          return BigInt(await adapter.getBalance(asset));
+        });
+        return available(balance, this.getCommitted(chainId, token));
+      },
+      getNativeBalance: async chainId => {
+        const balance = await cached(`${chainId}:native`, async () => {
+          const adapter = this.getAdapter(chainId);
+          return BigInt(await adapter.getBalance(adapter.nativeAsset));
+        });
+        return available(balance, this.getCommitted(chainId));
+      }
+    };
+  }
+
+  /**
+   * Funds active fills are about to lock but balances do not reflect yet
+   *
+   * Read at lookup time, so fills started earlier in the same discovery
+   * round count too. Without `token` this is the native balance: safety
+   * deposits of escrows not yet deployed, and native destination amounts.
+   */
+  private getCommitted(chainId: string | number, token?: string): bigint {
+    let committed = 0n;
+    for (const { order, plan, stage } of this.fills.values()) {
+      if (!token && stage === 'deploying_src' && String(order.srcChain) === String(chainId)) {
+        committed += order.srcSafetyDeposit;
+      }
+      if (!UNFUNDED_DST_STAGES.includes(stage) || String(order.dstChain) !== String(chainId)) {
+        continue;
+      }
+
+      if (!token) {
+        committed += order.dstSafetyDeposit + (isNativeToken(order.dstToken) ? plan.takingAmount : 0n);
+      } else if (order.dstToken.toLowerCase() === token.toLowerCase()) {
+        committed += plan.takingAmount;
+      }
+    }
+    return committed;
+  }
+
+  private getAdapter(chainId: string | number): IChainAdapter {
+    const adapter = this.config.adapters.get(chainId);
+    if (!adapter) {
+      throw new Error(`No adapter for chain ${chainId}`);
+    }
+    return adapter;
+  }
+
+  private hasActiveFill(orderHash: string): boolean {
+    for (const fill of this.fills.values()) {
+      if (fill.order.orderHash === orderHash && !FINISHED_STAGES.includes(fill.stage)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private update(fill: ResolverFill, stage: ResolverFillStage): void {
+    fill.stage = stage;
+    fill.error = undefined;
+    fill.updatedAt = Date.now();
+  }
+
+  private finish(fill: ResolverFill, stage: ResolverFillStage, error?: string): void {
+    this.update(fill, stage);
+    fill.error = error;
+    if (stage === 'failed') {
+      this.emit('fillFailed', { fill: { ...fill } });
+    }
+  }
+
+  private now(): number {
+    return Math.floor(Date.now() / 1000);
+  }
+
+  /**
+   * Emit an `error` event; without a listener the emitter throws it instead
+   */
+  private emitError(error: unknown, orderHash?: string): void {
+    this.emit('error', {
+      orderHash,
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+  }
+}
+
+/**
+ * Escrow a stage works on; the stages before it always record one
+ */
+function requireEscrow(fill: ResolverFill, side: EscrowDeployment['side']): EscrowDeployment {
+  const escrow = fill[side];
+  if (!escrow) {
+    throw new Error(`Fill ${fill.id} has no ${side} escrow`);
+  }
+  return escrow;
+}
+
+function available(balance: bigint, committed: bigint): bigint {
+  return balance > committed ? balance - committed : 0n;
+}
+
+/**
+ * Index of the secret that unlocks a fill of the order (see `getFillSecretIndex`)
+ */
+export function getSecretIndex(order: ResolverOrder, makingAmount: bigint): number {
+  if (!order.multipleFillsAllowed || !order.secretHashes) {
+    return 0;
+  }
+  return getFillSecretIndex(
+    order.makingAmount,
+    order.makingAmount - order.remainingMakingAmount,
+    makingAmount,
+    order.secretHashes.length
+  );
+}
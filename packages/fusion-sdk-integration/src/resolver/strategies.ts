@@ -0,0 +1,214 @@
+import type { FillDecision, IResolverStrategy, ResolverContext, ResolverOrder } from '../interfaces/IResolverStrategy';
+import { NATIVE_ASSET_ADDRESS, ONEINCH_NATIVE_ASSET_ADDRESS } from '../adapters/evmAbis';
+
+const BPS = 10000n;
+
+/**
+ * Token prices and gas costs in one common quote unit (e.g. USD with 18 decimals)
+ */
+export interface IPriceOracle {
+  getValue(chainId: string | number, token: string, amount: bigint): Promise<bigint>;
+  getGasCost(chainId: string | number, gasUnits: bigint): Promise<bigint>;
+}
+
+/**
+ * Inventory strategy options
+ *
+ * `minFillBps` is the smallest partial fill worth taking, as a share of
+ * the remaining order.
+ */
+export interface InventoryStrategyOptions {
+  minFillBps?: number;
+}
+
+/**
+ * Fills only what the resolver can pay for on the destination chain
+ *
+ * Both safety deposits must be covered by native balances. When the
+ * destination inventory is short and the order allows multiple fills, the
+ * fill is scaled down to the inventory; otherwise the order is skipped.
+ */
+export class InventoryStrategy implements IResolverStrategy {
+  readonly name = 'inventory';
+  private readonly minFillBps: bigint;
+
+  constructor(options: InventoryStrategyOptions = {}) {
+    this.minFillBps = BigInt(options.minFillBps ?? 1000);
+  }
+
+  async evaluate(
+    order: ResolverOrder,
+    context: ResolverContext,
+    makingAmount = order.remainingMakingAmount
+  ): Promise<FillDecision> {
+    const [srcNative, dstNative] = await Promise.all([
+      context.getNativeBalance(order.srcChain),
+      context.getNativeBalance(order.dstChain)
+    ]);
+    if (srcNative < order.srcSafetyDeposit) {
+      return { action: 'skip', reason: `source safety deposit needs ${order.srcSafetyDeposit}, have ${srcNative}` };
+    }
+    if (dstNative < order.dstSafetyDeposit) {
+      return { action: 'skip', reason: `destination safety deposit needs ${order.dstSafetyDeposit}, have ${dstNative}` };
+    }
+
+    // A native destination asset shares its balance with the safety deposit
+    const available = isNativeToken(order.dstToken)
+      ? dstNative - order.dstSafetyDeposit
+      : await context.getInventory(order.dstChain, order.dstToken);
+
+    const takingAmount = order.getTakingAmount(makingAmount, context.now);
+    if (available >= takingAmount) {
+      return { action: 'fill', makingAmount };
+    }
+
+    if (!order.multipleFillsAllowed) {
+      return { action: 'skip', reason: `need ${takingAmount} of ${order.dstToken}, have ${available}` };
+    }
+
+    const partial = makingAmount * available / takingAmount;
+    if (partial * BPS < order.remainingMakingAmount * this.minFillBps) {
+      return { action: 'skip', reason: `inventory covers only ${partial} of ${order.remainingMakingAmount}` };
+    }
+    return { action: 'fill', makingAmount: partial, reason: 'partial fill limited by inventory' };
+  }
+}
+
+/**
+ * Profitability strategy options
+ *
+ * Gas units cover everything the resolver sends on each chain (escrow
+ * deployment and withdrawal).
+ */
+export interface ProfitabilityStrategyOptions {
+  minProfitBps?: number;
+  srcGasUnits?: bigint;
+  dstGasUnits?: bigint;
+}
+
+/**
+ * Fills once the Dutch auction price leaves the configured margin
+ *
+ * The resolver receives the maker's source asset and pays the auction's
+ * taking amount plus gas on both chains. While the price is still too high
+ * the order is deferred until the auction reaches the break-even point;
+ * orders that never become profitable before the auction ends are skipped.
+ */
+export class ProfitabilityStrategy implements IResolverStrategy {
+  readonly name = 'profitability';
+  private readonly minProfitBps: bigint;
+  private readonly srcGasUnits: bigint;
+  private readonly dstGasUnits: bigint;
+
+  constructor(private readonly oracle: IPriceOracle, options: ProfitabilityStrategyOptions = {}) {
+    this.minProfitBps = BigInt(options.minProfitBps ?? 10);
+    this.srcGasUnits = options.srcGasUnits ?? 400000n;
+    this.dstGasUnits = options.dstGasUnits ?? 250000n;
+  }
+
+  async evaluate(
+    order: ResolverOrder,
+    context: ResolverContext,
+    makingAmount = order.remainingMakingAmount
+  ): Promise<FillDecision> {
+    const takingAmount = order.getTakingAmount(makingAmount, context.now);
+
+    const [received, paid, srcGas, dstGas] = await Promise.all([
+      this.oracle.getValue(order.srcChain, order.srcToken, makingAmount),
+      this.oracle.getValue(order.dstChain, order.dstToken, takingAmount),
+      this.oracle.getGasCost(order.srcChain, this.srcGasUnits),
+      this.oracle.getGasCost(order.dstChain, this.dstGasUnits)
+    ]);
+    const gas = srcGas + dstGas;
+
+    // Largest payment that still leaves minProfitBps on the total cost
+    const maxPaid = ((received - gas) * BPS - gas * this.minProfitBps) / (BPS + this.minProfitBps);
+    if (paid <= maxPaid) {
+      return { action: 'fill', makingAmount };
+    }
+    if (maxPaid <= 0n || paid === 0n) {
+      return { action: 'skip', reason: `gas cost ${gas} exceeds order value ${received}` };
+    }
+
+    // The auction price only falls, so find the first second it drops to the break-even point
+    const maxTakingAmount = takingAmount * maxPaid / paid;
+    if (order.getTakingAmount(makingAmount, order.auctionEndTime) > maxTakingAmount) {
+      return { action: 'skip', reason: 'not profitable before the auction ends' };
+    }
+
+    let low = context.now;
+    let high = order.auctionEndTime;
+    while (low < high) {
+      const mid = Math.floor((low + high) / 2);
+      if (order.getTakingAmount(makingAmount, mid) <= maxTakingAmount) {
+        high = mid;
+      }
+      else {
+        low = mid + 1;
+      }
+    }
+    return { action: 'wait', reason: `profitable from ${new Date(high * 1000).toISOString()}`, retryAt: high };
+  }
+}
+
+/**
+ * Merge strategy decisions: any skip vetoes, any wait defers (to the
+ * latest retry time) and otherwise the smallest fill wins
+ */
+export function combineDecisions(decisions: FillDecision[]): FillDecision {
+  const skip = decisions.find(decision => decision.action === 'skip');
+  if (skip) {
+    return skip;
+  }
+
+  const waits = decisions.filter(decision => decision.action === 'wait');
+  if (waits.length > 0) {
+    const retryAt = waits.reduce<number | undefined>(
+      (latest, wait) => wait.retryAt === undefined ? latest : Math.max(latest ?? 0, wait.retryAt),
+      undefined
+    );
+    return { action: 'wait', reason: waits.map(wait => wait.reason).join('; '), retryAt };
+  }
+
+  const fills = decisions.filter(decision => decision.action === 'fill');
+  if (fills.length === 0) {
+    return { action: 'skip', reason: 'no strategy configured' };
+  }
+  return fills.reduce((smallest, fill) => fill.makingAmount < smallest.makingAmount ? fill : smallest);
+}
+
+/**
+ * Run every strategy on the order and merge their decisions
+ *
+ * When the merged fill is smaller than the amount evaluated (e.g. scaled
+ * down to the inventory) the strategies see that amount again, since gas
+ * weighs more on a smaller fill and it may no longer be profitable.
+ */
+export async function evaluateStrategies(
+  strategies: IResolverStrategy[],
+  order: ResolverOrder,
+  context: ResolverContext
+): Promise<FillDecision> {
+  let makingAmount = order.remainingMakingAmount;
+  for (;;) {
+    const decision = combineDecisions(
+      await Promise.all(strategies.map(strategy => strategy.evaluate(order, context, makingAmount)))
+    );
+    if (decision.action !== 'fill') {
+      return decision;
+    }
+    // Strategies that ignore the amount may answer with a larger fill
+    if (decision.makingAmount >= makingAmount) {
+      return { ...decision, makingAmount };
+    }
+    if (decision.makingAmount === 0n) {
+      return decision;
+    }
+    makingAmount = decision.makingAmount;
+  }
+}
+
+export function isNativeToken(token: string): boolean {
+  const address = token.toLowerCase();
+  return address === NATIVE_ASSET_ADDRESS || address === ONEINCH_NATIVE_ASSET_ADDRESS;
+}
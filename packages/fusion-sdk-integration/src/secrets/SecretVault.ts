@@ -0,0 +1,198 @@
+import type { IKeyProvider } from '../interfaces/IKeyProvider';
+import type { IOrderStore } from '../interfaces/IOrderStore';
+import { type AesGcmCiphertext, aesGcmDecrypt, aesGcmEncrypt } from './aesGcm';
+
+/**
+ * One encrypted hash-lock secret; the ciphertext is wiped once zeroized
+ */
+export interface SealedSecret {
+  idx: number;
+  secretHash: string;
+  encrypted?: AesGcmCiphertext;
+  zeroizedAt?: number;
+}
+
+/**
+ * Audit record written every time a secret is decrypted
+ */
+export interface SecretRevealRecord {
+  idx: number;
+  purpose: string;
+  revealedAt: number;
+}
+
+/**
+ * Envelope-encrypted secrets of one order, as persisted by the order store
+ */
+export interface SealedSecretSet {
+  version: 1;
+  keyId: string;
+  wrappedKey: string;
+  secrets: SealedSecret[];
+  reveals: SecretRevealRecord[];
+}
+
+/**
+ * Encrypted-at-rest vault for Fusion+ hash-lock secrets
+ *
+ * Each order gets its own AES-256-GCM data key, wrapped by the key provider.
+ * Ciphertexts are bound to order hash and index, every decryption is
+ * recorded, and secrets are wiped once their fill no longer needs them.
+ * Updates of one order's secrets are serialized, so a reveal record and
+ * a concurrent wipe never overwrite each other.
+ */
+export class SecretVault {
+  private readonly updates: Map<string, Promise<void>> = new Map();
+
+  constructor(
+    private readonly store: IOrderStore,
+    private readonly keyProvider: IKeyProvider
+  ) {}
+
+  /**
+   * Encrypt and persist the secrets of an order
+   */
+  async seal(orderHash: string, secrets: string[], secretHashes: string[]): Promise<void> {
+    const dataKey = await this.keyProvider.generateDataKey();
+
+    try {
+      const sealed: SealedSecretSet = {
+        version: 1,
+        keyId: dataKey.keyId,
+        wrappedKey: dataKey.wrapped,
+        secrets: secrets.map((secret, idx) => ({
+          idx,
+          secretHash: secretHashes[idx],
+          encrypted: aesGcmEncrypt(dataKey.plaintext, Buffer.from(secret, 'utf8'), this.aad(orderHash, idx))
+        })),
+        reveals: []
+      };
+
+      await this.update(orderHash, () => this.store.saveSecrets(orderHash, sealed));
+    } finally {
+      dataKey.plaintext.fill(0);
+    }
+  }
+
+  /**
+   * Decrypt a single secret, recording why it was revealed
+   */
+  async reveal(orderHash: string, idx: number, purpose: string): Promise<string> {
+    return this.update(orderHash, () => this.revealLocked(orderHash, idx, purpose));
+  }
+
+  /**
+   * Wipe one secret once the fill it unlocks is complete
+   */
+  async zeroize(orderHash: string, idx: number): Promise<void> {
+    await this.update(orderHash, async () => {
+      const sealed = await this.store.getSecrets(orderHash);
+      const entry = sealed?.secrets.find(secret => secret.idx === idx);
+      if (!sealed || !entry || !entry.encrypted) {
+        return;
+      }
+
+      entry.encrypted = undefined;
+      entry.zeroizedAt = Math.floor(Date.now() / 1000);
+      await this.store.saveSecrets(orderHash, sealed);
+    });
+  }
+
+  /**
+   * Whether a secret was wiped, i.e. its fill no longer needs it revealed
+   */
+  async isZeroized(orderHash: string, idx: number): Promise<boolean> {
+    const sealed = await this.store.getSecrets(orderHash);
+    return sealed?.secrets.find(secret => secret.idx === idx)?.zeroizedAt !== undefined;
+  }
+
+  /**
+   * Wipe every remaining secret of an order, keeping hashes and the audit trail
+   */
+  async zeroizeAll(orderHash: string): Promise<void> {
+    await this.update(orderHash, async () => {
+      const sealed = await this.store.getSecrets(orderHash);
+      if (!sealed) {
+        return;
+      }
+
+      const now = Math.floor(Date.now() / 1000);
+      for (const entry of sealed.secrets) {
+        if (entry.encrypted) {
+          entry.encrypted = undefined;
+          entry.zeroizedAt = now;
+        }
+      }
+      await this.store.saveSecrets(orderHash, sealed);
+    });
+  }
+
+  /**
+   * Whether the order still holds any secret that can be revealed
+   */
+  async hasSecrets(orderHash: string): Promise<boolean> {
+    const sealed = await this.store.getSecrets(orderHash);
+    return !!sealed?.secrets.some(secret => secret.encrypted);
+  }
+
+  /**
+   * Reveal audit trail for an order
+   */
+  async getRevealLog(orderHash: string): Promise<SecretRevealRecord[]> {
+    return (await this.store.getSecrets(orderHash))?.reveals ?? [];
+  }
+
+  private async revealLocked(orderHash: string, idx: number, purpose: string): Promise<string> {
+    const sealed = await this.load(orderHash);
+    const entry = sealed.secrets.find(secret => secret.idx === idx);
+
+    if (!entry) {
+      throw new Error(`No secret ${idx} for order ${orderHash}`);
+    }
+    if (!entry.encrypted) {
+      throw new Error(`Secret ${idx} for order ${orderHash} was zeroized`);
+    }
+
+    const dataKey = await this.keyProvider.unwrapDataKey(sealed.keyId, sealed.wrappedKey);
+    let plaintext: Buffer | undefined;
+
+    try {
+      plaintext = aesGcmDecrypt(dataKey, entry.encrypted, this.aad(orderHash, idx));
+      sealed.reveals.push({ idx, purpose, revealedAt: Math.floor(Date.now() / 1000) });
+      await this.store.saveSecrets(orderHash, sealed);
+      return plaintext.toString('utf8');
+    } finally {
+      dataKey.fill(0);
+      plaintext?.fill(0);
+    }
+  }
+
+  private async load(orderHash: string): Promise<SealedSecretSet> {
+    const sealed = await this.store.getSecrets(orderHash);
+    if (!sealed) {
+      throw new Error(`No secrets stored for order ${orderHash}`);
+    }
+    return sealed;
+  }
+
+  /**
+   * Run a read-modify-write of an order's secrets after the ones already queued for it
+   */
+  private async update<T>(orderHash: string, apply: () => Promise<T>): Promise<T> {
+    const result = (this.updates.get(orderHash) ?? Promise.resolve()).then(apply);
+
+    // Keep the queue alive after a failed update, and drop it once drained
+    const queued = result.then(() => undefined, () => undefined);
+    this.updates.set(orderHash, queued);
+    queued.then(() => {
+      if (this.updates.get(orderHash) === queued) {
+        this.updates.delete(orderHash);
+      }
+    });
+    return result;
+  }
+
+  private aad(orderHash: string, idx: number): string {
+    return `${orderHash}:${idx}`;
+  }
+}
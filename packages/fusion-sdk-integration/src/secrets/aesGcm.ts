@@ -0,0 +1,44 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'node:crypto';
+
+/**
+ * AES-256-GCM ciphertext with its IV and authentication tag, hex encoded
+ */
+export interface AesGcmCiphertext {
+  iv: string;
+  ciphertext: string;
+  authTag: string;
+}
+
+/**
+ * Encrypt with AES-256-GCM, binding optional additional authenticated data
+ */
+export function aesGcmEncrypt(key: Buffer, plaintext: Buffer, aad?: string): AesGcmCiphertext {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  if (aad) {
+    cipher.setAAD(Buffer.from(aad, 'utf8'));
+  }
+
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return {
+    iv: iv.toString('hex'),
+    ciphertext: ciphertext.toString('hex'),
+    authTag: cipher.getAuthTag().toString('hex')
+  };
+}
+
+/**
+ * Decrypt AES-256-GCM ciphertext, failing if it or its AAD was tampered with
+ */
+export function aesGcmDecrypt(key: Buffer, encrypted: AesGcmCiphertext, aad?: string): Buffer {
+  const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(encrypted.iv, 'hex'));
+  if (aad) {
+    decipher.setAAD(Buffer.from(aad, 'utf8'));
+  }
+  decipher.setAuthTag(Buffer.from(encrypted.authTag, 'hex'));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(encrypted.ciphertext, 'hex')),
+    decipher.final()
+  ]);
+}
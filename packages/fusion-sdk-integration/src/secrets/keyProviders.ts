@@ -0,0 +1,118 @@
+import { randomBytes } from 'node:crypto';
+import type { DataKey, IKeyProvider } from '../interfaces/IKeyProvider';
+import { aesGcmDecrypt, aesGcmEncrypt } from './aesGcm';
+
+const HEX_KEY_PATTERN = /^[0-9a-fA-F]{64}$/;
+
+/**
+ * Wrap a data key under a key-encryption key, bound to the key id
+ */
+function wrapKey(kek: Buffer, keyId: string, dataKey: Buffer): string {
+  const { iv, ciphertext, authTag } = aesGcmEncrypt(kek, dataKey, keyId);
+  return [iv, ciphertext, authTag].join('.');
+}
+
+/**
+ * Unwrap a data key produced by `wrapKey`
+ */
+function unwrapKey(kek: Buffer, keyId: string, wrapped: string): Buffer {
+  const [iv, ciphertext, authTag] = wrapped.split('.');
+  return aesGcmDecrypt(kek, { iv, ciphertext, authTag }, keyId);
+}
+
+/**
+ * Parse a 32-byte key given as hex (with or without 0x) or base64
+ */
+function parseKey(encoded: string): Buffer {
+  const hex = encoded.startsWith('0x') ? encoded.slice(2) : encoded;
+  const key = HEX_KEY_PATTERN.test(hex) ? Buffer.from(hex, 'hex') : Buffer.from(encoded, 'base64');
+  if (key.length !== 32) {
+    throw new Error('Secret vault key must be 32 bytes (hex or base64 encoded)');
+  }
+  return key;
+}
+
+/**
+ * Key provider using a single key-encryption key read from the environment
+ */
+export class EnvKeyProvider implements IKeyProvider {
+  private readonly kek: Buffer;
+  private readonly keyId: string;
+
+  constructor(encodedKey: string, keyId = 'env') {
+    this.kek = parseKey(encodedKey);
+    this.keyId = keyId;
+  }
+
+  /**
+   * Create a provider from an environment variable, or undefined when it is not set
+   */
+  static fromEnv(variable = 'FUSION_SECRET_KEY'): EnvKeyProvider | undefined {
+    const value = process.env[variable];
+    return value ? new EnvKeyProvider(value, `env:${variable}`) : undefined;
+  }
+
+  generateDataKey(): Promise<DataKey> {
+    const plaintext = randomBytes(32);
+    return Promise.resolve({ keyId: this.keyId, plaintext, wrapped: wrapKey(this.kek, this.keyId, plaintext) });
+  }
+
+  unwrapDataKey(keyId: string, wrapped: string): Promise<Buffer> {
+    if (keyId !== this.keyId) {
+      return Promise.reject(new Error(`Unknown key id: ${keyId}`));
+    }
+    return new Promise(resolve => resolve(unwrapKey(this.kek, keyId, wrapped)));
+  }
+}
+
+/**
+ * In-process stand-in for a KMS with versioned, rotatable master keys
+ *
+ * Master keys live only in memory, so data keys wrapped by a fresh instance
+ * cannot be unwrapped after a restart unless the keys are passed back in.
+ */
+export class LocalKmsKeyProvider implements IKeyProvider {
+  private readonly masterKeys: Map<string, Buffer> = new Map();
+  private currentKeyId: string;
+
+  constructor(masterKeys?: Record<string, string>) {
+    for (const [keyId, encoded] of Object.entries(masterKeys ?? {})) {
+      this.masterKeys.set(keyId, parseKey(encoded));
+    }
+    this.currentKeyId = Array.from(this.masterKeys.keys()).pop() ?? this.rotate();
+  }
+
+  /**
+   * Create a new master key version and use it for subsequent data keys
+   *
+   * Skips versions already taken, so caller-supplied keys are never replaced.
+   */
+  rotate(): string {
+    let version = this.masterKeys.size + 1;
+    while (this.masterKeys.has(`local-kms/v${version}`)) {
+      version++;
+    }
+    const keyId = `local-kms/v${version}`;
+    this.masterKeys.set(keyId, randomBytes(32));
+    this.currentKeyId = keyId;
+    return keyId;
+  }
+
+  generateDataKey(): Promise<DataKey> {
+    const keyId = this.currentKeyId;
+    const kek = this.masterKeys.get(keyId);
+    if (!kek) {
+      return Promise.reject(new Error(`Unknown key id: ${keyId}`));
+    }
+    const plaintext = randomBytes(32);
+    return Promise.resolve({ keyId, plaintext, wrapped: wrapKey(kek, keyId, plaintext) });
+  }
+
+  unwrapDataKey(keyId: string, wrapped: string): Promise<Buffer> {
+    const kek = this.masterKeys.get(keyId);
+    if (!kek) {
+      return Promise.reject(new Error(`Unknown key id: ${keyId}`));
+    }
+    return new Promise(resolve => resolve(unwrapKey(kek, keyId, wrapped)));
+  }
+}
@@ -0,0 +1,71 @@
+import {
+  Deserializer,
+  Ed25519Account,
+  Ed25519PrivateKey,
+  Hex,
+  Serializer,
+  SimpleTransaction
+} from '@aptos-labs/ts-sdk';
+import { getBytes, isHexString, toUtf8Bytes } from 'ethers';
+import { SignatureScheme } from '../interfaces/IChainAdapter';
+import type { ISigner } from '../interfaces/ISigner';
+import type { UniversalTxParams } from '../utils/fusionUtils';
+
+/**
+ * BIP-44 path of the first Aptos account, as used by Aptos wallets
+ */
+export const APTOS_DERIVATION_PATH = "m/44'/637'/0'/0'/0'";
+
+/**
+ * Signer backed by an in-process Ed25519 key for Aptos
+ *
+ * `signTransaction` expects `data` to hold the BCS-encoded transaction
+ * built by the adapter and returns it followed by the sender's BCS
+ * authenticator. Hex messages are signed as raw bytes, so order digests
+ * verify with the plain Ed25519 public key.
+ */
+export class AptosKeySigner implements ISigner {
+  readonly signatureScheme = SignatureScheme.ED25519;
+
+  protected readonly account: Ed25519Account;
+
+  constructor(privateKey: string | Ed25519Account) {
+    this.account = typeof privateKey === 'string'
+      ? new Ed25519Account({ privateKey: new Ed25519PrivateKey(privateKey) })
+      : privateKey;
+  }
+
+  static fromMnemonic(mnemonic: string, path: string = APTOS_DERIVATION_PATH): AptosKeySigner {
+    return new AptosKeySigner(new Ed25519Account({ privateKey: Ed25519PrivateKey.fromDerivationPath(path, mnemonic) }));
+  }
+
+  getAddress(): Promise<string> {
+    return Promise.resolve(this.account.accountAddress.toString());
+  }
+
+  /**
+   * Hex-encoded Ed25519 public key, the key order signatures verify against
+   */
+  getPublicKey(): Promise<string> {
+    return Promise.resolve(this.account.publicKey.toString());
+  }
+
+  signTransaction(txParams: UniversalTxParams): Promise<string> {
+    if (!txParams.data) {
+      return Promise.reject(new Error('Aptos transactions must be built before signing'));
+    }
+
+    const transaction = SimpleTransaction.deserialize(new Deserializer(Hex.fromHexInput(txParams.data).toUint8Array()));
+    const authenticator = this.account.signTransactionWithAuthenticator(transaction);
+
+    const serializer = new Serializer();
+    transaction.serialize(serializer);
+    authenticator.serialize(serializer);
+    return Promise.resolve(Hex.fromHexInput(serializer.toUint8Array()).toString());
+  }
+
+  signMessage(message: string): Promise<string> {
+    const bytes = isHexString(message) ? getBytes(message) : toUtf8Bytes(message);
+    return Promise.resolve(this.account.sign(bytes).toString());
+  }
+}
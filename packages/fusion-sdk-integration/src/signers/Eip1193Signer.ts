@@ -0,0 +1,83 @@
+import {
+  type Eip1193Provider,
+  type TypedDataDomain,
+  TypedDataEncoder,
+  type TypedDataField,
+  getAddress,
+  hexlify,
+  toQuantity,
+  toUtf8Bytes
+} from 'ethers';
+import { SignatureScheme } from '../interfaces/IChainAdapter';
+import type { ISigner } from '../interfaces/ISigner';
+import type { UniversalTxParams } from '../utils/fusionUtils';
+import { toEthersTransaction } from './evmTransaction';
+
+/**
+ * Signer delegating to an EIP-1193 provider such as a browser wallet
+ *
+ * Keys stay inside the wallet; every signature is confirmed by the user there.
+ * Wallets that do not implement `eth_signTransaction` can only sign messages.
+ */
+export class Eip1193Signer implements ISigner {
+  readonly signatureScheme = SignatureScheme.ECDSA_SECP256K1;
+
+  private address?: string;
+
+  constructor(private readonly provider: Eip1193Provider, address?: string) {
+    this.address = address ? getAddress(address) : undefined;
+  }
+
+  async getAddress(): Promise<string> {
+    if (!this.address) {
+      const accounts = (await this.provider.request({ method: 'eth_requestAccounts' })) as string[];
+      if (!accounts?.length) {
+        throw new Error('Wallet did not expose any accounts');
+      }
+      this.address = getAddress(accounts[0]);
+    }
+    return this.address;
+  }
+
+  async signTransaction(txParams: UniversalTxParams): Promise<string> {
+    const tx = toEthersTransaction(txParams);
+    const quantity = (value: bigint | number | null | undefined) =>
+      value === undefined || value === null ? undefined : toQuantity(value);
+
+    return (await this.provider.request({
+      method: 'eth_signTransaction',
+      params: [{
+        from: await this.getAddress(),
+        to: tx.to,
+        value: quantity(tx.value as bigint | undefined),
+        data: tx.data,
+        gas: quantity(tx.gasLimit as bigint | undefined),
+        gasPrice: quantity(tx.gasPrice as bigint | undefined),
+        maxFeePerGas: quantity(tx.maxFeePerGas as bigint | undefined),
+        maxPriorityFeePerGas: quantity(tx.maxPriorityFeePerGas as bigint | undefined),
+        nonce: quantity(tx.nonce),
+        chainId: quantity(tx.chainId as bigint | undefined),
+        type: quantity(tx.type)
+      }]
+    })) as string;
+  }
+
+  async signMessage(message: string): Promise<string> {
+    return (await this.provider.request({
+      method: 'personal_sign',
+      params: [hexlify(toUtf8Bytes(message)), await this.getAddress()]
+    })) as string;
+  }
+
+  async signTypedData(
+    domain: TypedDataDomain,
+    types: Record<string, TypedDataField[]>,
+    value: Record<string, unknown>
+  ): Promise<string> {
+    const payload = TypedDataEncoder.getPayload(domain, types, value);
+    return (await this.provider.request({
+      method: 'eth_signTypedData_v4',
+      params: [await this.getAddress(), JSON.stringify(payload)]
+    })) as string;
+  }
+}
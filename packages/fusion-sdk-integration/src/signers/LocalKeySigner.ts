@@ -0,0 +1,38 @@
+import { type BaseWallet, type TypedDataDomain, type TypedDataField, Wallet } from 'ethers';
+import { SignatureScheme } from '../interfaces/IChainAdapter';
+import type { ISigner } from '../interfaces/ISigner';
+import type { UniversalTxParams } from '../utils/fusionUtils';
+import { toEthersTransaction } from './evmTransaction';
+
+/**
+ * Signer backed by an in-process secp256k1 private key
+ */
+export class LocalKeySigner implements ISigner {
+  readonly signatureScheme = SignatureScheme.ECDSA_SECP256K1;
+
+  protected readonly wallet: BaseWallet;
+
+  constructor(privateKey: string | BaseWallet) {
+    this.wallet = typeof privateKey === 'string' ? new Wallet(privateKey) : privateKey;
+  }
+
+  getAddress(): Promise<string> {
+    return Promise.resolve(this.wallet.address);
+  }
+
+  signTransaction(txParams: UniversalTxParams): Promise<string> {
+    return this.wallet.signTransaction(toEthersTransaction(txParams));
+  }
+
+  signMessage(message: string): Promise<string> {
+    return this.wallet.signMessage(message);
+  }
+
+  signTypedData(
+    domain: TypedDataDomain,
+    types: Record<string, TypedDataField[]>,
+    value: Record<string, unknown>
+  ): Promise<string> {
+    return this.wallet.signTypedData(domain, types, value);
+  }
+}
@@ -0,0 +1,26 @@
+import { HDNodeWallet, defaultPath, getIndexedAccountPath } from 'ethers';
+import { LocalKeySigner } from './LocalKeySigner';
+
+/**
+ * Mnemonic signer options
+ */
+export interface MnemonicSignerOptions {
+  password?: string;
+  path?: string;
+  accountIndex?: number;
+}
+
+/**
+ * Signer deriving its key from a BIP-39 mnemonic along a BIP-44 HD path
+ */
+export class MnemonicSigner extends LocalKeySigner {
+  readonly path: string;
+
+  constructor(mnemonic: string, options: MnemonicSignerOptions = {}) {
+    const path = options.path
+      ?? (options.accountIndex !== undefined ? getIndexedAccountPath(options.accountIndex) : defaultPath);
+
+    super(HDNodeWallet.fromPhrase(mnemonic, options.password, path));
+    this.path = path;
+  }
+}
@@ -0,0 +1,111 @@
+import {
+  Transaction,
+  type TypedDataDomain,
+  TypedDataEncoder,
+  type TypedDataField,
+  getAddress,
+  verifyMessage,
+  verifyTypedData
+} from 'ethers';
+import { SignatureScheme } from '../interfaces/IChainAdapter';
+import type { ISigner } from '../interfaces/ISigner';
+import type { UniversalTxParams } from '../utils/fusionUtils';
+
+const TRAILING_SLASH_PATTERN = /\/$/;
+
+/**
+ * Remote signer configuration
+ */
+export interface RemoteSignerConfig {
+  url: string;
+  authToken?: string;
+  keyId?: string;
+  timeoutMs?: number;
+}
+
+/**
+ * Signer that forwards signing requests to a remote signing service over HTTP
+ *
+ * Expected endpoints (relative to `url`):
+ * - `GET  /address`          → `{ address }`
+ * - `POST /sign/transaction` → `{ signedTransaction }`
+ * - `POST /sign/message`     → `{ signature }`
+ * - `POST /sign/typed-data`  → `{ signature }` (body carries the EIP-712 payload)
+ *
+ * Every response is checked against the service's address so a misbehaving
+ * service cannot slip in a signature from another key.
+ */
+export class RemoteSigner implements ISigner {
+  readonly signatureScheme = SignatureScheme.ECDSA_SECP256K1;
+
+  private address?: string;
+
+  constructor(private readonly config: RemoteSignerConfig) {}
+
+  async getAddress(): Promise<string> {
+    if (!this.address) {
+      const response = await this.request<{ address: string }>('GET', '/address');
+      this.address = getAddress(response.address);
+    }
+    return this.address;
+  }
+
+  async signTransaction(txParams: UniversalTxParams): Promise<string> {
+    const { signedTransaction } = await this.request<{ signedTransaction: string }>(
+      'POST',
+      '/sign/transaction',
+      { transaction: txParams }
+    );
+
+    const signer = Transaction.from(signedTransaction).from;
+    if (!signer || signer !== (await this.getAddress())) {
+      throw new Error(`Remote signer returned a transaction signed by ${signer}`);
+    }
+    return signedTransaction;
+  }
+
+  async signMessage(message: string): Promise<string> {
+    const { signature } = await this.request<{ signature: string }>('POST', '/sign/message', { message });
+
+    const signer = verifyMessage(message, signature);
+    if (signer !== (await this.getAddress())) {
+      throw new Error(`Remote signer returned a message signed by ${signer}`);
+    }
+    return signature;
+  }
+
+  async signTypedData(
+    domain: TypedDataDomain,
+    types: Record<string, TypedDataField[]>,
+    value: Record<string, unknown>
+  ): Promise<string> {
+    const { signature } = await this.request<{ signature: string }>('POST', '/sign/typed-data', {
+      typedData: TypedDataEncoder.getPayload(domain, types, value)
+    });
+
+    const signer = verifyTypedData(domain, types, value, signature);
+    if (signer !== (await this.getAddress())) {
+      throw new Error(`Remote signer returned typed data signed by ${signer}`);
+    }
+    return signature;
+  }
+
+  private async request<T>(method: 'GET' | 'POST', path: string, body?: Record<string, unknown>): Promise<T> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.authToken) {
+      headers.Authorization = `Bearer ${this.config.authToken}`;
+    }
+
+    const response = await fetch(`${this.config.url.replace(TRAILING_SLASH_PATTERN, '')}${path}`, {
+      method,
+      headers,
+      body: body ? JSON.stringify({ keyId: this.config.keyId, ...body }) : undefined,
+      signal: AbortSignal.timeout(this.config.timeoutMs ?? 10000)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Remote signer ${method} ${path} failed: ${response.status} ${response.statusText}`);
+    }
+    return (await response.json()) as T;
+  }
+}
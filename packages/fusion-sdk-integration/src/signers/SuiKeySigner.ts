@@ -0,0 +1,72 @@
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { fromBase64 } from '@mysten/sui/utils';
+import { getBytes, hexlify, isHexString, toUtf8Bytes } from 'ethers';
+import { SignatureScheme } from '../interfaces/IChainAdapter';
+import type { ISigner } from '../interfaces/ISigner';
+import type { UniversalTxParams } from '../utils/fusionUtils';
+
+/**
+ * BIP-44 path of the first Sui Ed25519 account, as used by Sui wallets
+ */
+export const SUI_DERIVATION_PATH = "m/44'/784'/0'/0'/0'";
+
+/**
+ * Transaction bytes and the serialized sender signature, both base64,
+ * as `executeTransactionBlock` takes them
+ */
+export interface SuiSignedTransaction {
+  bytes: string;
+  signature: string;
+}
+
+/**
+ * Signer backed by an in-process Ed25519 keypair for Sui
+ *
+ * `signTransaction` expects `data` to hold the base64 transaction bytes
+ * built by the adapter and returns a JSON-encoded `SuiSignedTransaction`.
+ * Hex messages are signed as raw bytes, so order digests verify with the
+ * plain Ed25519 public key.
+ */
+export class SuiKeySigner implements ISigner {
+  readonly signatureScheme = SignatureScheme.ED25519;
+
+  protected readonly keypair: Ed25519Keypair;
+
+  /**
+   * @param secretKey Bech32 `suiprivkey…` string, or an existing keypair
+   */
+  constructor(secretKey: string | Ed25519Keypair) {
+    this.keypair = typeof secretKey === 'string'
+      ? Ed25519Keypair.fromSecretKey(isHexString(secretKey) ? getBytes(secretKey) : secretKey)
+      : secretKey;
+  }
+
+  static fromMnemonic(mnemonic: string, path: string = SUI_DERIVATION_PATH): SuiKeySigner {
+    return new SuiKeySigner(Ed25519Keypair.deriveKeypair(mnemonic, path));
+  }
+
+  getAddress(): Promise<string> {
+    return Promise.resolve(this.keypair.toSuiAddress());
+  }
+
+  /**
+   * Hex-encoded Ed25519 public key, the key order signatures verify against
+   */
+  getPublicKey(): Promise<string> {
+    return Promise.resolve(hexlify(this.keypair.getPublicKey().toRawBytes()));
+  }
+
+  async signTransaction(txParams: UniversalTxParams): Promise<string> {
+    if (!txParams.data) {
+      throw new Error('Sui transactions must be built before signing');
+    }
+
+    const signed: SuiSignedTransaction = await this.keypair.signTransaction(fromBase64(txParams.data));
+    return JSON.stringify({ bytes: signed.bytes, signature: signed.signature });
+  }
+
+  async signMessage(message: string): Promise<string> {
+    const bytes = isHexString(message) ? getBytes(message) : toUtf8Bytes(message);
+    return hexlify(await this.keypair.sign(bytes));
+  }
+}
@@ -0,0 +1,69 @@
+import { InMemorySigner } from '@taquito/signer';
+import { getBytes, isHexString, toUtf8Bytes } from 'ethers';
+import { SignatureScheme } from '../interfaces/IChainAdapter';
+import type { ISigner } from '../interfaces/ISigner';
+import type { UniversalTxParams } from '../utils/fusionUtils';
+
+/**
+ * Derivation path of the first Tezos account, as used by Tezos wallets
+ */
+export const TEZOS_DERIVATION_PATH = "44'/1729'/0'/0'";
+
+/**
+ * Watermark Tezos prepends to manager operations before signing
+ */
+const GENERIC_OPERATION_WATERMARK = new Uint8Array([3]);
+
+const HEX_PREFIX_PATTERN = /^0x/;
+
+/**
+ * Signer backed by an in-process Ed25519 (`edsk…`) key for Tezos
+ *
+ * `signTransaction` expects `data` to hold the forged operation built by
+ * the adapter and returns it followed by the signature, ready for
+ * injection. Messages are signed Tezos-style, over their Blake2b hash, and
+ * signatures are `edsig…` strings that `verifySignature` from
+ * `@taquito/utils` checks against `getPublicKey()`.
+ */
+export class TezosKeySigner implements ISigner {
+  readonly signatureScheme = SignatureScheme.ED25519;
+
+  protected readonly signer: InMemorySigner;
+
+  constructor(secretKey: string | InMemorySigner) {
+    if (typeof secretKey === 'string' && !secretKey.startsWith('edsk')) {
+      throw new Error('Tezos key signer only supports Ed25519 (edsk) keys');
+    }
+    this.signer = typeof secretKey === 'string' ? new InMemorySigner(secretKey) : secretKey;
+  }
+
+  static fromMnemonic(mnemonic: string, path: string = TEZOS_DERIVATION_PATH): TezosKeySigner {
+    return new TezosKeySigner(InMemorySigner.fromMnemonic({ mnemonic, derivationPath: path, curve: 'ed25519' }));
+  }
+
+  getAddress(): Promise<string> {
+    return this.signer.publicKeyHash();
+  }
+
+  /**
+   * `edpk…` public key, needed to reveal the account and to verify its signatures
+   */
+  getPublicKey(): Promise<string> {
+    return this.signer.publicKey();
+  }
+
+  async signTransaction(txParams: UniversalTxParams): Promise<string> {
+    if (!txParams.data) {
+      throw new Error('Tezos operations must be forged before signing');
+    }
+
+    const { sbytes } = await this.signer.sign(txParams.data.replace(HEX_PREFIX_PATTERN, ''), GENERIC_OPERATION_WATERMARK);
+    return sbytes;
+  }
+
+  async signMessage(message: string): Promise<string> {
+    const bytes = isHexString(message) ? getBytes(message) : toUtf8Bytes(message);
+    const { prefixSig } = await this.signer.sign(bytes);
+    return prefixSig;
+  }
+}
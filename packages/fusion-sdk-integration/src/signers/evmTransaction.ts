@@ -0,0 +1,50 @@
+import type { TransactionRequest } from 'ethers';
+import type { UniversalTxParams } from '../utils/fusionUtils';
+
+/**
+ * EVM fields of `UniversalTxParams.chainSpecific`
+ */
+export interface EvmChainSpecific {
+  chainId?: string | number | bigint;
+  type?: number;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+}
+
+/**
+ * Log of an EVM receipt, as adapters report it in `ChainTxResult.chainSpecific.logs`
+ */
+export interface EvmLog {
+  address: string;
+  topics: string[];
+  data: string;
+}
+
+/**
+ * Optional numeric value to bigint
+ */
+function toBigInt(value: string | number | bigint | undefined): bigint | undefined {
+  return value === undefined || value === null ? undefined : BigInt(value);
+}
+
+/**
+ * Convert populated universal transaction parameters into an ethers transaction request
+ *
+ * EVM-only fields (chainId, type, EIP-1559 fees) travel in `chainSpecific`.
+ */
+export function toEthersTransaction(txParams: UniversalTxParams): TransactionRequest {
+  const chainSpecific: EvmChainSpecific = txParams.chainSpecific ?? {};
+
+  return {
+    to: txParams.to,
+    value: toBigInt(txParams.value),
+    data: txParams.data,
+    gasLimit: toBigInt(txParams.gasLimit),
+    gasPrice: toBigInt(txParams.gasPrice),
+    nonce: txParams.nonce,
+    chainId: toBigInt(chainSpecific.chainId),
+    type: chainSpecific.type,
+    maxFeePerGas: toBigInt(chainSpecific.maxFeePerGas),
+    maxPriorityFeePerGas: toBigInt(chainSpecific.maxPriorityFeePerGas)
+  };
+}
@@ -0,0 +1,104 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { IOrderStore, OrderStoreFilter } from '../interfaces/IOrderStore';
+import type { SealedSecretSet } from '../secrets/SecretVault';
+import type { UniversalOrder } from '../utils/fusionUtils';
+import { type StoredOrder, deserializeOrder, matchesFilter, serializeOrder } from './orderSerialization';
+
+/**
+ * On-disk layout of the order store file
+ */
+interface OrderStoreFile {
+  version: 1;
+  orders: Record<string, StoredOrder>;
+  secrets: Record<string, SealedSecretSet>;
+}
+
+/**
+ * Order store persisted to a single JSON file
+ *
+ * Writes go to a temporary file that is renamed over the original, so a
+ * crash mid-write never leaves a truncated store behind. Secrets are only
+ * ever written sealed, and the file is created with owner-only permissions.
+ */
+export class FileOrderStore implements IOrderStore {
+  private data?: OrderStoreFile;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async saveOrder(order: UniversalOrder): Promise<void> {
+    await this.update(data => {
+      data.orders[order.orderHash] = serializeOrder(order);
+    });
+  }
+
+  async getOrder(orderHash: string): Promise<UniversalOrder | undefined> {
+    const stored = (await this.load()).orders[orderHash];
+    return stored ? deserializeOrder(stored) : undefined;
+  }
+
+  async listOrders(filter?: OrderStoreFilter): Promise<UniversalOrder[]> {
+    return Object.values((await this.load()).orders)
+      .map(deserializeOrder)
+      .filter(order => matchesFilter(order, filter));
+  }
+
+  async deleteOrder(orderHash: string): Promise<void> {
+    await this.update(data => {
+      delete data.orders[orderHash];
+    });
+  }
+
+  async saveSecrets(orderHash: string, secrets: SealedSecretSet): Promise<void> {
+    await this.update(data => {
+      data.secrets[orderHash] = structuredClone(secrets);
+    });
+  }
+
+  async getSecrets(orderHash: string): Promise<SealedSecretSet | undefined> {
+    const secrets = (await this.load()).secrets[orderHash];
+    return secrets ? structuredClone(secrets) : undefined;
+  }
+
+  async deleteSecrets(orderHash: string): Promise<void> {
+    await this.update(data => {
+      delete data.secrets[orderHash];
+    });
+  }
+
+  private async load(): Promise<OrderStoreFile> {
+    if (this.data) {
+      return this.data;
+    }
+
+    try {
+      this.data = JSON.parse(await readFile(this.filePath, 'utf8')) as OrderStoreFile;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+      this.data = { version: 1, orders: {}, secrets: {} };
+    }
+    return this.data;
+  }
+
+  /**
+   * Apply a mutation and flush it to disk, serializing concurrent writers
+   */
+  private async update(mutate: (data: OrderStoreFile) => void): Promise<void> {
+    const write = this.writeQueue.then(async () => {
+      const data = await this.load();
+      mutate(data);
+
+      const tmpPath = `${this.filePath}.tmp`;
+      await mkdir(dirname(this.filePath), { recursive: true });
+      await writeFile(tmpPath, JSON.stringify(data, null, 2), { mode: 0o600 });
+      await rename(tmpPath, this.filePath);
+    });
+
+    // Keep the queue alive after a failed write
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+}
@@ -0,0 +1,49 @@
+import type { IOrderStore, OrderStoreFilter } from '../interfaces/IOrderStore';
+import type { SealedSecretSet } from '../secrets/SecretVault';
+import type { UniversalOrder } from '../utils/fusionUtils';
+import { type StoredOrder, deserializeOrder, matchesFilter, serializeOrder } from './orderSerialization';
+
+/**
+ * Order store kept in process memory; contents are lost on restart
+ */
+export class InMemoryOrderStore implements IOrderStore {
+  private orders: Map<string, StoredOrder> = new Map();
+  private secrets: Map<string, SealedSecretSet> = new Map();
+
+  saveOrder(order: UniversalOrder): Promise<void> {
+    this.orders.set(order.orderHash, serializeOrder(order));
+    return Promise.resolve();
+  }
+
+  getOrder(orderHash: string): Promise<UniversalOrder | undefined> {
+    const stored = this.orders.get(orderHash);
+    return Promise.resolve(stored ? deserializeOrder(stored) : undefined);
+  }
+
+  listOrders(filter?: OrderStoreFilter): Promise<UniversalOrder[]> {
+    const orders = Array.from(this.orders.values())
+      .map(deserializeOrder)
+      .filter(order => matchesFilter(order, filter));
+    return Promise.resolve(orders);
+  }
+
+  deleteOrder(orderHash: string): Promise<void> {
+    this.orders.delete(orderHash);
+    return Promise.resolve();
+  }
+
+  saveSecrets(orderHash: string, secrets: SealedSecretSet): Promise<void> {
+    this.secrets.set(orderHash, structuredClone(secrets));
+    return Promise.resolve();
+  }
+
+  getSecrets(orderHash: string): Promise<SealedSecretSet | undefined> {
+    const secrets = this.secrets.get(orderHash);
+    return Promise.resolve(secrets ? structuredClone(secrets) : undefined);
+  }
+
+  deleteSecrets(orderHash: string): Promise<void> {
+    this.secrets.delete(orderHash);
+    return Promise.resolve();
+  }
+}
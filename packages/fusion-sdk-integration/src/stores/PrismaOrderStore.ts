@@ -0,0 +1,66 @@
+import { database, type Prisma } from '@repo/database';
+import type { IOrderStore, OrderStoreFilter } from '../interfaces/IOrderStore';
+import type { SealedSecretSet } from '../secrets/SecretVault';
+import type { UniversalOrder } from '../utils/fusionUtils';
+import { type StoredOrder, deserializeOrder, serializeOrder } from './orderSerialization';
+
+/**
+ * Order store backed by the `FusionOrder` and `FusionOrderSecret` Prisma models
+ */
+export class PrismaOrderStore implements IOrderStore {
+  constructor(private readonly client: typeof database = database) {}
+
+  async saveOrder(order: UniversalOrder): Promise<void> {
+    const fields = {
+      srcChain: order.srcChain.toString(),
+      dstChain: order.dstChain.toString(),
+      maker: order.maker.toLowerCase(),
+      status: order.status,
+      data: serializeOrder(order) as unknown as Prisma.InputJsonValue
+    };
+
+    await this.client.fusionOrder.upsert({
+      where: { orderHash: order.orderHash },
+      create: { orderHash: order.orderHash, ...fields },
+      update: fields
+    });
+  }
+
+  async getOrder(orderHash: string): Promise<UniversalOrder | undefined> {
+    const row = await this.client.fusionOrder.findUnique({ where: { orderHash } });
+    return row ? deserializeOrder(row.data as unknown as StoredOrder) : undefined;
+  }
+
+  async listOrders(filter?: OrderStoreFilter): Promise<UniversalOrder[]> {
+    const rows = await this.client.fusionOrder.findMany({
+      where: {
+        status: filter?.statuses ? { in: filter.statuses } : undefined,
+        maker: filter?.maker ? filter.maker.toLowerCase() : undefined
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+    return rows.map(row => deserializeOrder(row.data as unknown as StoredOrder));
+  }
+
+  async deleteOrder(orderHash: string): Promise<void> {
+    await this.client.fusionOrder.deleteMany({ where: { orderHash } });
+  }
+
+  async saveSecrets(orderHash: string, secrets: SealedSecretSet): Promise<void> {
+    const sealed = secrets as unknown as Prisma.InputJsonValue;
+    await this.client.fusionOrderSecret.upsert({
+      where: { orderHash },
+      create: { orderHash, sealed },
+      update: { sealed }
+    });
+  }
+
+  async getSecrets(orderHash: string): Promise<SealedSecretSet | undefined> {
+    const row = await this.client.fusionOrderSecret.findUnique({ where: { orderHash } });
+    return row ? (row.sealed as unknown as SealedSecretSet) : undefined;
+  }
+
+  async deleteSecrets(orderHash: string): Promise<void> {
+    await this.client.fusionOrderSecret.deleteMany({ where: { orderHash } });
+  }
+}
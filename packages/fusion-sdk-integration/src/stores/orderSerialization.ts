@@ -0,0 +1,46 @@
+import { HashLock } from '@1inch/cross-chain-sdk';
+import type { OrderStoreFilter } from '../interfaces/IOrderStore';
+import type { UniversalOrder } from '../utils/fusionUtils';
+
+/**
+ * JSON-safe representation of a universal order
+ */
+export type StoredOrder = Omit<UniversalOrder, 'hashLock'> & { hashLock?: string };
+
+/**
+ * Convert an order to its JSON-safe form
+ */
+export function serializeOrder(order: UniversalOrder): StoredOrder {
+  const { hashLock, ...rest } = order;
+  return JSON.parse(JSON.stringify({
+    ...rest,
+    hashLock: hashLock ? hashLock.toString() : undefined
+  }));
+}
+
+/**
+ * Restore an order from its JSON-safe form
+ */
+export function deserializeOrder(stored: StoredOrder): UniversalOrder {
+  // Drop raw secrets that older versions stored on the order itself
+  const { hashLock, secrets: _legacySecrets, ...rest } = stored as StoredOrder & { secrets?: string[] };
+  return {
+    ...rest,
+    fills: rest.fills ?? [],
+    statusHistory: rest.statusHistory ?? [],
+    hashLock: hashLock ? HashLock.fromString(hashLock) : undefined
+  };
+}
+
+/**
+ * Check whether an order matches a store filter
+ */
+export function matchesFilter(order: UniversalOrder, filter?: OrderStoreFilter): boolean {
+  if (filter?.statuses && !filter.statuses.includes(order.status)) {
+    return false;
+  }
+  if (filter?.maker && order.maker.toLowerCase() !== filter.maker.toLowerCase()) {
+    return false;
+  }
+  return true;
+}
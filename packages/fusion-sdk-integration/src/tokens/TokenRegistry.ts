@@ -0,0 +1,139 @@
+import type { IChainAdapter } from '../interfaces/IChainAdapter';
+import type { UniversalAsset } from '../utils/fusionUtils';
+import { CURATED_TOKEN_LISTS } from './tokenLists';
+
+/**
+ * Token registry options
+ */
+export interface TokenRegistryOptions {
+  ttlMs?: number;
+  tokenLists?: Record<string, UniversalAsset[]>;
+}
+
+interface CachedAsset {
+  asset: UniversalAsset;
+  expiresAt: number;
+}
+
+/**
+ * Registry of token metadata across chains
+ *
+ * Curated tokens are served directly. Anything else is resolved on chain
+ * through the chain's adapter (`getAssetMetadata`) and cached for `ttlMs`;
+ * concurrent lookups of the same token share a single request.
+ */
+export class TokenRegistry {
+  private curated: Map<string, UniversalAsset> = new Map();
+  private cache: Map<string, CachedAsset> = new Map();
+  private pending: Map<string, Promise<UniversalAsset>> = new Map();
+  private readonly ttlMs: number;
+
+  constructor(options: TokenRegistryOptions = {}) {
+    this.ttlMs = options.ttlMs ?? 60 * 60 * 1000;
+
+    for (const assets of Object.values(options.tokenLists ?? CURATED_TOKEN_LISTS)) {
+      for (const asset of assets) {
+        this.register(asset);
+      }
+    }
+  }
+
+  /**
+   * Pin an asset's metadata; pinned entries never expire
+   */
+  register(asset: UniversalAsset): void {
+    this.curated.set(this.key(asset.chainId, asset.address, asset.tokenId), asset);
+  }
+
+  /**
+   * Look up an asset without touching the chain
+   */
+  get(chainId: string | number, address: string, tokenId?: string): UniversalAsset | undefined {
+    const key = this.key(chainId, address, tokenId);
+    const curated = this.curated.get(key);
+    if (curated) {
+      return curated;
+    }
+
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.asset;
+    }
+    return undefined;
+  }
+
+  /**
+   * Resolve an asset, reading its metadata from chain when it is not known
+   */
+  async resolve(adapter: IChainAdapter, address: string, tokenId?: string): Promise<UniversalAsset> {
+    const known = this.get(adapter.chainId, address, tokenId);
+    if (known) {
+      return known;
+    }
+
+    const key = this.key(adapter.chainId, address, tokenId);
+    const inFlight = this.pending.get(key);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const lookup = adapter.getAssetMetadata(address, tokenId)
+      .then(asset => {
+        this.cache.set(key, { asset, expiresAt: Date.now() + this.ttlMs });
+        return asset;
+      })
+      .finally(() => this.pending.delete(key));
+
+    this.pending.set(key, lookup);
+    return lookup;
+  }
+
+  /**
+   * Find a known asset by symbol on a chain
+   */
+  findBySymbol(chainId: string | number, symbol: string): UniversalAsset | undefined {
+    const wanted = symbol.toLowerCase();
+    return this.list(chainId).find(asset => asset.symbol.toLowerCase() === wanted);
+  }
+
+  /**
+   * All curated and unexpired cached assets of a chain
+   */
+  list(chainId: string | number): UniversalAsset[] {
+    const prefix = `${chainId}:`;
+    const now = Date.now();
+    const cached = Array.from(this.cache.entries())
+      .filter(([key, entry]) => key.startsWith(prefix) && entry.expiresAt > now)
+      .map(([, entry]) => entry.asset);
+    const curated = Array.from(this.curated.entries())
+      .filter(([key]) => key.startsWith(prefix))
+      .map(([, asset]) => asset);
+    return [...curated, ...cached];
+  }
+
+  /**
+   * Drop cached (not curated) entries, for one chain or all
+   */
+  invalidate(chainId?: string | number): void {
+    if (chainId === undefined) {
+      this.cache.clear();
+      return;
+    }
+    for (const key of this.cache.keys()) {
+      if (key.startsWith(`${chainId}:`)) {
+        this.cache.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Hex addresses are case-insensitive; base58 (Tezos) ones are not
+   */
+  private key(chainId: string | number, address: string, tokenId?: string): string {
+    const normalized = address.startsWith('0x') ? address.toLowerCase() : address;
+    return `${chainId}:${normalized}${tokenId !== undefined ? `:${tokenId}` : ''}`;
+  }
+}
+
+// Export singleton instance
+export const tokenRegistry = new TokenRegistry();
@@ -0,0 +1,69 @@
+import { SUPPORTED_CHAINS } from '../adapters/ChainAdapterFactory';
+import type { UniversalAsset } from '../utils/fusionUtils';
+
+/**
+ * Curated tokens per supported chain
+ *
+ * Entries here are trusted as-is and never looked up on chain. Keep
+ * addresses checksummed for EVM chains and fully qualified for Move types.
+ */
+export const CURATED_TOKEN_LISTS: Record<string, UniversalAsset[]> = {
+  [SUPPORTED_CHAINS.ETHEREUM]: [
+    { chainId: 1, address: '0x0000000000000000000000000000000000000000', symbol: 'ETH', decimals: 18, standard: 'NATIVE' },
+    { chainId: 1, address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', symbol: 'USDC', decimals: 6, standard: 'ERC20' },
+    { chainId: 1, address: '0xdAC17F958D2ee523a2206206994597C13D831ec7', symbol: 'USDT', decimals: 6, standard: 'ERC20' },
+    { chainId: 1, address: '0x6B175474E89094C44Da98b954EedeAC495271d0F', symbol: 'DAI', decimals: 18, standard: 'ERC20' },
+    { chainId: 1, address: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2', symbol: 'WETH', decimals: 18, standard: 'ERC20' }
+  ],
+  [SUPPORTED_CHAINS.ARBITRUM]: [
+    { chainId: 42161, address: '0x0000000000000000000000000000000000000000', symbol: 'ETH', decimals: 18, standard: 'NATIVE' },
+    { chainId: 42161, address: '0xaf88d065e77c8cC2239327C5EDb6A432268e5831', symbol: 'USDC', decimals: 6, standard: 'ERC20' },
+    { chainId: 42161, address: '0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9', symbol: 'USDT', decimals: 6, standard: 'ERC20' },
+    { chainId: 42161, address: '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1', symbol: 'WETH', decimals: 18, standard: 'ERC20' }
+  ],
+  [SUPPORTED_CHAINS.BASE]: [
+    { chainId: 8453, address: '0x0000000000000000000000000000000000000000', symbol: 'ETH', decimals: 18, standard: 'NATIVE' },
+    { chainId: 8453, address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', symbol: 'USDC', decimals: 6, standard: 'ERC20' },
+    { chainId: 8453, address: '0x4200000000000000000000000000000000000006', symbol: 'WETH', decimals: 18, standard: 'ERC20' }
+  ],
+  [SUPPORTED_CHAINS.POLYGON]: [
+    { chainId: 137, address: '0x0000000000000000000000000000000000000000', symbol: 'MATIC', decimals: 18, standard: 'NATIVE' },
+    { chainId: 137, address: '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359', symbol: 'USDC', decimals: 6, standard: 'ERC20' },
+    { chainId: 137, address: '0xc2132D05D31c914a87C6611C10748AEb04B58e8F', symbol: 'USDT', decimals: 6, standard: 'ERC20' },
+    { chainId: 137, address: '0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619', symbol: 'WETH', decimals: 18, standard: 'ERC20' }
+  ],
+  [SUPPORTED_CHAINS.ETHERLINK]: [
+    { chainId: 128123, address: '0x0000000000000000000000000000000000000000', symbol: 'XTZ', decimals: 18, standard: 'NATIVE' }
+  ],
+  [SUPPORTED_CHAINS.APTOS]: [
+    { chainId: 'aptos-mainnet', address: '0x1::aptos_coin::AptosCoin', symbol: 'APT', decimals: 8, standard: 'NATIVE' },
+    {
+      chainId: 'aptos-mainnet',
+      address: '0xbae207659db88bea0cbead6da0ed00aac12edcdda169e591cd41c94180b46f3b',
+      symbol: 'USDC',
+      decimals: 6,
+      standard: 'APTOS_FA'
+    }
+  ],
+  [SUPPORTED_CHAINS.SUI]: [
+    { chainId: 'sui-mainnet', address: '0x2::sui::SUI', symbol: 'SUI', decimals: 9, standard: 'NATIVE' },
+    {
+      chainId: 'sui-mainnet',
+      address: '0xdba34672e30cb065b1f93e3ab55318768fd6fef66c15942c9f7cb846e2f900e7::usdc::USDC',
+      symbol: 'USDC',
+      decimals: 6,
+      standard: 'SUI_COIN'
+    }
+  ],
+  [SUPPORTED_CHAINS.TEZOS]: [
+    { chainId: 'tezos-mainnet', address: 'tez', symbol: 'XTZ', decimals: 6, standard: 'NATIVE' },
+    {
+      chainId: 'tezos-mainnet',
+      address: 'KT1XnTn74bUtxHfDtBmm2bGZAQfhPbvKWR8o',
+      tokenId: '0',
+      symbol: 'USDt',
+      decimals: 6,
+      standard: 'FA2'
+    }
+  ]
+};
@@ -0,0 +1,204 @@
+import { randomUUID } from 'node:crypto';
+import { ApiError, ApiTimeoutError, RateLimitedError, createApiError } from './apiErrors';
+import { sleep } from './fusionUtils';
+
+/**
+ * Default relayer API used by the legacy maker/resolver stack
+ */
+export const DEFAULT_API_URL = 'https://api.1inch.dev/fusion-plus';
+
+const TRAILING_SLASH_PATTERN = /\/$/;
+const ABSOLUTE_URL_PATTERN = /^https?:\/\//;
+
+/**
+ * Submissions that carry an `Idempotency-Key`, so they are safe to retry
+ */
+export const IDEMPOTENT_PATHS = [
+  '/orders/fill',
+  '/relayer/v1.0/submit',
+  '/relayer/v1.0/submit/secret'
+];
+
+/**
+ * A failed request about to be retried; `attempt` counts from 0
+ */
+export interface ApiRetry {
+  method: 'GET' | 'POST';
+  url: string;
+  attempt: number;
+  delayMs: number;
+  error: Error;
+}
+
+/**
+ * API client options; `onRetry` is called before each retry
+ */
+export interface ApiClientOptions {
+  baseUrl?: string;
+  timeoutMs?: number;
+  maxRetries?: number;
+  retryDelayMs?: number;
+  maxRetryDelayMs?: number;
+  onRetry?: (retry: ApiRetry) => void;
+}
+
+/**
+ * Per-request options
+ */
+export interface ApiRequestOptions {
+  idempotencyKey?: string;
+}
+
+/**
+ * JSON-over-HTTP client for the relayer API
+ *
+ * Requests are authenticated with the API key and time out after
+ * `timeoutMs`. 429s are always retried and 5xx/timeouts are retried for
+ * GETs and idempotent submissions, waiting for `Retry-After` when the API
+ * sends it and backing off exponentially otherwise. Failures surface as
+ * `ApiError` subclasses.
+ *
+ * Also usable as the 1inch SDK's `httpProvider`, which passes absolute URLs.
+ */
+export class ApiClient {
+  private readonly baseUrl: string;
+  private readonly timeoutMs: number;
+  private readonly maxRetries: number;
+  private readonly retryDelayMs: number;
+  private readonly maxRetryDelayMs: number;
+  private readonly onRetry?: (retry: ApiRetry) => void;
+
+  constructor(private readonly apiKey: string, options: ApiClientOptions = {}) {
+    this.baseUrl = (options.baseUrl ?? DEFAULT_API_URL).replace(TRAILING_SLASH_PATTERN, '');
+    this.timeoutMs = options.timeoutMs ?? 15000;
+    this.maxRetries = options.maxRetries ?? 3;
+    this.retryDelayMs = options.retryDelayMs ?? 500;
+    this.maxRetryDelayMs = options.maxRetryDelayMs ?? 30000;
+    this.onRetry = options.onRetry;
+  }
+
+  public get<T>(path: string, query?: Record<string, string | number | undefined>): Promise<T> {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query ?? {})) {
+      if (value !== undefined) {
+        params.set(key, String(value));
+      }
+    }
+    const search = params.toString();
+    return this.request<T>('GET', search ? `${path}${path.includes('?') ? '&' : '?'}${search}` : path);
+  }
+
+  public async post<T>(path: string, body?: unknown, options: ApiRequestOptions = {}): Promise<T> {
+    const url = this.resolveUrl(path);
+    const idempotencyKey = options.idempotencyKey
+      ?? (IDEMPOTENT_PATHS.some(idempotent => new URL(url).pathname.endsWith(idempotent)) ? randomUUID() : undefined);
+    return this.request<T>('POST', path, body, idempotencyKey);
+  }
+
+  private async request<T>(method: 'GET' | 'POST', path: string, body?: unknown, idempotencyKey?: string): Promise<T> {
+    const url = this.resolveUrl(path);
+    const retrySafe = method === 'GET' || idempotencyKey !== undefined;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.send<T>(method, url, body, idempotencyKey);
+      } catch (error) {
+        if (attempt >= this.maxRetries || !this.isRetryable(error, retrySafe)) {
+          throw error;
+        }
+
+        const delay = this.getRetryDelay(error, attempt);
+        this.onRetry?.({ method, url, attempt, delayMs: delay, error: error as Error });
+        await sleep(delay);
+      }
+    }
+  }
+
+  private async send<T>(method: 'GET' | 'POST', url: string, body?: unknown, idempotencyKey?: string): Promise<T> {
+    const headers: Record<string, string> = {
+      Accept: 'application/json',
+      Authorization: `Bearer ${this.apiKey}`
+    };
+    if (body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+    if (idempotencyKey) {
+      headers['Idempotency-Key'] = idempotencyKey;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method,
+        headers,
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+        signal: AbortSignal.timeout(this.timeoutMs)
+      });
+    } catch (error) {
+      if ((error as Error).name === 'TimeoutError') {
+        throw new ApiTimeoutError(url, this.timeoutMs);
+      }
+      throw error;
+    }
+
+    const text = await response.text();
+    const payload = text ? this.parse(text) : undefined;
+
+    if (!response.ok) {
+      throw createApiError(response.status, url, payload, this.parseRetryAfter(response.headers.get('retry-after')));
+    }
+    return payload as T;
+  }
+
+  /**
+   * Rate limits are never processed, so they are always safe to retry;
+   * server errors, timeouts and network failures only when the request is
+   */
+  private isRetryable(error: unknown, retrySafe: boolean): boolean {
+    if (error instanceof RateLimitedError) {
+      return true;
+    }
+    if (!retrySafe) {
+      return false;
+    }
+    if (error instanceof ApiError) {
+      return error.status >= 500;
+    }
+    return error instanceof ApiTimeoutError || error instanceof TypeError; // fetch reports network errors as TypeError
+  }
+
+  private getRetryDelay(error: unknown, attempt: number): number {
+    const retryAfterMs = error instanceof ApiError ? error.retryAfterMs : undefined;
+    const delay = retryAfterMs ?? this.retryDelayMs * 2 ** attempt;
+    return Math.min(delay, this.maxRetryDelayMs);
+  }
+
+  /**
+   * `Retry-After` is either delay-seconds or an HTTP date
+   */
+  private parseRetryAfter(header: string | null): number | undefined {
+    if (!header) {
+      return undefined;
+    }
+
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+
+  private resolveUrl(path: string): string {
+    return ABSOLUTE_URL_PATTERN.test(path) ? path : `${this.baseUrl}${path}`;
+  }
+
+  private parse(text: string): unknown {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+}
@@ -0,0 +1,139 @@
+import type { UniversalAsset } from './fusionUtils';
+
+/**
+ * How to round when a value has more precision than the target decimals
+ *
+ * - `down`: toward zero (never overstates an amount)
+ * - `up`: away from zero
+ * - `half-up`: to nearest, ties away from zero
+ * - `half-even`: to nearest, ties to the even neighbour
+ * - `exact`: throw instead of losing precision
+ */
+export type RoundingMode = 'down' | 'up' | 'half-up' | 'half-even' | 'exact';
+
+/**
+ * Raised when an amount cannot be represented without rounding in `exact` mode
+ */
+export class PrecisionLossError extends Error {
+  constructor(public readonly amount: string, public readonly decimals: number) {
+    super(`Amount ${amount} cannot be represented with ${decimals} decimals without rounding`);
+    this.name = 'PrecisionLossError';
+  }
+}
+
+const DECIMAL_PATTERN = /^(-)?(\d*)(?:\.(\d*))?$/;
+const TRAILING_ZEROS_PATTERN = /0+$/;
+
+/**
+ * Convert a human-readable decimal string ("1.25") to base units
+ */
+export function toBaseUnits(amount: string, decimals: number, rounding: RoundingMode = 'exact'): bigint {
+  assertDecimals(decimals);
+
+  const match = DECIMAL_PATTERN.exec(amount.trim());
+  if (!match || (!match[2] && !match[3])) {
+    throw new Error(`Invalid decimal amount: "${amount}"`);
+  }
+
+  const [, sign, whole = '', fraction = ''] = match;
+  const digits = BigInt((whole || '0') + fraction);
+  const value = divideRounded(digits * pow10(decimals), pow10(fraction.length), rounding, amount, decimals);
+  return sign ? -value : value;
+}
+
+/**
+ * Convert base units to an exact decimal string, without trailing zeros
+ */
+export function fromBaseUnits(amount: bigint | string, decimals: number): string {
+  assertDecimals(decimals);
+
+  const value = BigInt(amount);
+  const negative = value < 0n;
+  const digits = (negative ? -value : value).toString().padStart(decimals + 1, '0');
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(TRAILING_ZEROS_PATTERN, '');
+
+  return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+}
+
+/**
+ * Re-express base units of one precision in another
+ */
+export function rescaleAmount(
+  amount: bigint | string,
+  fromDecimals: number,
+  toDecimals: number,
+  rounding: RoundingMode = 'down'
+): bigint {
+  assertDecimals(fromDecimals);
+  assertDecimals(toDecimals);
+
+  const value = BigInt(amount);
+  if (toDecimals >= fromDecimals) {
+    return value * pow10(toDecimals - fromDecimals);
+  }
+
+  const divisor = pow10(fromDecimals - toDecimals);
+  const magnitude = divideRounded(value < 0n ? -value : value, divisor, rounding, value.toString(), toDecimals);
+  return value < 0n ? -magnitude : magnitude;
+}
+
+/**
+ * Convert an amount of one asset to the equivalent base units of another
+ * (e.g. 6-decimal USDC to an 18-decimal stablecoin)
+ */
+export function convertAmount(
+  amount: bigint | string,
+  from: Pick<UniversalAsset, 'decimals'>,
+  to: Pick<UniversalAsset, 'decimals'>,
+  rounding: RoundingMode = 'down'
+): bigint {
+  return rescaleAmount(amount, from.decimals, to.decimals, rounding);
+}
+
+/**
+ * Divide non-negative `numerator` by positive `denominator` with the given rounding
+ */
+function divideRounded(
+  numerator: bigint,
+  denominator: bigint,
+  rounding: RoundingMode,
+  amount: string,
+  decimals: number
+): bigint {
+  const quotient = numerator / denominator;
+  const remainder = numerator % denominator;
+  if (remainder === 0n) {
+    return quotient;
+  }
+
+  switch (rounding) {
+    case 'exact':
+      throw new PrecisionLossError(amount, decimals);
+    case 'down':
+      return quotient;
+    case 'up':
+      return quotient + 1n;
+    case 'half-up':
+      return remainder * 2n >= denominator ? quotient + 1n : quotient;
+    case 'half-even': {
+      const twice = remainder * 2n;
+      if (twice === denominator) {
+        return quotient % 2n === 0n ? quotient : quotient + 1n;
+      }
+      return twice > denominator ? quotient + 1n : quotient;
+    }
+    default:
+      throw new Error(`Unknown rounding mode: ${rounding}`);
+  }
+}
+
+function pow10(exponent: number): bigint {
+  return 10n ** BigInt(exponent);
+}
+
+function assertDecimals(decimals: number): void {
+  if (!Number.isInteger(decimals) || decimals < 0 || decimals > 255) {
+    throw new Error(`Decimals must be an integer between 0 and 255, got ${decimals}`);
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Raised when the API answers with a non-2xx status
+ */
+export class ApiError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+    public readonly body?: unknown,
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/**
+ * 429: the caller should wait `retryAfterMs` (when the API says) before retrying
+ */
+export class RateLimitedError extends ApiError {
+  constructor(message: string, body?: unknown, retryAfterMs?: number) {
+    super(429, message, body, retryAfterMs);
+    this.name = 'RateLimitedError';
+  }
+}
+
+/**
+ * 404 on an order endpoint: unknown order, or nothing ready for it yet
+ */
+export class OrderNotFoundError extends ApiError {
+  constructor(message: string, body?: unknown) {
+    super(404, message, body);
+    this.name = 'OrderNotFoundError';
+  }
+}
+
+/**
+ * 400/422: the request was rejected and must not be retried as-is
+ */
+export class ValidationError extends ApiError {
+  constructor(status: number, message: string, body?: unknown) {
+    super(status, message, body);
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * No response within the client's timeout
+ */
+export class ApiTimeoutError extends Error {
+  constructor(public readonly url: string, public readonly timeoutMs: number) {
+    super(`Request to ${url} timed out after ${timeoutMs}ms`);
+    this.name = 'ApiTimeoutError';
+  }
+}
+
+const ORDER_PATH_PATTERN = /\/orders?\b/;
+
+/**
+ * Build the typed error for a failed response
+ */
+export function createApiError(
+  status: number,
+  url: string,
+  body: unknown,
+  retryAfterMs?: number
+): ApiError {
+  const detail = describeErrorBody(body);
+  const message = `Request to ${url} failed with ${status}${detail ? `: ${detail}` : ''}`;
+
+  if (status === 429) {
+    return new RateLimitedError(message, body, retryAfterMs);
+  }
+  if (status === 404 && ORDER_PATH_PATTERN.test(new URL(url).pathname)) {
+    return new OrderNotFoundError(message, body);
+  }
+  if (status === 400 || status === 422) {
+    return new ValidationError(status, message, body);
+  }
+  return new ApiError(status, message, body, retryAfterMs);
+}
+
+/**
+ * 1inch APIs report errors as `{ error, description }`; others use `message`
+ */
+function describeErrorBody(body: unknown): string | undefined {
+  if (typeof body === 'string') {
+    return body || undefined;
+  }
+  if (body && typeof body === 'object') {
+    const { description, message, error } = body as Record<string, unknown>;
+    const detail = description ?? message ?? error;
+    return typeof detail === 'string' ? detail : undefined;
+  }
+  return undefined;
+}
@@ -1,6 +1,7 @@
 import { randomBytes } from 'crypto';
-import { solidityPackedKeccak256 } from 'ethers';
 import { HashLock } from '@1inch/cross-chain-sdk';
+import { rescaleAmount } from './amounts';
+import type { EscrowSide, Timelocks } from './timelocks';
 
 /**
  * Generate random 32-byte hex string with 0x prefix
@@ -19,11 +20,7 @@ export function generateSecretsAndHashLock(secretsCount: number) {
 
   const hashLock = secretsCount === 1
     ? HashLock.forSingleFill(secrets[0])
-    : HashLock.forMultipleFills(
-        secretHashes.map((secretHash, i) =>
-          solidityPackedKeccak256(['uint64', 'bytes32'], [i, secretHash.toString()])
-        )
-      );
+    : HashLock.forMultipleFills(HashLock.getMerkleLeavesFromSecretHashes(secretHashes));
 
   return {
     secrets,
@@ -40,7 +37,8 @@ export interface UniversalAsset {
   address: string;
   symbol: string;
   decimals: number;
-  standard: 'ERC20' | 'FA1.2' | 'FA2' | 'APTOS_COIN' | 'SUI_COIN' | 'NATIVE';
+  standard: 'ERC20' | 'FA1.2' | 'FA2' | 'APTOS_COIN' | 'APTOS_FA' | 'SUI_COIN' | 'NATIVE';
+  tokenId?: string; // FA2 token id within its contract
 }
 
 /**
@@ -53,7 +51,7 @@ export interface UniversalTxParams {
   gasLimit?: string;
   gasPrice?: string;
   nonce?: number;
-  chainSpecific?: Record<string, any>; // For chain-specific parameters
+  chainSpecific?: Record<string, unknown>; // For chain-specific parameters
 }
 
 /**
@@ -69,8 +67,20 @@ export enum OrderStatus {
   FAILED = 'failed'
 }
 
+/**
+ * How an order is settled
+ *
+ * - `fusion`: through the 1inch Fusion+ relayer and its resolvers (EVM chains only)
+ * - `htlc`: through the maker's own hash time-locked escrows on both chains,
+ *   with a counterparty resolver (see `IHtlcCounterparty`)
+ */
+export type OrderExecutionMode = 'fusion' | 'htlc';
+
 /**
  * Universal order interface for cross-chain fusion orders
+ *
+ * `receiver` is the maker's destination-chain address when it differs from
+ * `maker`; orders without a `mode` are `fusion` orders.
  */
 export interface UniversalOrder {
   orderHash: string;
@@ -81,13 +91,22 @@ export interface UniversalOrder {
   amount: string;
   minReturn: string;
   maker: string;
+  receiver?: string;
   taker?: string;
   deadline: number;
   status: OrderStatus;
+  statusHistory: OrderStatusTransition[];
   fills: OrderFill[];
-  secrets?: string[];
   secretHashes?: string[];
-  hashLock?: any;
+  /** Fusion+ hash lock, or the hex hash lock of an `htlc` order */
+  hashLock?: HashLock | string;
+  timelocks?: Timelocks;
+  /** Maker traits of the signed limit order, needed to cancel it (Fusion+ orders) */
+  makerTraits?: string;
+  /** Native deposit a resolver adds to each destination escrow (Fusion+ orders) */
+  dstSafetyDeposit?: string;
+  escrows?: OrderEscrow[];
+  mode?: OrderExecutionMode;
 }
 
 /**
@@ -101,6 +120,39 @@ export interface OrderFill {
   resolver: string;
 }
 
+/**
+ * Escrow deployed for a fill of an order
+ *
+ * `deployedAt` is the deployment block timestamp (unix seconds); `hashLock`
+ * is the secret hash the escrow is locked with, once known. `verifiedAt`
+ * and `rejection` record the maker's on-chain check of destination escrows.
+ */
+export interface OrderEscrow {
+  side: EscrowSide;
+  chainId: string | number;
+  address: string;
+  txHash: string;
+  deployedAt: number;
+  amount: string;
+  idx?: number;
+  hashLock?: string;
+  status: 'locked' | 'withdrawn' | 'refunded';
+  refundTxHash?: string;
+  verifiedAt?: number;
+  rejection?: string;
+}
+
+/**
+ * Recorded order status change; `rollback` marks changes undone by a chain reorg
+ */
+export interface OrderStatusTransition {
+  from: OrderStatus;
+  to: OrderStatus;
+  timestamp: number;
+  reason?: string;
+  rollback?: boolean;
+}
+
 /**
  * Validate order parameters before submission
  */
@@ -126,42 +178,20 @@ export function validateOrderParams(order: Partial<UniversalOrder>): boolean {
   return true;
 }
 
-/**
- * Calculate order hash for tracking
- */
-export function calculateOrderHash(order: Partial<UniversalOrder>): string {
-  const orderData = {
-    srcChain: order.srcChain,
-    dstChain: order.dstChain,
-    srcAsset: order.srcAsset?.address,
-    dstAsset: order.dstAsset?.address,
-    amount: order.amount,
-    maker: order.maker,
-    deadline: order.deadline
-  };
-
-  return solidityPackedKeccak256(
-    ['string'],
-    [JSON.stringify(orderData)]
-  );
-}
-
 /**
  * Format amount for different chain decimal systems
+ * (base units of `decimals` to 18-decimal base units)
  */
 export function formatAmount(amount: string, decimals: number): string {
-  const amountBN = BigInt(amount);
-  const divisor = BigInt(10 ** decimals);
-  return (amountBN * BigInt(10 ** 18) / divisor).toString();
+  return rescaleAmount(amount, decimals, 18).toString();
 }
 
 /**
  * Parse amount from different chain decimal systems
+ * (18-decimal base units to base units of `decimals`, rounded down)
  */
 export function parseAmount(amount: string, decimals: number): string {
-  const amountBN = BigInt(amount);
-  const multiplier = BigInt(10 ** decimals);
-  return (amountBN * multiplier / BigInt(10 ** 18)).toString();
+  return rescaleAmount(amount, 18, decimals).toString();
 }
 
 /**
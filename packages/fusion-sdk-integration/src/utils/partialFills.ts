@@ -0,0 +1,135 @@
+import { HashLock, type MerkleLeaf } from '@1inch/cross-chain-sdk';
+import { concat, keccak256, solidityPackedKeccak256 } from 'ethers';
+import type { OrderFill, UniversalOrder } from './fusionUtils';
+
+/**
+ * The top 16 bits of a multiple-fill hash lock hold the parts count, the rest the Merkle root
+ */
+const MERKLE_ROOT_MASK = (1n << 240n) - 1n;
+
+/**
+ * Raised when a fill does not match the secret the Fusion+ rules assign to it
+ */
+export class PartialFillError extends Error {
+  constructor(
+    public readonly idx: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'PartialFillError';
+  }
+}
+
+/**
+ * Merkle leaves of an order's secrets: keccak256(uint64 index, bytes32 secretHash)
+ */
+export function getSecretLeaves(secretHashes: string[]): MerkleLeaf[] {
+  return HashLock.getMerkleLeavesFromSecretHashes(secretHashes);
+}
+
+/**
+ * Proof that the secret hash at `idx` belongs to the order's hash lock
+ */
+export function getFillProof(secretHashes: string[], idx: number): MerkleLeaf[] {
+  if (!Number.isInteger(idx) || idx < 0 || idx >= secretHashes.length) {
+    throw new PartialFillError(idx, `Secret index ${idx} out of range (0-${secretHashes.length - 1})`);
+  }
+  return HashLock.getProof(getSecretLeaves(secretHashes), idx);
+}
+
+/**
+ * Check a Merkle proof against a multiple-fill hash lock
+ *
+ * Pairs are hashed in sorted order, as by the escrow factory and
+ * OpenZeppelin's SimpleMerkleTree.
+ */
+export function verifyFillProof(hashLock: string, idx: number, secretHash: string, proof: string[]): boolean {
+  const partsCount = BigInt(hashLock) >> 240n;
+  if (!Number.isInteger(idx) || idx < 0 || BigInt(idx) > partsCount) {
+    return false;
+  }
+
+  let node = solidityPackedKeccak256(['uint64', 'bytes32'], [idx, secretHash]);
+  for (const sibling of proof) {
+    node = BigInt(node) <= BigInt(sibling)
+      ? keccak256(concat([node, sibling]))
+      : keccak256(concat([sibling, node]));
+  }
+  return (BigInt(node) & MERKLE_ROOT_MASK) === (BigInt(hashLock) & MERKLE_ROOT_MASK);
+}
+
+/**
+ * Secret index that unlocks a fill of `fillAmount` after `filledAmount` of `totalAmount`
+ *
+ * With N secrets the order is split into N - 1 equal parts; a fill uses the
+ * secret of the part its cumulative amount ends in, and the fill that
+ * completes the order uses the extra, last secret. Single-secret orders
+ * always use index 0.
+ */
+export function getFillSecretIndex(
+  totalAmount: bigint,
+  filledAmount: bigint,
+  fillAmount: bigint,
+  secretsCount: number
+): number {
+  if (fillAmount <= 0n || filledAmount < 0n || filledAmount + fillAmount > totalAmount) {
+    throw new Error(`Invalid fill of ${fillAmount} after ${filledAmount} of ${totalAmount}`);
+  }
+  if (secretsCount < 2) {
+    return 0;
+  }
+
+  const parts = BigInt(secretsCount - 1);
+  const filledAfter = filledAmount + fillAmount;
+  const index = (filledAfter - 1n) * parts / totalAmount;
+  return Number(filledAfter === totalAmount ? index + 1n : index);
+}
+
+/**
+ * Making amount filled by the recorded fills
+ */
+export function getFilledAmount(order: UniversalOrder): bigint {
+  return order.fills.reduce((total, fill) => total + BigInt(fill.amount), 0n);
+}
+
+/**
+ * Check a fill before its secret is revealed
+ *
+ * Secrets are revealed in index order, each for the fill whose cumulative
+ * amount the Fusion+ rules assign it to; throws a `PartialFillError`
+ * otherwise. That the fill's escrows are locked under the secret's hash is
+ * left to `verifyDstEscrow`, which reads it from the destination chain.
+ */
+export function validateFillSecret(order: UniversalOrder, idx: number, fillAmount: bigint): void {
+  const secretHashes = order.secretHashes ?? [];
+  if (!Number.isInteger(idx) || idx < 0 || idx >= Math.max(secretHashes.length, 1)) {
+    throw new PartialFillError(idx, `Secret index ${idx} out of range for order ${order.orderHash}`);
+  }
+
+  const lastIdx = Math.max(-1, ...order.fills.map(fill => fill.idx));
+  if (idx <= lastIdx) {
+    throw new PartialFillError(idx, `Secret ${idx} is out of order: secret ${lastIdx} was already revealed`);
+  }
+
+  const filledAmount = getFilledAmount(order);
+  let expected: number;
+  try {
+    expected = getFillSecretIndex(BigInt(order.amount), filledAmount, fillAmount, secretHashes.length);
+  } catch (error) {
+    throw new PartialFillError(idx, `Fill ${idx} of order ${order.orderHash}: ${(error as Error).message}`);
+  }
+  if (idx !== expected) {
+    throw new PartialFillError(
+      idx,
+      `Fill of ${fillAmount} after ${filledAmount} of ${order.amount} unlocks secret ${expected}, not ${idx}`
+    );
+  }
+}
+
+/**
+ * Record a fill whose secret was revealed, keeping fills in index order
+ */
+export function recordFill(order: UniversalOrder, fill: OrderFill): void {
+  order.fills = [...order.fills.filter(existing => existing.idx !== fill.idx), fill]
+    .sort((a, b) => a.idx - b.idx);
+}
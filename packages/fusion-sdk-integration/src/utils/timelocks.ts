@@ -0,0 +1,226 @@
+import { TimeLocks } from '@1inch/cross-chain-sdk';
+
+/**
+ * Which escrow of a swap: `src` holds the maker's funds, `dst` the resolver's
+ */
+export type EscrowSide = 'src' | 'dst';
+
+/**
+ * Escrow stages, in order; `public_cancellation` exists on the source chain only
+ */
+export type EscrowStage =
+  | 'finality'
+  | 'private_withdrawal'
+  | 'public_withdrawal'
+  | 'private_cancellation'
+  | 'public_cancellation';
+
+/**
+ * Escrow actions
+ *
+ * `withdraw` and `cancel` are the taker's (the resolver that deployed the
+ * escrow); `publicWithdraw` and `publicCancel` are open to anyone.
+ */
+export type EscrowAction = 'withdraw' | 'publicWithdraw' | 'cancel' | 'publicCancel';
+
+/**
+ * Stage boundaries of both escrows, in seconds after each escrow's deployment
+ *
+ * Each value is the start of the named stage; the finality lock runs from
+ * deployment to `*Withdrawal`. Field names follow the escrow contracts.
+ */
+export interface Timelocks {
+  srcWithdrawal: number;
+  srcPublicWithdrawal: number;
+  srcCancellation: number;
+  srcPublicCancellation: number;
+  dstWithdrawal: number;
+  dstPublicWithdrawal: number;
+  dstCancellation: number;
+}
+
+/**
+ * Timelocks of one deployed escrow; `deployedAt` is its block timestamp
+ */
+export interface EscrowTimelocks {
+  side: EscrowSide;
+  timelocks: Timelocks;
+  deployedAt: number;
+}
+
+/**
+ * Start (inclusive) and end (exclusive, open-ended when unset) of a stage
+ */
+export interface StageWindow {
+  start: number;
+  end?: number;
+}
+
+/**
+ * Raised when an escrow action is attempted outside the stage that allows it
+ */
+export class TimelockError extends Error {
+  constructor(
+    public readonly action: EscrowAction,
+    public readonly stage: EscrowStage,
+    message: string
+  ) {
+    super(message);
+    this.name = 'TimelockError';
+  }
+}
+
+/**
+ * Conservative defaults for chains with a few minutes of finality
+ */
+export const DEFAULT_TIMELOCKS: Timelocks = {
+  srcWithdrawal: 120,
+  srcPublicWithdrawal: 1800,
+  srcCancellation: 3600,
+  srcPublicCancellation: 5400,
+  dstWithdrawal: 60,
+  dstPublicWithdrawal: 1500,
+  dstCancellation: 3000
+};
+
+const STAGE_PERMISSIONS: Record<EscrowStage, EscrowAction[]> = {
+  finality: [],
+  private_withdrawal: ['withdraw'],
+  public_withdrawal: ['withdraw', 'publicWithdraw'],
+  private_cancellation: ['cancel'],
+  public_cancellation: ['cancel', 'publicCancel']
+};
+
+/**
+ * Stage start offsets of one side, in stage order
+ */
+function getStageOffsets(timelocks: Timelocks, side: EscrowSide): [EscrowStage, number][] {
+  return side === 'src'
+    ? [
+      ['finality', 0],
+      ['private_withdrawal', timelocks.srcWithdrawal],
+      ['public_withdrawal', timelocks.srcPublicWithdrawal],
+      ['private_cancellation', timelocks.srcCancellation],
+      ['public_cancellation', timelocks.srcPublicCancellation]
+    ]
+    : [
+      ['finality', 0],
+      ['private_withdrawal', timelocks.dstWithdrawal],
+      ['public_withdrawal', timelocks.dstPublicWithdrawal],
+      ['private_cancellation', timelocks.dstCancellation]
+    ];
+}
+
+/**
+ * Check that stages are in order on each side and that the destination
+ * escrow becomes cancellable before the source one, so the resolver can
+ * always recover its funds before the maker can
+ */
+export function validateTimelocks(timelocks: Timelocks): void {
+  for (const side of ['src', 'dst'] as const) {
+    const offsets = getStageOffsets(timelocks, side);
+    for (let i = 1; i < offsets.length; i++) {
+      const [stage, offset] = offsets[i];
+      if (!Number.isInteger(offset) || offset <= offsets[i - 1][1]) {
+        throw new Error(`Invalid ${side} timelocks: ${stage} must start after ${offsets[i - 1][0]}, got ${offset}s`);
+      }
+    }
+  }
+
+  if (timelocks.dstCancellation >= timelocks.srcCancellation) {
+    throw new Error(
+      `Destination cancellation (${timelocks.dstCancellation}s) must start before source cancellation (${timelocks.srcCancellation}s)`
+    );
+  }
+}
+
+/**
+ * Stage of an escrow at `now` (unix seconds)
+ */
+export function getEscrowStage(escrow: EscrowTimelocks, now: number): EscrowStage {
+  const elapsed = now - escrow.deployedAt;
+  const reached = getStageOffsets(escrow.timelocks, escrow.side).filter(([, offset]) => elapsed >= offset).pop();
+  return reached ? reached[0] : 'finality';
+}
+
+/**
+ * Absolute window of a stage
+ */
+export function getStageWindow(escrow: EscrowTimelocks, stage: EscrowStage): StageWindow {
+  const offsets = getStageOffsets(escrow.timelocks, escrow.side);
+  const index = offsets.findIndex(([name]) => name === stage);
+  if (index === -1) {
+    throw new Error(`Stage ${stage} does not exist on the ${escrow.side} escrow`);
+  }
+
+  const next = offsets[index + 1];
+  return {
+    start: escrow.deployedAt + offsets[index][1],
+    end: next ? escrow.deployedAt + next[1] : undefined
+  };
+}
+
+/**
+ * Actions the escrow accepts at `now`
+ */
+export function getPermittedActions(escrow: EscrowTimelocks, now: number): EscrowAction[] {
+  return [...STAGE_PERMISSIONS[getEscrowStage(escrow, now)]];
+}
+
+export function isActionPermitted(escrow: EscrowTimelocks, action: EscrowAction, now: number): boolean {
+  return STAGE_PERMISSIONS[getEscrowStage(escrow, now)].includes(action);
+}
+
+/**
+ * Throw a `TimelockError` naming the allowed window when `action` is not permitted at `now`
+ */
+export function assertActionPermitted(escrow: EscrowTimelocks, action: EscrowAction, now: number): void {
+  if (isActionPermitted(escrow, action, now)) {
+    return;
+  }
+
+  const stage = getEscrowStage(escrow, now);
+  const allowed = getStageOffsets(escrow.timelocks, escrow.side)
+    .filter(([name]) => STAGE_PERMISSIONS[name].includes(action))
+    .map(([name]) => getStageWindow(escrow, name));
+
+  const last = allowed.at(-1);
+  const window = last
+    ? `allowed from ${allowed[0].start}${last.end !== undefined ? ` until ${last.end}` : ''}`
+    : `never allowed on the ${escrow.side} escrow`;
+  throw new TimelockError(action, stage, `Cannot ${action} ${escrow.side} escrow during ${stage} at ${now}: ${window}`);
+}
+
+/**
+ * Convert to the 1inch SDK's packed representation
+ */
+export function toSdkTimeLocks(timelocks: Timelocks): TimeLocks {
+  return TimeLocks.new({
+    srcWithdrawal: BigInt(timelocks.srcWithdrawal),
+    srcPublicWithdrawal: BigInt(timelocks.srcPublicWithdrawal),
+    srcCancellation: BigInt(timelocks.srcCancellation),
+    srcPublicCancellation: BigInt(timelocks.srcPublicCancellation),
+    dstWithdrawal: BigInt(timelocks.dstWithdrawal),
+    dstPublicWithdrawal: BigInt(timelocks.dstPublicWithdrawal),
+    dstCancellation: BigInt(timelocks.dstCancellation)
+  });
+}
+
+/**
+ * Read the stage offsets out of the 1inch SDK's representation
+ *
+ * Packed as 32-bit offsets from the least significant bits, in field order.
+ */
+export function fromSdkTimeLocks(timeLocks: TimeLocks): Timelocks {
+  const packed = timeLocks.build();
+  const offset = (index: number): number => Number((packed >> BigInt(index * 32)) & 0xffffffffn);
+  return {
+    srcWithdrawal: offset(0),
+    srcPublicWithdrawal: offset(1),
+    srcCancellation: offset(2),
+    srcPublicCancellation: offset(3),
+    dstWithdrawal: offset(4),
+    dstPublicWithdrawal: offset(5),
+    dstCancellation: offset(6)
+  };
+}